@@ -0,0 +1,33 @@
+import { MockFacilitator } from '../src/mocks/mock-facilitator';
+
+/**
+ * Run the mock x402 facilitator locally
+ *
+ * Point the backend at it with:
+ *   X402_FACILITATOR_URL=http://localhost:4020
+ *
+ * Optional failures (also switchable at runtime via PUT /mock/failures):
+ *   MOCK_FACILITATOR_FAIL_VERIFY=<invalidReason>
+ *   MOCK_FACILITATOR_FAIL_SETTLE=<error>
+ *   MOCK_FACILITATOR_UNAVAILABLE=true
+ */
+const PORT = parseInt(process.env.MOCK_FACILITATOR_PORT || '4020');
+
+const facilitator = new MockFacilitator();
+
+facilitator.setFailures({
+  verify: process.env.MOCK_FACILITATOR_FAIL_VERIFY || undefined,
+  settle: process.env.MOCK_FACILITATOR_FAIL_SETTLE || undefined,
+  unavailable: process.env.MOCK_FACILITATOR_UNAVAILABLE === 'true',
+});
+
+facilitator.app.listen(PORT, () => {
+  console.log('🧪 Mock x402 facilitator');
+  console.log(`📡 Listening on: http://localhost:${PORT}`);
+  console.log('   POST /v2/x402/verify');
+  console.log('   POST /v2/x402/settle');
+  console.log('   GET  /v2/x402/supported');
+  console.log('   PUT  /mock/failures');
+  console.log('   GET  /mock/settlements');
+  console.log('Failures:', JSON.stringify(facilitator.getFailures()));
+});
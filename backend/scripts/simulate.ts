@@ -0,0 +1,43 @@
+import fs from 'fs';
+import {
+  createSampleScenario,
+  formatStrategyResult,
+  parseScenario,
+  simulateStrategies,
+} from '../src/agent/simulator';
+
+/**
+ * Backtest the decision strategies against a cash-flow timeline
+ *
+ *   npm run simulate                    # built-in sample scenario
+ *   npm run simulate -- scenario.json   # your own (see parseScenario)
+ */
+function main() {
+  const file = process.argv[2];
+  const scenario = file ? parseScenario(JSON.parse(fs.readFileSync(file, 'utf8'))) : createSampleScenario();
+
+  console.log('🧮 Strategy simulation');
+  console.log(`Scenario: ${file ?? 'built-in sample'} (${scenario.durationHours} hours)\n`);
+
+  const results = simulateStrategies(scenario).map(formatStrategyResult);
+
+  console.table(
+    results.map((result) => ({
+      strategy: result.strategy,
+      'total saved': result.totalSaved,
+      saves: result.saveCount,
+      'buffer breaches': result.bufferBreaches,
+      'hours below buffer': result.hoursBelowBuffer,
+      'weekly goal hit': `${(result.weeklyGoalHitRate * 100).toFixed(0)}% (${result.weeksGoalHit}/${result.weeksEvaluated})`,
+      'max drawdown': `${result.maxDrawdown} (${(result.maxDrawdownPercentage * 100).toFixed(1)}%)`,
+      'final wallet': result.finalWalletBalance,
+    }))
+  );
+}
+
+try {
+  main();
+} catch (error: any) {
+  console.error('❌ Simulation failed:', error.message);
+  process.exit(1);
+}
@@ -0,0 +1,184 @@
+import axios from 'axios';
+import { config } from '../config/env';
+import { DecisionContext, SaveDecision, UserFinancialState } from './types';
+
+/**
+ * What the advisor sees: the rule-based decision and its inputs
+ */
+export interface AdvisorInput {
+  state: UserFinancialState;
+  context: DecisionContext;
+  decision: SaveDecision;
+}
+
+/**
+ * What an advisor may change
+ * Never shouldSave or amount: those stay with the rules.
+ */
+export interface AdvisorOutput {
+  reason: string;
+  confidence: number;            // 0-1
+}
+
+/**
+ * Second opinion on a rule-based decision
+ */
+export interface Advisor {
+  readonly name: string;
+  advise(input: AdvisorInput): Promise<AdvisorOutput>;
+}
+
+/**
+ * Error for advisor output that doesn't match the schema
+ */
+export class AdvisorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdvisorError';
+  }
+}
+
+export const MAX_ADVISOR_REASON_LENGTH = 500;
+
+/**
+ * Validate raw advisor output
+ *
+ * @throws AdvisorError
+ */
+export function parseAdvisorOutput(raw: unknown): AdvisorOutput {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new AdvisorError('Advisor output must be an object');
+  }
+
+  const { reason, confidence } = raw as Record<string, unknown>;
+
+  if (typeof reason !== 'string' || reason.trim() === '' || reason.length > MAX_ADVISOR_REASON_LENGTH) {
+    throw new AdvisorError(`reason must be a non-empty string of at most ${MAX_ADVISOR_REASON_LENGTH} characters`);
+  }
+
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    throw new AdvisorError('confidence must be a number between 0 and 1');
+  }
+
+  return { reason: reason.trim(), confidence };
+}
+
+/**
+ * Advisor input as plain JSON (bigints as decimal strings)
+ */
+export function serializeAdvisorInput(input: AdvisorInput): Record<string, unknown> {
+  return JSON.parse(
+    JSON.stringify(input, (key, value) => (typeof value === 'bigint' ? value.toString() : value))
+  );
+}
+
+/**
+ * StubAdvisor
+ *
+ * Deterministic, offline advisor for tests and local development.
+ * Pass `respond` to script its raw output (including invalid output).
+ */
+export class StubAdvisor implements Advisor {
+  readonly name = 'stub';
+
+  constructor(private readonly respond?: (input: AdvisorInput) => unknown) {}
+
+  async advise(input: AdvisorInput): Promise<AdvisorOutput> {
+    if (this.respond) {
+      return parseAdvisorOutput(await this.respond(input));
+    }
+
+    const { decision } = input;
+    return parseAdvisorOutput({
+      reason: `${decision.shouldSave ? 'Save' : 'Skip'} (${decision.urgency} urgency): ${decision.reason}`,
+      confidence: decision.confidence,
+    });
+  }
+}
+
+export interface HttpAdvisorOptions {
+  baseUrl: string;               // e.g. https://api.openai.com/v1
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+}
+
+const ADVISOR_SYSTEM_PROMPT = [
+  'You review automated savings decisions for a USDC savings vault.',
+  'You are given the user\'s financial state, their settings and a rule-based decision.',
+  'You cannot change whether to save or the amount.',
+  'Explain the decision to the user in one or two plain sentences and rate your confidence in it.',
+  'Amounts are in the smallest unit (6 decimals).',
+  'Reply with JSON only: {"reason": string, "confidence": number between 0 and 1}.',
+].join(' ');
+
+/**
+ * HttpAdvisor
+ *
+ * Asks any OpenAI-compatible /chat/completions endpoint for the
+ * reason and confidence, in JSON mode.
+ */
+export class HttpAdvisor implements Advisor {
+  readonly name: string;
+  private options: HttpAdvisorOptions;
+
+  constructor(options: Partial<HttpAdvisorOptions> = {}) {
+    this.options = {
+      baseUrl: (options.baseUrl || config.advisorUrl).replace(/\/+$/, ''),
+      apiKey: options.apiKey ?? config.advisorApiKey,
+      model: options.model || config.advisorModel,
+      timeoutMs: options.timeoutMs || config.advisorTimeoutMs,
+    };
+    this.name = `http:${this.options.model}`;
+  }
+
+  async advise(input: AdvisorInput): Promise<AdvisorOutput> {
+    const response = await axios.post(
+      `${this.options.baseUrl}/chat/completions`,
+      {
+        model: this.options.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: ADVISOR_SYSTEM_PROMPT },
+          { role: 'user', content: JSON.stringify(serializeAdvisorInput(input)) },
+        ],
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+        },
+        timeout: this.options.timeoutMs,
+      }
+    );
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new AdvisorError('Advisor response has no message content');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new AdvisorError('Advisor message is not valid JSON');
+    }
+
+    return parseAdvisorOutput(parsed);
+  }
+}
+
+/**
+ * Advisor selected by ADVISOR_PROVIDER ('none', 'stub' or 'http')
+ */
+export function createAdvisor(provider: string = config.advisorProvider): Advisor | null {
+  switch (provider) {
+    case 'stub':
+      return new StubAdvisor();
+    case 'http':
+      return new HttpAdvisor();
+    default:
+      return null;
+  }
+}
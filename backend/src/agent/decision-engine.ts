@@ -1,4 +1,103 @@
-import { UserFinancialState, SaveDecision, DecisionStrategy, DecisionContext } from './types';
+import {
+  UserFinancialState,
+  SaveDecision,
+  DecisionStrategy,
+  DecisionContext,
+  DecideOptions,
+  DecisionTrace,
+  AmountCapTrace,
+  PotAllocation,
+  PotPriority,
+  SavingsPotTarget,
+} from './types';
+import { Advisor } from './advisor';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Pot weights: priority, times up to 4x deadline pressure
+const PRIORITY_WEIGHTS: Record<PotPriority, bigint> = { high: 3000n, medium: 2000n, low: 1000n };
+const DEADLINE_PRESSURE_DAYS = 30;   // 2x at 30 days left, 4x at 10 or fewer
+const MAX_DEADLINE_PRESSURE = 3;
+
+/**
+ * Where a user stands against their GOAL_DRIVEN target
+ */
+interface GoalProgress {
+  remaining: bigint;             // Target minus current savings
+  savesLeft: number;             // Saves possible before the deadline (one per 24h)
+  requiredPerSave: bigint;       // Amount per save to hit the target on time
+  paceRatio: number;             // requiredPerSave vs the weekly goal's daily pace (>1 = behind)
+  daysLeft: number;
+}
+
+/**
+ * Default decision context
+ * Used for users who haven't stored their own preferences.
+ */
+export const DEFAULT_DECISION_CONTEXT: DecisionContext = {
+  strategy: DecisionStrategy.BALANCED,
+  minSaveAmount: BigInt(1_000_000), // 1 USDC
+  maxSavePercentage: 0.5, // 50% of available
+};
+
+/**
+ * Weight of a pot in a split
+ * Priority (high 3, medium 2, low 1), scaled by 1 + min(3, 30 / days left)
+ * for pots with a deadline, so a pot due soon pulls harder.
+ */
+function potWeight(pot: SavingsPotTarget, nowMs: number): bigint {
+  const base = PRIORITY_WEIGHTS[pot.priority];
+  if (pot.deadline === undefined) {
+    return base;
+  }
+
+  const daysLeft = Math.max(1, (pot.deadline - nowMs / 1000) / SECONDS_PER_DAY);
+  const pressure = 1 + Math.min(MAX_DEADLINE_PRESSURE, DEADLINE_PRESSURE_DAYS / daysLeft);
+  return (base * BigInt(Math.round(pressure * 1000))) / 1000n;
+}
+
+/**
+ * Split a save across the user's pots
+ * Each open pot gets a share by weight, never more than it still needs;
+ * what a full pot can't take is shared among the rest. Rounding dust goes
+ * to the heaviest pot, and anything left once every pot is full stays as
+ * general savings (not allocated). Pots keep their order; pots getting
+ * nothing are left out.
+ */
+export function splitAcrossPots(amount: bigint, pots: SavingsPotTarget[], nowMs: number): PotAllocation[] {
+  const shares = pots
+    .filter((pot) => pot.savedAmount < pot.targetAmount)
+    .map((pot) => ({ pot, weight: potWeight(pot, nowMs), room: pot.targetAmount - pot.savedAmount, amount: 0n }));
+
+  let left = amount;
+
+  while (left > 0n) {
+    const open = shares.filter((share) => share.amount < share.room);
+    if (open.length === 0) break;
+
+    const totalWeight = open.reduce((total, share) => total + share.weight, 0n);
+    let given = 0n;
+
+    for (const share of open) {
+      const portion = (left * share.weight) / totalWeight;
+      const taken = portion < share.room - share.amount ? portion : share.room - share.amount;
+      share.amount += taken;
+      given += taken;
+    }
+
+    if (given === 0n) {
+      const heaviest = open.reduce((top, share) => (share.weight > top.weight ? share : top));
+      given = left < heaviest.room - heaviest.amount ? left : heaviest.room - heaviest.amount;
+      heaviest.amount += given;
+    }
+
+    left -= given;
+  }
+
+  return shares
+    .filter((share) => share.amount > 0n)
+    .map((share) => ({ potId: share.pot.id, name: share.pot.name, amount: share.amount }));
+}
 
 /**
  * DecisionEngine
@@ -6,79 +105,128 @@ import { UserFinancialState, SaveDecision, DecisionStrategy, DecisionContext } f
  * AI-powered decision maker for automated savings.
  * 
  * Decision Factors:
- * 1. Available funds (wallet balance - safety buffer)
- * 2. Progress toward weekly goal
+ * 1. Available funds (wallet balance - safety buffer, or the projected
+ *    minimum balance when upcoming bills are forecast)
+ * 2. Progress toward weekly goal (this week's saves, when known)
  * 3. Time since last save
- * 4. Trust mode (AUTO only)
+ * 4. Trust mode (AUTO, or MANUAL when proposing for approval)
  * 5. Rate limits
  * 
  * Strategies:
  * - CONSERVATIVE: Only save when 2x safety buffer available
  * - BALANCED: Save when comfortable margin exists
  * - AGGRESSIVE: Save maximum possible while respecting buffer
+ * - GOAL_DRIVEN: Pace saves to reach a target total by a deadline
+ *
+ * A save is split across the user's pots (named goals), see splitAcrossPots.
  */
 export class DecisionEngine {
   private context: DecisionContext;
+  private verbose: boolean;
+  private now: () => number;
+  private advisor: Advisor | null;
+
+  /**
+   * @param options.verbose - Log each analysis to the console (default true;
+   *   the simulator turns it off)
+   * @param options.now - Clock in ms, used for goal deadlines (default Date.now)
+   * @param options.advisor - Consulted by decideWithAdvisor() for the reason
+   *   and confidence
+   */
+  constructor(
+    context?: Partial<DecisionContext>,
+    options: { verbose?: boolean; now?: () => number; advisor?: Advisor | null } = {}
+  ) {
+    this.verbose = options.verbose ?? true;
+    this.now = options.now ?? Date.now;
+    this.advisor = options.advisor ?? null;
 
-  constructor(context?: Partial<DecisionContext>) {
-    // Default decision context
     this.context = {
-      strategy: context?.strategy || DecisionStrategy.BALANCED,
-      minSaveAmount: context?.minSaveAmount || BigInt(1_000_000), // 1 USDC
-      maxSavePercentage: context?.maxSavePercentage || 0.5, // 50% of available
+      strategy: context?.strategy || DEFAULT_DECISION_CONTEXT.strategy,
+      minSaveAmount: context?.minSaveAmount || DEFAULT_DECISION_CONTEXT.minSaveAmount,
+      maxSavePercentage: context?.maxSavePercentage || DEFAULT_DECISION_CONTEXT.maxSavePercentage,
+      goal: context?.goal,
+      pots: context?.pots,
     };
   }
 
   /**
    * Main decision function
-   * Analyzes user's financial state and returns save decision
+   * Analyzes user's financial state and returns save decision,
+   * with a trace of the rules that produced it
    */
-  decide(state: UserFinancialState): SaveDecision {
-    console.log('\n🧠 Decision Engine Analysis');
-    console.log('================================');
+  decide(state: UserFinancialState, options: DecideOptions = {}): SaveDecision {
+    this.log('\n🧠 Decision Engine Analysis');
+    this.log('================================');
+
+    const trace: DecisionTrace = { preChecks: [], decidedBy: 'strategy' };
 
     // Pre-checks: Basic requirements
-    const preCheckResult = this.preChecks(state);
+    const preCheckResult = this.preChecks(state, trace, options);
     if (!preCheckResult.shouldSave) {
-      return preCheckResult;
+      return { ...preCheckResult, trace };
     }
 
     // Calculate available funds
     const availableFunds = this.calculateAvailableFunds(state);
-    console.log(`💰 Available funds: ${this.formatUsdc(availableFunds)} USDC`);
+    this.log(`💰 Available funds: ${this.formatUsdc(availableFunds)} USDC`);
+
+    trace.availableFunds = {
+      walletBalance: state.walletBalance,
+      spendableBalance: this.spendableBalance(state),
+      safetyBuffer: state.safetyBuffer,
+      available: availableFunds,
+      minSaveAmount: this.context.minSaveAmount,
+    };
 
     // Not enough to save
     if (availableFunds < this.context.minSaveAmount) {
+      const forecastNote = this.spendableBalance(state) < state.walletBalance
+        ? ` - upcoming bills are projected to take the wallet down to ${this.formatUsdc(this.spendableBalance(state))} USDC`
+        : '';
+
+      trace.decidedBy = 'available_funds_below_minimum';
       return {
         shouldSave: false,
         amount: 0n,
-        reason: `Available funds (${this.formatUsdc(availableFunds)} USDC) below minimum (${this.formatUsdc(this.context.minSaveAmount)} USDC)`,
+        reason: `Available funds (${this.formatUsdc(availableFunds)} USDC) below minimum (${this.formatUsdc(this.context.minSaveAmount)} USDC)${forecastNote}`,
         confidence: 1.0,
         urgency: 'low',
+        trace,
       };
     }
 
     // Calculate optimal save amount based on strategy
-    const optimalAmount = this.calculateOptimalAmount(state, availableFunds);
-    console.log(`📊 Optimal amount: ${this.formatUsdc(optimalAmount)} USDC`);
+    const optimalAmount = this.calculateOptimalAmount(state, availableFunds, trace);
+    this.log(`📊 Optimal amount: ${this.formatUsdc(optimalAmount)} USDC`);
 
     // Calculate urgency
     const urgency = this.calculateUrgency(state, optimalAmount);
 
     // Calculate confidence
-    const confidence = this.calculateConfidence(state, availableFunds, optimalAmount);
+    const confidence = this.calculateConfidence(state, availableFunds, optimalAmount, trace);
 
     // Final decision
     const shouldSave = optimalAmount >= this.context.minSaveAmount;
+    const allocations = shouldSave && this.context.pots?.length
+      ? splitAcrossPots(optimalAmount, this.context.pots, this.now())
+      : [];
+    const weeklyGoalMet = !shouldSave && trace.amount!.boundBy === 'weekly_goal' && state.remainingThisWeek === 0n;
     const reason = shouldSave
-      ? this.buildSaveReason(state, optimalAmount, availableFunds)
-      : 'Amount too small to save';
+      ? this.buildSaveReason(state, optimalAmount, availableFunds, allocations)
+      : weeklyGoalMet
+        ? `Weekly goal already reached this week (${this.formatUsdc(state.savedThisWeek ?? 0n)} USDC saved)`
+        : 'Amount too small to save';
+
+    trace.decidedBy = shouldSave
+      ? `strategy:${trace.amount!.boundBy}`
+      : weeklyGoalMet ? 'weekly_goal_reached' : 'amount_below_minimum';
 
-    console.log(`✅ Decision: ${shouldSave ? 'SAVE' : 'SKIP'}`);
-    console.log(`📝 Reason: ${reason}`);
-    console.log(`🎯 Confidence: ${(confidence * 100).toFixed(0)}%`);
-    console.log(`⚡ Urgency: ${urgency}`);
-    console.log('');
+    this.log(`✅ Decision: ${shouldSave ? 'SAVE' : 'SKIP'}`);
+    this.log(`📝 Reason: ${reason}`);
+    this.log(`🎯 Confidence: ${(confidence * 100).toFixed(0)}%`);
+    this.log(`⚡ Urgency: ${urgency}`);
+    this.log('');
 
     return {
       shouldSave,
@@ -86,42 +234,80 @@ export class DecisionEngine {
       reason,
       confidence,
       urgency,
+      trace,
+      allocations: allocations.length > 0 ? allocations : undefined,
     };
   }
 
   /**
-   * Pre-flight checks
-   * Validates basic requirements before analysis
+   * Rule-based decision, then the advisor's reason and confidence
+   * The advisor can't change shouldSave or amount, so preChecks and the
+   * safety buffer still decide. Any advisor error keeps the rule-based result.
    */
-  private preChecks(state: UserFinancialState): SaveDecision {
-    // Check 1: Account must be active
-    if (!state.isActive) {
-      return {
-        shouldSave: false,
-        amount: 0n,
-        reason: 'Account is not active',
-        confidence: 1.0,
-        urgency: 'low',
-      };
+  async decideWithAdvisor(state: UserFinancialState, options: DecideOptions = {}): Promise<SaveDecision> {
+    const decision = this.decide(state, options);
+    if (!this.advisor) {
+      return decision;
     }
 
-    // Check 2: Must be in AUTO mode
-    if (state.trustMode !== 'AUTO') {
+    try {
+      const advice = await this.advisor.advise({ state, context: this.getContext(), decision });
+      this.log(`🗣️  Advisor (${this.advisor.name}): ${advice.reason}`);
+
       return {
-        shouldSave: false,
-        amount: 0n,
-        reason: 'Account is in MANUAL mode - requires user approval',
-        confidence: 1.0,
-        urgency: 'low',
+        ...decision,
+        reason: advice.reason,
+        confidence: advice.confidence,
+        advisor: this.advisor.name,
       };
+    } catch (error: any) {
+      console.warn(`⚠️  Advisor ${this.advisor.name} failed, using rule-based decision:`, error.message);
+      return decision;
     }
+  }
 
-    // Check 3: Must pass rate limit
-    if (!state.canAutoSave) {
+  /**
+   * Pre-flight checks
+   * Validates basic requirements before analysis
+   * Every check is traced; the first failing one decides.
+   */
+  private preChecks(state: UserFinancialState, trace: DecisionTrace, options: DecideOptions): SaveDecision {
+    const modeAllowed = state.trustMode === 'AUTO' || options.forApproval === true;
+
+    trace.preChecks = [
+      // Check 1: Account must be active
+      {
+        check: 'account_active',
+        passed: state.isActive,
+        detail: state.isActive ? 'Account is active' : 'Account is not active',
+      },
+      // Check 2: Must be in AUTO mode, unless the save goes to the user for approval
+      {
+        check: 'auto_mode',
+        passed: modeAllowed,
+        detail: state.trustMode === 'AUTO'
+          ? 'Account is in AUTO mode'
+          : modeAllowed
+            ? 'Account is in MANUAL mode - proposing the save for user approval'
+            : 'Account is in MANUAL mode - requires user approval',
+      },
+      // Check 3: Must pass rate limit
+      {
+        check: 'rate_limit',
+        passed: state.canAutoSave,
+        detail: state.canAutoSave
+          ? 'Rate limit passed'
+          : 'Rate limit not met - must wait 24 hours between saves',
+      },
+    ];
+
+    const failed = trace.preChecks.find((check) => !check.passed);
+    if (failed) {
+      trace.decidedBy = `pre_check:${failed.check}`;
       return {
         shouldSave: false,
         amount: 0n,
-        reason: 'Rate limit not met - must wait 24 hours between saves',
+        reason: failed.detail,
         confidence: 1.0,
         urgency: 'low',
       };
@@ -140,16 +326,42 @@ export class DecisionEngine {
   /**
    * Calculate available funds
    * Funds available = wallet balance - safety buffer
+   * With a forecast, the projected minimum balance is used instead so
+   * money needed for an upcoming bill isn't saved right before it's due.
    */
   private calculateAvailableFunds(state: UserFinancialState): bigint {
-    const available = state.walletBalance - state.safetyBuffer;
+    const available = this.spendableBalance(state) - state.safetyBuffer;
     return available > 0n ? available : 0n;
   }
 
+  /**
+   * Helper: Wallet balance, lowered to the projected minimum if one is known
+   */
+  private spendableBalance(state: UserFinancialState): bigint {
+    return state.projectedMinBalance !== undefined && state.projectedMinBalance < state.walletBalance
+      ? state.projectedMinBalance
+      : state.walletBalance;
+  }
+
   /**
    * Calculate optimal save amount based on strategy
+   * Each strategy lists its caps; the smallest one sets the amount.
    */
-  private calculateOptimalAmount(state: UserFinancialState, availableFunds: bigint): bigint {
+  private calculateOptimalAmount(state: UserFinancialState, availableFunds: bigint, trace: DecisionTrace): bigint {
+    const caps = this.getStrategyCaps(state, availableFunds);
+    const binding = caps.reduce((lowest, cap) => (cap.value < lowest.value ? cap : lowest));
+
+    trace.amount = {
+      strategy: this.context.strategy,
+      caps,
+      boundBy: binding.cap,
+      amount: binding.value,
+    };
+
+    return binding.value;
+  }
+
+  private getStrategyCaps(state: UserFinancialState, availableFunds: bigint): AmountCapTrace[] {
     switch (this.context.strategy) {
       case DecisionStrategy.CONSERVATIVE:
         return this.conservativeStrategy(state, availableFunds);
@@ -160,6 +372,9 @@ export class DecisionEngine {
       case DecisionStrategy.AGGRESSIVE:
         return this.aggressiveStrategy(state, availableFunds);
       
+      case DecisionStrategy.GOAL_DRIVEN:
+        return this.goalDrivenStrategy(state, availableFunds);
+      
       default:
         return this.balancedStrategy(state, availableFunds);
     }
@@ -170,16 +385,22 @@ export class DecisionEngine {
    * Only save when we have 2x safety buffer
    * Save up to 25% of available funds or weekly goal, whichever is smaller
    */
-  private conservativeStrategy(state: UserFinancialState, availableFunds: bigint): bigint {
+  private conservativeStrategy(state: UserFinancialState, availableFunds: bigint): AmountCapTrace[] {
     // Need at least 2x safety buffer to feel comfortable
     const comfortableThreshold = state.safetyBuffer * 2n;
-    if (state.walletBalance < comfortableThreshold) {
-      return 0n;
+    if (this.spendableBalance(state) < comfortableThreshold) {
+      return [{
+        cap: 'buffer_threshold',
+        value: 0n,
+        detail: `Wallet below 2x safety buffer (${this.formatUsdc(comfortableThreshold)} USDC)`,
+      }];
     }
 
     // Save up to 25% of available or weekly goal
-    const maxAmount = (availableFunds * 25n) / 100n;
-    return this.min(maxAmount, state.weeklyGoal);
+    return [
+      { cap: 'percentage', value: (availableFunds * 25n) / 100n, detail: '25% of available funds' },
+      this.weeklyGoalCap(state),
+    ];
   }
 
   /**
@@ -187,15 +408,22 @@ export class DecisionEngine {
    * Save when above safety buffer
    * Save up to 50% of available funds or weekly goal
    */
-  private balancedStrategy(state: UserFinancialState, availableFunds: bigint): bigint {
-    // Calculate max we're willing to save (50% of available)
-    const maxFromPercentage = (availableFunds * BigInt(this.context.maxSavePercentage * 100)) / 100n;
-    
-    // Don't exceed weekly goal
-    const maxAmount = this.min(maxFromPercentage, state.weeklyGoal);
-    
-    // Don't save more than available
-    return this.min(maxAmount, availableFunds);
+  private balancedStrategy(state: UserFinancialState, availableFunds: bigint): AmountCapTrace[] {
+    // Whole percent: 0.57 * 100 is 56.99999999999999, which BigInt() rejects
+    const percentage = Math.round(this.context.maxSavePercentage * 100);
+
+    return [
+      // Calculate max we're willing to save (50% of available)
+      {
+        cap: 'percentage',
+        value: (availableFunds * BigInt(percentage)) / 100n,
+        detail: `${percentage}% of available funds`,
+      },
+      // Don't exceed weekly goal
+      this.weeklyGoalCap(state),
+      // Don't save more than available
+      { cap: 'available_funds', value: availableFunds, detail: 'All funds above the safety buffer' },
+    ];
   }
 
   /**
@@ -203,12 +431,94 @@ export class DecisionEngine {
    * Save maximum possible while respecting safety buffer
    * Can save up to 80% of available funds
    */
-  private aggressiveStrategy(state: UserFinancialState, availableFunds: bigint): bigint {
-    // Save up to 80% of available
-    const maxAmount = (availableFunds * 80n) / 100n;
-    
-    // But cap at weekly goal
-    return this.min(maxAmount, state.weeklyGoal);
+  private aggressiveStrategy(state: UserFinancialState, availableFunds: bigint): AmountCapTrace[] {
+    return [
+      // Save up to 80% of available
+      { cap: 'percentage', value: (availableFunds * 80n) / 100n, detail: '80% of available funds' },
+      // But cap at weekly goal
+      this.weeklyGoalCap(state),
+    ];
+  }
+
+  /**
+   * Goal-Driven Strategy
+   * Save what's needed per save to reach the target by the deadline
+   * On track: capped at maxSavePercentage of available funds
+   * Behind schedule: up to all available funds (never the safety buffer)
+   * Like the other strategies, never more than the weekly goal left this week
+   * Without a goal, or once it's reached, behaves like BALANCED
+   */
+  private goalDrivenStrategy(state: UserFinancialState, availableFunds: bigint): AmountCapTrace[] {
+    const progress = this.getGoalProgress(state);
+    if (!progress) {
+      this.log('🎯 No open goal - using balanced strategy');
+      return this.balancedStrategy(state, availableFunds);
+    }
+
+    this.log(
+      `🎯 Goal: ${this.formatUsdc(progress.remaining)} USDC to go in ${progress.savesLeft} saves ` +
+      `(${this.formatUsdc(progress.requiredPerSave)} USDC each, pace ${progress.paceRatio.toFixed(2)}x)`
+    );
+
+    const percentage = Math.round(this.context.maxSavePercentage * 100);
+
+    return [
+      {
+        cap: 'goal_pace',
+        value: progress.requiredPerSave,
+        detail: `${this.formatUsdc(progress.remaining)} USDC to go in ${progress.savesLeft} saves`,
+      },
+      progress.paceRatio > 1
+        ? { cap: 'available_funds', value: availableFunds, detail: 'Behind schedule: all funds above the safety buffer' }
+        : { cap: 'percentage', value: (availableFunds * BigInt(percentage)) / 100n, detail: `${percentage}% of available funds` },
+      this.weeklyGoalCap(state),
+    ];
+  }
+
+  /**
+   * Helper: Weekly goal as an amount cap
+   * What's left of it this week when this week's saves are known, so
+   * several saves in one week never add up to more than the goal.
+   */
+  private weeklyGoalCap(state: UserFinancialState): AmountCapTrace {
+    if (state.remainingThisWeek === undefined) {
+      return { cap: 'weekly_goal', value: state.weeklyGoal, detail: 'Weekly goal' };
+    }
+
+    return {
+      cap: 'weekly_goal',
+      value: state.remainingThisWeek,
+      detail: `Weekly goal left this week (${this.formatUsdc(state.savedThisWeek ?? 0n)} of ${this.formatUsdc(state.weeklyGoal)} USDC saved)`,
+    };
+  }
+
+  /**
+   * Progress toward the GOAL_DRIVEN target
+   * Null without a goal or once it's reached.
+   */
+  private getGoalProgress(state: UserFinancialState): GoalProgress | null {
+    const goal = this.context.goal;
+    if (!goal || state.currentSavings >= goal.targetAmount) {
+      return null;
+    }
+
+    const remaining = goal.targetAmount - state.currentSavings;
+    const secondsLeft = goal.deadline - Math.floor(this.now() / 1000);
+
+    // The vault allows one save per 24h; past the deadline, catch up now
+    const savesLeft = Math.max(1, Math.ceil(secondsLeft / SECONDS_PER_DAY));
+    const requiredPerSave = (remaining + BigInt(savesLeft) - 1n) / BigInt(savesLeft);
+
+    const dailyPace = state.weeklyGoal / 7n;
+    const paceRatio = dailyPace > 0n ? Number(requiredPerSave) / Number(dailyPace) : Infinity;
+
+    return {
+      remaining,
+      savesLeft,
+      requiredPerSave,
+      paceRatio,
+      daysLeft: Math.max(0, secondsLeft / SECONDS_PER_DAY),
+    };
   }
 
   /**
@@ -216,6 +526,20 @@ export class DecisionEngine {
    * Based on time since last save and progress toward goal
    */
   private calculateUrgency(state: UserFinancialState, amount: bigint): 'low' | 'medium' | 'high' {
+    if (this.context.strategy === DecisionStrategy.GOAL_DRIVEN) {
+      const progress = this.getGoalProgress(state);
+
+      // High urgency: Far behind, or the deadline is within a week
+      if (progress && (progress.paceRatio >= 2 || progress.daysLeft <= 7)) {
+        return 'high';
+      }
+
+      // Medium urgency: Behind schedule
+      if (progress && progress.paceRatio > 1) {
+        return 'medium';
+      }
+    }
+
     // High urgency: Haven't saved in a week and amount is close to goal
     if (state.timeSinceLastSave >= 168 && amount >= state.weeklyGoal / 2n) {
       return 'high';
@@ -237,25 +561,30 @@ export class DecisionEngine {
   private calculateConfidence(
     state: UserFinancialState,
     availableFunds: bigint,
-    amount: bigint
+    amount: bigint,
+    trace: DecisionTrace
   ): number {
     // Base confidence
-    let confidence = 0.5;
+    const base = 0.5;
+    const adjustments: Array<{ factor: string; delta: number }> = [];
 
     // Increase confidence if well above safety buffer
     const bufferRatio = Number(state.walletBalance) / Number(state.safetyBuffer);
-    if (bufferRatio > 2) confidence += 0.2;
-    if (bufferRatio > 3) confidence += 0.1;
+    if (bufferRatio > 2) adjustments.push({ factor: 'wallet_above_2x_buffer', delta: 0.2 });
+    if (bufferRatio > 3) adjustments.push({ factor: 'wallet_above_3x_buffer', delta: 0.1 });
 
     // Increase confidence if amount is reasonable (not too small, not too large)
     const amountRatio = Number(amount) / Number(availableFunds);
-    if (amountRatio > 0.1 && amountRatio < 0.7) confidence += 0.1;
+    if (amountRatio > 0.1 && amountRatio < 0.7) adjustments.push({ factor: 'reasonable_share_of_available', delta: 0.1 });
 
     // Increase confidence if saving toward goal
-    if (amount <= state.weeklyGoal) confidence += 0.1;
+    if (amount <= state.weeklyGoal) adjustments.push({ factor: 'within_weekly_goal', delta: 0.1 });
 
     // Cap at 1.0
-    return Math.min(confidence, 1.0);
+    const confidence = Math.min(adjustments.reduce((total, { delta }) => total + delta, base), 1.0);
+
+    trace.confidence = { base, adjustments, final: confidence };
+    return confidence;
   }
 
   /**
@@ -264,7 +593,8 @@ export class DecisionEngine {
   private buildSaveReason(
     state: UserFinancialState,
     amount: bigint,
-    availableFunds: bigint
+    availableFunds: bigint,
+    allocations: PotAllocation[]
   ): string {
     const parts: string[] = [];
 
@@ -272,11 +602,36 @@ export class DecisionEngine {
     parts.push(`Wallet has ${this.formatUsdc(state.walletBalance)} USDC`);
 
     // Available after buffer
-    parts.push(`${this.formatUsdc(availableFunds)} USDC available after ${this.formatUsdc(state.safetyBuffer)} USDC safety buffer`);
+    const spendable = this.spendableBalance(state);
+    parts.push(
+      spendable < state.walletBalance
+        ? `${this.formatUsdc(availableFunds)} USDC available after upcoming bills (projected low ${this.formatUsdc(spendable)} USDC) and ${this.formatUsdc(state.safetyBuffer)} USDC safety buffer`
+        : `${this.formatUsdc(availableFunds)} USDC available after ${this.formatUsdc(state.safetyBuffer)} USDC safety buffer`
+    );
 
     // Goal progress
     const goalProgress = (Number(amount) / Number(state.weeklyGoal)) * 100;
     parts.push(`Saving ${this.formatUsdc(amount)} USDC (${goalProgress.toFixed(0)}% of weekly goal)`);
+    if (state.savedThisWeek !== undefined && state.savedThisWeek > 0n) {
+      parts.push(`${this.formatUsdc(state.savedThisWeek)} USDC already saved this week`);
+    }
+
+    // Target progress
+    const progress = this.context.strategy === DecisionStrategy.GOAL_DRIVEN ? this.getGoalProgress(state) : null;
+    if (progress) {
+      const schedule = progress.paceRatio > 1 ? 'behind schedule' : 'on track';
+      parts.push(`${this.formatUsdc(progress.remaining)} USDC left to target in ${progress.daysLeft.toFixed(0)} days (${schedule})`);
+    }
+
+    // Pot split
+    if (allocations.length > 0) {
+      const allocated = allocations.reduce((total, allocation) => total + allocation.amount, 0n);
+      const split = allocations.map((allocation) => `${this.formatUsdc(allocation.amount)} USDC to ${allocation.name}`);
+      if (allocated < amount) {
+        split.push(`${this.formatUsdc(amount - allocated)} USDC to general savings`);
+      }
+      parts.push(`Split: ${split.join(', ')}`);
+    }
 
     // Strategy
     parts.push(`Using ${this.context.strategy} strategy`);
@@ -284,6 +639,15 @@ export class DecisionEngine {
     return parts.join('. ');
   }
 
+  /**
+   * Helper: Log analysis steps when verbose
+   */
+  private log(...args: unknown[]) {
+    if (this.verbose) {
+      console.log(...args);
+    }
+  }
+
   /**
    * Helper: Get minimum of two bigints
    */
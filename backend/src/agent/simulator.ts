@@ -0,0 +1,394 @@
+import { ethers } from 'ethers';
+import { DecisionEngine } from './decision-engine';
+import { DecisionContext, DecisionStrategy, UserFinancialState } from './types';
+import { MAX_SAVE_AMOUNT } from '../services/blockchain.service';
+
+// Mirrors SavingsVault.MIN_SAVE_INTERVAL
+export const MIN_SAVE_INTERVAL_SECONDS = 24 * 60 * 60;
+
+const HOURS_PER_WEEK = 24 * 7;
+
+// Simulated clock starts here (lastSaveTimestamp 0 means "never saved")
+const SIMULATION_START = 1_700_000_000;
+
+/**
+ * A one-off wallet movement
+ * Positive amounts are inflows (salary), negative are outflows (bills, spending).
+ */
+export interface CashFlow {
+  hour: number;                  // Hours from the start of the simulation
+  amount: bigint;                // Smallest unit, signed
+  label?: string;
+}
+
+/**
+ * A wallet movement that repeats on a fixed interval
+ */
+export interface RecurringCashFlow {
+  amount: bigint;
+  everyHours: number;
+  startHour?: number;            // First occurrence (default 0)
+  label?: string;
+}
+
+/**
+ * Cash-flow timeline to replay against each strategy
+ */
+export interface SimulationScenario {
+  durationHours: number;
+  startingBalance: bigint;       // Wallet balance at hour 0
+  weeklyGoal: bigint;
+  safetyBuffer: bigint;
+  cashFlows: CashFlow[];
+  recurring: RecurringCashFlow[];
+  goal?: {                       // Target for GOAL_DRIVEN
+    targetAmount: bigint;
+    deadlineHour: number;        // Hours from the start of the simulation
+  };
+}
+
+/**
+ * Outcome of one strategy over the scenario
+ */
+export interface StrategyResult {
+  strategy: DecisionStrategy;
+  totalSaved: bigint;
+  saveCount: number;
+  bufferBreaches: number;        // Times the wallet dropped below the safety buffer
+  hoursBelowBuffer: number;
+  weeksEvaluated: number;        // Complete weeks in the scenario
+  weeksGoalHit: number;
+  weeklyGoalHitRate: number;     // weeksGoalHit / weeksEvaluated (0-1)
+  maxDrawdown: bigint;           // Largest peak-to-trough drop in wallet balance
+  maxDrawdownPercentage: number; // ...relative to the peak (0-1)
+  minWalletBalance: bigint;
+  finalWalletBalance: bigint;
+  finalSavings: bigint;
+}
+
+/**
+ * Error thrown for scenarios that can't be simulated
+ */
+export class SimulationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationInputError';
+  }
+}
+
+/**
+ * Limits for scenarios coming from the API
+ */
+export const SIMULATION_LIMITS = {
+  maxDurationHours: 24 * 366,
+  maxCashFlows: 10_000,
+  maxRecurring: 100,
+};
+
+/**
+ * Replay a scenario hour by hour with one strategy
+ *
+ * Each hour: apply that hour's cash flows, then ask the engine.
+ * Saves follow the vault rules: at most one per MIN_SAVE_INTERVAL and
+ * never above MAX_SAVE_AMOUNT. Weeks start at hour 0, and the engine
+ * sees what was already saved in the current one.
+ */
+export function simulateStrategy(
+  scenario: SimulationScenario,
+  context: Partial<DecisionContext> & { strategy: DecisionStrategy }
+): StrategyResult {
+  let now = SIMULATION_START;
+
+  const goal = context.goal ?? (scenario.goal && {
+    targetAmount: scenario.goal.targetAmount,
+    deadline: SIMULATION_START + scenario.goal.deadlineHour * 3600,
+  });
+  const engine = new DecisionEngine({ ...context, goal }, { verbose: false, now: () => now * 1000 });
+  const flowsByHour = expandCashFlows(scenario);
+
+  let walletBalance = scenario.startingBalance;
+  let savings = 0n;
+  let lastSaveTimestamp = 0;
+  let saveCount = 0;
+
+  let belowBuffer = walletBalance < scenario.safetyBuffer;
+  let bufferBreaches = 0;
+  let hoursBelowBuffer = 0;
+
+  let peak = walletBalance;
+  let maxDrawdown = 0n;
+  let maxDrawdownPercentage = 0;
+  let minWalletBalance = walletBalance;
+
+  const savedPerWeek: bigint[] = [];
+
+  const trackBalance = () => {
+    if (walletBalance > peak) peak = walletBalance;
+    if (walletBalance < minWalletBalance) minWalletBalance = walletBalance;
+
+    const drawdown = peak - walletBalance;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercentage = peak > 0n ? Number(drawdown) / Number(peak) : 0;
+    }
+
+    const nowBelow = walletBalance < scenario.safetyBuffer;
+    if (nowBelow && !belowBuffer) bufferBreaches++;
+    belowBuffer = nowBelow;
+  };
+
+  for (let hour = 0; hour < scenario.durationHours; hour++) {
+    now = SIMULATION_START + hour * 3600;
+
+    for (const amount of flowsByHour.get(hour) ?? []) {
+      walletBalance += amount;
+    }
+    trackBalance();
+
+    const week = Math.floor(hour / HOURS_PER_WEEK);
+    const savedThisWeek = savedPerWeek[week] ?? 0n;
+
+    const state: UserFinancialState = {
+      walletBalance: walletBalance > 0n ? walletBalance : 0n,
+      currentSavings: savings,
+      weeklyGoal: scenario.weeklyGoal,
+      safetyBuffer: scenario.safetyBuffer,
+      lastSaveTimestamp: BigInt(lastSaveTimestamp),
+      trustMode: 'AUTO',
+      isActive: true,
+      canAutoSave: lastSaveTimestamp === 0 || now >= lastSaveTimestamp + MIN_SAVE_INTERVAL_SECONDS,
+      timeSinceLastSave: lastSaveTimestamp === 0 ? 0 : (now - lastSaveTimestamp) / 3600,
+      savedThisWeek,
+      remainingThisWeek: savedThisWeek < scenario.weeklyGoal ? scenario.weeklyGoal - savedThisWeek : 0n,
+    };
+
+    const decision = engine.decide(state);
+
+    if (decision.shouldSave && decision.amount > 0n) {
+      const amount = decision.amount > MAX_SAVE_AMOUNT ? MAX_SAVE_AMOUNT : decision.amount;
+
+      walletBalance -= amount;
+      savings += amount;
+      lastSaveTimestamp = now;
+      saveCount++;
+
+      savedPerWeek[week] = savedThisWeek + amount;
+
+      trackBalance();
+    }
+
+    if (belowBuffer) hoursBelowBuffer++;
+  }
+
+  const weeksEvaluated = Math.floor(scenario.durationHours / HOURS_PER_WEEK);
+  let weeksGoalHit = 0;
+  for (let week = 0; week < weeksEvaluated; week++) {
+    if ((savedPerWeek[week] ?? 0n) >= scenario.weeklyGoal) weeksGoalHit++;
+  }
+
+  return {
+    strategy: context.strategy,
+    totalSaved: savings,
+    saveCount,
+    bufferBreaches,
+    hoursBelowBuffer,
+    weeksEvaluated,
+    weeksGoalHit,
+    weeklyGoalHitRate: weeksEvaluated > 0 ? weeksGoalHit / weeksEvaluated : 0,
+    maxDrawdown,
+    maxDrawdownPercentage,
+    minWalletBalance,
+    finalWalletBalance: walletBalance,
+    finalSavings: savings,
+  };
+}
+
+/**
+ * Run the same scenario through several strategies
+ */
+export function simulateStrategies(
+  scenario: SimulationScenario,
+  strategies: DecisionStrategy[] = Object.values(DecisionStrategy),
+  context: Partial<Omit<DecisionContext, 'strategy'>> = {}
+): StrategyResult[] {
+  return strategies.map((strategy) => simulateStrategy(scenario, { ...context, strategy }));
+}
+
+/**
+ * Amounts per hour, one-off and recurring flows merged
+ */
+function expandCashFlows(scenario: SimulationScenario): Map<number, bigint[]> {
+  const byHour = new Map<number, bigint[]>();
+  const add = (hour: number, amount: bigint) => {
+    if (hour < 0 || hour >= scenario.durationHours) return;
+    byHour.set(hour, [...(byHour.get(hour) ?? []), amount]);
+  };
+
+  for (const flow of scenario.cashFlows) {
+    add(flow.hour, flow.amount);
+  }
+
+  for (const flow of scenario.recurring) {
+    for (let hour = flow.startHour ?? 0; hour < scenario.durationHours; hour += flow.everyHours) {
+      add(hour, flow.amount);
+    }
+  }
+
+  return byHour;
+}
+
+// ============================================================================
+//                         JSON INPUT / OUTPUT
+// ============================================================================
+
+/**
+ * Parse a scenario from JSON (USDC amounts as decimal strings or numbers)
+ *
+ * {
+ *   "durationHours": 1344,
+ *   "startingBalance": "500", "weeklyGoal": "50", "safetyBuffer": "100",
+ *   "cashFlows": [{ "hour": 30, "amount": "-120", "label": "car repair" }],
+ *   "recurring": [{ "amount": "1500", "everyHours": 336, "label": "salary" }]
+ * }
+ *
+ * @throws SimulationInputError
+ */
+export function parseScenario(input: any): SimulationScenario {
+  if (!input || typeof input !== 'object') {
+    throw new SimulationInputError('Scenario must be an object');
+  }
+
+  const durationHours = input.durationHours;
+  if (!Number.isInteger(durationHours) || durationHours < 1 || durationHours > SIMULATION_LIMITS.maxDurationHours) {
+    throw new SimulationInputError(`durationHours must be an integer between 1 and ${SIMULATION_LIMITS.maxDurationHours}`);
+  }
+
+  const cashFlows = input.cashFlows ?? [];
+  const recurring = input.recurring ?? [];
+  if (!Array.isArray(cashFlows) || cashFlows.length > SIMULATION_LIMITS.maxCashFlows) {
+    throw new SimulationInputError(`cashFlows must be an array of at most ${SIMULATION_LIMITS.maxCashFlows} entries`);
+  }
+  if (!Array.isArray(recurring) || recurring.length > SIMULATION_LIMITS.maxRecurring) {
+    throw new SimulationInputError(`recurring must be an array of at most ${SIMULATION_LIMITS.maxRecurring} entries`);
+  }
+
+  return {
+    durationHours,
+    startingBalance: parseUsdc(input.startingBalance, 'startingBalance', { min: 0n }),
+    weeklyGoal: parseUsdc(input.weeklyGoal, 'weeklyGoal', { min: 1n }),
+    safetyBuffer: parseUsdc(input.safetyBuffer, 'safetyBuffer', { min: 0n }),
+    cashFlows: cashFlows.map((flow: any, index: number) => {
+      if (!Number.isInteger(flow?.hour) || flow.hour < 0) {
+        throw new SimulationInputError(`cashFlows[${index}].hour must be a non-negative integer`);
+      }
+      return {
+        hour: flow.hour,
+        amount: parseUsdc(flow.amount, `cashFlows[${index}].amount`),
+        label: typeof flow.label === 'string' ? flow.label : undefined,
+      };
+    }),
+    recurring: recurring.map((flow: any, index: number) => {
+      if (!Number.isInteger(flow?.everyHours) || flow.everyHours < 1) {
+        throw new SimulationInputError(`recurring[${index}].everyHours must be a positive integer`);
+      }
+      if (flow.startHour !== undefined && (!Number.isInteger(flow.startHour) || flow.startHour < 0)) {
+        throw new SimulationInputError(`recurring[${index}].startHour must be a non-negative integer`);
+      }
+      return {
+        amount: parseUsdc(flow.amount, `recurring[${index}].amount`),
+        everyHours: flow.everyHours,
+        startHour: flow.startHour,
+        label: typeof flow.label === 'string' ? flow.label : undefined,
+      };
+    }),
+    goal: input.goal === undefined ? undefined : parseGoal(input.goal),
+  };
+}
+
+function parseGoal(goal: any): SimulationScenario['goal'] {
+  if (!Number.isInteger(goal?.deadlineHour) || goal.deadlineHour < 1) {
+    throw new SimulationInputError('goal.deadlineHour must be a positive integer');
+  }
+
+  return {
+    targetAmount: parseUsdc(goal.targetAmount, 'goal.targetAmount', { min: 1n }),
+    deadlineHour: goal.deadlineHour,
+  };
+}
+
+/**
+ * Parse the strategies to compare (all of them if omitted)
+ *
+ * @throws SimulationInputError
+ */
+export function parseStrategies(input: unknown): DecisionStrategy[] {
+  if (input === undefined) {
+    return Object.values(DecisionStrategy);
+  }
+
+  const valid = Object.values(DecisionStrategy) as string[];
+  if (!Array.isArray(input) || input.length === 0 || input.some((strategy) => !valid.includes(strategy))) {
+    throw new SimulationInputError(`strategies must be a non-empty subset of: ${valid.join(', ')}`);
+  }
+
+  return input as DecisionStrategy[];
+}
+
+/**
+ * Strategy result with USDC amounts as decimal strings
+ */
+export function formatStrategyResult(result: StrategyResult) {
+  return {
+    ...result,
+    totalSaved: ethers.formatUnits(result.totalSaved, 6),
+    maxDrawdown: ethers.formatUnits(result.maxDrawdown, 6),
+    minWalletBalance: ethers.formatUnits(result.minWalletBalance, 6),
+    finalWalletBalance: ethers.formatUnits(result.finalWalletBalance, 6),
+    finalSavings: ethers.formatUnits(result.finalSavings, 6),
+  };
+}
+
+function parseUsdc(value: unknown, field: string, bounds: { min?: bigint } = {}): bigint {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new SimulationInputError(`${field} must be a USDC amount`);
+  }
+
+  let amount: bigint;
+  try {
+    amount = ethers.parseUnits(String(value), 6);
+  } catch {
+    throw new SimulationInputError(`${field} must be a USDC amount`);
+  }
+
+  if (bounds.min !== undefined && amount < bounds.min) {
+    throw new SimulationInputError(`${field} is too small`);
+  }
+  return amount;
+}
+
+/**
+ * A salaried user over 8 weeks: biweekly pay, monthly rent,
+ * weekly bills and daily spending with a couple of surprises.
+ */
+export function createSampleScenario(): SimulationScenario {
+  const usdc = (amount: number) => BigInt(Math.round(amount * 1_000_000));
+
+  return {
+    durationHours: HOURS_PER_WEEK * 8,
+    startingBalance: usdc(1200),
+    weeklyGoal: usdc(50),
+    safetyBuffer: usdc(150),
+    cashFlows: [
+      { hour: 24 * 10 + 15, amount: usdc(-180), label: 'car repair' },
+      { hour: 24 * 33 + 20, amount: usdc(-120), label: 'birthday gift' },
+      { hour: 24 * 40 + 9, amount: usdc(75), label: 'refund' },
+    ],
+    recurring: [
+      { amount: usdc(1400), everyHours: 24 * 14, startHour: 9, label: 'salary' },
+      { amount: usdc(-900), everyHours: 24 * 30, startHour: 24 + 8, label: 'rent' },
+      { amount: usdc(-60), everyHours: HOURS_PER_WEEK, startHour: 24 * 3 + 10, label: 'utilities & phone' },
+      { amount: usdc(-25), everyHours: 24, startHour: 18, label: 'daily spending' },
+    ],
+    goal: { targetAmount: usdc(1000), deadlineHour: HOURS_PER_WEEK * 6 },
+  };
+}
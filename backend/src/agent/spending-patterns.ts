@@ -0,0 +1,181 @@
+/**
+ * Spending pattern detection
+ *
+ * Finds recurring inflows (payday) and outflows (rent, subscriptions)
+ * in a wallet's USDC transfer history and forecasts the balance from them.
+ * Pure functions: the WalletHistoryService feeds them on-chain transfers.
+ */
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * A USDC transfer in or out of the user's wallet
+ */
+export interface WalletTransfer {
+  timestamp: number;             // Block timestamp (seconds)
+  amount: bigint;                // Signed: + received, - sent
+  counterparty: string;          // The other side of the transfer
+  txHash?: string;
+}
+
+/**
+ * A transfer that repeats on a regular schedule
+ */
+export interface RecurringFlow {
+  direction: 'inflow' | 'outflow';
+  counterparty: string;
+  amount: bigint;                // Typical (median) amount, unsigned
+  intervalDays: number;          // Typical days between occurrences
+  occurrences: number;
+  lastSeen: number;              // Timestamp of the latest occurrence
+  nextExpected: number;          // lastSeen + interval
+  confidence: number;            // 0-1, grows with occurrences
+}
+
+/**
+ * A projected flow in the forecast window
+ */
+export interface ForecastEvent {
+  timestamp: number;
+  amount: bigint;                // Signed
+  counterparty: string;
+  balanceAfter: bigint;
+}
+
+export interface BalanceForecast {
+  currentBalance: bigint;
+  projectedMinBalance: bigint;   // Lowest balance over the horizon (may be negative)
+  projectedMinAt: number;        // When it's reached (now if never lower)
+  horizonDays: number;
+  events: ForecastEvent[];
+}
+
+export interface PatternOptions {
+  minOccurrences: number;        // Occurrences needed to call a flow recurring
+  minIntervalDays: number;       // Shorter intervals are ordinary spending
+  maxIntervalDays: number;       // Longer ones can't be told apart from one-offs
+  tolerance: number;             // Allowed deviation of intervals and amounts (0-1)
+}
+
+const DEFAULT_PATTERN_OPTIONS: PatternOptions = {
+  minOccurrences: 2,
+  minIntervalDays: 5,
+  maxIntervalDays: 35,
+  tolerance: 0.25,
+};
+
+/**
+ * Find recurring flows, grouped by direction and counterparty
+ * Largest flows first.
+ */
+export function detectRecurringFlows(
+  transfers: WalletTransfer[],
+  options: Partial<PatternOptions> = {}
+): RecurringFlow[] {
+  const { minOccurrences, minIntervalDays, maxIntervalDays, tolerance } = { ...DEFAULT_PATTERN_OPTIONS, ...options };
+
+  const groups = new Map<string, WalletTransfer[]>();
+  for (const transfer of transfers) {
+    if (transfer.amount === 0n) continue;
+
+    const key = `${transfer.amount > 0n ? 'in' : 'out'}:${transfer.counterparty.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), transfer]);
+  }
+
+  const flows: RecurringFlow[] = [];
+
+  for (const group of groups.values()) {
+    if (group.length < minOccurrences) continue;
+
+    const sorted = [...group].sort((a, b) => a.timestamp - b.timestamp);
+    const intervals = sorted.slice(1).map((t, i) => (t.timestamp - sorted[i].timestamp) / SECONDS_PER_DAY);
+    const intervalDays = median(intervals);
+
+    if (intervalDays < minIntervalDays || intervalDays > maxIntervalDays) continue;
+
+    // Irregular timing: one day of slack on short intervals
+    const intervalSlack = Math.max(intervalDays * tolerance, 1);
+    if (intervals.some((interval) => Math.abs(interval - intervalDays) > intervalSlack)) continue;
+
+    const amounts = sorted.map((t) => (t.amount < 0n ? -t.amount : t.amount));
+    const amount = medianBigInt(amounts);
+    const amountSlack = (amount * BigInt(Math.round(tolerance * 100))) / 100n;
+    if (amounts.some((a) => (a > amount ? a - amount : amount - a) > amountSlack)) continue;
+
+    const last = sorted[sorted.length - 1];
+    flows.push({
+      direction: last.amount > 0n ? 'inflow' : 'outflow',
+      counterparty: last.counterparty,
+      amount,
+      intervalDays,
+      occurrences: sorted.length,
+      lastSeen: last.timestamp,
+      nextExpected: last.timestamp + Math.round(intervalDays * SECONDS_PER_DAY),
+      confidence: Math.min(1, 0.4 + 0.2 * intervals.length),
+    });
+  }
+
+  return flows.sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
+}
+
+/**
+ * Project the balance over the next `horizonDays` from recurring flows
+ *
+ * A flow that's overdue by less than one interval is assumed to land now;
+ * one that's later than that is treated as stopped. Outflows are applied
+ * before inflows at the same time, so the minimum errs low.
+ */
+export function forecastBalance(
+  currentBalance: bigint,
+  flows: RecurringFlow[],
+  now: number,
+  horizonDays: number = 7
+): BalanceForecast {
+  const horizonEnd = now + horizonDays * SECONDS_PER_DAY;
+  const projected: Array<Omit<ForecastEvent, 'balanceAfter'>> = [];
+
+  for (const flow of flows) {
+    const period = Math.round(flow.intervalDays * SECONDS_PER_DAY);
+    const amount = flow.direction === 'inflow' ? flow.amount : -flow.amount;
+
+    let next = flow.nextExpected;
+    if (next < now) {
+      if (now - next > period) continue;
+      projected.push({ timestamp: now, amount, counterparty: flow.counterparty });
+      next += period;
+    }
+
+    for (; next <= horizonEnd; next += period) {
+      projected.push({ timestamp: next, amount, counterparty: flow.counterparty });
+    }
+  }
+
+  projected.sort((a, b) => a.timestamp - b.timestamp || (a.amount < b.amount ? -1 : a.amount > b.amount ? 1 : 0));
+
+  let balance = currentBalance;
+  let projectedMinBalance = currentBalance;
+  let projectedMinAt = now;
+
+  const events = projected.map((event) => {
+    balance += event.amount;
+    if (balance < projectedMinBalance) {
+      projectedMinBalance = balance;
+      projectedMinAt = event.timestamp;
+    }
+    return { ...event, balanceAfter: balance };
+  });
+
+  return { currentBalance, projectedMinBalance, projectedMinAt, horizonDays, events };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function medianBigInt(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2n;
+}
@@ -20,6 +20,9 @@ export interface UserFinancialState {
   // Calculated fields
   canAutoSave: boolean;          // Passed rate limit?
   timeSinceLastSave: number;     // Hours since last save
+  projectedMinBalance?: bigint;  // Lowest wallet balance forecast for the next 7 days
+  savedThisWeek?: bigint;        // Deposits and auto-saves since the user's week started
+  remainingThisWeek?: bigint;    // weeklyGoal - savedThisWeek (>= 0)
 }
 
 /**
@@ -31,6 +34,60 @@ export interface SaveDecision {
   reason: string;                // Why this decision?
   confidence: number;            // 0-1 confidence score
   urgency: 'low' | 'medium' | 'high';  // How urgent is this save?
+  advisor?: string;              // Advisor that wrote reason/confidence (rules if unset)
+  trace?: DecisionTrace;         // Which rules produced this decision
+  allocations?: PotAllocation[]; // How the save splits across the user's pots
+}
+
+/**
+ * A pre-check and whether it passed
+ */
+export interface PreCheckTrace {
+  check: 'account_active' | 'auto_mode' | 'rate_limit';
+  passed: boolean;
+  detail: string;
+}
+
+/**
+ * Limits a strategy puts on the save amount
+ * - percentage: share of available funds (strategy or maxSavePercentage)
+ * - weekly_goal: never more than what's left of the weekly goal this week
+ * - available_funds: everything above the safety buffer
+ * - buffer_threshold: conservative needs 2x the safety buffer (0 if not met)
+ * - goal_pace: what GOAL_DRIVEN needs per save to hit the target
+ */
+export type AmountCap = 'percentage' | 'weekly_goal' | 'available_funds' | 'buffer_threshold' | 'goal_pace';
+
+export interface AmountCapTrace {
+  cap: AmountCap;
+  value: bigint;
+  detail: string;
+}
+
+/**
+ * Structured explanation of a decision
+ */
+export interface DecisionTrace {
+  preChecks: PreCheckTrace[];
+  availableFunds?: {
+    walletBalance: bigint;
+    spendableBalance: bigint;    // Wallet, or the projected minimum if lower
+    safetyBuffer: bigint;
+    available: bigint;           // spendableBalance - safetyBuffer (>= 0)
+    minSaveAmount: bigint;
+  };
+  amount?: {
+    strategy: DecisionStrategy;
+    caps: AmountCapTrace[];
+    boundBy: AmountCap;          // The cap that set the amount
+    amount: bigint;
+  };
+  confidence?: {
+    base: number;
+    adjustments: Array<{ factor: string; delta: number }>;
+    final: number;               // Capped at 1
+  };
+  decidedBy: string;             // Rule that settled the outcome
 }
 
 /**
@@ -40,6 +97,38 @@ export enum DecisionStrategy {
   CONSERVATIVE = 'conservative',   // Only save when well above buffer
   BALANCED = 'balanced',           // Standard approach
   AGGRESSIVE = 'aggressive',       // Save as much as possible
+  GOAL_DRIVEN = 'goal_driven',     // Pace saves to reach a target by a deadline
+}
+
+/**
+ * Savings target for the GOAL_DRIVEN strategy
+ */
+export interface SavingsGoal {
+  targetAmount: bigint;           // Total savings to reach
+  deadline: number;               // Unix timestamp (seconds)
+}
+
+export type PotPriority = 'low' | 'medium' | 'high';
+
+/**
+ * A named savings goal ("pot") a save can be split into
+ */
+export interface SavingsPotTarget {
+  id: string;
+  name: string;
+  targetAmount: bigint;
+  savedAmount: bigint;            // Credited to the pot so far
+  deadline?: number;              // Unix timestamp (seconds)
+  priority: PotPriority;
+}
+
+/**
+ * A pot's share of a save
+ */
+export interface PotAllocation {
+  potId: string;
+  name: string;
+  amount: bigint;
 }
 
 /**
@@ -49,4 +138,15 @@ export interface DecisionContext {
   strategy: DecisionStrategy;
   minSaveAmount: bigint;          // Minimum worth saving (e.g., 1 USDC)
   maxSavePercentage: number;      // Max % of available funds (e.g., 0.5 = 50%)
+  goal?: SavingsGoal;             // Required by GOAL_DRIVEN
+  pots?: SavingsPotTarget[];      // Named goals each save is split across
+}
+
+/**
+ * How a decision will be used
+ * forApproval: the save is proposed to a MANUAL user rather than
+ * executed, so MANUAL mode passes the auto_mode pre-check.
+ */
+export interface DecideOptions {
+  forApproval?: boolean;
 }
\ No newline at end of file
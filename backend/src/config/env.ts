@@ -8,6 +8,8 @@ import dotenv from 'dotenv';
 // Load .env file into process.env
 dotenv.config();
 
+export const CRONOS_MAINNET_CHAIN_ID = 25;
+
 // Export a config object with all our settings
 export const config = {
   // Server settings
@@ -17,6 +19,8 @@ export const config = {
   // Cronos blockchain settings
   cronosRpcUrl: process.env.CRONOS_RPC_URL || 'https://evm-t3.cronos.org',
   cronosChainId: parseInt(process.env.CRONOS_CHAIN_ID || '338'),
+  explorerUrl: process.env.EXPLORER_URL
+    || (process.env.CRONOS_CHAIN_ID === '25' ? 'https://explorer.cronos.org' : 'https://explorer.cronos.org/testnet'),
   
   // Our deployed contract addresses
   savingsVaultAddress: process.env.SAVINGS_VAULT_ADDRESS || '',
@@ -31,11 +35,70 @@ export const config = {
   // Backend wallet private key
   backendPrivateKey: process.env.BACKEND_PRIVATE_KEY || '',
   
-  // x402 (we'll use later)
-  x402FacilitatorUrl: process.env.X402_FACILITATOR_URL || 'https://x402-facilitator.cronos.org',
+  // Event indexer (account registry for the scheduler)
+  dataDir: process.env.DATA_DIR || './data',
+  indexerStartBlock: parseInt(process.env.INDEXER_START_BLOCK || '0'),
+  indexerPollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '15000'),
+  indexerBlockRange: parseInt(process.env.INDEXER_BLOCK_RANGE || '2000'),
+  indexerReorgDepth: parseInt(process.env.INDEXER_REORG_DEPTH || '64'),
+  
+  // Wallet history (USDC transfers scanned for recurring bills and income)
+  walletHistoryLookbackBlocks: parseInt(process.env.WALLET_HISTORY_LOOKBACK_BLOCKS || '1000000'),
+  
+  // Decision history (newest decisions kept per user)
+  decisionHistoryMaxPerUser: parseInt(process.env.DECISION_HISTORY_MAX_PER_USER || '5000'),
+  decisionHistoryMaxAnalyzePerUser: parseInt(process.env.DECISION_HISTORY_MAX_ANALYZE_PER_USER || '50'),   // Kept apart, so analyze calls never push out scheduler decisions
+  
+  // Weekly goal progress (default week boundary for users who haven't set one)
+  weekStartDay: parseInt(process.env.WEEK_START_DAY || '1'),   // 0 = Sunday ... 6 = Saturday
+  weekTimezone: process.env.WEEK_TIMEZONE || 'UTC',            // IANA timezone, e.g. Europe/Paris
+  
+  // Savings pots (named goals each save is split across)
+  savingsPotMaxPerUser: parseInt(process.env.SAVINGS_POT_MAX_PER_USER || '10'),
+  
+  // MANUAL-mode save proposals (how long the user has to accept one)
+  saveProposalTtlMs: parseInt(process.env.SAVE_PROPOSAL_TTL_MS || '86400000'),
+  
+  // Notifications (webhook, SMTP email, in-app feed)
+  notificationWebhookTimeoutMs: parseInt(process.env.NOTIFICATION_WEBHOOK_TIMEOUT_MS || '5000'),
+  notificationWebhookAllowPrivate: process.env.NOTIFICATION_WEBHOOK_ALLOW_PRIVATE === 'true',   // Local testing only: allow loopback/private webhook hosts
+  notificationFeedMaxPerUser: parseInt(process.env.NOTIFICATION_FEED_MAX_PER_USER || '200'),
+  smtpHost: process.env.SMTP_HOST || '',                       // Unset disables email
+  smtpPort: parseInt(process.env.SMTP_PORT || '587'),
+  smtpSecure: process.env.SMTP_SECURE === 'true',
+  smtpUser: process.env.SMTP_USER || '',
+  smtpPass: process.env.SMTP_PASS || '',
+  smtpFrom: process.env.SMTP_FROM || 'Pigment <no-reply@pigment.local>',
+  
+  // Live events (SSE stream of vault events and scheduler decisions)
+  liveEventBufferSize: parseInt(process.env.LIVE_EVENT_BUFFER_SIZE || '1000'),   // Kept for Last-Event-ID resume
+  liveEventHeartbeatMs: parseInt(process.env.LIVE_EVENT_HEARTBEAT_MS || '25000'),
+  
+  // Yield performance (snapshots of the VVS pair and each user's position)
+  performanceSnapshotIntervalMs: parseInt(process.env.PERFORMANCE_SNAPSHOT_INTERVAL_MS || '3600000'),
+  performanceSnapshotMax: parseInt(process.env.PERFORMANCE_SNAPSHOT_MAX || '5000'),   // Per user, and for the pair
+  
+  // Payment reconciler (settled-but-uncredited x402 payments)
+  reconcilerGraceMs: parseInt(process.env.RECONCILER_GRACE_MS || '120000'),
+  reconcilerBaseDelayMs: parseInt(process.env.RECONCILER_BASE_DELAY_MS || '60000'),
+  reconcilerMaxDelayMs: parseInt(process.env.RECONCILER_MAX_DELAY_MS || '3600000'),
+  reconcilerMaxAttempts: parseInt(process.env.RECONCILER_MAX_ATTEMPTS || '8'),
+  
+  // x402 facilitator (point at the mock facilitator for offline testing)
+  x402FacilitatorUrl: process.env.X402_FACILITATOR_URL || 'https://facilitator.cronoslabs.org',
+  allowSimulatedSettlements: process.env.ALLOW_SIMULATED_SETTLEMENTS === 'true',   // Credit mock settlements (never on mainnet)
+  
+  // Decision advisor (LLM that words the reason and rates confidence)
+  advisorProvider: process.env.ADVISOR_PROVIDER || 'none',   // none | stub | http
+  advisorUrl: process.env.ADVISOR_URL || 'https://api.openai.com/v1',
+  advisorApiKey: process.env.ADVISOR_API_KEY || '',
+  advisorModel: process.env.ADVISOR_MODEL || 'gpt-4o-mini',
+  advisorTimeoutMs: parseInt(process.env.ADVISOR_TIMEOUT_MS || '5000'),
   
   // Security
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
+  adminApiKey: process.env.ADMIN_API_KEY || '',
+  signedRequestMaxAgeSeconds: parseInt(process.env.SIGNED_REQUEST_MAX_AGE_SECONDS || '300'),
 };
 
 // Function to check if all required env vars are present
@@ -53,4 +116,18 @@ export function validateConfig() {
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
+
+  if (!(Number.isInteger(config.weekStartDay) && config.weekStartDay >= 0 && config.weekStartDay <= 6)) {
+    throw new Error('WEEK_START_DAY must be 0 (Sunday) to 6 (Saturday)');
+  }
+
+  if (config.allowSimulatedSettlements && config.cronosChainId === CRONOS_MAINNET_CHAIN_ID) {
+    throw new Error('ALLOW_SIMULATED_SETTLEMENTS cannot be used on Cronos mainnet');
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: config.weekTimezone });
+  } catch {
+    throw new Error(`Unknown WEEK_TIMEZONE: ${config.weekTimezone}`);
+  }
 }
\ No newline at end of file
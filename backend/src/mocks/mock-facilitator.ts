@@ -0,0 +1,268 @@
+import express, { Express, Request, Response } from 'express';
+import { ethers } from 'ethers';
+import {
+  CronosNetwork,
+  Scheme,
+  X402EventType,
+  VerifyRequest,
+  Eip3009PaymentHeader,
+  X402VerifyResponse,
+  X402SettleResponse,
+} from '@crypto.com/facilitator-client';
+import { config } from '../config/env';
+import { SIMULATED_SETTLEMENT_PREFIX } from '../services/facilitator.client';
+
+/**
+ * Failures the mock can be told to simulate
+ * They stay active until cleared.
+ */
+export interface MockFacilitatorFailures {
+  verify?: string;        // Reject every verify with this invalidReason
+  settle?: string;        // Fail every settle (payment.failed) with this error
+  unavailable?: boolean;  // Answer every request with HTTP 503
+}
+
+export interface MockFacilitatorOptions {
+  chainId?: number;       // EIP-712 domain chain id (defaults to CRONOS_CHAIN_ID)
+  domainName?: string;    // EIP-712 domain name of the USDC.e token
+  now?: () => number;     // Clock in milliseconds (tests)
+}
+
+// EIP-3009 TransferWithAuthorization, as signed by the facilitator SDK
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
+
+/**
+ * MockFacilitator
+ *
+ * Local stand-in for the Cronos x402 facilitator. Serves the same
+ * /v2/x402 endpoints, checks the EIP-3009 signature in the payment header
+ * against the PaymentRequirements, and tracks used nonces so replays are
+ * rejected. Settlement is simulated - nothing is sent on-chain, and the
+ * txHash is marked (SIMULATED_SETTLEMENT_PREFIX) so the reconciler
+ * gives up on it instead of looking for it.
+ */
+export class MockFacilitator {
+  readonly app: Express;
+  private chainId: number;
+  private domainName: string;
+  private now: () => number;
+  private failures: MockFacilitatorFailures = {};
+  private usedNonces = new Set<string>();
+  private settlements: X402SettleResponse[] = [];
+  private blockNumber = 1_000_000;
+
+  constructor(options: MockFacilitatorOptions = {}) {
+    this.chainId = options.chainId ?? config.cronosChainId;
+    this.domainName = options.domainName ?? 'Bridged USDC (Stargate)';
+    this.now = options.now ?? Date.now;
+    this.app = this.createApp();
+  }
+
+  /**
+   * Replace the simulated failures (pass {} to clear them)
+   */
+  setFailures(failures: MockFacilitatorFailures) {
+    this.failures = { ...failures };
+  }
+
+  getFailures(): MockFacilitatorFailures {
+    return { ...this.failures };
+  }
+
+  /**
+   * Settlements performed so far, oldest first
+   */
+  getSettlements(): X402SettleResponse[] {
+    return [...this.settlements];
+  }
+
+  /**
+   * Check a verify/settle request
+   * Returns null if valid, otherwise the invalidReason.
+   */
+  validate(request: VerifyRequest): string | null {
+    const { paymentHeader, paymentRequirements } = request ?? {};
+    if (!paymentHeader || !paymentRequirements) {
+      return 'invalid_request';
+    }
+
+    let header: Eip3009PaymentHeader;
+    try {
+      header = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf-8'));
+    } catch {
+      return 'invalid_payment_header';
+    }
+
+    const payload = header?.payload;
+    if (!payload || !payload.from || !payload.to || !payload.value || !payload.nonce || !payload.signature) {
+      return 'invalid_payment_header';
+    }
+
+    if (header.x402Version !== 1 || header.scheme !== Scheme.Exact || paymentRequirements.scheme !== Scheme.Exact) {
+      return 'unsupported_scheme';
+    }
+    if (header.network !== paymentRequirements.network) {
+      return 'network_mismatch';
+    }
+    if (!sameAddress(payload.asset, paymentRequirements.asset)) {
+      return 'asset_mismatch';
+    }
+    if (!sameAddress(payload.to, paymentRequirements.payTo)) {
+      return 'recipient_mismatch';
+    }
+
+    let value: bigint;
+    try {
+      value = BigInt(payload.value);
+    } catch {
+      return 'invalid_payment_header';
+    }
+    if (value !== BigInt(paymentRequirements.maxAmountRequired)) {
+      return 'amount_mismatch';
+    }
+
+    const nowSeconds = Math.floor(this.now() / 1000);
+    if (nowSeconds < Number(payload.validAfter)) {
+      return 'authorization_not_yet_valid';
+    }
+    if (nowSeconds >= Number(payload.validBefore)) {
+      return 'authorization_expired';
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(
+        {
+          name: this.domainName,
+          version: '1',
+          chainId: this.chainId,
+          verifyingContract: payload.asset,
+        },
+        TRANSFER_WITH_AUTHORIZATION_TYPES,
+        {
+          from: payload.from,
+          to: payload.to,
+          value,
+          validAfter: payload.validAfter,
+          validBefore: payload.validBefore,
+          nonce: payload.nonce,
+        },
+        payload.signature
+      );
+    } catch {
+      return 'invalid_signature';
+    }
+    if (!sameAddress(signer, payload.from)) {
+      return 'invalid_signature';
+    }
+
+    if (this.usedNonces.has(this.nonceKey(payload.from, payload.nonce))) {
+      return 'nonce_already_used';
+    }
+
+    return null;
+  }
+
+  private createApp(): Express {
+    const app = express();
+    app.use(express.json());
+
+    app.use((req: Request, res: Response, next) => {
+      if (this.failures.unavailable && req.path.startsWith('/v2/')) {
+        return res.status(503).json({ error: 'Facilitator unavailable' });
+      }
+      next();
+    });
+
+    app.get('/v2/x402/supported', (req: Request, res: Response) => {
+      res.json({
+        kinds: [
+          { x402Version: 1, scheme: Scheme.Exact, network: CronosNetwork.CronosTestnet },
+          { x402Version: 1, scheme: Scheme.Exact, network: CronosNetwork.CronosMainnet },
+        ],
+      });
+    });
+
+    app.post('/v2/x402/verify', (req: Request, res: Response) => {
+      const invalidReason = this.failures.verify ?? this.validate(req.body);
+      const response: X402VerifyResponse = { isValid: invalidReason === null, invalidReason };
+      res.json(response);
+    });
+
+    app.post('/v2/x402/settle', (req: Request, res: Response) => {
+      res.json(this.settle(req.body));
+    });
+
+    // Runtime control so a standalone mock can be switched between scenarios
+    app.get('/mock/failures', (req: Request, res: Response) => {
+      res.json(this.getFailures());
+    });
+
+    app.put('/mock/failures', (req: Request, res: Response) => {
+      this.setFailures(req.body ?? {});
+      res.json(this.getFailures());
+    });
+
+    app.get('/mock/settlements', (req: Request, res: Response) => {
+      res.json(this.getSettlements());
+    });
+
+    return app;
+  }
+
+  private settle(request: VerifyRequest): X402SettleResponse {
+    const timestamp = new Date(this.now()).toISOString();
+    const network = request?.paymentRequirements?.network ?? '';
+    const error = this.failures.settle ?? this.validate(request);
+
+    if (error !== null) {
+      return {
+        x402Version: 1,
+        event: X402EventType.PaymentFailed,
+        network,
+        timestamp,
+        error,
+      };
+    }
+
+    const { payload } = JSON.parse(
+      Buffer.from(request.paymentHeader, 'base64').toString('utf-8')
+    ) as Eip3009PaymentHeader;
+
+    this.usedNonces.add(this.nonceKey(payload.from, payload.nonce));
+    this.blockNumber++;
+
+    const settlement: X402SettleResponse = {
+      x402Version: 1,
+      event: X402EventType.PaymentSettled,
+      txHash: SIMULATED_SETTLEMENT_PREFIX + ethers.hexlify(ethers.randomBytes(24)).slice(2),
+      from: payload.from,
+      to: payload.to,
+      value: payload.value,
+      blockNumber: this.blockNumber,
+      network,
+      timestamp,
+    };
+
+    this.settlements.push(settlement);
+    return settlement;
+  }
+
+  // EIP-3009 nonces are unique per authorizer
+  private nonceKey(from: string, nonce: string): string {
+    return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+  }
+}
+
+function sameAddress(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,69 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { paymentLedger } from '../stores/payment-ledger.store';
+
+const router = Router();
+
+/**
+ * Admin authentication
+ * Requires the X-ADMIN-KEY header to match ADMIN_API_KEY.
+ * Admin routes are disabled entirely when no key is configured.
+ */
+const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+  if (!config.adminApiKey) {
+    return res.status(503).json({
+      success: false,
+      error: 'Admin API is not configured',
+    });
+  }
+
+  const provided = Buffer.from(req.header('X-ADMIN-KEY') || '');
+  const expected = Buffer.from(config.adminApiKey);
+
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin key',
+    });
+  }
+
+  next();
+};
+
+router.use(requireAdminKey);
+
+/**
+ * GET /api/admin/payments/stuck
+ *
+ * Payments that were settled but not yet credited, plus the ones
+ * the reconciler has already resolved (or given up on)
+ */
+router.get('/payments/stuck', (req: Request, res: Response) => {
+  try {
+    const stuck = paymentLedger.listByStatus('settled');
+    const resolved = paymentLedger
+      .listReconciled()
+      .filter((payment) => payment.reconciliation?.resolution);
+
+    res.json({
+      success: true,
+      data: {
+        stuck,
+        resolved,
+        count: {
+          stuck: stuck.length,
+          resolved: resolved.length,
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error('Admin payments error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to load payments',
+    });
+  }
+});
+
+export default router;
@@ -1,10 +1,55 @@
 import { Router, Request, Response } from 'express';
 import { BlockchainService } from '../services/blockchain.service';
+import { FinancialStateService } from '../services/financial-state.service';
 import { DecisionEngine } from '../agent/decision-engine';
-import { DecisionStrategy } from '../agent/types';
+import { createAdvisor } from '../agent/advisor';
+import { DecisionTrace } from '../agent/types';
+import { userPreferencesStore } from '../stores/user-preferences.store';
+import { decisionHistoryStore } from '../stores/decision-history.store';
+import { parseDateParam } from './query-params';
+import {
+  createSampleScenario,
+  formatStrategyResult,
+  parseScenario,
+  parseStrategies,
+  simulateStrategies,
+  SimulationInputError,
+} from '../agent/simulator';
 
 const router = Router();
 const blockchainService = new BlockchainService();
+const financialStateService = new FinancialStateService(blockchainService);
+const advisor = createAdvisor();
+
+/**
+ * Decision trace for the API (USDC amounts as decimal strings)
+ */
+function formatTrace(trace: DecisionTrace) {
+  const usdc = (amount: bigint) => blockchainService.formatUsdcAmount(amount);
+
+  return {
+    preChecks: trace.preChecks,
+    availableFunds: trace.availableFunds
+      ? {
+          walletBalance: usdc(trace.availableFunds.walletBalance),
+          spendableBalance: usdc(trace.availableFunds.spendableBalance),
+          safetyBuffer: usdc(trace.availableFunds.safetyBuffer),
+          available: usdc(trace.availableFunds.available),
+          minSaveAmount: usdc(trace.availableFunds.minSaveAmount),
+        }
+      : null,
+    amount: trace.amount
+      ? {
+          strategy: trace.amount.strategy,
+          caps: trace.amount.caps.map((cap) => ({ ...cap, value: usdc(cap.value) })),
+          boundBy: trace.amount.boundBy,
+          amount: usdc(trace.amount.amount),
+        }
+      : null,
+    confidence: trace.confidence ?? null,
+    decidedBy: trace.decidedBy,
+  };
+}
 
 /**
  * GET /api/ai/analyze/:address
@@ -23,33 +68,20 @@ router.get('/analyze/:address', async (req: Request, res: Response) => {
       });
     }
 
-    // Get user's financial state
-    const account = await blockchainService.getUserAccount(address);
-    const canSave = await blockchainService.canAutoSave(address);
-    const walletBalance = await blockchainService.getWalletUsdcBalance(address);
-
-    const now = Math.floor(Date.now() / 1000);
-    const lastSave = Number(account.lastSaveTimestamp);
-    const timeSinceLastSave = lastSave === 0 ? 0 : (now - lastSave) / 3600;
-
-    const financialState = {
-      walletBalance,
-      currentSavings: account.currentBalance,
-      weeklyGoal: account.weeklyGoal,
-      safetyBuffer: account.safetyBuffer,
-      lastSaveTimestamp: account.lastSaveTimestamp,
-      trustMode: account.trustMode === 0n ? 'MANUAL' as const : 'AUTO' as const,  // Fix: Use 0n
-      isActive: account.isActive,
-      canAutoSave: canSave,
-      timeSinceLastSave,
-    };
-
-    // Get AI decision
-    const decisionEngine = new DecisionEngine({
-      strategy: DecisionStrategy.BALANCED,
-    });
+    // Get user's financial state (with the 7-day wallet forecast)
+    const { state: financialState, forecast } = await financialStateService.getFinancialState(address);
 
-    const decision = decisionEngine.decide(financialState);
+    // Get AI decision with the user's own strategy and thresholds
+    const decisionEngine = new DecisionEngine(userPreferencesStore.getDecisionContext(address), { advisor });
+    const context = decisionEngine.getContext();
+
+    const decision = await decisionEngine.decideWithAdvisor(financialState);
+
+    // On-demand analysis never acts, but keep it in the user's history
+    // (capped apart from scheduler decisions)
+    decisionHistoryStore.record(address, 'analyze', context.strategy, financialState, decision, {
+      action: 'none',
+    });
 
     // Format response
     res.json({
@@ -57,12 +89,40 @@ router.get('/analyze/:address', async (req: Request, res: Response) => {
       data: {
         address,
         financialState: {
-          walletBalance: blockchainService.formatUsdcAmount(walletBalance),
-          currentSavings: blockchainService.formatUsdcAmount(account.currentBalance),
-          weeklyGoal: blockchainService.formatUsdcAmount(account.weeklyGoal),
-          safetyBuffer: blockchainService.formatUsdcAmount(account.safetyBuffer),
-          timeSinceLastSave: timeSinceLastSave.toFixed(1) + ' hours',
-          canAutoSave: canSave,
+          walletBalance: blockchainService.formatUsdcAmount(financialState.walletBalance),
+          currentSavings: blockchainService.formatUsdcAmount(financialState.currentSavings),
+          weeklyGoal: blockchainService.formatUsdcAmount(financialState.weeklyGoal),
+          safetyBuffer: blockchainService.formatUsdcAmount(financialState.safetyBuffer),
+          timeSinceLastSave: financialState.timeSinceLastSave.toFixed(1) + ' hours',
+          canAutoSave: financialState.canAutoSave,
+          projectedMinBalance: forecast
+            ? blockchainService.formatUsdcAmount(forecast.forecast.projectedMinBalance)
+            : null,
+          savedThisWeek: financialState.savedThisWeek === undefined
+            ? null
+            : blockchainService.formatUsdcAmount(financialState.savedThisWeek),
+          remainingThisWeek: financialState.remainingThisWeek === undefined
+            ? null
+            : blockchainService.formatUsdcAmount(financialState.remainingThisWeek),
+        },
+        forecast: forecast && {
+          horizonDays: forecast.forecast.horizonDays,
+          projectedMinAt: new Date(forecast.forecast.projectedMinAt * 1000).toISOString(),
+          upcoming: forecast.forecast.events.map((event) => ({
+            at: new Date(event.timestamp * 1000).toISOString(),
+            amount: blockchainService.formatUsdcAmount(event.amount),
+            counterparty: event.counterparty,
+            balanceAfter: blockchainService.formatUsdcAmount(event.balanceAfter),
+          })),
+          recurringFlows: forecast.flows.map((flow) => ({
+            direction: flow.direction,
+            counterparty: flow.counterparty,
+            amount: blockchainService.formatUsdcAmount(flow.amount),
+            intervalDays: Number(flow.intervalDays.toFixed(1)),
+            occurrences: flow.occurrences,
+            nextExpected: new Date(flow.nextExpected * 1000).toISOString(),
+            confidence: flow.confidence,
+          })),
         },
         aiDecision: {
           shouldSave: decision.shouldSave,
@@ -70,8 +130,20 @@ router.get('/analyze/:address', async (req: Request, res: Response) => {
           reason: decision.reason,
           confidence: (decision.confidence * 100).toFixed(0) + '%',
           urgency: decision.urgency,
+          advisor: decision.advisor ?? null,
+        },
+        trace: decision.trace ? formatTrace(decision.trace) : null,
+        strategy: context.strategy,
+        decisionContext: {
+          minSaveAmount: blockchainService.formatUsdcAmount(context.minSaveAmount),
+          maxSavePercentage: context.maxSavePercentage,
+          goal: context.goal
+            ? {
+                targetAmount: blockchainService.formatUsdcAmount(context.goal.targetAmount),
+                deadline: new Date(context.goal.deadline * 1000).toISOString(),
+              }
+            : null,
         },
-        strategy: DecisionStrategy.BALANCED,
       },
     });
 
@@ -84,4 +156,109 @@ router.get('/analyze/:address', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/ai/decisions/:address
+ * 
+ * Past AI decisions for a user, newest first
+ * 
+ * Query: limit (default 20, max 100), offset, from, to
+ * from/to accept ISO dates (2026-01-15) or timestamps; to is inclusive.
+ * Amounts are in the smallest unit (6 decimals).
+ */
+router.get('/decisions/:address', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100 || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'limit must be 1-100 and offset a non-negative integer',
+      });
+    }
+
+    const from = parseDateParam(req.query.from, false);
+    const to = parseDateParam(req.query.to, true);
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'from/to must be ISO dates or timestamps',
+      });
+    }
+
+    const { items, total } = decisionHistoryStore.query(address, { from, to, limit, offset });
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        decisions: items,
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + items.length < total,
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching decisions:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch decisions',
+    });
+  }
+});
+
+/**
+ * POST /api/ai/simulate
+ * 
+ * Backtest strategies against a cash-flow timeline
+ * 
+ * Body: { scenario?, strategies? }
+ * scenario uses USDC amounts (see parseScenario); the built-in sample
+ * scenario is used when omitted. strategies defaults to all of them.
+ */
+router.post('/simulate', (req: Request, res: Response) => {
+  try {
+    const { scenario: input, strategies: strategyInput } = req.body ?? {};
+
+    const scenario = input === undefined ? createSampleScenario() : parseScenario(input);
+    const strategies = parseStrategies(strategyInput);
+
+    const results = simulateStrategies(scenario, strategies);
+
+    res.json({
+      success: true,
+      data: {
+        durationHours: scenario.durationHours,
+        results: results.map(formatStrategyResult),
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof SimulationInputError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error running simulation:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to run simulation',
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
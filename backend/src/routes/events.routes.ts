@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import { config } from '../config/env';
+import { liveEventHub, LiveEvent, toServerSentEvent } from '../services/live-events.service';
+
+const router = Router();
+
+// How long the browser waits before reconnecting a dropped stream
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * GET /api/user/:address/events
+ *
+ * Server-Sent Events stream of the user's vault events (Deposited,
+ * AutoSaveExecuted, Withdrawn, GoalUpdated) and scheduler decisions.
+ *
+ * Events:
+ * - vault_event: LiveVaultEvent (USDC amounts formatted)
+ * - decision:    LiveDecision
+ * - resync:      missed events can't be replayed, reload the account
+ *
+ * Resumes after the Last-Event-ID header (sent by EventSource when it
+ * reconnects) or the lastEventId query parameter.
+ */
+router.get('/:address/events', (req: Request, res: Response) => {
+  const { address } = req.params;
+  const lastEventId = req.get('Last-Event-ID')
+    ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid Ethereum address',
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',   // Don't let a proxy hold events back
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const send = (event: LiveEvent) => {
+    res.write(toServerSentEvent(event));
+  };
+
+  // Replay and subscribe in the same tick so nothing falls in between
+  if (lastEventId) {
+    const missed = liveEventHub.since(address, lastEventId);
+    if (missed === null) {
+      res.write('event: resync\ndata: {}\n\n');
+    } else {
+      missed.forEach(send);
+    }
+  }
+
+  const unsubscribe = liveEventHub.subscribe(address, send);
+
+  // Comment lines keep proxies and load balancers from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.liveEventHeartbeatMs);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
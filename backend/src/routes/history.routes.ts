@@ -0,0 +1,89 @@
+import { Router, Request, Response } from 'express';
+import { HistoryService, HISTORY_ENTRY_TYPES, HistoryEntryType } from '../services/history.service';
+import { parseDateParam } from './query-params';
+
+const router = Router();
+const historyService = new HistoryService();
+
+/**
+ * GET /api/user/:address/history
+ *
+ * The user's vault transactions, newest first: deposits, auto-saves and
+ * withdrawals plus the yield strategy moves behind them. Deposits made
+ * through POST /api/save carry their x402 payment.
+ *
+ * Query: type (comma-separated entry types), from, to, limit (default 20,
+ * max 100), offset. from/to accept ISO dates (2026-01-15) or timestamps;
+ * to is inclusive.
+ */
+router.get('/:address/history', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100 || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'limit must be 1-100 and offset a non-negative integer',
+      });
+    }
+
+    const types = req.query.type === undefined ? undefined : String(req.query.type).split(',');
+
+    if (types && !types.every((type) => (HISTORY_ENTRY_TYPES as readonly string[]).includes(type))) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be a comma-separated list of: ${HISTORY_ENTRY_TYPES.join(', ')}`,
+      });
+    }
+
+    const from = parseDateParam(req.query.from, false);
+    const to = parseDateParam(req.query.to, true);
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'from/to must be ISO dates or timestamps',
+      });
+    }
+
+    const { items, total } = historyService.getHistory(address.toLowerCase(), {
+      types: types as HistoryEntryType[] | undefined,
+      from,
+      to,
+      limit,
+      offset,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        entries: items,
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + items.length < total,
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching history:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch history',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,218 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { DEFAULT_NOTIFICATION_SUBSCRIPTIONS, isPublicWebhookUrl } from '../services/notifier.service';
+import { SignedRequestError, verifySignedRequest } from '../services/signed-request.service';
+import { notificationFeedStore, NOTIFICATION_EVENT_TYPES, NotificationEventType } from '../stores/notification-feed.store';
+import { userPreferencesStore, NotificationSubscriptions } from '../stores/user-preferences.store';
+
+const router = Router();
+
+// Action string the wallet signs for PUT /notifications
+export const UPDATE_NOTIFICATIONS_ACTION = 'update-notifications';
+
+/**
+ * Format subscriptions for the API
+ * The webhook secret and the email address are only returned by PUT,
+ * to the signed owner; GET only says whether an email is set.
+ */
+function formatSubscriptions(
+  subscriptions: Pick<NotificationSubscriptions, 'events' | 'inApp' | 'webhook' | 'email'>,
+  includePrivate = false
+) {
+  return {
+    events: subscriptions.events,
+    inApp: subscriptions.inApp,
+    webhook: subscriptions.webhook
+      ? { url: subscriptions.webhook.url, ...(includePrivate && { secret: subscriptions.webhook.secret }) }
+      : null,
+    ...(includePrivate && { email: subscriptions.email ?? null }),
+    hasEmail: subscriptions.email !== undefined,
+  };
+}
+
+/**
+ * GET /api/user/:address/notifications
+ *
+ * What the user is notified about and where (defaults if none stored)
+ */
+router.get('/:address/notifications', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const stored = userPreferencesStore.getSubscriptions(address);
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        subscriptions: formatSubscriptions(stored ?? DEFAULT_NOTIFICATION_SUBSCRIPTIONS),
+        isDefault: !stored,
+        updatedAt: stored?.updatedAt ?? null,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching notification subscriptions:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch notification subscriptions',
+    });
+  }
+});
+
+/**
+ * PUT /api/user/:address/notifications
+ *
+ * Store the user's subscriptions. Must be signed by the address (EIP-191)
+ * over { events, inApp, webhookUrl, email }, see buildSignedMessage().
+ *
+ * Body: { events, inApp, webhookUrl?, email?, timestamp, signature }
+ * A new webhook URL gets a new signing secret, returned in the response.
+ */
+router.put('/:address/notifications', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const { events, inApp, webhookUrl, email, timestamp, signature } = req.body;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    if (
+      !Array.isArray(events) ||
+      !events.every((event) => NOTIFICATION_EVENT_TYPES.includes(event)) ||
+      new Set(events).size !== events.length
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `events must be a list of: ${NOTIFICATION_EVENT_TYPES.join(', ')}`,
+      });
+    }
+
+    if (typeof inApp !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'inApp must be a boolean',
+      });
+    }
+
+    if (webhookUrl !== undefined && (typeof webhookUrl !== 'string' || !isPublicWebhookUrl(webhookUrl))) {
+      return res.status(400).json({
+        success: false,
+        error: 'webhookUrl must be an http(s) URL on a public host',
+      });
+    }
+
+    if (email !== undefined && (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid email',
+      });
+    }
+
+    const stored = userPreferencesStore.getSubscriptions(address);
+
+    verifySignedRequest(
+      {
+        action: UPDATE_NOTIFICATIONS_ACTION,
+        address,
+        payload: { events, inApp, webhookUrl, email },
+        timestamp,
+        signature,
+      },
+      stored?.signedAt
+    );
+
+    // Keep the secret while the URL is unchanged, so receivers keep verifying
+    const secret = stored?.webhook?.url === webhookUrl
+      ? stored!.webhook!.secret
+      : crypto.randomBytes(32).toString('hex');
+
+    const saved = userPreferencesStore.setSubscriptions({
+      address: ethers.getAddress(address),
+      events: events as NotificationEventType[],
+      inApp,
+      webhook: webhookUrl === undefined ? undefined : { url: webhookUrl, secret },
+      email,
+      signedAt: timestamp,
+    });
+
+    console.log(`🔔 Notifications updated for ${saved.address}: ${saved.events.length} events`);
+
+    res.json({
+      success: true,
+      data: {
+        address: saved.address,
+        subscriptions: formatSubscriptions(saved, true),
+        isDefault: false,
+        updatedAt: saved.updatedAt,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof SignedRequestError) {
+      return res.status(401).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+
+    console.error('Error updating notification subscriptions:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update notification subscriptions',
+    });
+  }
+});
+
+/**
+ * GET /api/user/:address/notifications/feed?limit=20
+ *
+ * The user's in-app notifications, newest first
+ */
+router.get('/:address/notifications/feed', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({
+        success: false,
+        error: 'limit must be an integer between 1 and 200',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        notifications: notificationFeedStore.listByUser(address, limit),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching notification feed:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch notification feed',
+    });
+  }
+});
+
+export default router;
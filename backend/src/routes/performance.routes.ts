@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import { PerformanceService } from '../services/performance.service';
+
+const router = Router();
+const performanceService = new PerformanceService();
+
+/**
+ * GET /api/user/:address/performance
+ *
+ * The user's VVS yield strategy performance: cost basis, current value,
+ * cumulative yield, swap/slippage cost, realized and unrealized PnL,
+ * time-weighted return and APY, plus a value vs cost basis series.
+ * performance is null until the user has moved funds to yield and a
+ * snapshot has been taken.
+ */
+router.get('/:address/performance', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        performance: performanceService.getPerformance(address),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching performance:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch performance',
+    });
+  }
+});
+
+export default router;
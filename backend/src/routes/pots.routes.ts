@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { PotPriority } from '../agent/types';
+import { SignedRequestError, verifySignedRequest } from '../services/signed-request.service';
+import { userPreferencesStore, SavingsPot, SavingsPotInput } from '../stores/user-preferences.store';
+
+const router = Router();
+
+// Action string the wallet signs for PUT /pots
+export const UPDATE_POTS_ACTION = 'update-pots';
+
+const POT_PRIORITIES: PotPriority[] = ['low', 'medium', 'high'];
+const MAX_POT_NAME_LENGTH = 40;
+
+/**
+ * Format a pot for the API (USDC amounts as decimal strings)
+ */
+function formatPot(pot: SavingsPot) {
+  const target = BigInt(pot.targetAmount);
+  const saved = BigInt(pot.savedAmount);
+
+  return {
+    id: pot.id,
+    name: pot.name,
+    targetAmount: ethers.formatUnits(target, 6),
+    savedAmount: ethers.formatUnits(saved, 6),
+    remaining: ethers.formatUnits(saved < target ? target - saved : 0n, 6),
+    progress: Math.min(1, Number(saved) / Number(target)),
+    deadline: pot.deadline ?? null,
+    priority: pot.priority,
+    createdAt: pot.createdAt,
+    updatedAt: pot.updatedAt,
+  };
+}
+
+/**
+ * Check the pots of a PUT body
+ * Returns the pots to store (amounts in smallest unit) or an error.
+ */
+function parsePots(pots: unknown, existingIds: Set<string>): { pots: SavingsPotInput[] } | { error: string } {
+  if (!Array.isArray(pots) || pots.length > config.savingsPotMaxPerUser) {
+    return { error: `pots must be a list of at most ${config.savingsPotMaxPerUser} pots` };
+  }
+
+  const names = new Set<string>();
+  const ids = new Set<string>();
+  const parsed: SavingsPotInput[] = [];
+
+  for (const pot of pots) {
+    const name = typeof pot?.name === 'string' ? pot.name.trim() : '';
+    if (!name || name.length > MAX_POT_NAME_LENGTH || names.has(name.toLowerCase())) {
+      return { error: `Each pot needs a unique name of at most ${MAX_POT_NAME_LENGTH} characters` };
+    }
+    names.add(name.toLowerCase());
+
+    if (pot.id !== undefined) {
+      if (!existingIds.has(pot.id) || ids.has(pot.id)) {
+        return { error: `Unknown pot id: ${pot.id}` };
+      }
+      ids.add(pot.id);
+    }
+
+    let targetAmount: bigint;
+    try {
+      targetAmount = ethers.parseUnits(String(pot.targetAmount), 6);
+    } catch {
+      targetAmount = 0n;
+    }
+    if (targetAmount <= 0n) {
+      return { error: `Invalid targetAmount for ${name}` };
+    }
+
+    if (pot.deadline !== undefined && !(Number.isInteger(pot.deadline) && pot.deadline > 0)) {
+      return { error: `deadline for ${name} must be a unix timestamp (seconds)` };
+    }
+
+    if (!POT_PRIORITIES.includes(pot.priority)) {
+      return { error: `priority for ${name} must be one of: ${POT_PRIORITIES.join(', ')}` };
+    }
+
+    parsed.push({
+      id: pot.id,
+      name,
+      targetAmount: targetAmount.toString(),
+      deadline: pot.deadline,
+      priority: pot.priority,
+    });
+  }
+
+  return { pots: parsed };
+}
+
+/**
+ * GET /api/user/:address/pots
+ *
+ * The user's savings pots with their progress (empty if none)
+ */
+router.get('/:address/pots', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const stored = userPreferencesStore.getPots(address);
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        pots: (stored?.pots ?? []).map(formatPot),
+        updatedAt: stored?.updatedAt ?? null,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching pots:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch pots',
+    });
+  }
+});
+
+/**
+ * PUT /api/user/:address/pots
+ *
+ * Replace the user's savings pots. Must be signed by the address
+ * (EIP-191) over { pots }, see buildSignedMessage().
+ *
+ * Body: { pots: [{ id?, name, targetAmount (USDC), deadline?, priority }], timestamp, signature }
+ * Pots sent with their id keep what they've saved; new pots have no id.
+ */
+router.put('/:address/pots', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const { pots, timestamp, signature } = req.body;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const stored = userPreferencesStore.getPots(address);
+    const result = parsePots(pots, new Set((stored?.pots ?? []).map((pot) => pot.id)));
+
+    if ('error' in result) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    verifySignedRequest(
+      {
+        action: UPDATE_POTS_ACTION,
+        address,
+        payload: { pots },
+        timestamp,
+        signature,
+      },
+      stored?.signedAt
+    );
+
+    const saved = userPreferencesStore.setPots(ethers.getAddress(address), result.pots, timestamp);
+
+    console.log(`🫙 Pots updated for ${saved.address}: ${saved.pots.map((pot) => pot.name).join(', ') || 'none'}`);
+
+    res.json({
+      success: true,
+      data: {
+        address: saved.address,
+        pots: saved.pots.map(formatPot),
+        updatedAt: saved.updatedAt,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof SignedRequestError) {
+      return res.status(401).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+
+    console.error('Error updating pots:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update pots',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,226 @@
+import { Router, Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { DEFAULT_DECISION_CONTEXT } from '../agent/decision-engine';
+import { DecisionContext, DecisionStrategy } from '../agent/types';
+import { MAX_SAVE_AMOUNT } from '../services/blockchain.service';
+import { SignedRequestError, verifySignedRequest } from '../services/signed-request.service';
+import { isValidTimezone, WeeklyProgressService } from '../services/weekly-progress.service';
+import { userPreferencesStore } from '../stores/user-preferences.store';
+
+const router = Router();
+const weeklyProgressService = new WeeklyProgressService();
+
+// Action string the wallet signs for PUT /preferences
+export const UPDATE_PREFERENCES_ACTION = 'update-preferences';
+
+/**
+ * Format a DecisionContext for the API (USDC amounts as decimal strings)
+ */
+function formatContext(context: DecisionContext) {
+  return {
+    strategy: context.strategy,
+    minSaveAmount: ethers.formatUnits(context.minSaveAmount, 6),
+    maxSavePercentage: context.maxSavePercentage,
+    goal: context.goal
+      ? {
+          targetAmount: ethers.formatUnits(context.goal.targetAmount, 6),
+          deadline: context.goal.deadline,
+        }
+      : null,
+  };
+}
+
+/**
+ * GET /api/user/:address/preferences
+ *
+ * The user's decision preferences (defaults if none stored)
+ */
+router.get('/:address/preferences', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const stored = userPreferencesStore.get(address);
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        preferences: formatContext({
+          ...DEFAULT_DECISION_CONTEXT,
+          ...userPreferencesStore.getDecisionContext(address),
+        }),
+        week: weeklyProgressService.getWeekBoundary(address),
+        isDefault: !stored,
+        updatedAt: stored?.updatedAt ?? null,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching preferences:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch preferences',
+    });
+  }
+});
+
+/**
+ * PUT /api/user/:address/preferences
+ *
+ * Store the user's DecisionContext. Must be signed by the address
+ * (EIP-191) over the preferences, see buildSignedMessage().
+ *
+ * Body: { strategy, minSaveAmount, maxSavePercentage, goal?, week?, timestamp, signature }
+ * goal is { targetAmount (USDC), deadline (unix seconds) }, required for goal_driven.
+ * week is { timezone (IANA), startDay (0 = Sunday) }, where the weekly goal's week starts;
+ * left out, the stored week is kept.
+ */
+router.put('/:address/preferences', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const { strategy, minSaveAmount, maxSavePercentage, goal, week, timestamp, signature } = req.body;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    if (!Object.values(DecisionStrategy).includes(strategy)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid strategy. Use one of: ${Object.values(DecisionStrategy).join(', ')}`,
+      });
+    }
+
+    let minSaveAmountInSmallestUnit: bigint;
+    try {
+      minSaveAmountInSmallestUnit = ethers.parseUnits(String(minSaveAmount), 6);
+    } catch {
+      minSaveAmountInSmallestUnit = 0n;
+    }
+    if (minSaveAmountInSmallestUnit <= 0n || minSaveAmountInSmallestUnit > MAX_SAVE_AMOUNT) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid minSaveAmount',
+      });
+    }
+
+    if (
+      typeof maxSavePercentage !== 'number' ||
+      !(maxSavePercentage > 0 && maxSavePercentage <= 1) ||
+      Math.abs(maxSavePercentage * 100 - Math.round(maxSavePercentage * 100)) > 1e-9
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'maxSavePercentage must be a whole percent between 0 and 1 (e.g. 0.57)',
+      });
+    }
+
+    let goalTargetAmount: bigint | undefined;
+    if (goal !== undefined) {
+      try {
+        goalTargetAmount = ethers.parseUnits(String(goal?.targetAmount), 6);
+      } catch {
+        goalTargetAmount = 0n;
+      }
+      if (goalTargetAmount <= 0n) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid goal.targetAmount',
+        });
+      }
+
+      if (!Number.isInteger(goal.deadline) || goal.deadline <= Math.floor(Date.now() / 1000)) {
+        return res.status(400).json({
+          success: false,
+          error: 'goal.deadline must be a future unix timestamp (seconds)',
+        });
+      }
+    } else if (strategy === DecisionStrategy.GOAL_DRIVEN) {
+      return res.status(400).json({
+        success: false,
+        error: 'goal_driven strategy requires a goal',
+      });
+    }
+
+    if (
+      week !== undefined &&
+      !(
+        typeof week?.timezone === 'string' &&
+        isValidTimezone(week.timezone) &&
+        Number.isInteger(week.startDay) &&
+        week.startDay >= 0 &&
+        week.startDay <= 6
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'week must be { timezone (IANA, e.g. Europe/Paris), startDay (0 = Sunday to 6 = Saturday) }',
+      });
+    }
+
+    const stored = userPreferencesStore.get(address);
+
+    verifySignedRequest(
+      {
+        action: UPDATE_PREFERENCES_ACTION,
+        address,
+        // Unset goal/week are left out of the signed payload
+        payload: { strategy, minSaveAmount, maxSavePercentage, goal, week },
+        timestamp,
+        signature,
+      },
+      stored?.signedAt
+    );
+
+    const saved = userPreferencesStore.set({
+      address: ethers.getAddress(address),
+      strategy,
+      minSaveAmount: minSaveAmountInSmallestUnit.toString(),
+      maxSavePercentage,
+      goal: goalTargetAmount === undefined
+        ? undefined
+        : { targetAmount: goalTargetAmount.toString(), deadline: goal.deadline },
+      // Clients that don't send week keep the stored one
+      week: week === undefined ? stored?.week : { timezone: week.timezone, startDay: week.startDay },
+      signedAt: timestamp,
+    });
+
+    console.log(`⚙️  Preferences updated for ${saved.address}: ${saved.strategy}`);
+
+    res.json({
+      success: true,
+      data: {
+        address: saved.address,
+        preferences: formatContext(userPreferencesStore.getDecisionContext(address) as DecisionContext),
+        week: weeklyProgressService.getWeekBoundary(address),
+        isDefault: false,
+        updatedAt: saved.updatedAt,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof SignedRequestError) {
+      return res.status(401).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+
+    console.error('Error updating preferences:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update preferences',
+    });
+  }
+});
+
+export default router;
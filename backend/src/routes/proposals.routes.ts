@@ -0,0 +1,120 @@
+import { Router, Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { SignedRequestError, verifySignedRequest } from '../services/signed-request.service';
+import { saveProposalStore, SaveProposal, SaveProposalError } from '../stores/save-proposal.store';
+
+const router = Router();
+
+// Action string the wallet signs for POST /proposals/:id/dismiss
+export const DISMISS_PROPOSAL_ACTION = 'dismiss-proposal';
+
+/**
+ * Format a SaveProposal for the API (amount as a USDC decimal string)
+ */
+export function formatProposal(proposal: SaveProposal) {
+  return {
+    ...proposal,
+    amount: ethers.formatUnits(proposal.amount, 6),
+    amountInSmallestUnit: proposal.amount,
+  };
+}
+
+/**
+ * GET /api/user/:address/proposals
+ *
+ * Saves the AI proposed to this MANUAL account, newest first,
+ * with the open one (if any) as `pending`
+ */
+router.get('/:address/proposals', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const proposals = saveProposalStore.listByUser(address);
+    const pending = proposals.find((proposal) => proposal.status === 'pending');
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        pending: pending ? formatProposal(pending) : null,
+        proposals: proposals.map(formatProposal),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching proposals:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch proposals',
+    });
+  }
+});
+
+/**
+ * POST /api/user/:address/proposals/:id/dismiss
+ *
+ * Dismiss a pending proposal. Must be signed by the address (EIP-191)
+ * over { proposalId }, see buildSignedMessage().
+ *
+ * Body: { timestamp, signature }
+ */
+router.post('/:address/proposals/:id/dismiss', (req: Request, res: Response) => {
+  try {
+    const { address, id } = req.params;
+    const { timestamp, signature } = req.body;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    verifySignedRequest({
+      action: DISMISS_PROPOSAL_ACTION,
+      address,
+      payload: { proposalId: id },
+      timestamp,
+      signature,
+    });
+
+    const dismissed = saveProposalStore.dismiss(id, address);
+
+    console.log(`🙅 Proposal ${dismissed.id} dismissed by ${address}`);
+
+    res.json({
+      success: true,
+      data: formatProposal(dismissed),
+    });
+  } catch (error: any) {
+    if (error instanceof SignedRequestError) {
+      return res.status(401).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+
+    if (error instanceof SaveProposalError) {
+      return res.status(error.code === 'proposal_not_found' ? 404 : 409).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+
+    console.error('Error dismissing proposal:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to dismiss proposal',
+    });
+  }
+});
+
+export default router;
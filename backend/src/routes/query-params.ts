@@ -0,0 +1,17 @@
+/**
+ * Parse a from/to query value (ISO date/time or unix ms)
+ * A plain YYYY-MM-DD `to` covers that whole (UTC) day.
+ * Returns null for unparseable values.
+ */
+export function parseDateParam(value: unknown, isEnd: boolean): number | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value === '') return null;
+
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(timestamp)) return null;
+
+  if (!isEnd) return timestamp;
+
+  // Stores take an exclusive `to`; make ours inclusive
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? timestamp + 24 * 60 * 60 * 1000 : timestamp + 1;
+}
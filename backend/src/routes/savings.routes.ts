@@ -1,7 +1,13 @@
 import { Router } from 'express';
 import { Request, Response } from 'express';
-import { BlockchainService } from '../services/blockchain.service';
+import { BlockchainService, formatTrustMode } from '../services/blockchain.service';
 import { X402Service } from '../services/x402.service';
+import { PaymentService, PaymentInFlightError } from '../services/payment.service';
+import { WithdrawQuoteError, WithdrawQuoteService } from '../services/withdraw-quote.service';
+import { Notifier } from '../services/notifier.service';
+import { WeeklyProgressService } from '../services/weekly-progress.service';
+import { paymentLedger, PaymentRecord } from '../stores/payment-ledger.store';
+import { saveProposalStore, SaveProposalError } from '../stores/save-proposal.store';
 import { ApiResponse } from '../types';
 import crypto from 'crypto';
 
@@ -10,10 +16,10 @@ const router = Router();
 // Initialize services
 const blockchainService = new BlockchainService();
 const x402Service = new X402Service();
-
-// In-memory payment tracking
-// In production, use Redis or database
-const pendingPayments = new Map<string, { settled: boolean; txHash?: string; at: number }>();
+const paymentService = new PaymentService(blockchainService);
+const withdrawQuoteService = new WithdrawQuoteService(blockchainService);
+const notifier = new Notifier();
+const weeklyProgressService = new WeeklyProgressService();
 
 /**
  * GET /api/health
@@ -48,7 +54,8 @@ router.get('/health', async (req: Request, res: Response) => {
  * GET /api/user/:address
  * 
  * Get user account details from smart contract
- * Includes balance, goals, trust mode, etc.
+ * Includes balance, goals, trust mode, etc., and what was saved toward
+ * the weekly goal in the user's current week (savedThisWeek / remainingThisWeek)
  */
 router.get('/user/:address', async (req: Request, res: Response) => {
   try {
@@ -69,6 +76,9 @@ router.get('/user/:address', async (req: Request, res: Response) => {
     // NEW: Get wallet USDC balance
     const walletBalance = await blockchainService.getWalletUsdcBalance(address);
 
+    // This week's saves, from the indexed vault events
+    const progress = weeklyProgressService.getProgress(address, account.weeklyGoal);
+
     const response: ApiResponse = {
       success: true,
       data: {
@@ -81,11 +91,19 @@ router.get('/user/:address', async (req: Request, res: Response) => {
           safetyBuffer: blockchainService.formatUsdcAmount(account.safetyBuffer),
           lastSaveTimestamp: account.lastSaveTimestamp.toString(),
           isActive: account.isActive,
-          trustMode: account.trustMode === 0 ? 'MANUAL' : 'AUTO',
+          trustMode: formatTrustMode(account.trustMode),
         },
         totalBalance: blockchainService.formatUsdcAmount(totalBalance),
         walletBalance: blockchainService.formatUsdcAmount(walletBalance), // NEW
         canAutoSave: canSave,
+        savedThisWeek: blockchainService.formatUsdcAmount(progress.savedThisWeek),
+        remainingThisWeek: blockchainService.formatUsdcAmount(progress.remainingThisWeek),
+        week: {
+          start: new Date(progress.weekStart).toISOString(),
+          end: new Date(progress.weekEnd).toISOString(),
+          timezone: progress.boundary.timezone,
+          startDay: progress.boundary.startDay,
+        },
       },
     };
 
@@ -99,6 +117,141 @@ router.get('/user/:address', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/user/:address/withdraw-quote?amount=25.00
+ * 
+ * Preview SavingsVault.withdraw(amount) for a user
+ * Splits the amount between the vault's idle USDC and unwinding the
+ * user's VVS position, and estimates the slippage on that unwind.
+ */
+router.get('/user/:address/withdraw-quote', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const amount = typeof req.query.amount === 'string' ? req.query.amount : '';
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    if (!/^\d+(\.\d{1,6})?$/.test(amount)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid amount',
+      });
+    }
+
+    const quote = await withdrawQuoteService.getQuote(address, blockchainService.parseUsdcAmount(amount));
+    const format = (value: bigint) => blockchainService.formatUsdcAmount(value);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        address,
+        amount: format(quote.amount),
+        vaultBalance: format(quote.vaultBalance),
+        fromVault: format(quote.fromVault),
+        fromYield: format(quote.fromYield),
+        unwind: quote.unwind && {
+          liquidityTokens: quote.unwind.liquidityTokens.toString(),
+          positionValue: format(quote.unwind.positionValue),
+          usdcFromPool: format(quote.unwind.usdcFromPool),
+          usdtFromPool: format(quote.unwind.usdtFromPool),
+          usdcFromSwap: format(quote.unwind.usdcFromSwap),
+          estimatedReceived: format(quote.unwind.estimatedReceived),
+          slippage: format(quote.unwind.slippage),
+          slippageBps: quote.unwind.slippageBps,
+          toleranceBps: quote.unwind.toleranceBps,
+          exceedsTolerance: quote.unwind.exceedsTolerance,
+        },
+        shortfall: format(quote.shortfall),
+        willRevert: quote.willRevert,
+      },
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    if (error instanceof WithdrawQuoteError) {
+      return res.status(400).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+
+    console.error('Error quoting withdrawal:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to quote withdrawal',
+    });
+  }
+});
+
+/**
+ * GET /api/user/:address/safety-buffer-update?amount=150.00
+ * 
+ * Prepare updateSafetyBuffer(amount) for the user to sign
+ * Returns the unsigned transaction and how much of the wallet the
+ * agent could save from before and after the change.
+ */
+router.get('/user/:address/safety-buffer-update', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const amount = typeof req.query.amount === 'string' ? req.query.amount : '';
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    if (!/^\d+(\.\d{1,6})?$/.test(amount)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid amount',
+      });
+    }
+
+    const account = await blockchainService.getUserAccount(address);
+    if (!account.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'account_not_active',
+        message: 'No active savings account for this address',
+      });
+    }
+
+    const newSafetyBuffer = blockchainService.parseUsdcAmount(amount);
+    const walletBalance = await blockchainService.getWalletUsdcBalance(address);
+    const aboveBuffer = (buffer: bigint) =>
+      blockchainService.formatUsdcAmount(walletBalance > buffer ? walletBalance - buffer : 0n);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        address,
+        currentSafetyBuffer: blockchainService.formatUsdcAmount(account.safetyBuffer),
+        newSafetyBuffer: blockchainService.formatUsdcAmount(newSafetyBuffer),
+        walletBalance: blockchainService.formatUsdcAmount(walletBalance),
+        availableNow: aboveBuffer(account.safetyBuffer),
+        availableAfter: aboveBuffer(newSafetyBuffer),
+        transaction: await blockchainService.buildUpdateSafetyBufferTx(newSafetyBuffer),
+      },
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('Error preparing safety buffer update:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to prepare safety buffer update',
+    });
+  }
+});
+
 /**
  * POST /api/save
  * 
@@ -107,12 +260,20 @@ router.get('/user/:address', async (req: Request, res: Response) => {
  * Flow:
  * 1. Check if X-PAYMENT header present
  * 2. If not, return 402 with payment requirements
- * 3. If yes, verify and settle payment
+ * 3. If yes, check the header locally, then verify and settle payment
  * 4. Credit user's account via depositFor()
+ * 
+ * Every step is recorded in the payment ledger, so a payment that was
+ * settled but never credited is resumed by retrying with its X-PAYMENT-ID.
+ * 
+ * Body: { user, amount, proposalId? } - proposalId accepts a MANUAL-mode
+ * save proposal; it must be pending, for this user and for this amount.
  */
 router.post('/save', async (req: Request, res: Response) => {
+  let claimedPaymentId: string | null = null;
+
   try {
-    const { user, amount } = req.body;
+    const { user, amount, proposalId } = req.body;
 
     // Validate request body
     if (!user || !amount) {
@@ -139,12 +300,10 @@ router.post('/save', async (req: Request, res: Response) => {
       });
     }
 
-    // Check if user can auto-save (rate limit)
-    const canSave = await blockchainService.canAutoSave(user);
-    if (!canSave) {
-      return res.status(429).json({
+    if (proposalId !== undefined && (typeof proposalId !== 'string' || !proposalId)) {
+      return res.status(400).json({
         success: false,
-        error: 'Rate limit exceeded. Please wait 24 hours between saves.',
+        error: 'Invalid proposalId',
       });
     }
 
@@ -155,14 +314,96 @@ router.post('/save', async (req: Request, res: Response) => {
     const paymentHeader = req.header('X-PAYMENT');
     const paymentId = req.header('X-PAYMENT-ID') || `pay_${crypto.randomUUID()}`;
 
+    // One request at a time may verify, settle and credit a payment,
+    // so a concurrent (or forged) request can't fail one in flight
+    if (paymentHeader) {
+      paymentService.claim(paymentId);
+      claimedPaymentId = paymentId;
+    }
+
+    const existingPayment = paymentLedger.get(paymentId);
+
+    // A paymentId is bound to the user and amount it was issued for
+    if (
+      existingPayment &&
+      (existingPayment.user.toLowerCase() !== user.toLowerCase() ||
+        existingPayment.amount !== amountInSmallestUnit)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'Payment ID does not match this user and amount',
+      });
+    }
+
+    // Check if payment already credited
+    if (existingPayment?.status === 'credited') {
+      return res.status(400).json({
+        success: false,
+        error: 'Payment already processed',
+        txHash: existingPayment.facilitatorTxHash,
+        depositTxHash: existingPayment.depositTxHash,
+      });
+    }
+
+    // Settled but never credited (depositFor failed or the server restarted)
+    // The USDC is already in the vault - resume crediting without a new payment
+    if (existingPayment?.status === 'settled') {
+      console.log('🔁 Resuming settled payment:', paymentId);
+
+      // The proposal must have been open when this payment started
+      if (proposalId) {
+        saveProposalStore.assertAcceptable(proposalId, user, amountInSmallestUnit, Date.parse(existingPayment.createdAt));
+      }
+
+      const { record } = await paymentService.resume(existingPayment);
+      acceptProposal(proposalId, record);
+      notifyCredited(record, amount, proposalId);
+      return res.json(buildSaveResponse(record, amount, proposalId));
+    }
+
+    // A proposed save must still be open and for this user and amount
+    if (proposalId) {
+      saveProposalStore.assertAcceptable(proposalId, user, amountInSmallestUnit);
+    }
+
+    // Create payment requirements (what we expect)
+    const paymentRequirements = x402Service.createPaymentRequirements(
+      amountInSmallestUnit,
+      paymentId
+    );
+
+    // Reject headers that can't pay for this save before any network call
+    if (paymentHeader) {
+      const headerCheck = x402Service.validatePaymentHeader(paymentHeader, user, paymentRequirements);
+
+      if (!headerCheck.ok) {
+        console.error('❌ Invalid payment header:', headerCheck.error);
+
+        if (existingPayment) {
+          paymentLedger.transition(paymentId, 'failed', { error: headerCheck.error });
+        }
+
+        return res.status(400).json({
+          success: false,
+          error: headerCheck.error,
+          message: headerCheck.message,
+        });
+      }
+    }
+
+    // Check if user can auto-save (rate limit)
+    const canSave = await blockchainService.canAutoSave(user);
+    if (!canSave) {
+      return res.status(429).json({
+        success: false,
+        error: 'Rate limit exceeded. Please wait 24 hours between saves.',
+      });
+    }
+
     // If no payment header, return 402 with requirements
+    // Nothing is stored until a payment arrives, so unpaid challenges can't pile up
     if (!paymentHeader) {
       console.log('💳 No payment header, returning 402');
-      
-      const paymentRequirements = x402Service.createPaymentRequirements(
-        amountInSmallestUnit,
-        paymentId
-      );
 
       return res.status(402).json({
         success: false,
@@ -175,78 +416,152 @@ router.post('/save', async (req: Request, res: Response) => {
     // Payment header present - verify and settle
     console.log('💰 Payment header received, processing...');
 
-    // Check if payment already settled
-    const existingPayment = pendingPayments.get(paymentId);
-    if (existingPayment?.settled) {
+    if (!existingPayment) {
+      paymentLedger.create(paymentId, user, amountInSmallestUnit);
+    }
+
+    // Verify payment via x402 Facilitator
+    const verifyResult = await x402Service.verifyPayment(
+      paymentId,
+      paymentHeader,
+      paymentRequirements
+    );
+
+    if (!verifyResult.ok) {
+      console.error('❌ Payment verification failed:', verifyResult.error);
+      paymentLedger.transition(paymentId, 'failed', { error: verifyResult.error });
+      void notifier.notify({ type: 'save_failed', user, amount, source: 'x402', error: verifyResult.error ?? 'Payment verification failed' });
       return res.status(400).json({
         success: false,
-        error: 'Payment already processed',
-        txHash: existingPayment.txHash,
+        error: verifyResult.error,
+        details: verifyResult.details,
       });
     }
 
-    // Create payment requirements (what we expect)
-    const paymentRequirements = x402Service.createPaymentRequirements(
-      amountInSmallestUnit,
-      paymentId
-    );
+    paymentLedger.transition(paymentId, 'verified');
 
-    // Verify and settle payment via x402 Facilitator
-    const paymentResult = await x402Service.verifyAndSettle(
+    // Settle payment (USDC moves into the vault)
+    const settleResult = await x402Service.settlePayment(
       paymentId,
       paymentHeader,
       paymentRequirements
     );
 
-    if (!paymentResult.ok) {
-      console.error('❌ Payment failed:', paymentResult.error);
+    if (!settleResult.ok) {
+      console.error('❌ Payment settlement failed:', settleResult.error);
+      paymentLedger.transition(paymentId, 'failed', { error: settleResult.error });
+      void notifier.notify({ type: 'save_failed', user, amount, source: 'x402', error: settleResult.error ?? 'Payment settlement failed' });
       return res.status(400).json({
         success: false,
-        error: paymentResult.error,
-        details: paymentResult.details,
+        error: settleResult.error,
+        details: settleResult.details,
       });
     }
 
-    console.log('✅ Payment settled:', paymentResult.txHash);
+    console.log('✅ Payment settled:', settleResult.txHash);
 
-    // Mark payment as settled
-    pendingPayments.set(paymentId, {
-      settled: true,
-      txHash: paymentResult.txHash,
-      at: Date.now(),
+    // Mark payment as settled before touching the vault
+    const settled = paymentLedger.transition(paymentId, 'settled', {
+      facilitatorTxHash: settleResult.txHash,
     });
 
     // Credit user's account in vault
-    // USDC is already in vault (transferred via x402)
-    // We just need to update accounting
-    const depositReceipt = await blockchainService.depositFor(
-      user,
-      BigInt(amountInSmallestUnit)
-    );
+    const credited = await paymentService.credit(settled);
 
-    console.log('✅ Account credited:', depositReceipt.hash);
+    acceptProposal(proposalId, credited);
+    notifyCredited(credited, amount, proposalId);
 
     // Return success response
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        paymentId,
-        paymentTxHash: paymentResult.txHash,
-        depositTxHash: depositReceipt.hash,
-        user,
-        amount,
-        amountInSmallestUnit,
-      },
-    };
-
-    res.json(response);
+    res.json(buildSaveResponse(credited, amount, proposalId));
   } catch (error: any) {
+    if (error instanceof SaveProposalError) {
+      return res.status(400).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+
+    if (error instanceof PaymentInFlightError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
     console.error('❌ Error in /api/save:', error);
     res.status(500).json({
       success: false,
       error: error.message || 'Failed to process save request',
     });
+  } finally {
+    if (claimedPaymentId) {
+      paymentService.release(claimedPaymentId);
+    }
   }
 });
 
+/**
+ * Mark the proposal a save was made for as accepted
+ * Only once the payment is credited; a payment still waiting for
+ * depositFor() accepts it when the client resumes. The save stands
+ * even if the proposal can no longer be accepted.
+ */
+function acceptProposal(proposalId: string | undefined, payment: PaymentRecord) {
+  if (!proposalId || payment.status !== 'credited') {
+    return;
+  }
+
+  try {
+    saveProposalStore.accept(proposalId, {
+      paymentId: payment.paymentId,
+      user: payment.user,
+      amount: payment.amount,
+      startedAt: Date.parse(payment.createdAt),
+      depositTxHash: payment.depositTxHash,
+    });
+    console.log(`📬 Proposal ${proposalId} accepted with payment ${payment.paymentId}`);
+  } catch (error) {
+    if (!(error instanceof SaveProposalError)) throw error;
+    console.warn(`⚠️ Proposal ${proposalId} not accepted with payment ${payment.paymentId}: ${error.message}`);
+  }
+}
+
+/**
+ * Tell the user a paid save reached their vault
+ * (a payment still waiting for depositFor() is reported once credited)
+ */
+function notifyCredited(payment: PaymentRecord, amount: string, proposalId?: string) {
+  if (payment.status !== 'credited') {
+    return;
+  }
+
+  void notifier.notify({
+    type: 'save_executed',
+    user: payment.user,
+    amount,
+    source: 'x402',
+    txHash: payment.depositTxHash!,
+    proposalId,
+  });
+}
+
+/**
+ * Build the /api/save success response for a credited payment
+ */
+function buildSaveResponse(payment: PaymentRecord, amount: string, proposalId?: string): ApiResponse {
+  return {
+    success: true,
+    data: {
+      paymentId: payment.paymentId,
+      paymentTxHash: payment.facilitatorTxHash,
+      depositTxHash: payment.depositTxHash,
+      user: payment.user,
+      amount,
+      amountInSmallestUnit: payment.amount,
+      proposalId: proposalId ?? null,
+    },
+  };
+}
+
 export default router;
\ No newline at end of file
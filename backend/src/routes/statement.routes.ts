@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { StatementService, STATEMENT_FORMATS, toStatementCsv } from '../services/statement.service';
+import { parseDateParam } from './query-params';
+
+const router = Router();
+const statementService = new StatementService();
+
+/**
+ * GET /api/user/:address/statement
+ *
+ * Deposits, AI auto-saves, withdrawals and VVS yield moves for a period,
+ * with the running vault balance, realized yield and the x402 payment
+ * behind each deposit. For tax reporting.
+ *
+ * Query: from, to (ISO dates or timestamps, to inclusive; default the
+ * current calendar year), format (json, default, or csv).
+ */
+router.get('/:address/statement', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Ethereum address',
+      });
+    }
+
+    const format = req.query.format === undefined ? 'json' : String(req.query.format);
+
+    if (!(STATEMENT_FORMATS as readonly string[]).includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${STATEMENT_FORMATS.join(', ')}`,
+      });
+    }
+
+    const from = parseDateParam(req.query.from, false);
+    const to = parseDateParam(req.query.to, true);
+
+    if (from === null || to === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'from/to must be ISO dates or timestamps',
+      });
+    }
+
+    const year = new Date().getUTCFullYear();
+    const periodStart = from ?? Date.UTC(year, 0, 1);
+    const periodEnd = to ?? Date.UTC(year + 1, 0, 1);
+
+    if (periodStart >= periodEnd) {
+      return res.status(400).json({
+        success: false,
+        error: 'from must be before to',
+      });
+    }
+
+    const statement = statementService.getStatement(address, periodStart, periodEnd);
+
+    if (format === 'csv') {
+      const filename = `pigment-statement-${address}-${statement.from.slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(toStatementCsv(statement));
+    }
+
+    res.json({
+      success: true,
+      data: statement,
+    });
+  } catch (error: any) {
+    console.error('Error building statement:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to build statement',
+    });
+  }
+});
+
+export default router;
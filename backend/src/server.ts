@@ -3,7 +3,22 @@ import cors from 'cors';
 import { config, validateConfig } from './config/env';
 import savingsRoutes from './routes/savings.routes';
 import { SchedulerService } from './services/scheduler.service';
+import { VaultIndexerService } from './services/indexer.service';
 import aiRoutes from './routes/ai.routes';
+import adminRoutes from './routes/admin.routes';
+import preferencesRoutes from './routes/preferences.routes';
+import proposalsRoutes from './routes/proposals.routes';
+import notificationsRoutes from './routes/notifications.routes';
+import eventsRoutes from './routes/events.routes';
+import historyRoutes from './routes/history.routes';
+import performanceRoutes from './routes/performance.routes';
+import statementRoutes from './routes/statement.routes';
+import potsRoutes from './routes/pots.routes';
+import { ReconcilerService } from './services/reconciler.service';
+import { PerformanceService } from './services/performance.service';
+import { SavingsPotService } from './services/savings-pot.service';
+import { liveEventHub } from './services/live-events.service';
+import { autoSaveExecutionStore } from './stores/auto-save-execution.store';
 
 /**
  * Express Server for Pigment Backend
@@ -28,8 +43,29 @@ try {
 // Initialize Express app
 const app = express();
 
+// Initialize vault event indexer (feeds the scheduler's account list)
+const indexer = new VaultIndexerService();
+
 // Initialize Scheduler Service
-const scheduler = new SchedulerService();
+const scheduler = new SchedulerService(indexer);
+
+// Re-check AUTO accounts as soon as their safety buffer changes
+indexer.onEvents((events) => scheduler.handleVaultEvents(events));
+
+// Stream vault events and scheduler decisions to open dashboards
+indexer.onEvents((events) => liveEventHub.publishVaultEvents(events));
+scheduler.onDecision((record) => liveEventHub.publishDecision(record));
+
+// Initialize payment reconciler (settled x402 payments never credited)
+const reconciler = new ReconcilerService();
+
+// Snapshot yield positions for the performance analytics, and again after yield moves
+const performanceService = new PerformanceService();
+indexer.onEvents((events) => performanceService.handleVaultEvents(events));
+
+// Credit deposits and auto-saves to the user's savings pots
+const savingsPotService = new SavingsPotService();
+indexer.onEvents((events) => savingsPotService.handleVaultEvents(events));
 
 // ============================================================================
 //                              MIDDLEWARE
@@ -82,8 +118,25 @@ app.get('/', (req: Request, res: Response) => {
     endpoints: {
       health: 'GET /api/health',
       user: 'GET /api/user/:address',
+      preferences: 'GET|PUT /api/user/:address/preferences',
+      pots: 'GET|PUT /api/user/:address/pots',
+      withdrawQuote: 'GET /api/user/:address/withdraw-quote?amount=',
+      safetyBufferUpdate: 'GET /api/user/:address/safety-buffer-update?amount=',
+      proposals: 'GET /api/user/:address/proposals',
+      dismissProposal: 'POST /api/user/:address/proposals/:id/dismiss',
+      notifications: 'GET|PUT /api/user/:address/notifications',
+      notificationFeed: 'GET /api/user/:address/notifications/feed',
+      events: 'GET /api/user/:address/events (SSE)',
+      history: 'GET /api/user/:address/history',
+      performance: 'GET /api/user/:address/performance',
+      statement: 'GET /api/user/:address/statement?format=csv|json',
       save: 'POST /api/save',
+      decisions: 'GET /api/ai/decisions/:address',
       schedulerStatus: 'GET /api/scheduler/status', // NEW
+      schedulerExecutions: 'GET /api/scheduler/executions?user=:address',
+      indexerStatus: 'GET /api/indexer/status',
+      reconcilerStatus: 'GET /api/reconciler/status',
+      stuckPayments: 'GET /api/admin/payments/stuck',
     },
     documentation: 'https://github.com/MBarralDevs/ai-saving-agent',
   });
@@ -92,8 +145,26 @@ app.get('/', (req: Request, res: Response) => {
 // Mount savings routes under /api
 app.use('/api', savingsRoutes);
 
+app.use('/api/user', preferencesRoutes);
+
+app.use('/api/user', potsRoutes);
+
+app.use('/api/user', proposalsRoutes);
+
+app.use('/api/user', notificationsRoutes);
+
+app.use('/api/user', eventsRoutes);
+
+app.use('/api/user', historyRoutes);
+
+app.use('/api/user', performanceRoutes);
+
+app.use('/api/user', statementRoutes);
+
 app.use('/api/ai', aiRoutes);
 
+app.use('/api/admin', adminRoutes);
+
 // NEW: Scheduler status endpoint
 app.get('/api/scheduler/status', (req: Request, res: Response) => {
   res.json({
@@ -101,6 +172,40 @@ app.get('/api/scheduler/status', (req: Request, res: Response) => {
     data: scheduler.getStatus(),
   });
 });
+
+// Scheduler autoSave executions (optionally for one user)
+app.get('/api/scheduler/executions', (req: Request, res: Response) => {
+  const user = typeof req.query.user === 'string' ? req.query.user : undefined;
+
+  if (user && !/^0x[a-fA-F0-9]{40}$/.test(user)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid Ethereum address',
+    });
+  }
+
+  res.json({
+    success: true,
+    data: user ? autoSaveExecutionStore.listByUser(user) : autoSaveExecutionStore.listRecent(),
+  });
+});
+
+// Indexer status endpoint
+app.get('/api/indexer/status', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: indexer.getStatus(),
+  });
+});
+
+// Reconciler status endpoint
+app.get('/api/reconciler/status', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: reconciler.getStatus(),
+  });
+});
+
 /**
  * 404 Handler
  * Handles requests to undefined routes
@@ -150,18 +255,45 @@ const startServer = async () => {
       console.log(`📍 Vault Address: ${config.savingsVaultAddress}`);
       console.log(`💵 USDC Address: ${config.usdcAddress}`);
       console.log(`🔗 CORS Origin: ${config.corsOrigin}`);
+      console.log(`🗣️  Decision advisor: ${config.advisorProvider}`);
+      console.log(`📧 Email notifications: ${config.smtpHost ? `${config.smtpHost}:${config.smtpPort}` : 'disabled (no SMTP_HOST)'}`);
       console.log('');
       console.log('📚 Available endpoints:');
       console.log(`   GET  http://localhost:${PORT}/`);
       console.log(`   GET  http://localhost:${PORT}/api/health`);
       console.log(`   GET  http://localhost:${PORT}/api/user/:address`);
+      console.log(`   PUT  http://localhost:${PORT}/api/user/:address/preferences`);
+      console.log(`   PUT  http://localhost:${PORT}/api/user/:address/pots`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/withdraw-quote`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/safety-buffer-update`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/proposals`);
+      console.log(`   POST http://localhost:${PORT}/api/user/:address/proposals/:id/dismiss`);
+      console.log(`   PUT  http://localhost:${PORT}/api/user/:address/notifications`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/notifications/feed`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/events`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/history`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/performance`);
+      console.log(`   GET  http://localhost:${PORT}/api/user/:address/statement`);
       console.log(`   POST http://localhost:${PORT}/api/save`);
       console.log(`   GET  http://localhost:${PORT}/api/scheduler/status`); // NEW
+      console.log(`   GET  http://localhost:${PORT}/api/scheduler/executions`);
+      console.log(`   GET  http://localhost:${PORT}/api/indexer/status`);
+      console.log(`   GET  http://localhost:${PORT}/api/reconciler/status`);
+      console.log(`   GET  http://localhost:${PORT}/api/admin/payments/stuck`);
       console.log('');
       
+      // Start the vault event indexer before the scheduler needs accounts
+      indexer.start();
+      
       // Start the AI scheduler
       console.log('🤖 Starting AI Decision Engine Scheduler...');
       scheduler.start();
+      
+      // Retry credits for payments that settled but were never deposited
+      reconciler.start();
+      
+      // Snapshot yield positions for the performance analytics
+      performanceService.start();
       console.log('');
       
       console.log('✅ Ready to accept requests!');
@@ -181,11 +313,17 @@ startServer();
 process.on('SIGTERM', () => {
   console.log('📴 SIGTERM signal received: closing HTTP server');
   scheduler.stop(); // NEW
+  indexer.stop();
+  reconciler.stop();
+  performanceService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   console.log('📴 SIGINT signal received: closing HTTP server');
   scheduler.stop(); // NEW
+  indexer.stop();
+  reconciler.stop();
+  performanceService.stop();
   process.exit(0);
 });
\ No newline at end of file
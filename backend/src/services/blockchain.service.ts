@@ -5,16 +5,124 @@ import { config } from '../config/env';
 const SAVINGS_VAULT_ABI = [
   'function getAccount(address user) view returns (tuple(uint256 totalDeposited, uint256 totalWithdrawn, uint256 currentBalance, uint256 weeklyGoal, uint256 safetyBuffer, uint256 lastSaveTimestamp, bool isActive, uint8 trustMode))',
   'function depositFor(address user, uint256 amount)',
+  'function autoSave(address user, uint256 amount)',
   'function canAutoSave(address user) view returns (bool)',
   'function getUserTotalBalance(address user) view returns (uint256)',
+  'function withdraw(uint256 amount)',
+  'function updateSafetyBuffer(uint256 newSafetyBuffer)',
+  'function yieldStrategy() view returns (address)',
   'event Deposited(address indexed user, uint256 amount, uint256 newBalance)',
+  'event Withdrawn(address indexed user, uint256 amount, uint256 newBalance)',
+  'event WithdrawnFromYield(address indexed user, uint256 liquidityTokens, uint256 usdcAmount)',
+  'event SafetyBufferUpdated(address indexed user, uint256 newSafetyBuffer)',
+  'error SavingsVault__InvalidAmount()',
+  'error SavingsVault__InsufficientBalance()',
+  'error SavingsVault__AccountNotActive()',
+  'error SavingsVault__UnauthorizedCaller()',
+  'error SavingsVault__SaveIntervalNotMet()',
+  'error SavingsVault__AmountExceedsLimit()',
+  'error SavingsVault__ZeroAddress()',
+  'error SavingsVault__GoalNotPositive()',
+  'error SavingsVault__AccountAlreadyExists()',
+];
+
+const YIELD_STRATEGY_ABI = [
+  'function getUserValue(address user) view returns (uint256)',
+  'function calculateYield(address user, uint256 initialDeposit) view returns (uint256)',
+  'function userLiquidityTokens(address user) view returns (uint256)',
+  'function slippageTolerance() view returns (uint256)',
+  'function i_VVS_ROUTER() view returns (address)',
+  'function i_USDC_USDT_PAIR() view returns (address)',
+  'function i_USDT() view returns (address)',
+];
+
+const VVS_PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)',
+];
+
+const VVS_ROUTER_ABI = [
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
 ];
 
 const USDC_ABI = [
   'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
   'function decimals() view returns (uint8)',
 ];
 
+/**
+ * A user's LP position in the vault's yield strategy
+ */
+export interface YieldPosition {
+  strategy: string;
+  liquidityTokens: bigint;
+  value: bigint;                 // getUserValue: USDC + USDT share at 1:1
+  slippageToleranceBps: bigint;  // Minimum swap output the strategy accepts
+}
+
+/**
+ * Reserves of the strategy's USDC/USDT pair
+ */
+export interface YieldPoolState {
+  strategy: string;
+  usdcReserve: bigint;
+  usdtReserve: bigint;
+  totalSupply: bigint;           // LP tokens outstanding
+}
+
+/**
+ * What burning LP tokens would return right now
+ */
+export interface YieldUnwindEstimate {
+  usdcFromPool: bigint;          // USDC share of the pool reserves
+  usdtFromPool: bigint;          // USDT share, swapped back to USDC
+  usdcFromSwap: bigint;          // Router quote for that swap
+}
+
+// Mirrors SavingsVault.MAX_SAVE_AMOUNT (10,000 USDC per autoSave)
+export const MAX_SAVE_AMOUNT = 10_000_000_000n;
+
+const savingsVaultInterface = new ethers.Interface(SAVINGS_VAULT_ABI);
+
+/**
+ * Convert wei to human-readable USDC
+ * Example: 25500000 -> "25.5"
+ */
+export function formatUsdcAmount(amount: bigint): string {
+  return ethers.formatUnits(amount, 6);
+}
+
+/**
+ * Trust mode label for the vault's uint8 (read back as a bigint)
+ * 0 -> "MANUAL", anything else -> "AUTO"
+ */
+export function formatTrustMode(trustMode: bigint): 'MANUAL' | 'AUTO' {
+  return trustMode === 0n ? 'MANUAL' : 'AUTO';
+}
+
+/**
+ * Get the SavingsVault custom error name from a failed call
+ * e.g. "SavingsVault__SaveIntervalNotMet", or null for other failures
+ */
+export function getVaultErrorName(error: any): string | null {
+  if (error?.revert?.name) {
+    return error.revert.name;
+  }
+
+  const data = error?.data ?? error?.info?.error?.data;
+  if (typeof data !== 'string' || data.length < 10) {
+    return null;
+  }
+
+  try {
+    return savingsVaultInterface.parseError(data)?.name ?? null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * BlockchainService
  * Handles all interactions with Cronos blockchain and our smart contracts.
@@ -119,6 +227,228 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Pull USDC from an AUTO-mode user's wallet into the vault
+   * Simulated first so vault reverts surface before any gas is spent.
+   * Only callable by authorized backend wallet
+   */
+  async autoSave(userAddress: string, amount: bigint) {
+    try {
+      console.log(`Calling autoSave: user=${userAddress}, amount=${amount.toString()}`);
+
+      await this.savingsVault.autoSave.staticCall(userAddress, amount);
+
+      const tx = await this.savingsVault.autoSave(userAddress, amount);
+      console.log('Transaction sent:', tx.hash);
+
+      const receipt = await tx.wait();
+      console.log('Transaction confirmed:', receipt.hash);
+
+      return receipt;
+    } catch (error) {
+      console.error('Error calling autoSave:', getVaultErrorName(error) ?? error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the updateSafetyBuffer() call for the user's wallet to send
+   * The vault only lets users change their own buffer, so the backend
+   * never sends this itself.
+   */
+  async buildUpdateSafetyBufferTx(newSafetyBuffer: bigint): Promise<{ to: string; data: string }> {
+    const tx = await this.savingsVault.updateSafetyBuffer.populateTransaction(newSafetyBuffer);
+    return { to: tx.to, data: tx.data };
+  }
+
+  /**
+   * Get the idle USDC held by the vault (not deployed to yield)
+   */
+  async getVaultUsdcBalance(): Promise<bigint> {
+    try {
+      return await this.usdc.balanceOf(config.savingsVaultAddress);
+    } catch (error) {
+      console.error('Error getting vault USDC balance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's position in the vault's yield strategy
+   * Returns null when the vault has no strategy set.
+   */
+  async getYieldPosition(userAddress: string): Promise<YieldPosition | null> {
+    try {
+      const strategyAddress: string = await this.savingsVault.yieldStrategy();
+      if (strategyAddress === ethers.ZeroAddress) {
+        return null;
+      }
+
+      const strategy = new ethers.Contract(strategyAddress, YIELD_STRATEGY_ABI, this.provider);
+      const [liquidityTokens, value, slippageToleranceBps] = await Promise.all([
+        strategy.userLiquidityTokens(userAddress),
+        strategy.getUserValue(userAddress),
+        strategy.slippageTolerance(),
+      ]);
+
+      return { strategy: strategyAddress, liquidityTokens, value, slippageToleranceBps };
+    } catch (error) {
+      console.error('Error getting yield position:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the reserves of the yield strategy's USDC/USDT pair
+   * Returns null when the vault has no strategy set.
+   */
+  async getYieldPool(): Promise<YieldPoolState | null> {
+    try {
+      const strategyAddress: string = await this.savingsVault.yieldStrategy();
+      if (strategyAddress === ethers.ZeroAddress) {
+        return null;
+      }
+
+      const strategy = new ethers.Contract(strategyAddress, YIELD_STRATEGY_ABI, this.provider);
+      const pair = new ethers.Contract(await strategy.i_USDC_USDT_PAIR(), VVS_PAIR_ABI, this.provider);
+      const [token0, reserves, totalSupply] = await Promise.all([
+        pair.token0(),
+        pair.getReserves(),
+        pair.totalSupply(),
+      ]);
+
+      const usdcIsToken0 = String(token0).toLowerCase() === config.usdcAddress.toLowerCase();
+
+      return {
+        strategy: strategyAddress,
+        usdcReserve: usdcIsToken0 ? reserves[0] : reserves[1],
+        usdtReserve: usdcIsToken0 ? reserves[1] : reserves[0],
+        totalSupply,
+      };
+    } catch (error) {
+      console.error('Error getting yield pool:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * VVSYieldStrategy.calculateYield: the user's position value above
+   * `initialDeposit`, floored at zero
+   */
+  async getStrategyYield(strategyAddress: string, userAddress: string, initialDeposit: bigint): Promise<bigint> {
+    try {
+      const strategy = new ethers.Contract(strategyAddress, YIELD_STRATEGY_ABI, this.provider);
+      return await strategy.calculateYield(userAddress, initialDeposit);
+    } catch (error) {
+      console.error('Error getting strategy yield:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Estimate what the strategy gets back for burning `liquidityTokens`
+   * Mirrors VVSYieldStrategy.withdraw: remove liquidity, swap the USDT to USDC.
+   */
+  async estimateYieldUnwind(strategyAddress: string, liquidityTokens: bigint): Promise<YieldUnwindEstimate> {
+    try {
+      const strategy = new ethers.Contract(strategyAddress, YIELD_STRATEGY_ABI, this.provider);
+      const [routerAddress, pairAddress, usdtAddress] = await Promise.all([
+        strategy.i_VVS_ROUTER(),
+        strategy.i_USDC_USDT_PAIR(),
+        strategy.i_USDT(),
+      ]);
+
+      const pair = new ethers.Contract(pairAddress, VVS_PAIR_ABI, this.provider);
+      const [token0, reserves, totalSupply] = await Promise.all([
+        pair.token0(),
+        pair.getReserves(),
+        pair.totalSupply(),
+      ]);
+
+      const usdcIsToken0 = String(token0).toLowerCase() === config.usdcAddress.toLowerCase();
+      const usdcReserve: bigint = usdcIsToken0 ? reserves[0] : reserves[1];
+      const usdtReserve: bigint = usdcIsToken0 ? reserves[1] : reserves[0];
+
+      const usdcFromPool = totalSupply > 0n ? (usdcReserve * liquidityTokens) / totalSupply : 0n;
+      const usdtFromPool = totalSupply > 0n ? (usdtReserve * liquidityTokens) / totalSupply : 0n;
+
+      let usdcFromSwap = 0n;
+      if (usdtFromPool > 0n) {
+        const router = new ethers.Contract(routerAddress, VVS_ROUTER_ABI, this.provider);
+        const amounts: bigint[] = await router.getAmountsOut(usdtFromPool, [usdtAddress, config.usdcAddress]);
+        usdcFromSwap = amounts[1];
+      }
+
+      return { usdcFromPool, usdtFromPool, usdcFromSwap };
+    } catch (error) {
+      console.error('Error estimating yield unwind:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get how much USDC the user has approved the vault to pull
+   */
+  async getVaultAllowance(userAddress: string): Promise<bigint> {
+    try {
+      return await this.usdc.allowance(userAddress, config.savingsVaultAddress);
+    } catch (error) {
+      console.error('Error getting vault allowance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the block a transaction was mined in
+   * Returns null if the transaction is unknown or still pending.
+   */
+  async getTransactionBlockNumber(txHash: string): Promise<number | null> {
+    try {
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      return receipt ? receipt.blockNumber : null;
+    } catch (error) {
+      console.error('Error getting transaction receipt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find Deposited events for a user that came from our depositFor() calls
+   * Queries in chunks to stay under the RPC's block range limit.
+   */
+  async getDepositForEvents(
+    userAddress: string,
+    fromBlock: number
+  ): Promise<Array<{ transactionHash: string; blockNumber: number; amount: bigint }>> {
+    try {
+      const latest = await this.provider.getBlockNumber();
+      const filter = this.savingsVault.filters.Deposited(userAddress);
+      const deposits: Array<{ transactionHash: string; blockNumber: number; amount: bigint }> = [];
+
+      for (let start = fromBlock; start <= latest; start += config.indexerBlockRange) {
+        const end = Math.min(start + config.indexerBlockRange - 1, latest);
+        const logs = await this.savingsVault.queryFilter(filter, start, end);
+
+        for (const log of logs) {
+          // deposit() by the user emits the same event - only count backend credits
+          const tx = await log.getTransaction();
+          if (tx.from.toLowerCase() !== this.backendWallet.address.toLowerCase()) continue;
+
+          deposits.push({
+            transactionHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+            amount: (log as ethers.EventLog).args.amount,
+          });
+        }
+      }
+
+      return deposits;
+    } catch (error) {
+      console.error('Error querying Deposited events:', error);
+      throw error;
+    }
+  }
+
   /**
  * Get user's USDC balance in their wallet (not in vault)
  */
@@ -144,7 +474,7 @@ async getWalletUsdcBalance(userAddress: string): Promise<bigint> {
    * Example: 25500000 -> "25.5"
    */
   formatUsdcAmount(amount: bigint): string {
-    return ethers.formatUnits(amount, 6);
+    return formatUsdcAmount(amount);
   }
 
   getBackendAddress(): string {
@@ -0,0 +1,71 @@
+import axios from 'axios';
+import type {
+  VerifyRequest,
+  X402VerifyResponse,
+  X402SettleResponse,
+} from '@crypto.com/facilitator-client';
+import { config } from '../config/env';
+
+/**
+ * Raw facilitator response
+ * The status is kept so callers can tell HTTP errors from rejections.
+ */
+export interface FacilitatorResponse<T> {
+  status: number;
+  data: T;
+}
+
+// Settlement tx hashes from the mock facilitator start with 8 zero bytes
+// They never reach the chain, so those payments can't be reconciled.
+export const SIMULATED_SETTLEMENT_PREFIX = '0x0000000000000000';
+
+/**
+ * Whether a settlement was simulated by the mock facilitator
+ */
+export function isSimulatedSettlement(txHash: string): boolean {
+  return txHash.toLowerCase().startsWith(SIMULATED_SETTLEMENT_PREFIX);
+}
+
+/**
+ * Transport to an x402 facilitator
+ * Swap the implementation to point the save flow at a mock facilitator.
+ */
+export interface FacilitatorClient {
+  readonly baseUrl: string;
+  verify(request: VerifyRequest): Promise<FacilitatorResponse<X402VerifyResponse>>;
+  settle(request: VerifyRequest): Promise<FacilitatorResponse<X402SettleResponse>>;
+}
+
+/**
+ * HttpFacilitatorClient
+ *
+ * Talks to a facilitator over HTTP using the /v2/x402 endpoints.
+ * Defaults to X402_FACILITATOR_URL.
+ */
+export class HttpFacilitatorClient implements FacilitatorClient {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string = config.x402FacilitatorUrl) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async verify(request: VerifyRequest): Promise<FacilitatorResponse<X402VerifyResponse>> {
+    return this.post<X402VerifyResponse>('/v2/x402/verify', request);
+  }
+
+  async settle(request: VerifyRequest): Promise<FacilitatorResponse<X402SettleResponse>> {
+    return this.post<X402SettleResponse>('/v2/x402/settle', request);
+  }
+
+  private async post<T>(path: string, request: VerifyRequest): Promise<FacilitatorResponse<T>> {
+    const response = await axios.post<T>(`${this.baseUrl}${path}`, request, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X402-Version': '1',  // Required by API
+      },
+      validateStatus: () => true,
+    });
+
+    return { status: response.status, data: response.data };
+  }
+}
@@ -0,0 +1,98 @@
+import { BlockchainService, formatTrustMode } from './blockchain.service';
+import { WalletForecast, WalletHistoryService, walletHistoryService } from './wallet-history.service';
+import { WeeklyProgressService } from './weekly-progress.service';
+import { UserFinancialState } from '../agent/types';
+
+/**
+ * Chain reads needed to build a financial state
+ */
+export type FinancialStateChain = Pick<BlockchainService, 'getUserAccount' | 'canAutoSave' | 'getWalletUsdcBalance'>;
+
+/**
+ * Wallet forecasting (null disables it)
+ */
+export type WalletForecaster = Pick<WalletHistoryService, 'getForecast'>;
+
+/**
+ * This week's saves toward the weekly goal (null leaves them out)
+ */
+export type WeeklyProgressTracker = Pick<WeeklyProgressService, 'getProgress'>;
+
+/**
+ * A user's state plus the forecast behind projectedMinBalance
+ */
+export interface FinancialStateResult {
+  state: UserFinancialState;
+  forecast: WalletForecast | null;  // Null when disabled or unavailable
+}
+
+/**
+ * FinancialStateService
+ *
+ * Builds the UserFinancialState the DecisionEngine works from, for
+ * both the scheduler and the analyze endpoint. A failing forecast
+ * never blocks a decision; the state is returned without a projection.
+ * savedThisWeek / remainingThisWeek come from the indexed vault events.
+ */
+export class FinancialStateService {
+  private chain: FinancialStateChain;
+  private forecaster: WalletForecaster | null;
+  private weeklyProgress: WeeklyProgressTracker | null;
+
+  constructor(
+    chain: FinancialStateChain,
+    forecaster: WalletForecaster | null = walletHistoryService,
+    weeklyProgress: WeeklyProgressTracker | null = new WeeklyProgressService()
+  ) {
+    this.chain = chain;
+    this.forecaster = forecaster;
+    this.weeklyProgress = weeklyProgress;
+  }
+
+  /**
+   * Current financial state of a user
+   */
+  async getFinancialState(userAddress: string, now: number = Date.now()): Promise<FinancialStateResult> {
+    const account = await this.chain.getUserAccount(userAddress);
+    const canSave = await this.chain.canAutoSave(userAddress);
+    const walletBalance = await this.chain.getWalletUsdcBalance(userAddress);
+
+    const nowSeconds = Math.floor(now / 1000);
+    const lastSave = Number(account.lastSaveTimestamp);
+    const timeSinceLastSave = lastSave === 0 ? 0 : (nowSeconds - lastSave) / 3600;
+
+    const forecast = await this.getForecast(userAddress, walletBalance, now);
+    const progress = this.weeklyProgress?.getProgress(userAddress, account.weeklyGoal, now);
+
+    return {
+      state: {
+        walletBalance,
+        currentSavings: account.currentBalance,
+        weeklyGoal: account.weeklyGoal,
+        safetyBuffer: account.safetyBuffer,
+        lastSaveTimestamp: account.lastSaveTimestamp,
+        trustMode: formatTrustMode(account.trustMode),
+        isActive: account.isActive,
+        canAutoSave: canSave,
+        timeSinceLastSave,
+        projectedMinBalance: forecast?.forecast.projectedMinBalance,
+        savedThisWeek: progress?.savedThisWeek,
+        remainingThisWeek: progress?.remainingThisWeek,
+      },
+      forecast,
+    };
+  }
+
+  private async getForecast(userAddress: string, walletBalance: bigint, now: number): Promise<WalletForecast | null> {
+    if (!this.forecaster) {
+      return null;
+    }
+
+    try {
+      return await this.forecaster.getForecast(userAddress, walletBalance, now);
+    } catch (error: any) {
+      console.warn(`   ⚠️  Wallet forecast unavailable for ${userAddress}:`, error.message);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { formatUnits } from 'ethers';
+import { config } from '../config/env';
+import { paymentLedger, PaymentLedger, PaymentRecord, PaymentStatus } from '../stores/payment-ledger.store';
+import { vaultEventStore, VaultEventStore, IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Kinds of entries in a user's timeline
+ * - payment: a settled x402 payment with no indexed deposit yet
+ */
+export const HISTORY_ENTRY_TYPES = [
+  'deposit',
+  'yield_deposit',
+  'auto_save',
+  'withdrawal',
+  'yield_withdrawal',
+  'payment',
+] as const;
+
+export type HistoryEntryType = (typeof HISTORY_ENTRY_TYPES)[number];
+
+// Vault events in the timeline, and the arg holding each one's USDC amount
+const VAULT_ENTRIES: Partial<Record<VaultEventName, { type: HistoryEntryType; amountArg: string }>> = {
+  Deposited: { type: 'deposit', amountArg: 'amount' },
+  DepositedToYield: { type: 'yield_deposit', amountArg: 'amount' },
+  AutoSaveExecuted: { type: 'auto_save', amountArg: 'amount' },
+  Withdrawn: { type: 'withdrawal', amountArg: 'amount' },
+  WithdrawnFromYield: { type: 'yield_withdrawal', amountArg: 'usdcAmount' },
+};
+
+// Payments that moved money (the USDC reached the vault)
+const SETTLED_STATUSES: PaymentStatus[] = ['settled', 'credited'];
+
+/**
+ * The x402 payment behind an entry
+ */
+export interface HistoryPayment {
+  paymentId: string;
+  status: PaymentStatus;
+  facilitatorTxHash?: string;        // EIP-3009 transfer to the vault
+  facilitatorExplorerUrl?: string;
+  depositTxHash?: string;            // depositFor() crediting the user
+}
+
+/**
+ * One entry of a user's timeline
+ */
+export interface HistoryEntry {
+  id: string;
+  type: HistoryEntryType;
+  event?: VaultEventName;            // Vault event behind the entry
+  amount: string;                    // USDC, e.g. "25.0"
+  amountInSmallestUnit: string;
+  timestamp: string;                 // Block time (payments: last update)
+  blockNumber?: number;
+  transactionHash?: string;
+  explorerUrl?: string;
+  payment?: HistoryPayment;
+}
+
+export interface HistoryQuery {
+  types?: HistoryEntryType[];
+  from?: number;                     // Inclusive, ms since epoch
+  to?: number;                       // Exclusive, ms since epoch
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Block explorer link for a transaction
+ */
+export function explorerTxUrl(txHash: string): string {
+  return `${config.explorerUrl}/tx/${txHash}`;
+}
+
+function formatPayment(payment: PaymentRecord): HistoryPayment {
+  return {
+    paymentId: payment.paymentId,
+    status: payment.status,
+    facilitatorTxHash: payment.facilitatorTxHash,
+    facilitatorExplorerUrl: payment.facilitatorTxHash ? explorerTxUrl(payment.facilitatorTxHash) : undefined,
+    depositTxHash: payment.depositTxHash,
+  };
+}
+
+/**
+ * HistoryService
+ *
+ * Builds a user's transaction timeline from the indexed vault events,
+ * with each x402 payment attached to the deposit that credited it.
+ * Settled payments whose deposit isn't indexed yet show on their own.
+ */
+export class HistoryService {
+  private events: Pick<VaultEventStore, 'getEventsForUser'>;
+  private payments: Pick<PaymentLedger, 'listByUser'>;
+
+  constructor(
+    events: Pick<VaultEventStore, 'getEventsForUser'> = vaultEventStore,
+    payments: Pick<PaymentLedger, 'listByUser'> = paymentLedger
+  ) {
+    this.events = events;
+    this.payments = payments;
+  }
+
+  /**
+   * A user's timeline, newest first
+   */
+  getHistory(user: string, query: HistoryQuery = {}): { items: HistoryEntry[]; total: number } {
+    const { types, from, to, limit = 20, offset = 0 } = query;
+
+    const matching = this.buildTimeline(user).filter(({ entry, time }) => {
+      if (types && !types.includes(entry.type)) return false;
+      if (from !== undefined && time < from) return false;
+      if (to !== undefined && time >= to) return false;
+      return true;
+    });
+
+    return {
+      items: matching.slice(offset, offset + limit).map(({ entry }) => entry),
+      total: matching.length,
+    };
+  }
+
+  private buildTimeline(user: string): Array<{ entry: HistoryEntry; time: number; order: number }> {
+    const settled = this.payments
+      .listByUser(user)
+      .filter((payment) => SETTLED_STATUSES.includes(payment.status));
+    const byDepositTx = new Map(
+      settled
+        .filter((payment) => payment.depositTxHash)
+        .map((payment) => [payment.depositTxHash!.toLowerCase(), payment])
+    );
+
+    const timeline: Array<{ entry: HistoryEntry; time: number; order: number }> = [];
+    const matched = new Set<string>();
+
+    for (const event of this.events.getEventsForUser(user)) {
+      const entry = this.formatEvent(event);
+      if (!entry) continue;
+
+      const payment = event.name === 'Deposited' ? byDepositTx.get(event.transactionHash.toLowerCase()) : undefined;
+      if (payment) {
+        entry.payment = formatPayment(payment);
+        matched.add(payment.paymentId);
+      }
+
+      timeline.push({ entry, time: event.blockTimestamp * 1000, order: event.blockNumber * 1e6 + event.logIndex });
+    }
+
+    for (const payment of settled) {
+      if (matched.has(payment.paymentId)) continue;
+
+      const txHash = payment.depositTxHash ?? payment.facilitatorTxHash;
+      timeline.push({
+        entry: {
+          id: payment.paymentId,
+          type: 'payment',
+          amount: formatUnits(payment.amount, 6),
+          amountInSmallestUnit: payment.amount,
+          timestamp: payment.updatedAt,
+          transactionHash: txHash,
+          explorerUrl: txHash ? explorerTxUrl(txHash) : undefined,
+          payment: formatPayment(payment),
+        },
+        time: Date.parse(payment.updatedAt),
+        order: 0,
+      });
+    }
+
+    return timeline.sort((a, b) => b.time - a.time || b.order - a.order);
+  }
+
+  private formatEvent(event: IndexedVaultEvent): HistoryEntry | null {
+    const mapping = VAULT_ENTRIES[event.name];
+    if (!mapping) return null;
+
+    const amount = event.args[mapping.amountArg];
+
+    return {
+      id: event.id,
+      type: mapping.type,
+      event: event.name,
+      amount: formatUnits(amount, 6),
+      amountInSmallestUnit: amount,
+      timestamp: new Date(event.blockTimestamp * 1000).toISOString(),
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      explorerUrl: explorerTxUrl(event.transactionHash),
+    };
+  }
+}
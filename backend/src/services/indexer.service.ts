@@ -0,0 +1,324 @@
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import {
+  VaultEventStore,
+  vaultEventStore,
+  IndexedVaultEvent,
+  IndexedBlock,
+  VaultEventName,
+} from '../stores/vault-event.store';
+
+// Vault events the indexer follows
+const VAULT_EVENTS_ABI = [
+  'event AccountCreated(address indexed user, uint256 weeklyGoal, uint256 safetyBuffer, uint8 trustMode)',
+  'event TrustModeUpdated(address indexed user, uint8 newMode)',
+  'event SafetyBufferUpdated(address indexed user, uint256 newSafetyBuffer)',
+  'event GoalUpdated(address indexed user, uint256 newWeeklyGoal)',
+  'event Deposited(address indexed user, uint256 amount, uint256 newBalance)',
+  'event DepositedToYield(address indexed user, uint256 amount, uint256 liquidityTokens)',
+  'event AutoSaveExecuted(address indexed user, uint256 amount, address triggeredBy)',
+  'event Withdrawn(address indexed user, uint256 amount, uint256 newBalance)',
+  'event WithdrawnFromYield(address indexed user, uint256 liquidityTokens, uint256 usdcAmount)',
+];
+
+/**
+ * Subset of the ethers provider API used by the indexer
+ * (lets tests replay a scripted chain without an RPC node)
+ */
+export interface IndexerProvider {
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<{ number: number; hash: string | null; timestamp: number } | null>;
+  getLogs(filter: ethers.Filter): Promise<
+    Array<Pick<ethers.Log, 'blockNumber' | 'blockHash' | 'transactionHash' | 'index' | 'topics' | 'data'>>
+  >;
+}
+
+/**
+ * Called with each batch of newly indexed events (chain order)
+ */
+export type VaultEventListener = (events: IndexedVaultEvent[]) => void | Promise<void>;
+
+export interface VaultIndexerOptions {
+  vaultAddress: string;
+  startBlock: number;       // First block to backfill from (vault deployment)
+  blockRange: number;       // Max blocks per getLogs call
+  reorgDepth: number;       // How many blocks back a reorg is tolerated
+  pollIntervalMs: number;   // How often to tail new blocks
+}
+
+/**
+ * VaultIndexerService
+ *
+ * Backfills and tails SavingsVault events into the VaultEventStore so the
+ * scheduler knows which accounts exist and which are in AUTO mode.
+ *
+ * - Resumes from the persisted block cursor after a restart
+ * - Detects reorgs by re-checking stored block hashes and rolls back to
+ *   the last common ancestor before continuing
+ */
+export class VaultIndexerService {
+  private provider: IndexerProvider;
+  private store: VaultEventStore;
+  private options: VaultIndexerOptions;
+  private iface: ethers.Interface;
+  private timer: NodeJS.Timeout | null = null;
+  private isSyncing: boolean = false;
+  private lastSyncAt: string | null = null;
+  private lastError: string | null = null;
+  private listeners: VaultEventListener[] = [];
+
+  constructor(
+    provider?: IndexerProvider,
+    store: VaultEventStore = vaultEventStore,
+    options: Partial<VaultIndexerOptions> = {}
+  ) {
+    this.provider = provider || new ethers.JsonRpcProvider(config.cronosRpcUrl);
+    this.store = store;
+    this.options = {
+      vaultAddress: options.vaultAddress || config.savingsVaultAddress,
+      startBlock: options.startBlock ?? config.indexerStartBlock,
+      blockRange: options.blockRange || config.indexerBlockRange,
+      reorgDepth: options.reorgDepth || config.indexerReorgDepth,
+      pollIntervalMs: options.pollIntervalMs || config.indexerPollIntervalMs,
+    };
+    this.iface = new ethers.Interface(VAULT_EVENTS_ABI);
+  }
+
+  /**
+   * Start tailing the chain
+   * Runs a sync immediately, then every pollIntervalMs
+   */
+  start() {
+    if (this.timer) {
+      console.log('⚠️  Indexer already running');
+      return;
+    }
+
+    console.log('📇 Starting vault event indexer');
+    console.log(`   Resuming from block: ${this.store.getCursor()?.number ?? this.options.startBlock}`);
+
+    this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.poll();
+  }
+
+  /**
+   * Stop tailing the chain
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    console.log('🛑 Indexer stopped');
+  }
+
+  /**
+   * Run one sync pass: handle reorgs, then catch up to the chain head
+   * Returns the number of new events indexed.
+   */
+  async sync(): Promise<number> {
+    await this.checkForReorg();
+
+    const head = await this.provider.getBlockNumber();
+    const cursor = this.store.getCursor();
+    let fromBlock = cursor ? cursor.number + 1 : this.options.startBlock;
+    let indexed = 0;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + this.options.blockRange - 1, head);
+      indexed += await this.indexRange(fromBlock, toBlock);
+      fromBlock = toBlock + 1;
+    }
+
+    this.lastSyncAt = new Date().toISOString();
+    return indexed;
+  }
+
+  /**
+   * Subscribe to newly indexed events
+   * Listeners run after the batch is persisted and never block the sync.
+   */
+  onEvents(listener: VaultEventListener) {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Active accounts currently in AUTO mode
+   */
+  getActiveAutoAccounts(): string[] {
+    return this.store
+      .getAccounts()
+      .filter((account) => account.isActive && account.trustMode === 'AUTO')
+      .map((account) => account.address);
+  }
+
+  /**
+   * Active accounts in MANUAL mode (the scheduler proposes saves to them)
+   */
+  getActiveManualAccounts(): string[] {
+    return this.store
+      .getAccounts()
+      .filter((account) => account.isActive && account.trustMode === 'MANUAL')
+      .map((account) => account.address);
+  }
+
+  /**
+   * Indexer status for the API
+   */
+  getStatus() {
+    return {
+      isRunning: this.timer !== null,
+      cursor: this.store.getCursor(),
+      accounts: this.store.getAccounts().length,
+      events: this.store.getEventCount(),
+      lastSyncAt: this.lastSyncAt,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Interval callback - never lets a failed pass crash the process
+   */
+  private async poll() {
+    if (this.isSyncing) return;
+
+    this.isSyncing = true;
+    try {
+      const indexed = await this.sync();
+      this.lastError = null;
+      if (indexed > 0) {
+        console.log(`📇 Indexed ${indexed} vault events (cursor: ${this.store.getCursor()?.number})`);
+      }
+    } catch (error: any) {
+      this.lastError = error.message;
+      console.error('❌ Indexer error:', error.message);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * Compare the stored cursor hash with the chain
+   * On mismatch, walk back through recent blocks to the last common ancestor.
+   */
+  private async checkForReorg() {
+    const cursor = this.store.getCursor();
+    if (!cursor) return;
+
+    const block = await this.provider.getBlock(cursor.number);
+    if (block && block.hash === cursor.hash) return;
+
+    console.log(`⚠️  Reorg detected at block ${cursor.number}, looking for common ancestor...`);
+
+    for (const recent of this.store.getRecentBlocks()) {
+      const canonical = await this.provider.getBlock(recent.number);
+      if (canonical && canonical.hash === recent.hash) {
+        console.log(`   Rolling back to block ${recent.number}`);
+        this.store.rollbackTo(recent);
+        return;
+      }
+    }
+
+    // Reorg deeper than the window we track - rebuild from scratch
+    console.log('   No common ancestor within reorg window, re-indexing from start block');
+    this.store.reset();
+  }
+
+  /**
+   * Fetch, decode and persist events for one block range
+   */
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const logs = await this.provider.getLogs({
+      address: this.options.vaultAddress,
+      topics: [this.getTopics()],
+      fromBlock,
+      toBlock,
+    });
+
+    const blocks = new Map<number, { hash: string; timestamp: number }>();
+    const getBlock = async (blockNumber: number) => {
+      if (!blocks.has(blockNumber)) {
+        const block = await this.provider.getBlock(blockNumber);
+        if (!block || !block.hash) {
+          throw new Error(`Block ${blockNumber} not available`);
+        }
+        blocks.set(blockNumber, { hash: block.hash, timestamp: block.timestamp });
+      }
+      return blocks.get(blockNumber)!;
+    };
+
+    const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const events: IndexedVaultEvent[] = [];
+
+    for (const log of sortedLogs) {
+      const block = await getBlock(log.blockNumber);
+
+      // Chain moved under us - let the next pass run reorg detection
+      if (block.hash !== log.blockHash) {
+        throw new Error(`Block hash changed while indexing block ${log.blockNumber}`);
+      }
+
+      const event = this.decodeLog(log, block.timestamp);
+      if (event) events.push(event);
+    }
+
+    const last = await getBlock(toBlock);
+    const cursor: IndexedBlock = { number: toBlock, hash: last.hash };
+    const seenBlocks = [...blocks.entries()].map(([number, block]) => ({ number, hash: block.hash }));
+
+    this.store.appendBatch(events, seenBlocks, cursor, this.options.reorgDepth);
+    if (events.length > 0) {
+      this.notify(events);
+    }
+    return events.length;
+  }
+
+  /**
+   * Hand a persisted batch to the listeners
+   */
+  private notify(events: IndexedVaultEvent[]) {
+    for (const listener of this.listeners) {
+      Promise.resolve()
+        .then(() => listener(events))
+        .catch((error: any) => console.error('❌ Vault event listener error:', error.message));
+    }
+  }
+
+  /**
+   * Decode a raw log into an IndexedVaultEvent
+   */
+  private decodeLog(
+    log: Pick<ethers.Log, 'blockNumber' | 'blockHash' | 'transactionHash' | 'index' | 'topics' | 'data'>,
+    blockTimestamp: number
+  ): IndexedVaultEvent | null {
+    const parsed = this.iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) return null;
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] = input.type === 'address' ? ethers.getAddress(value) : value.toString();
+    });
+
+    return {
+      id: `${log.transactionHash}-${log.index}`,
+      name: parsed.name as VaultEventName,
+      user: args.user,
+      args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      blockTimestamp,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+  }
+
+  /**
+   * topic0 values for all tracked events
+   */
+  private getTopics(): string[] {
+    const topics: string[] = [];
+    this.iface.forEachEvent((event) => topics.push(event.topicHash));
+    return topics;
+  }
+}
@@ -0,0 +1,199 @@
+import { formatUnits } from 'ethers';
+import { config } from '../config/env';
+import { DecisionAction, DecisionRecord } from '../stores/decision-history.store';
+import { IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Vault events streamed to the account's owner
+ */
+export const LIVE_VAULT_EVENTS: VaultEventName[] = ['Deposited', 'AutoSaveExecuted', 'Withdrawn', 'GoalUpdated'];
+
+// Event args holding USDC amounts (formatted before streaming)
+const USDC_ARGS = ['amount', 'newBalance', 'newWeeklyGoal'];
+
+/**
+ * A vault event as streamed (USDC args formatted, e.g. "25.0")
+ */
+export interface LiveVaultEvent {
+  name: VaultEventName;
+  args: Record<string, string>;
+  transactionHash: string;
+  blockNumber: number;
+  blockTimestamp: number;            // Unix seconds
+}
+
+/**
+ * A scheduler decision as streamed (amount in USDC)
+ */
+export interface LiveDecision {
+  id: string;
+  action: DecisionAction;
+  shouldSave: boolean;
+  amount: string;
+  confidence: number;
+  urgency: 'low' | 'medium' | 'high';
+  strategy: string;
+  reason: string;
+  actionReason?: string;
+  txHash?: string;
+  proposalId?: string;
+  createdAt: string;
+}
+
+/**
+ * One message on a user's event stream
+ * `id` is `<process epoch>-<sequence>`, sent as the SSE event ID.
+ */
+export type LiveEvent =
+  | { id: string; user: string; type: 'vault_event'; data: LiveVaultEvent }
+  | { id: string; user: string; type: 'decision'; data: LiveDecision };
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+/**
+ * Format an indexed vault event for the stream
+ */
+export function toLiveVaultEvent(event: IndexedVaultEvent): LiveVaultEvent {
+  const args: Record<string, string> = {};
+  for (const [key, value] of Object.entries(event.args)) {
+    args[key] = USDC_ARGS.includes(key) ? formatUnits(value, 6) : value;
+  }
+
+  return {
+    name: event.name,
+    args,
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    blockTimestamp: event.blockTimestamp,
+  };
+}
+
+/**
+ * Format a decision record for the stream
+ */
+export function toLiveDecision(record: DecisionRecord): LiveDecision {
+  return {
+    id: record.id,
+    action: record.action,
+    shouldSave: record.shouldSave,
+    amount: formatUnits(record.amount, 6),
+    confidence: record.confidence,
+    urgency: record.urgency,
+    strategy: record.strategy,
+    reason: record.reason,
+    actionReason: record.actionReason,
+    txHash: record.txHash,
+    proposalId: record.proposalId,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Serialize an event in the text/event-stream format
+ */
+export function toServerSentEvent(event: LiveEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * LiveEventHub
+ *
+ * Fans vault events and scheduler decisions out to each user's open
+ * event streams. The newest `bufferSize` events are kept in memory so a
+ * reconnecting client can resume from its Last-Event-ID; anything older,
+ * or from before a restart, can't be replayed and the client resyncs.
+ */
+export class LiveEventHub {
+  private readonly epoch: string;
+  private sequence = 0;
+  private buffer: Array<{ sequence: number; event: LiveEvent }> = [];
+  private listeners = new Map<string, Set<LiveEventListener>>();
+
+  constructor(
+    private readonly bufferSize: number = config.liveEventBufferSize,
+    epoch: string = Date.now().toString(36)
+  ) {
+    this.epoch = epoch;
+  }
+
+  /**
+   * Publish the streamed vault events in an indexed batch
+   */
+  publishVaultEvents(events: IndexedVaultEvent[]) {
+    for (const event of events) {
+      if (!LIVE_VAULT_EVENTS.includes(event.name)) continue;
+      this.publish({ id: this.nextId(), user: event.user, type: 'vault_event', data: toLiveVaultEvent(event) });
+    }
+  }
+
+  /**
+   * Publish a decision recorded by the scheduler
+   */
+  publishDecision(record: DecisionRecord) {
+    this.publish({ id: this.nextId(), user: record.user, type: 'decision', data: toLiveDecision(record) });
+  }
+
+  /**
+   * Listen to a user's events
+   * Returns a function that stops listening.
+   */
+  subscribe(user: string, listener: LiveEventListener): () => void {
+    const key = user.toLowerCase();
+    const listeners = this.listeners.get(key) ?? new Set<LiveEventListener>();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(key);
+    };
+  }
+
+  /**
+   * A user's events published after `lastEventId`, oldest first
+   * Null when they can't be replayed (unknown ID, restart, or dropped
+   * from the buffer): the client should reload its state instead.
+   */
+  since(user: string, lastEventId: string): LiveEvent[] | null {
+    const separator = lastEventId.lastIndexOf('-');
+    const epoch = lastEventId.slice(0, separator);
+    const sequence = Number(lastEventId.slice(separator + 1));
+
+    if (separator < 0 || epoch !== this.epoch || !Number.isInteger(sequence) || sequence > this.sequence) {
+      return null;
+    }
+
+    const oldest = this.buffer[0]?.sequence ?? this.sequence + 1;
+    if (sequence < oldest - 1) {
+      return null;
+    }
+
+    const key = user.toLowerCase();
+    return this.buffer
+      .filter((entry) => entry.sequence > sequence && entry.event.user.toLowerCase() === key)
+      .map((entry) => entry.event);
+  }
+
+  private nextId(): string {
+    this.sequence++;
+    return `${this.epoch}-${this.sequence}`;
+  }
+
+  private publish(event: LiveEvent) {
+    this.buffer.push({ sequence: this.sequence, event });
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.bufferSize);
+    }
+
+    for (const listener of this.listeners.get(event.user.toLowerCase()) ?? []) {
+      try {
+        listener(event);
+      } catch (error: any) {
+        console.error('❌ Live event listener error:', error.message);
+      }
+    }
+  }
+}
+
+// Shared hub fed by the indexer and scheduler, read by the events route
+export const liveEventHub = new LiveEventHub();
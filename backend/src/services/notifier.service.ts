@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/env';
+import { AutoSaveSkipReason } from '../stores/auto-save-execution.store';
+import {
+  notificationFeedStore,
+  NotificationFeedStore,
+  Notification,
+  NOTIFICATION_EVENT_TYPES,
+} from '../stores/notification-feed.store';
+import { userPreferencesStore, UserPreferencesStore, NotificationSubscriptions } from '../stores/user-preferences.store';
+
+/**
+ * How a save was made
+ * - auto_save: the scheduler called autoSave() for an AUTO account
+ * - x402: the user paid through POST /api/save
+ */
+export type SaveSource = 'auto_save' | 'x402';
+
+/**
+ * Events emitted by the scheduler and POST /api/save
+ * (amounts in USDC, e.g. "25.0")
+ */
+export type NotificationEvent =
+  | { type: 'save_executed'; user: string; amount: string; source: SaveSource; txHash: string; proposalId?: string }
+  | { type: 'save_skipped'; user: string; amount: string; skipReason: AutoSaveSkipReason }
+  | { type: 'save_failed'; user: string; amount: string; source: SaveSource; error: string }
+  | { type: 'proposal_created'; user: string; proposalId: string; amount: string; reason: string; expiresAt: string }
+  | { type: 'low_balance'; user: string; walletBalance: string; safetyBuffer: string };
+
+/**
+ * The parts of a user's subscriptions a channel delivers to
+ */
+export type ChannelTarget = Pick<NotificationSubscriptions, 'inApp' | 'webhook' | 'email'>;
+
+/**
+ * Subscriptions for users who haven't stored their own
+ */
+export const DEFAULT_NOTIFICATION_SUBSCRIPTIONS: Pick<NotificationSubscriptions, 'events' | 'inApp'> = {
+  events: [...NOTIFICATION_EVENT_TYPES],
+  inApp: true,
+};
+
+const SKIP_REASONS: Record<AutoSaveSkipReason, string> = {
+  insufficient_allowance: 'the vault is not approved to spend that much of your USDC',
+  cannot_auto_save: 'the vault\'s 24-hour save interval has not passed',
+  save_interval_not_met: 'the vault\'s 24-hour save interval has not passed',
+  amount_exceeds_limit: 'the amount is above the vault\'s per-save limit',
+};
+
+/**
+ * Title and message for an event, shared by every channel
+ */
+export function describeEvent(event: NotificationEvent): { title: string; message: string } {
+  switch (event.type) {
+    case 'save_executed':
+      return {
+        title: `Saved ${event.amount} USDC`,
+        message: `${event.amount} USDC was saved to your vault${event.source === 'auto_save' ? ' by the AI agent' : ''}. Transaction: ${event.txHash}`,
+      };
+    case 'save_skipped':
+      return {
+        title: 'Save skipped',
+        message: `The AI wanted to save ${event.amount} USDC but didn't, because ${SKIP_REASONS[event.skipReason]}.`,
+      };
+    case 'save_failed':
+      return {
+        title: 'Save failed',
+        message: `A save of ${event.amount} USDC failed: ${event.error}`,
+      };
+    case 'proposal_created':
+      return {
+        title: 'New save proposal',
+        message: `The AI suggests saving ${event.amount} USDC. ${event.reason} Accept or dismiss it in the app before ${event.expiresAt}.`,
+      };
+    case 'low_balance':
+      return {
+        title: 'Wallet below safety buffer',
+        message: `Your wallet has ${event.walletBalance} USDC, below your ${event.safetyBuffer} USDC safety buffer. The AI won't save until it's back above.`,
+      };
+  }
+}
+
+// IPv4 ranges a webhook may not reach: this host, private networks, cloud metadata
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],       // Multicast and reserved
+];
+
+const ipv4ToNumber = (ip: string) => ip.split('.').reduce((total, part) => total * 256 + Number(part), 0);
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise
+ * not on the public internet
+ */
+export function isPrivateAddress(ip: string): boolean {
+  if (net.isIPv4(ip)) {
+    const value = ipv4ToNumber(ip);
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(ipv4ToNumber(base) / 2 ** (32 - bits)));
+  }
+
+  const normalized = ip.toLowerCase();
+  // IPv4-mapped, dotted (::ffff:127.0.0.1) or as URL normalizes it (::ffff:7f00:1)
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) ||         // fc00::/7 unique local
+    /^fe[89ab]/.test(normalized) ||      // fe80::/10 link-local
+    /^ff/.test(normalized)               // Multicast
+  );
+}
+
+/**
+ * Whether a URL may be used as a webhook: http(s) to a public host
+ * Literal private IPs and localhost are rejected here; hostnames are
+ * checked again after DNS resolution when the webhook is sent.
+ */
+export function isPublicWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (net.isIP(host)) {
+    return !isPrivateAddress(host);
+  }
+  return host !== 'localhost' && !host.endsWith('.localhost');
+}
+
+// dns.lookup that fails for private addresses, so a hostname can't resolve
+// (or re-resolve) to an internal service between the check and the request
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const blocked = addresses.find((address) => isPrivateAddress(address.address));
+    if (blocked) {
+      return callback(new Error(`Webhook host ${hostname} resolves to private address ${blocked.address}`), '', 0);
+    }
+
+    if (options.all) {
+      return (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * X-Pigment-Signature for a webhook body
+ * HMAC-SHA256 over "<timestamp>.<body>" with the subscription's secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Somewhere a notification can be delivered
+ */
+export interface NotificationChannel {
+  readonly name: 'in_app' | 'webhook' | 'email';
+  accepts(target: ChannelTarget): boolean;
+  send(notification: Notification, target: ChannelTarget): Promise<void>;
+}
+
+/**
+ * InAppChannel
+ *
+ * Appends to the user's feed, read by the frontend.
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'in_app';
+
+  constructor(private readonly feed: NotificationFeedStore = notificationFeedStore) {}
+
+  accepts(target: ChannelTarget): boolean {
+    return target.inApp;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    this.feed.append(notification);
+  }
+}
+
+/**
+ * WebhookChannel
+ *
+ * POSTs the notification as JSON to the user's URL, signed with
+ * X-Pigment-Timestamp and X-Pigment-Signature (see signWebhookPayload).
+ * Loopback, link-local and private hosts are refused, including after
+ * DNS resolution, and redirects are not followed.
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+  private httpAgent: http.Agent;
+  private httpsAgent: https.Agent;
+
+  constructor(
+    private readonly timeoutMs: number = config.notificationWebhookTimeoutMs,
+    private readonly allowPrivate: boolean = config.notificationWebhookAllowPrivate
+  ) {
+    const lookup = allowPrivate ? undefined : publicLookup;
+    this.httpAgent = new http.Agent({ lookup });
+    this.httpsAgent = new https.Agent({ lookup });
+  }
+
+  accepts(target: ChannelTarget): boolean {
+    return target.webhook !== undefined;
+  }
+
+  async send(notification: Notification, target: ChannelTarget): Promise<void> {
+    const { url, secret } = target.webhook!;
+
+    // Literal IPs skip the DNS lookup, so they are checked here
+    if (!this.allowPrivate && !isPublicWebhookUrl(url)) {
+      throw new Error(`Webhook URL ${url} is not a public http(s) URL`);
+    }
+
+    const body = JSON.stringify(notification);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    await axios.post(url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Pigment-Event': notification.type,
+        'X-Pigment-Delivery': notification.id,
+        'X-Pigment-Timestamp': String(timestamp),
+        'X-Pigment-Signature': signWebhookPayload(secret, timestamp, body),
+      },
+      timeout: this.timeoutMs,
+      maxRedirects: 0,
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+    });
+  }
+}
+
+/**
+ * SMTP transport from SMTP_* settings (null when SMTP_HOST is unset)
+ * Point SMTP_HOST/SMTP_PORT at a local test server (e.g. MailHog on 1025)
+ * to see emails without sending any.
+ */
+export function createSmtpTransport(): Transporter | null {
+  if (!config.smtpHost) {
+    return null;
+  }
+
+  return nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPass } : undefined,
+  });
+}
+
+/**
+ * EmailChannel
+ *
+ * Sends a plain-text email through an SMTP transport.
+ * Disabled when there is no transport.
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  constructor(
+    private readonly transport: Transporter | null = createSmtpTransport(),
+    private readonly from: string = config.smtpFrom
+  ) {}
+
+  accepts(target: ChannelTarget): boolean {
+    return this.transport !== null && target.email !== undefined;
+  }
+
+  async send(notification: Notification, target: ChannelTarget): Promise<void> {
+    await this.transport!.sendMail({
+      from: this.from,
+      to: target.email,
+      subject: `Pigment: ${notification.title}`,
+      text: `${notification.message}\n\n${notification.createdAt}`,
+    });
+  }
+}
+
+/**
+ * Result of delivering a notification to one channel
+ */
+export interface NotificationDelivery {
+  channel: NotificationChannel['name'];
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Notifier
+ *
+ * Turns events into notifications and delivers them to the channels
+ * each user subscribed to. Never throws: a failing channel is logged
+ * and reported, and the others still deliver.
+ */
+export class Notifier {
+  private subscriptions: Pick<UserPreferencesStore, 'getSubscriptions'>;
+  private channels: NotificationChannel[];
+
+  constructor(
+    subscriptions: Pick<UserPreferencesStore, 'getSubscriptions'> = userPreferencesStore,
+    channels: NotificationChannel[] = [new InAppChannel(), new WebhookChannel(), new EmailChannel()]
+  ) {
+    this.subscriptions = subscriptions;
+    this.channels = channels;
+  }
+
+  async notify(event: NotificationEvent): Promise<NotificationDelivery[]> {
+    const subscriptions = this.subscriptions.getSubscriptions(event.user) ?? DEFAULT_NOTIFICATION_SUBSCRIPTIONS;
+    if (!subscriptions.events.includes(event.type)) {
+      return [];
+    }
+
+    const { type, user, ...data } = event;
+    const notification: Notification = {
+      id: `ntf_${crypto.randomUUID()}`,
+      type,
+      user,
+      ...describeEvent(event),
+      data,
+      createdAt: new Date().toISOString(),
+    };
+
+    const channels = this.channels.filter((channel) => channel.accepts(subscriptions));
+
+    return Promise.all(
+      channels.map(async (channel): Promise<NotificationDelivery> => {
+        try {
+          await channel.send(notification, subscriptions);
+          return { channel: channel.name, ok: true };
+        } catch (error: any) {
+          console.warn(`⚠️  ${channel.name} notification for ${user} failed:`, error.message);
+          return { channel: channel.name, ok: false, error: error.message };
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,235 @@
+import { config, CRONOS_MAINNET_CHAIN_ID } from '../config/env';
+import { BlockchainService } from './blockchain.service';
+import { isSimulatedSettlement } from './facilitator.client';
+import { paymentLedger, PaymentLedger, PaymentRecord } from '../stores/payment-ledger.store';
+
+/**
+ * Chain operations needed to credit payments
+ * (narrowed so tests can pass a fake)
+ */
+export type PaymentChain = Pick<
+  BlockchainService,
+  'depositFor' | 'getTransactionBlockNumber' | 'getDepositForEvents'
+>;
+
+// Payments with a depositFor() in flight in this process
+// Module-level so the API and the reconciler share it.
+const creditsInFlight = new Set<string>();
+
+// Payments an /api/save request is verifying, settling and crediting
+const paymentsClaimed = new Set<string>();
+
+/**
+ * Error thrown when a payment is already being processed elsewhere
+ */
+export class PaymentInFlightError extends Error {
+  constructor(paymentId: string) {
+    super(`Payment ${paymentId} is already being processed`);
+    this.name = 'PaymentInFlightError';
+  }
+}
+
+/**
+ * Error thrown for a settlement that can never be found on-chain
+ * (simulated by the mock facilitator), so retrying is pointless
+ */
+export class UnreconcilableSettlementError extends Error {
+  constructor(txHash: string) {
+    super(`Settlement ${txHash} was simulated by the mock facilitator and can't be reconciled`);
+    this.name = 'UnreconcilableSettlementError';
+  }
+}
+
+/**
+ * Error thrown when crediting a mock facilitator settlement outside mock mode
+ * No USDC arrived in the vault, so depositFor() would credit nothing.
+ */
+export class SimulatedSettlementError extends Error {
+  constructor(txHash: string) {
+    super(`Settlement ${txHash} was simulated by the mock facilitator; set ALLOW_SIMULATED_SETTLEMENTS=true on a testnet to credit it`);
+    this.name = 'SimulatedSettlementError';
+  }
+}
+
+/**
+ * Which settlements may be credited
+ */
+export interface SettlementPolicy {
+  allowSimulated: boolean;           // Credit mock facilitator settlements
+  chainId: number;                   // Never allowed on mainnet, whatever allowSimulated says
+}
+
+/**
+ * PaymentService
+ *
+ * Credits settled x402 payments to the vault via depositFor() and keeps
+ * the payment ledger in sync. Resuming a payment always checks the chain
+ * first so a credit that landed before a crash is never repeated.
+ */
+export class PaymentService {
+  private chain: PaymentChain;
+  private ledger: PaymentLedger;
+  private allowSimulated: boolean;
+
+  constructor(
+    chain: PaymentChain = new BlockchainService(),
+    ledger: PaymentLedger = paymentLedger,
+    policy: Partial<SettlementPolicy> = {}
+  ) {
+    this.chain = chain;
+    this.ledger = ledger;
+    this.allowSimulated =
+      (policy.allowSimulated ?? config.allowSimulatedSettlements) &&
+      (policy.chainId ?? config.cronosChainId) !== CRONOS_MAINNET_CHAIN_ID;
+  }
+
+  /**
+   * Claim a payment for one request's verify -> settle -> credit
+   * Only the claiming request may fail or settle it; release() it once
+   * the request is done.
+   *
+   * @throws PaymentInFlightError while another request holds it
+   */
+  claim(paymentId: string): void {
+    if (paymentsClaimed.has(paymentId)) {
+      throw new PaymentInFlightError(paymentId);
+    }
+    paymentsClaimed.add(paymentId);
+  }
+
+  release(paymentId: string): void {
+    paymentsClaimed.delete(paymentId);
+  }
+
+  /**
+   * Credit a freshly settled payment
+   * Leaves the payment in `settled` (with the error) if depositFor fails.
+   * Mock facilitator settlements are only credited when allowed.
+   *
+   * @throws SimulatedSettlementError
+   */
+  async credit(payment: PaymentRecord): Promise<PaymentRecord> {
+    return this.withLock(payment.paymentId, async () => {
+      const current = this.getSettled(payment.paymentId);
+      if (current.status === 'credited') {
+        return current;
+      }
+
+      if (!this.allowSimulated && current.facilitatorTxHash && isSimulatedSettlement(current.facilitatorTxHash)) {
+        const error = new SimulatedSettlementError(current.facilitatorTxHash);
+        this.ledger.recordError(current.paymentId, error.message);
+        throw error;
+      }
+
+      return this.deposit(current);
+    });
+  }
+
+  /**
+   * Resume a payment that was settled earlier but not marked credited
+   * Adopts an existing on-chain credit if there is one, otherwise re-deposits.
+   * A payment credited since `payment` was read is returned as 'already_credited'.
+   */
+  async resume(
+    payment: PaymentRecord
+  ): Promise<{ record: PaymentRecord; resolution: 'found_onchain' | 'redeposited' | 'already_credited' }> {
+    return this.withLock(payment.paymentId, async () => {
+      const current = this.getSettled(payment.paymentId);
+      if (current.status === 'credited') {
+        return { record: current, resolution: 'already_credited' as const };
+      }
+
+      const existingCredit = await this.findOnChainCredit(current);
+
+      if (existingCredit) {
+        console.log(`🔎 Payment ${current.paymentId} already credited on-chain: ${existingCredit}`);
+        const record = this.ledger.transition(current.paymentId, 'credited', {
+          depositTxHash: existingCredit,
+        });
+        return { record, resolution: 'found_onchain' as const };
+      }
+
+      const record = await this.deposit(current);
+      return { record, resolution: 'redeposited' as const };
+    });
+  }
+
+  /**
+   * Look for a depositFor() crediting this payment after its settlement
+   * Deposits already claimed by another payment in the ledger are skipped.
+   *
+   * @throws UnreconcilableSettlementError for mock facilitator settlements
+   */
+  async findOnChainCredit(payment: PaymentRecord): Promise<string | null> {
+    if (!payment.facilitatorTxHash) {
+      throw new Error(`Payment ${payment.paymentId} has no settlement transaction`);
+    }
+
+    if (isSimulatedSettlement(payment.facilitatorTxHash)) {
+      throw new UnreconcilableSettlementError(payment.facilitatorTxHash);
+    }
+
+    const settlementBlock = await this.chain.getTransactionBlockNumber(payment.facilitatorTxHash);
+    if (settlementBlock === null) {
+      // Never credit USDC we can't see arriving in the vault
+      throw new Error(`Settlement ${payment.facilitatorTxHash} not found on-chain yet`);
+    }
+
+    const claimed = new Set(
+      this.ledger
+        .listByUser(payment.user)
+        .filter((record) => record.paymentId !== payment.paymentId)
+        .map((record) => record.depositTxHash?.toLowerCase())
+        .filter((hash): hash is string => !!hash)
+    );
+
+    const deposits = await this.chain.getDepositForEvents(payment.user, settlementBlock);
+    const match = deposits.find(
+      (deposit) =>
+        deposit.amount === BigInt(payment.amount) &&
+        !claimed.has(deposit.transactionHash.toLowerCase())
+    );
+
+    return match ? match.transactionHash : null;
+  }
+
+  private async deposit(payment: PaymentRecord): Promise<PaymentRecord> {
+    try {
+      // USDC is already in vault (transferred via x402)
+      // We just need to update accounting
+      const depositReceipt = await this.chain.depositFor(payment.user, BigInt(payment.amount));
+
+      console.log('✅ Account credited:', depositReceipt.hash);
+
+      return this.ledger.transition(payment.paymentId, 'credited', {
+        depositTxHash: depositReceipt.hash,
+      });
+    } catch (error: any) {
+      this.ledger.recordError(payment.paymentId, error.message || 'depositFor failed');
+      throw error;
+    }
+  }
+
+  // The ledger's current record, once the lock is held
+  // Callers may hold a copy read before another request credited it.
+  private getSettled(paymentId: string): PaymentRecord {
+    const current = this.ledger.get(paymentId);
+    if (!current || (current.status !== 'settled' && current.status !== 'credited')) {
+      throw new Error(`Payment ${paymentId} is ${current?.status ?? 'unknown'}, not settled`);
+    }
+    return current;
+  }
+
+  private async withLock<T>(paymentId: string, fn: () => Promise<T>): Promise<T> {
+    if (creditsInFlight.has(paymentId)) {
+      throw new PaymentInFlightError(paymentId);
+    }
+
+    creditsInFlight.add(paymentId);
+    try {
+      return await fn();
+    } finally {
+      creditsInFlight.delete(paymentId);
+    }
+  }
+}
@@ -0,0 +1,368 @@
+import { formatUnits } from 'ethers';
+import { config } from '../config/env';
+import { BlockchainService } from './blockchain.service';
+import { vaultEventStore, VaultEventStore, IndexedVaultEvent } from '../stores/vault-event.store';
+import {
+  performanceSnapshotStore,
+  PerformanceSnapshotStore,
+  PoolSnapshot,
+  PositionSnapshot,
+} from '../stores/performance-snapshot.store';
+
+// Fixed-point scale for the USDC value of one LP token (LP tokens have 18 decimals)
+const PRICE_SCALE = 10n ** 36n;
+
+// Precision of the per-interval growth ratios
+const RATIO_SCALE = 10n ** 12n;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+// Annualizing less than a day of returns is mostly noise
+const MIN_APY_PERIOD_MS = DAY_MS;
+
+export type PerformanceChain = Pick<BlockchainService, 'getYieldPool' | 'getYieldPosition' | 'getStrategyYield'>;
+
+/**
+ * A user's LP holdings and what they cost, rebuilt from vault events
+ * Withdrawals take cost out at the average cost per LP token.
+ */
+export interface YieldCostBasis {
+  liquidityTokens: bigint;
+  costBasis: bigint;                 // USDC still invested
+  realizedPnl: bigint;               // USDC received above the cost taken out
+}
+
+/**
+ * One point of the value vs cost basis chart
+ */
+export interface PerformancePoint {
+  timestamp: string;
+  value: string;                     // USDC
+  costBasis: string;                 // USDC
+}
+
+/**
+ * A user's yield strategy performance (amounts in USDC, e.g. "25.0")
+ *
+ * cumulativeYield is the growth of the pool's value per LP token while
+ * the user held it (swap fees earned). swapCost is what the strategy
+ * lost converting in and out of the pair: entryCost is the USDC
+ * deposited minus the LP value it bought, exitCost the LP value burned
+ * minus the USDC it returned. totalPnl = cumulativeYield - swapCost.
+ */
+export interface YieldPerformance {
+  liquidityTokens: string;           // Smallest unit
+  costBasis: string;
+  currentValue: string;
+  cumulativeYield: string;
+  swapCost: string;
+  entryCost: string;
+  exitCost: string;
+  realizedPnl: string;
+  unrealizedPnl: string;             // currentValue - costBasis
+  totalPnl: string;
+  timeWeightedReturn: number;        // Fraction, e.g. 0.012 for 1.2%
+  apy: number | null;                // Annualized; null under a day of history
+  trackedSince: string | null;       // First snapshot the user held LP through
+  contractYield: string | null;      // VVSYieldStrategy.calculateYield at the last snapshot
+  lastSnapshotAt: string;
+  series: PerformancePoint[];        // Oldest first
+}
+
+function isYieldMove(event: IndexedVaultEvent): boolean {
+  return event.name === 'DepositedToYield' || event.name === 'WithdrawnFromYield';
+}
+
+function formatUsdc(amount: bigint | string): string {
+  return formatUnits(amount, 6);
+}
+
+/**
+ * USDC value of one LP token, scaled by PRICE_SCALE
+ * Values USDC and USDT 1:1, like VVSYieldStrategy.getUserValue.
+ */
+function lpPrice(snapshot: PoolSnapshot): bigint | null {
+  const totalSupply = BigInt(snapshot.totalSupply);
+  if (totalSupply === 0n) return null;
+
+  return ((BigInt(snapshot.usdcReserve) + BigInt(snapshot.usdtReserve)) * PRICE_SCALE) / totalSupply;
+}
+
+/**
+ * Apply a DepositedToYield or WithdrawnFromYield event to a cost basis
+ * Returns the PnL it realized (zero for deposits).
+ */
+export function applyYieldMove(position: YieldCostBasis, event: IndexedVaultEvent): bigint {
+  const liquidityTokens = BigInt(event.args.liquidityTokens);
+
+  if (event.name === 'DepositedToYield') {
+    position.liquidityTokens += liquidityTokens;
+    position.costBasis += BigInt(event.args.amount);
+    return 0n;
+  }
+
+  const costRemoved = position.liquidityTokens > 0n
+    ? (position.costBasis * liquidityTokens) / position.liquidityTokens
+    : 0n;
+  const realized = BigInt(event.args.usdcAmount) - costRemoved;
+
+  position.realizedPnl += realized;
+  position.costBasis -= costRemoved;
+  position.liquidityTokens -= liquidityTokens;
+  return realized;
+}
+
+/**
+ * Rebuild a user's cost basis from their vault events (oldest first)
+ */
+export function getYieldCostBasis(events: IndexedVaultEvent[]): YieldCostBasis {
+  const position: YieldCostBasis = { liquidityTokens: 0n, costBasis: 0n, realizedPnl: 0n };
+
+  for (const event of events) {
+    if (isYieldMove(event)) applyYieldMove(position, event);
+  }
+
+  return position;
+}
+
+/**
+ * Compute a user's yield performance
+ *
+ * Deposits and withdrawals are valued at the pool snapshot nearest to
+ * them. Returns null until the user has used the yield strategy and at
+ * least one pool snapshot exists.
+ */
+export function computePerformance(
+  events: IndexedVaultEvent[],
+  pool: PoolSnapshot[],
+  positions: PositionSnapshot[]
+): YieldPerformance | null {
+  const moves = events.filter(isYieldMove);
+  const prices = pool
+    .map((snapshot) => ({ time: Date.parse(snapshot.takenAt), price: lpPrice(snapshot) }))
+    .filter((point): point is { time: number; price: bigint } => point.price !== null);
+
+  if (moves.length === 0 || prices.length === 0) {
+    return null;
+  }
+
+  const nearestPrice = (time: number) =>
+    prices.reduce((best, point) => (Math.abs(point.time - time) < Math.abs(best.time - time) ? point : best)).price;
+
+  const position: YieldCostBasis = { liquidityTokens: 0n, costBasis: 0n, realizedPnl: 0n };
+  let enteredValue = 0n;
+  let exitedValue = 0n;
+  let entryCost = 0n;
+  let exitCost = 0n;
+
+  for (const move of moves) {
+    const price = nearestPrice(move.blockTimestamp * 1000);
+    const value = (BigInt(move.args.liquidityTokens) * price) / PRICE_SCALE;
+
+    if (move.name === 'DepositedToYield') {
+      enteredValue += value;
+      entryCost += BigInt(move.args.amount) - value;
+    } else {
+      exitedValue += value;
+      exitCost += value - BigInt(move.args.usdcAmount);
+    }
+
+    applyYieldMove(position, move);
+  }
+
+  const latest = prices[prices.length - 1];
+  const currentValue = (position.liquidityTokens * latest.price) / PRICE_SCALE;
+  const cumulativeYield = currentValue + exitedValue - enteredValue;
+  const unrealizedPnl = currentValue - position.costBasis;
+
+  // Time-weighted return: chain the LP price growth over every interval
+  // the user held LP through, so deposit timing doesn't skew it
+  let growth = 1;
+  let heldMs = 0;
+  let trackedSince: number | null = null;
+  let held = 0n;
+  let next = 0;
+
+  for (let i = 0; i < prices.length - 1; i++) {
+    while (next < moves.length && moves[next].blockTimestamp * 1000 <= prices[i].time) {
+      const liquidityTokens = BigInt(moves[next].args.liquidityTokens);
+      held += moves[next].name === 'DepositedToYield' ? liquidityTokens : -liquidityTokens;
+      next++;
+    }
+
+    if (held <= 0n) continue;
+
+    growth *= Number((prices[i + 1].price * RATIO_SCALE) / prices[i].price) / Number(RATIO_SCALE);
+    heldMs += prices[i + 1].time - prices[i].time;
+    trackedSince ??= prices[i].time;
+  }
+
+  const lastPosition = positions[positions.length - 1];
+
+  return {
+    liquidityTokens: position.liquidityTokens.toString(),
+    costBasis: formatUsdc(position.costBasis),
+    currentValue: formatUsdc(currentValue),
+    cumulativeYield: formatUsdc(cumulativeYield),
+    swapCost: formatUsdc(entryCost + exitCost),
+    entryCost: formatUsdc(entryCost),
+    exitCost: formatUsdc(exitCost),
+    realizedPnl: formatUsdc(position.realizedPnl),
+    unrealizedPnl: formatUsdc(unrealizedPnl),
+    totalPnl: formatUsdc(position.realizedPnl + unrealizedPnl),
+    timeWeightedReturn: growth - 1,
+    apy: heldMs >= MIN_APY_PERIOD_MS ? growth ** (YEAR_MS / heldMs) - 1 : null,
+    trackedSince: trackedSince === null ? null : new Date(trackedSince).toISOString(),
+    contractYield: lastPosition ? formatUsdc(lastPosition.contractYield) : null,
+    lastSnapshotAt: new Date(latest.time).toISOString(),
+    series: positions.map((snapshot) => ({
+      timestamp: snapshot.takenAt,
+      value: formatUsdc(snapshot.value),
+      costBasis: formatUsdc(snapshot.costBasis),
+    })),
+  };
+}
+
+/**
+ * PerformanceService
+ *
+ * Snapshots the VVS pair reserves and every yield strategy position
+ * (getUserValue, plus calculateYield against the cost basis) on a fixed
+ * interval and right after yield moves, and computes each user's
+ * performance from those snapshots and the indexed vault events.
+ */
+export class PerformanceService {
+  private chain: PerformanceChain;
+  private events: Pick<VaultEventStore, 'getAccounts' | 'getEventsForUser'>;
+  private snapshots: PerformanceSnapshotStore;
+  private intervalMs: number;
+  private now: () => number;
+  private timer: NodeJS.Timeout | null = null;
+  private isSnapshotting: boolean = false;
+
+  constructor(
+    chain: PerformanceChain = new BlockchainService(),
+    events: Pick<VaultEventStore, 'getAccounts' | 'getEventsForUser'> = vaultEventStore,
+    snapshots: PerformanceSnapshotStore = performanceSnapshotStore,
+    intervalMs: number = config.performanceSnapshotIntervalMs,
+    now: () => number = Date.now
+  ) {
+    this.chain = chain;
+    this.events = events;
+    this.snapshots = snapshots;
+    this.intervalMs = intervalMs;
+    this.now = now;
+  }
+
+  /**
+   * Start snapshotting
+   * Takes a snapshot immediately, then every intervalMs
+   */
+  start() {
+    if (this.timer) {
+      console.log('⚠️  Performance snapshotter already running');
+      return;
+    }
+
+    console.log('📈 Starting yield performance snapshotter');
+    this.timer = setInterval(() => this.run(), this.intervalMs);
+    this.run();
+  }
+
+  /**
+   * Stop snapshotting
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    console.log('🛑 Performance snapshotter stopped');
+  }
+
+  /**
+   * Snapshot again after yield moves so they are valued close to when
+   * they happened
+   */
+  async handleVaultEvents(events: IndexedVaultEvent[]): Promise<void> {
+    if (events.some(isYieldMove)) {
+      await this.run();
+    }
+  }
+
+  /**
+   * Snapshot the pool and every position
+   * Returns the number of position snapshots recorded.
+   */
+  async snapshot(): Promise<number> {
+    const pool = await this.chain.getYieldPool();
+    if (!pool) return 0;
+
+    const takenAt = new Date(this.now()).toISOString();
+    this.snapshots.appendPool({
+      takenAt,
+      usdcReserve: pool.usdcReserve.toString(),
+      usdtReserve: pool.usdtReserve.toString(),
+      totalSupply: pool.totalSupply.toString(),
+    });
+
+    let recorded = 0;
+
+    for (const account of this.events.getAccounts()) {
+      const events = this.events.getEventsForUser(account.address);
+      if (!events.some(isYieldMove)) continue;
+
+      try {
+        const position = await this.chain.getYieldPosition(account.address);
+        if (!position) continue;
+
+        // Record the exit to zero once, then stop
+        const last = this.snapshots.listByUser(account.address).pop();
+        if (position.liquidityTokens === 0n && (!last || last.liquidityTokens === '0')) continue;
+
+        const { costBasis } = getYieldCostBasis(events);
+        const contractYield = await this.chain.getStrategyYield(position.strategy, account.address, costBasis);
+
+        this.snapshots.appendPosition({
+          user: account.address,
+          takenAt,
+          liquidityTokens: position.liquidityTokens.toString(),
+          value: position.value.toString(),
+          costBasis: costBasis.toString(),
+          contractYield: contractYield.toString(),
+        });
+        recorded++;
+      } catch (error: any) {
+        console.error(`❌ Performance snapshot failed for ${account.address}:`, error.message);
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * A user's yield performance, or null if there is nothing to report yet
+   */
+  getPerformance(user: string): YieldPerformance | null {
+    return computePerformance(
+      this.events.getEventsForUser(user),
+      this.snapshots.listPool(),
+      this.snapshots.listByUser(user)
+    );
+  }
+
+  private async run() {
+    if (this.isSnapshotting) return;
+
+    this.isSnapshotting = true;
+    try {
+      const recorded = await this.snapshot();
+      console.log(`📈 Performance snapshot: ${recorded} position(s)`);
+    } catch (error: any) {
+      console.error('❌ Performance snapshot error:', error.message);
+    } finally {
+      this.isSnapshotting = false;
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { config } from '../config/env';
+import { PaymentService, PaymentInFlightError, UnreconcilableSettlementError } from './payment.service';
+import { paymentLedger, PaymentLedger, PaymentRecord } from '../stores/payment-ledger.store';
+
+export interface ReconcilerOptions {
+  graceMs: number;        // Leave fresh payments to the in-flight /api/save request
+  baseDelayMs: number;    // First retry delay, doubled on every failure
+  maxDelayMs: number;     // Backoff cap
+  maxAttempts: number;    // Give up (and leave for an admin) after this many tries
+}
+
+/**
+ * What happened to a payment during one reconcile pass
+ */
+export interface ReconcileOutcome {
+  paymentId: string;
+  outcome: 'found_onchain' | 'redeposited' | 'retry_scheduled' | 'gave_up';
+  error?: string;
+}
+
+/**
+ * ReconcilerService
+ *
+ * Finds x402 payments that were settled (USDC is in the vault) but never
+ * credited via depositFor(), e.g. because depositFor reverted or the
+ * server crashed in between. For each one it checks the chain for an
+ * existing credit before retrying depositFor with exponential backoff.
+ * Settlements simulated by the mock facilitator are given up on right
+ * away: they never reach the chain.
+ */
+export class ReconcilerService {
+  private paymentService: PaymentService;
+  private ledger: PaymentLedger;
+  private options: ReconcilerOptions;
+  private now: () => number;
+  private task: ScheduledTask | null = null;
+  private isReconciling: boolean = false;
+  private lastRunAt: string | null = null;
+
+  constructor(
+    paymentService: PaymentService = new PaymentService(),
+    ledger: PaymentLedger = paymentLedger,
+    options: Partial<ReconcilerOptions> = {},
+    now: () => number = Date.now
+  ) {
+    this.paymentService = paymentService;
+    this.ledger = ledger;
+    this.options = {
+      graceMs: options.graceMs ?? config.reconcilerGraceMs,
+      baseDelayMs: options.baseDelayMs ?? config.reconcilerBaseDelayMs,
+      maxDelayMs: options.maxDelayMs ?? config.reconcilerMaxDelayMs,
+      maxAttempts: options.maxAttempts ?? config.reconcilerMaxAttempts,
+    };
+    this.now = now;
+  }
+
+  /**
+   * Start the reconciler
+   * Runs every minute; backoff decides which payments are actually retried.
+   */
+  start() {
+    if (this.task) {
+      console.log('⚠️  Reconciler already running');
+      return;
+    }
+
+    console.log('🧾 Starting payment reconciler');
+    this.task = cron.schedule('* * * * *', async () => {
+      await this.run();
+    });
+  }
+
+  /**
+   * Stop the reconciler
+   */
+  stop() {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+    }
+    console.log('🛑 Reconciler stopped');
+  }
+
+  /**
+   * Reconcile every settled-but-uncredited payment that is due
+   */
+  async reconcile(): Promise<ReconcileOutcome[]> {
+    const outcomes: ReconcileOutcome[] = [];
+
+    for (const payment of this.ledger.listByStatus('settled')) {
+      if (!this.isDue(payment)) continue;
+
+      const outcome = await this.reconcilePayment(payment);
+      if (outcome) outcomes.push(outcome);
+    }
+
+    this.lastRunAt = new Date(this.now()).toISOString();
+    return outcomes;
+  }
+
+  /**
+   * Payments still waiting for a credit
+   */
+  getStuckPayments(): PaymentRecord[] {
+    return this.ledger.listByStatus('settled');
+  }
+
+  getStatus() {
+    return {
+      isRunning: this.task !== null,
+      lastRunAt: this.lastRunAt,
+      stuck: this.getStuckPayments().length,
+    };
+  }
+
+  private async run() {
+    if (this.isReconciling) return;
+
+    this.isReconciling = true;
+    try {
+      const outcomes = await this.reconcile();
+      for (const outcome of outcomes) {
+        console.log(`🧾 Payment ${outcome.paymentId}: ${outcome.outcome}${outcome.error ? ` (${outcome.error})` : ''}`);
+      }
+    } catch (error: any) {
+      console.error('❌ Reconciler error:', error.message);
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * Respect the grace period for fresh payments and the backoff schedule
+   */
+  private isDue(payment: PaymentRecord): boolean {
+    const reconciliation = payment.reconciliation;
+
+    if (reconciliation?.resolution === 'gave_up') {
+      return false;
+    }
+
+    if (!reconciliation) {
+      return this.now() - Date.parse(payment.updatedAt) >= this.options.graceMs;
+    }
+
+    return !reconciliation.nextAttemptAt || Date.parse(reconciliation.nextAttemptAt) <= this.now();
+  }
+
+  private async reconcilePayment(payment: PaymentRecord): Promise<ReconcileOutcome | null> {
+    const attempts = (payment.reconciliation?.attempts ?? 0) + 1;
+    const attemptAt = new Date(this.now()).toISOString();
+
+    try {
+      const { resolution } = await this.paymentService.resume(payment);
+
+      // Credited by /api/save since this pass listed it
+      if (resolution === 'already_credited') {
+        return null;
+      }
+
+      this.ledger.recordReconciliation(payment.paymentId, {
+        attempts,
+        lastAttemptAt: attemptAt,
+        resolution,
+        resolvedAt: attemptAt,
+      });
+
+      return { paymentId: payment.paymentId, outcome: resolution };
+    } catch (error: any) {
+      // The API is crediting it right now - look again next pass
+      if (error instanceof PaymentInFlightError) {
+        return null;
+      }
+
+      const message = error.message || 'Reconciliation failed';
+      this.ledger.recordError(payment.paymentId, message);
+
+      if (attempts >= this.options.maxAttempts || error instanceof UnreconcilableSettlementError) {
+        this.ledger.recordReconciliation(payment.paymentId, {
+          attempts,
+          lastAttemptAt: attemptAt,
+          resolution: 'gave_up',
+          resolvedAt: attemptAt,
+        });
+        return { paymentId: payment.paymentId, outcome: 'gave_up', error: message };
+      }
+
+      const delay = Math.min(this.options.baseDelayMs * 2 ** (attempts - 1), this.options.maxDelayMs);
+      this.ledger.recordReconciliation(payment.paymentId, {
+        attempts,
+        lastAttemptAt: attemptAt,
+        nextAttemptAt: new Date(this.now() + delay).toISOString(),
+      });
+
+      return { paymentId: payment.paymentId, outcome: 'retry_scheduled', error: message };
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { splitAcrossPots } from '../agent/decision-engine';
+import { PotPriority } from '../agent/types';
+import { formatUsdcAmount } from './blockchain.service';
+import { IndexedVaultEvent } from '../stores/vault-event.store';
+import { userPreferencesStore, UserPreferencesStore } from '../stores/user-preferences.store';
+
+// Withdrawals come out of the lowest priority pots first
+const DEBIT_ORDER: Record<PotPriority, number> = { low: 0, medium: 1, high: 2 };
+
+type PotChange = { potId: string; amount: bigint };
+
+/**
+ * SavingsPotService
+ *
+ * Keeps each pot's saved amount in step with the vault:
+ * - Deposits and auto-saves are split across the pots that existed at
+ *   the time, the same way the decision engine splits a save
+ * - A withdrawal that takes the vault below what the pots hold takes
+ *   the difference out of the pots, lowest priority first
+ *
+ * Money not in any pot is general savings. Each vault event is
+ * applied once, so indexer replays are harmless.
+ */
+export class SavingsPotService {
+  private pots: Pick<UserPreferencesStore, 'getPots' | 'getPotTargets' | 'adjustPots'>;
+
+  constructor(pots: Pick<UserPreferencesStore, 'getPots' | 'getPotTargets' | 'adjustPots'> = userPreferencesStore) {
+    this.pots = pots;
+  }
+
+  /**
+   * Indexer listener: apply a batch of vault events to the users' pots
+   */
+  handleVaultEvents(events: IndexedVaultEvent[]): void {
+    for (const event of events) {
+      try {
+        this.applyEvent(event);
+      } catch (error: any) {
+        console.error(`❌ Failed to apply ${event.name} ${event.id} to pots:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Apply one vault event; returns whether any pot changed
+   */
+  applyEvent(event: IndexedVaultEvent): boolean {
+    const changes = this.getChanges(event);
+    if (changes.length === 0 || !this.pots.adjustPots(event.user, event.id, changes)) {
+      return false;
+    }
+
+    const summary = changes.map((change) => `${change.potId} ${change.amount > 0n ? '+' : ''}${formatUsdcAmount(change.amount)}`);
+    console.log(`🫙 Pots updated for ${event.user} from ${event.name}: ${summary.join(', ')}`);
+    return true;
+  }
+
+  private getChanges(event: IndexedVaultEvent): PotChange[] {
+    const record = this.pots.getPots(event.user);
+    if (!record) return [];
+
+    switch (event.name) {
+      case 'Deposited':
+      case 'AutoSaveExecuted': {
+        // Pots only share in saves made after they were created
+        const time = event.blockTimestamp * 1000;
+        const eligible = new Set(
+          record.pots.filter((pot) => Date.parse(pot.createdAt) <= time).map((pot) => pot.id)
+        );
+        const targets = this.pots.getPotTargets(event.user).filter((pot) => eligible.has(pot.id));
+
+        return splitAcrossPots(BigInt(event.args.amount), targets, time)
+          .map((allocation) => ({ potId: allocation.potId, amount: allocation.amount }));
+      }
+
+      case 'Withdrawn': {
+        const targets = this.pots.getPotTargets(event.user);
+        let excess = targets.reduce((total, pot) => total + pot.savedAmount, 0n) - BigInt(event.args.newBalance);
+        const changes: PotChange[] = [];
+
+        // Lowest priority first; among equals, the most recently listed
+        const order = targets
+          .map((pot, index) => ({ pot, index }))
+          .sort((a, b) => DEBIT_ORDER[a.pot.priority] - DEBIT_ORDER[b.pot.priority] || b.index - a.index);
+
+        for (const { pot } of order) {
+          if (excess <= 0n) break;
+          const taken = pot.savedAmount < excess ? pot.savedAmount : excess;
+          if (taken === 0n) continue;
+
+          changes.push({ potId: pot.id, amount: -taken });
+          excess -= taken;
+        }
+
+        return changes;
+      }
+
+      default:
+        return [];
+    }
+  }
+}
@@ -1,24 +1,98 @@
 import cron from 'node-cron';
-import { BlockchainService } from './blockchain.service';
+import { formatUnits } from 'ethers';
+import { BlockchainService, MAX_SAVE_AMOUNT, getVaultErrorName } from './blockchain.service';
+import { VaultIndexerService } from './indexer.service';
+import { FinancialStateService, WalletForecaster, WeeklyProgressTracker } from './financial-state.service';
+import { walletHistoryService } from './wallet-history.service';
+import { WeeklyProgressService } from './weekly-progress.service';
 import { DecisionEngine } from '../agent/decision-engine';
-import { UserFinancialState, DecisionStrategy } from '../agent/types';
-import { ethers } from 'ethers';
+import { Advisor, createAdvisor } from '../agent/advisor';
+import { DecisionStrategy, SaveDecision, UserFinancialState } from '../agent/types';
+import {
+  autoSaveExecutionStore,
+  AutoSaveExecution,
+  AutoSaveExecutionStore,
+  AutoSaveSkipReason,
+} from '../stores/auto-save-execution.store';
+import { userPreferencesStore, UserPreferencesStore } from '../stores/user-preferences.store';
+import { decisionHistoryStore, DecisionHistoryStore, DecisionRecord } from '../stores/decision-history.store';
+import { IndexedVaultEvent, vaultEventStore } from '../stores/vault-event.store';
+import { saveProposalStore, SaveProposal, SaveProposalStore } from '../stores/save-proposal.store';
+import { Notifier, NotificationEvent } from './notifier.service';
+
+/**
+ * Chain operations the scheduler needs
+ * (narrowed so tests can pass a fake)
+ */
+export type SchedulerChain = Pick<
+  BlockchainService,
+  'getUserAccount' | 'canAutoSave' | 'getWalletUsdcBalance' | 'getVaultAllowance' | 'autoSave'
+>;
+
+/**
+ * Account lists the scheduler needs from the indexer
+ */
+export type SchedulerIndexer = Pick<VaultIndexerService, 'getActiveAutoAccounts' | 'getActiveManualAccounts'>;
+
+/**
+ * Called with each decision the scheduler records
+ */
+export type DecisionListener = (record: DecisionRecord) => void;
+
+// Vault reverts that mean "not now" rather than "broken"
+const SKIPPABLE_VAULT_ERRORS: Record<string, AutoSaveSkipReason> = {
+  SavingsVault__SaveIntervalNotMet: 'save_interval_not_met',
+  SavingsVault__AmountExceedsLimit: 'amount_exceeds_limit',
+};
+
+// Buffer changes older than this were already seen by a regular check
+const BUFFER_CHANGE_MAX_AGE_SECONDS = 10 * 60;
 
 /**
  * SchedulerService
  * 
  * Runs automated checks for all AUTO mode accounts
  * Uses AI Decision Engine to determine when to save
+ * MANUAL accounts get the same decision as a proposal to accept or dismiss
  */
 export class SchedulerService {
-  private blockchainService: BlockchainService;
+  private blockchainService: SchedulerChain;
+  private indexer: SchedulerIndexer;
+  private executions: AutoSaveExecutionStore;
+  private preferences: UserPreferencesStore;
+  private decisions: DecisionHistoryStore;
+  private proposals: SaveProposalStore;
+  private notifier: Pick<Notifier, 'notify'>;
+  private financialState: FinancialStateService;
   private decisionEngine: DecisionEngine;
+  private advisor: Advisor | null = createAdvisor();
   private isRunning: boolean = false;
+  private checking = new Map<string, Promise<unknown>>();  // Users with a check in progress
+  private lowBalanceUsers = new Set<string>();  // Already told their wallet is below the buffer
+  private lastSaveProblems = new Map<string, string>();  // Skip reason / error each user was last told about
+  private decisionListeners: DecisionListener[] = [];
 
-  constructor() {
-    this.blockchainService = new BlockchainService();
+  constructor(
+    indexer: SchedulerIndexer,
+    blockchainService: SchedulerChain = new BlockchainService(),
+    executions: AutoSaveExecutionStore = autoSaveExecutionStore,
+    preferences: UserPreferencesStore = userPreferencesStore,
+    decisions: DecisionHistoryStore = decisionHistoryStore,
+    forecaster: WalletForecaster | null = walletHistoryService,
+    proposals: SaveProposalStore = saveProposalStore,
+    notifier: Pick<Notifier, 'notify'> = new Notifier(),
+    weeklyProgress: WeeklyProgressTracker | null = new WeeklyProgressService(vaultEventStore, preferences)
+  ) {
+    this.blockchainService = blockchainService;
+    this.indexer = indexer;
+    this.executions = executions;
+    this.preferences = preferences;
+    this.decisions = decisions;
+    this.proposals = proposals;
+    this.notifier = notifier;
+    this.financialState = new FinancialStateService(blockchainService, forecaster, weeklyProgress);
     
-    // Initialize decision engine with BALANCED strategy
+    // Default decision engine (BALANCED) for users without stored preferences
     this.decisionEngine = new DecisionEngine({
       strategy: DecisionStrategy.BALANCED,
       minSaveAmount: BigInt(1_000_000), // 1 USDC minimum
@@ -38,7 +112,7 @@ export class SchedulerService {
 
     console.log('🤖 Starting AI Savings Scheduler');
     console.log('   Checking accounts every hour');
-    console.log('   Strategy: BALANCED');
+    console.log('   Strategy: BALANCED (unless the user set their own)');
     console.log('');
 
     // Run every hour: '0 * * * *'
@@ -54,7 +128,8 @@ export class SchedulerService {
   }
 
   /**
-   * Check all active AUTO accounts and decide if they should save
+   * Check all active AUTO accounts and decide if they should save,
+   * then propose saves to MANUAL accounts
    */
   private async checkAllAccounts() {
     console.log('\n🔄 Running scheduled check...');
@@ -62,8 +137,6 @@ export class SchedulerService {
     console.log('================================\n');
 
     try {
-      // For now, we'll check specific accounts
-      // In production, you'd query all accounts from an indexer or database
       const accountsToCheck = await this.getActiveAutoAccounts();
 
       console.log(`Found ${accountsToCheck.length} AUTO accounts to check\n`);
@@ -72,6 +145,14 @@ export class SchedulerService {
         await this.checkAndSaveForUser(userAddress);
       }
 
+      const accountsToPropose = this.indexer.getActiveManualAccounts();
+
+      console.log(`Found ${accountsToPropose.length} MANUAL accounts to propose to\n`);
+
+      for (const userAddress of accountsToPropose) {
+        await this.proposeForUser(userAddress);
+      }
+
       console.log('\n✅ Scheduled check complete\n');
     } catch (error: any) {
       console.error('❌ Scheduler error:', error.message);
@@ -81,109 +162,368 @@ export class SchedulerService {
   /**
    * Get list of active AUTO accounts
    * 
-   * TODO: In production, use:
-   * - Event indexer (TheGraph, Goldsky)
-   * - Database of registered users
-   * - On-chain account registry
-   * 
-   * For now, we'll use a hardcoded list or check known accounts
+   * Comes from the vault event indexer (AccountCreated / TrustModeUpdated),
+   * so every account on the vault is picked up, not just known addresses.
    */
   private async getActiveAutoAccounts(): Promise<string[]> {
-    // For hackathon demo, check your test account
-    const knownAccounts = [
-      '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266', // Your test account
-    ];
+    return this.indexer.getActiveAutoAccounts();
+  }
 
-    // Filter to only AUTO and active accounts
-    const activeAutoAccounts: string[] = [];
+  /**
+   * Subscribe to the decisions the scheduler records
+   * A throwing listener is logged and never affects the check.
+   */
+  onDecision(listener: DecisionListener) {
+    this.decisionListeners.push(listener);
+  }
 
-    for (const address of knownAccounts) {
-      try {
-        const account = await this.blockchainService.getUserAccount(address);
-        
-        // Check if active and in AUTO mode
-        if (account.isActive && account.trustMode === 1n) {  // ✅ Compare BigInt to BigInt
-          activeAutoAccounts.push(address);
-        }
-      } catch (error) {
-        // Account doesn't exist, skip
-        console.log(`⚠️  No account for ${address}`);
-      }
+  /**
+   * React to newly indexed vault events
+   * A safety buffer change re-checks that AUTO account right away, so the
+   * next decision uses the new buffer instead of waiting for the next run.
+   * If that user is already being checked, the re-check waits for it to
+   * finish, since the running check may have read the old buffer.
+   */
+  async handleVaultEvents(events: IndexedVaultEvent[], now: number = Date.now()): Promise<void> {
+    const autoAccounts = new Set(this.indexer.getActiveAutoAccounts());
+    const users = new Set<string>();
+
+    for (const event of events) {
+      if (event.name !== 'SafetyBufferUpdated') continue;
+      if (now / 1000 - event.blockTimestamp > BUFFER_CHANGE_MAX_AGE_SECONDS) continue;
+      if (autoAccounts.has(event.user)) users.add(event.user);
     }
 
-    return activeAutoAccounts;
+    for (const user of users) {
+      const key = user.toLowerCase();
+      if (this.checking.has(key)) {
+        console.log(`🛟 Safety buffer changed for ${user}, re-checking once the current check finishes`);
+        let running: Promise<unknown> | undefined;
+        while ((running = this.checking.get(key))) await running;
+      } else {
+        console.log(`🛟 Safety buffer changed for ${user}, re-checking now`);
+      }
+      await this.checkAndSaveForUser(user);
+    }
   }
 
   /**
    * Check a single user and decide if they should save
+   * Returns the recorded execution when a SAVE decision was acted on.
+   */
+  async checkAndSaveForUser(userAddress: string): Promise<AutoSaveExecution | null> {
+    return this.withUserLock(userAddress, () => this.checkUser(userAddress));
+  }
+
+  /**
+   * Propose a save to a MANUAL user
+   * Runs the user's strategy as if the account were AUTO and stores a
+   * pending proposal instead of calling autoSave. A user with an open
+   * proposal gets no new one until it is accepted, dismissed or expires.
    */
-  private async checkAndSaveForUser(userAddress: string) {
+  async proposeForUser(userAddress: string): Promise<SaveProposal | null> {
+    return this.withUserLock(userAddress, () => this.proposeSave(userAddress));
+  }
+
+  // An event-triggered check can overlap the scheduled run
+  private async withUserLock<T>(userAddress: string, check: () => Promise<T | null>): Promise<T | null> {
+    const key = userAddress.toLowerCase();
+    if (this.checking.has(key)) {
+      console.log(`👤 Already checking ${userAddress} - skipping`);
+      return null;
+    }
+
+    const running = check();
+    this.checking.set(key, running.catch(() => null));
+    try {
+      return await running;
+    } finally {
+      this.checking.delete(key);
+    }
+  }
+
+  private async checkUser(userAddress: string): Promise<AutoSaveExecution | null> {
     console.log(`👤 Checking: ${userAddress}`);
 
     try {
       // 1. Get user's financial state
-      const financialState = await this.getUserFinancialState(userAddress);
+      const { state: financialState } = await this.financialState.getFinancialState(userAddress);
 
       console.log(`   Wallet: ${this.formatUsdc(financialState.walletBalance)} USDC`);
+      if (financialState.projectedMinBalance !== undefined) {
+        console.log(`   Projected 7-day low: ${this.formatUsdc(financialState.projectedMinBalance)} USDC`);
+      }
       console.log(`   Safety Buffer: ${this.formatUsdc(financialState.safetyBuffer)} USDC`);
       console.log(`   Weekly Goal: ${this.formatUsdc(financialState.weeklyGoal)} USDC`);
+      if (financialState.savedThisWeek !== undefined) {
+        console.log(`   Saved this week: ${this.formatUsdc(financialState.savedThisWeek)} USDC`);
+      }
+      this.checkLowBalance(userAddress, financialState);
 
-      // 2. Let AI decide
-      const decision = this.decisionEngine.decide(financialState);
+      // 2. Let AI decide, using the user's own strategy and thresholds
+      const decisionEngine = this.getDecisionEngine(userAddress);
+      const { strategy } = decisionEngine.getContext();
+      const decision = await decisionEngine.decideWithAdvisor(financialState);
 
+      console.log(`   Strategy: ${strategy}`);
       console.log(`   Decision: ${decision.shouldSave ? '💰 SAVE' : '⏸️  SKIP'}`);
       console.log(`   Reason: ${decision.reason}`);
       console.log(`   Confidence: ${(decision.confidence * 100).toFixed(0)}%`);
 
       // 3. Execute save if AI says yes
       if (decision.shouldSave && decision.amount > 0n) {
-        console.log(`   Executing save of ${this.formatUsdc(decision.amount)} USDC...`);
-        
-        // This would trigger x402 payment flow
-        // For automation, we'd need user to pre-approve or use different mechanism
-        // For hackathon demo, log what would happen
-        console.log('   ⚠️  Auto-save would require pre-approved spending');
-        console.log('   📝 Logged decision for user dashboard');
-        
-        // TODO: Implement one of:
-        // A) Pre-approved allowance system
-        // B) Notification to user to approve
-        // C) Smart contract automated pull
-      } else {
-        console.log('   No action needed');
+        const execution = await this.executeAutoSave(userAddress, decision, strategy);
+
+        this.recordDecision(userAddress, strategy, financialState, decision, {
+          action: execution.status,
+          actionReason: execution.skipReason ?? execution.error,
+          txHash: execution.txHash,
+          executionId: execution.id,
+        });
+        this.notifyExecution(execution);
+
+        console.log('');
+        return execution;
       }
 
+      this.recordDecision(userAddress, strategy, financialState, decision, {
+        action: 'skipped',
+      });
+
+      console.log('   No action needed');
       console.log('');
+      return null;
 
     } catch (error: any) {
       console.error(`   ❌ Error checking ${userAddress}:`, error.message);
+      return null;
+    }
+  }
+
+  private async proposeSave(userAddress: string): Promise<SaveProposal | null> {
+    console.log(`🙋 Proposing for: ${userAddress}`);
+
+    const pending = this.proposals.getPending(userAddress);
+    if (pending) {
+      console.log(`   Proposal ${pending.id} still open until ${pending.expiresAt} - skipping`);
+      console.log('');
+      return null;
+    }
+
+    try {
+      const { state: financialState } = await this.financialState.getFinancialState(userAddress);
+      this.checkLowBalance(userAddress, financialState);
+
+      const decisionEngine = this.getDecisionEngine(userAddress);
+      const { strategy } = decisionEngine.getContext();
+      const decision = await decisionEngine.decideWithAdvisor(financialState, { forApproval: true });
+
+      console.log(`   Strategy: ${strategy}`);
+      console.log(`   Decision: ${decision.shouldSave ? '💡 PROPOSE' : '⏸️  SKIP'}`);
+      console.log(`   Reason: ${decision.reason}`);
+
+      if (!decision.shouldSave || decision.amount <= 0n) {
+        this.recordDecision(userAddress, strategy, financialState, decision, {
+          action: 'skipped',
+        });
+        console.log('');
+        return null;
+      }
+
+      // The user pays through /api/save, which the vault also caps
+      const amount = decision.amount > MAX_SAVE_AMOUNT ? MAX_SAVE_AMOUNT : decision.amount;
+
+      const proposal = this.proposals.create({
+        user: userAddress,
+        amount: amount.toString(),
+        reason: decision.reason,
+        confidence: decision.confidence,
+        urgency: decision.urgency,
+        strategy,
+      });
+
+      this.recordDecision(userAddress, strategy, financialState, decision, {
+        action: 'proposed',
+        proposalId: proposal.id,
+      });
+
+      this.notify({
+        type: 'proposal_created',
+        user: userAddress,
+        proposalId: proposal.id,
+        amount: formatUnits(amount, 6),
+        reason: proposal.reason,
+        expiresAt: proposal.expiresAt,
+      });
+
+      console.log(`   📬 Proposed ${this.formatUsdc(amount)} USDC (${proposal.id})`);
+      console.log('');
+      return proposal;
+    } catch (error: any) {
+      console.error(`   ❌ Error proposing for ${userAddress}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Pull the decided amount into the vault with autoSave()
+   * The user must have approved the vault for at least the amount.
+   */
+  private async executeAutoSave(
+    userAddress: string,
+    decision: SaveDecision,
+    strategy: DecisionStrategy
+  ): Promise<AutoSaveExecution> {
+    // The vault rejects anything above MAX_SAVE_AMOUNT
+    let amount = decision.amount;
+    if (amount > MAX_SAVE_AMOUNT) {
+      console.log(`   Clamping ${this.formatUsdc(amount)} USDC to vault max of ${this.formatUsdc(MAX_SAVE_AMOUNT)} USDC`);
+      amount = MAX_SAVE_AMOUNT;
+    }
+
+    const record = (execution: Partial<AutoSaveExecution> & Pick<AutoSaveExecution, 'status'>) =>
+      this.executions.record({
+        user: userAddress,
+        amount: amount.toString(),
+        decision: {
+          shouldSave: decision.shouldSave,
+          amount: decision.amount.toString(),
+          reason: decision.reason,
+          confidence: decision.confidence,
+          urgency: decision.urgency,
+          strategy,
+        },
+        ...execution,
+      });
+
+    const allowance = await this.blockchainService.getVaultAllowance(userAddress);
+    if (allowance < amount) {
+      console.log(`   ⚠️  Allowance ${this.formatUsdc(allowance)} USDC is below ${this.formatUsdc(amount)} USDC - skipping`);
+      return record({ status: 'skipped', skipReason: 'insufficient_allowance' });
+    }
+
+    // Re-check right before sending: another save may have landed since the state was read
+    const canSave = await this.blockchainService.canAutoSave(userAddress);
+    if (!canSave) {
+      console.log('   ⏸️  canAutoSave is false - skipping');
+      return record({ status: 'skipped', skipReason: 'cannot_auto_save' });
+    }
+
+    try {
+      console.log(`   Executing save of ${this.formatUsdc(amount)} USDC...`);
+      const receipt = await this.blockchainService.autoSave(userAddress, amount);
+
+      console.log(`   ✅ Auto-saved: ${receipt.hash}`);
+      return record({ status: 'executed', txHash: receipt.hash });
+    } catch (error: any) {
+      const errorName = getVaultErrorName(error);
+      const skipReason = errorName ? SKIPPABLE_VAULT_ERRORS[errorName] : undefined;
+
+      if (skipReason) {
+        console.log(`   ⏸️  Vault rejected save (${errorName}) - skipping`);
+        return record({ status: 'skipped', skipReason });
+      }
+
+      console.error('   ❌ autoSave failed:', errorName ?? error.message);
+      return record({ status: 'failed', error: errorName ?? error.message ?? 'autoSave failed' });
+    }
+  }
+
+  /**
+   * Persist a scheduler decision and hand it to the listeners
+   */
+  private recordDecision(
+    userAddress: string,
+    strategy: string,
+    state: UserFinancialState,
+    decision: SaveDecision,
+    outcome: Pick<DecisionRecord, 'action' | 'actionReason' | 'txHash' | 'executionId' | 'proposalId'>
+  ): DecisionRecord {
+    const record = this.decisions.record(userAddress, 'scheduler', strategy, state, decision, outcome);
+
+    for (const listener of this.decisionListeners) {
+      try {
+        listener(record);
+      } catch (error: any) {
+        console.error('❌ Decision listener error:', error.message);
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Tell the user about an autoSave attempt
+   * A skip or failure is reported once per reason, so the same problem
+   * isn't repeated every run; a successful save resets it.
+   */
+  private notifyExecution(execution: AutoSaveExecution) {
+    const { user, status } = execution;
+    const amount = formatUnits(execution.amount, 6);
+    const key = user.toLowerCase();
+
+    if (status === 'executed') {
+      this.lastSaveProblems.delete(key);
+      this.notify({ type: 'save_executed', user, amount, source: 'auto_save', txHash: execution.txHash! });
+      return;
+    }
+
+    const problem = status === 'skipped' ? `skipped:${execution.skipReason}` : `failed:${execution.error}`;
+    if (this.lastSaveProblems.get(key) === problem) {
+      return;
+    }
+
+    this.lastSaveProblems.set(key, problem);
+    if (status === 'skipped') {
+      this.notify({ type: 'save_skipped', user, amount, skipReason: execution.skipReason! });
+    } else {
+      this.notify({ type: 'save_failed', user, amount, source: 'auto_save', error: execution.error! });
     }
   }
 
   /**
-   * Get user's current financial state for decision making
+   * Warn once when the wallet drops below the safety buffer
+   * The user is warned again only after the balance has recovered.
    */
-private async getUserFinancialState(userAddress: string): Promise<UserFinancialState> {
-  const account = await this.blockchainService.getUserAccount(userAddress);
-  const canSave = await this.blockchainService.canAutoSave(userAddress);
-  const walletBalance = await this.blockchainService.getWalletUsdcBalance(userAddress);
-
-  const now = Math.floor(Date.now() / 1000);
-  const lastSave = Number(account.lastSaveTimestamp);
-  const timeSinceLastSave = lastSave === 0 ? 0 : (now - lastSave) / 3600;
-
-  return {
-    walletBalance,
-    currentSavings: account.currentBalance,
-    weeklyGoal: account.weeklyGoal,
-    safetyBuffer: account.safetyBuffer,
-    lastSaveTimestamp: account.lastSaveTimestamp,
-    trustMode: account.trustMode === 0n ? 'MANUAL' : 'AUTO',  // Fix: Use 0n
-    isActive: account.isActive,
-    canAutoSave: canSave,
-    timeSinceLastSave,
-  };
-}
+  private checkLowBalance(userAddress: string, state: UserFinancialState) {
+    const key = userAddress.toLowerCase();
+
+    if (state.walletBalance >= state.safetyBuffer) {
+      this.lowBalanceUsers.delete(key);
+      return;
+    }
+
+    if (this.lowBalanceUsers.has(key)) {
+      return;
+    }
+
+    this.lowBalanceUsers.add(key);
+    this.notify({
+      type: 'low_balance',
+      user: userAddress,
+      walletBalance: formatUnits(state.walletBalance, 6),
+      safetyBuffer: formatUnits(state.safetyBuffer, 6),
+    });
+  }
+
+  // Deliveries run in the background; the notifier never throws
+  private notify(event: NotificationEvent) {
+    void this.notifier.notify(event);
+  }
+
+  /**
+   * Decision engine for a user
+   * Stored preferences override the scheduler defaults.
+   */
+  private getDecisionEngine(userAddress: string): DecisionEngine {
+    return new DecisionEngine(
+      {
+        ...this.decisionEngine.getContext(),
+        ...this.preferences.getDecisionContext(userAddress),
+      },
+      { advisor: this.advisor }
+    );
+  }
 
   /**
    * Format USDC amount for logging
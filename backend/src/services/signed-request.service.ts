@@ -0,0 +1,107 @@
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+
+/**
+ * Why a signed request was rejected
+ */
+export type SignedRequestErrorCode =
+  | 'missing_signature'
+  | 'invalid_timestamp'
+  | 'signature_expired'
+  | 'invalid_signature'
+  | 'signature_replayed';
+
+/**
+ * Error thrown when a signed request can't be trusted
+ */
+export class SignedRequestError extends Error {
+  constructor(public readonly code: SignedRequestErrorCode, message: string) {
+    super(message);
+    this.name = 'SignedRequestError';
+  }
+}
+
+/**
+ * A request signed by a wallet owner
+ */
+export interface SignedRequest<T> {
+  action: string;          // What the signature authorizes, e.g. "update-preferences"
+  address: string;         // Wallet that must have signed
+  payload: T;              // The data being changed
+  timestamp: number;       // Unix seconds when signed
+  signature: string;       // EIP-191 personal_sign signature
+}
+
+/**
+ * JSON with object keys sorted, so signer and verifier agree byte-for-byte
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Build the message the wallet signs (personal_sign / EIP-191)
+ */
+export function buildSignedMessage(action: string, address: string, payload: unknown, timestamp: number): string {
+  return [
+    `Pigment: ${action}`,
+    `Address: ${address.toLowerCase()}`,
+    `Payload: ${canonicalJson(payload)}`,
+    `Timestamp: ${timestamp}`,
+  ].join('\n');
+}
+
+/**
+ * Check a signed request was signed by `address` recently
+ *
+ * @param lastTimestamp - Timestamp of the last accepted request for this
+ *   address/action; anything not newer is rejected as a replay
+ * @throws SignedRequestError
+ */
+export function verifySignedRequest<T>(
+  request: SignedRequest<T>,
+  lastTimestamp: number = 0,
+  now: number = Date.now()
+) {
+  const { action, address, payload, timestamp, signature } = request;
+
+  if (!signature || typeof signature !== 'string') {
+    throw new SignedRequestError('missing_signature', 'Request must be signed by the account owner');
+  }
+
+  if (!Number.isInteger(timestamp) || timestamp <= 0) {
+    throw new SignedRequestError('invalid_timestamp', 'Timestamp must be unix seconds');
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (timestamp > nowSeconds + 60 || nowSeconds - timestamp > config.signedRequestMaxAgeSeconds) {
+    throw new SignedRequestError('signature_expired', 'Signature is too old or from the future - sign again');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(buildSignedMessage(action, address, payload, timestamp), signature);
+  } catch {
+    throw new SignedRequestError('invalid_signature', 'Signature could not be verified');
+  }
+
+  if (signer.toLowerCase() !== address.toLowerCase()) {
+    throw new SignedRequestError('invalid_signature', `Request must be signed by ${address}`);
+  }
+
+  if (timestamp <= lastTimestamp) {
+    throw new SignedRequestError('signature_replayed', 'This signed request was already used');
+  }
+}
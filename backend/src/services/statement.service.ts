@@ -0,0 +1,213 @@
+import { formatUsdcAmount } from './blockchain.service';
+import { applyYieldMove, YieldCostBasis } from './performance.service';
+import { HistoryEntryType } from './history.service';
+import { paymentLedger, PaymentLedger, PaymentRecord } from '../stores/payment-ledger.store';
+import { vaultEventStore, VaultEventStore, VaultEventName } from '../stores/vault-event.store';
+
+export const STATEMENT_FORMATS = ['json', 'csv'] as const;
+
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+export type StatementEntryType = Exclude<HistoryEntryType, 'payment'>;
+
+// Vault events on a statement
+const STATEMENT_ENTRIES: Partial<Record<VaultEventName, { type: StatementEntryType; description: string }>> = {
+  Deposited: { type: 'deposit', description: 'Deposit' },
+  AutoSaveExecuted: { type: 'auto_save', description: 'AI auto-save' },
+  Withdrawn: { type: 'withdrawal', description: 'Withdrawal' },
+  DepositedToYield: { type: 'yield_deposit', description: 'Moved to VVS yield strategy' },
+  WithdrawnFromYield: { type: 'yield_withdrawal', description: 'Unwound from VVS yield strategy' },
+};
+
+/**
+ * One line of a statement (USDC amounts with all 6 decimals, e.g. "25.500000")
+ */
+export interface StatementEntry {
+  date: string;                      // Block time
+  type: StatementEntryType;
+  description: string;
+  amount: string;
+  balance: string;                   // Vault balance after the entry
+  realizedYield: string;             // Yield unwinds: USDC received above cost
+  transactionHash: string;
+  paymentId?: string;                // x402 payment behind a deposit
+  facilitatorTxHash?: string;
+}
+
+/**
+ * A user's statement for a period
+ */
+export interface Statement {
+  address: string;
+  from: string;                      // Inclusive
+  to: string;                        // Exclusive
+  openingBalance: string;
+  closingBalance: string;
+  totals: {
+    deposited: string;
+    autoSaved: string;
+    withdrawn: string;
+    realizedYield: string;
+  };
+  entries: StatementEntry[];         // Oldest first
+  generatedAt: string;
+}
+
+const CSV_COLUMNS: Array<{ header: string; value: (entry: StatementEntry) => string | undefined }> = [
+  { header: 'Date', value: (entry) => entry.date },
+  { header: 'Type', value: (entry) => entry.type },
+  { header: 'Description', value: (entry) => entry.description },
+  { header: 'Amount (USDC)', value: (entry) => entry.amount },
+  { header: 'Vault balance (USDC)', value: (entry) => entry.balance },
+  { header: 'Realized yield (USDC)', value: (entry) => entry.realizedYield },
+  { header: 'Transaction', value: (entry) => entry.transactionHash },
+  { header: 'x402 payment', value: (entry) => entry.paymentId },
+  { header: 'x402 settlement', value: (entry) => entry.facilitatorTxHash },
+];
+
+// Statement amounts always carry all 6 USDC decimals
+function formatAmount(amount: bigint): string {
+  const [whole, fraction = ''] = formatUsdcAmount(amount).split('.');
+  return `${whole}.${fraction.padEnd(6, '0')}`;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render a statement as CSV: one row per entry, then the totals
+ */
+export function toStatementCsv(statement: Statement): string {
+  const rows = [
+    CSV_COLUMNS.map((column) => column.header),
+    ...statement.entries.map((entry) => CSV_COLUMNS.map((column) => column.value(entry) ?? '')),
+  ];
+
+  const summary = [
+    ['Opening balance', statement.openingBalance],
+    ['Total deposited', statement.totals.deposited],
+    ['Total AI auto-saved', statement.totals.autoSaved],
+    ['Total withdrawn', statement.totals.withdrawn],
+    ['Total realized yield', statement.totals.realizedYield],
+    ['Closing balance', statement.closingBalance],
+  ].map(([label, amount]) => [statement.to, 'summary', label, amount]);
+
+  return [...rows, ...summary].map((row) => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * StatementService
+ *
+ * Builds a user's statement (for tax reporting) from the indexed vault
+ * events and the x402 payment ledger. Balances are replayed from the
+ * first event so the opening balance of any period is right, and
+ * realized yield uses the same average cost basis as the performance
+ * analytics.
+ */
+export class StatementService {
+  private events: Pick<VaultEventStore, 'getEventsForUser'>;
+  private payments: Pick<PaymentLedger, 'listByUser'>;
+  private now: () => number;
+
+  constructor(
+    events: Pick<VaultEventStore, 'getEventsForUser'> = vaultEventStore,
+    payments: Pick<PaymentLedger, 'listByUser'> = paymentLedger,
+    now: () => number = Date.now
+  ) {
+    this.events = events;
+    this.payments = payments;
+    this.now = now;
+  }
+
+  /**
+   * The user's statement for [from, to) (ms since epoch)
+   */
+  getStatement(user: string, from: number, to: number): Statement {
+    const byDepositTx = new Map<string, PaymentRecord>(
+      this.payments
+        .listByUser(user)
+        .filter((payment) => payment.status === 'credited' && payment.depositTxHash)
+        .map((payment) => [payment.depositTxHash!.toLowerCase(), payment])
+    );
+
+    const position: YieldCostBasis = { liquidityTokens: 0n, costBasis: 0n, realizedPnl: 0n };
+    const totals = { deposited: 0n, autoSaved: 0n, withdrawn: 0n, realizedYield: 0n };
+    const entries: StatementEntry[] = [];
+    let balance = 0n;
+    let openingBalance = 0n;
+
+    for (const event of this.events.getEventsForUser(user)) {
+      const mapping = STATEMENT_ENTRIES[event.name];
+      if (!mapping) continue;
+
+      const time = event.blockTimestamp * 1000;
+      if (time >= to) break;
+
+      let amount: bigint;
+      let realizedYield = 0n;
+
+      switch (event.name) {
+        case 'Deposited':
+          amount = BigInt(event.args.amount);
+          balance = BigInt(event.args.newBalance);
+          break;
+        case 'AutoSaveExecuted':
+          amount = BigInt(event.args.amount);
+          balance += amount;
+          break;
+        case 'Withdrawn':
+          amount = BigInt(event.args.amount);
+          balance = BigInt(event.args.newBalance);
+          break;
+        case 'DepositedToYield':
+          amount = BigInt(event.args.amount);
+          applyYieldMove(position, event);
+          break;
+        default:
+          amount = BigInt(event.args.usdcAmount);
+          realizedYield = applyYieldMove(position, event);
+      }
+
+      if (time < from) {
+        openingBalance = balance;
+        continue;
+      }
+
+      if (mapping.type === 'deposit') totals.deposited += amount;
+      if (mapping.type === 'auto_save') totals.autoSaved += amount;
+      if (mapping.type === 'withdrawal') totals.withdrawn += amount;
+      totals.realizedYield += realizedYield;
+
+      const payment = event.name === 'Deposited' ? byDepositTx.get(event.transactionHash.toLowerCase()) : undefined;
+
+      entries.push({
+        date: new Date(time).toISOString(),
+        type: mapping.type,
+        description: payment ? 'Deposit via x402 payment' : mapping.description,
+        amount: formatAmount(amount),
+        balance: formatAmount(balance),
+        realizedYield: formatAmount(realizedYield),
+        transactionHash: event.transactionHash,
+        paymentId: payment?.paymentId,
+        facilitatorTxHash: payment?.facilitatorTxHash,
+      });
+    }
+
+    return {
+      address: user,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      openingBalance: formatAmount(openingBalance),
+      closingBalance: formatAmount(balance),
+      totals: {
+        deposited: formatAmount(totals.deposited),
+        autoSaved: formatAmount(totals.autoSaved),
+        withdrawn: formatAmount(totals.withdrawn),
+        realizedYield: formatAmount(totals.realizedYield),
+      },
+      entries,
+      generatedAt: new Date(this.now()).toISOString(),
+    };
+  }
+}
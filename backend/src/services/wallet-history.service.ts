@@ -0,0 +1,206 @@
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { IndexerProvider } from './indexer.service';
+import {
+  BalanceForecast,
+  detectRecurringFlows,
+  forecastBalance,
+  RecurringFlow,
+  WalletTransfer,
+} from '../agent/spending-patterns';
+
+const TRANSFER_EVENT_ABI = ['event Transfer(address indexed from, address indexed to, uint256 value)'];
+
+// How far ahead the engine looks for upcoming bills
+export const FORECAST_HORIZON_DAYS = 7;
+
+export interface WalletHistoryOptions {
+  usdcAddress: string;
+  lookbackBlocks: number;     // History window for pattern detection
+  blockRange: number;         // Max blocks per getLogs call
+  ignoredAddresses: string[]; // Counterparties that aren't spending (the vault)
+}
+
+/**
+ * Recurring flows and the balance forecast built from them
+ */
+export interface WalletForecast {
+  flows: RecurringFlow[];
+  forecast: BalanceForecast;
+}
+
+interface CachedTransfer extends WalletTransfer {
+  blockNumber: number;
+}
+
+interface WalletHistoryCache {
+  scannedTo: number;          // Last block scanned for this user
+  transfers: CachedTransfer[];
+}
+
+/**
+ * Error thrown while a user's history is still being backfilled
+ */
+export class WalletHistoryNotReadyError extends Error {
+  constructor(userAddress: string) {
+    super(`Wallet history for ${userAddress} is still loading`);
+    this.name = 'WalletHistoryNotReadyError';
+  }
+}
+
+/**
+ * WalletHistoryService
+ *
+ * Reads a user's USDC Transfer events and learns their recurring
+ * inflows and outflows. The `lookbackBlocks` backfill runs in the
+ * background, saving progress after each chunk; until it has caught up
+ * there is no forecast. Once it has, calls only scan new blocks. Kept
+ * in memory: the history can always be rebuilt from the chain.
+ */
+export class WalletHistoryService {
+  private provider: IndexerProvider;
+  private options: WalletHistoryOptions;
+  private iface: ethers.Interface;
+  private cache = new Map<string, WalletHistoryCache>();
+  private blockTimestamps = new Map<number, number>();
+  private syncing = new Map<string, Promise<void>>();  // Scan in progress per user
+
+  constructor(provider?: IndexerProvider, options: Partial<WalletHistoryOptions> = {}) {
+    this.provider = provider || new ethers.JsonRpcProvider(config.cronosRpcUrl);
+    this.options = {
+      usdcAddress: options.usdcAddress || config.usdcAddress,
+      lookbackBlocks: options.lookbackBlocks || config.walletHistoryLookbackBlocks,
+      blockRange: options.blockRange || config.indexerBlockRange,
+      ignoredAddresses: options.ignoredAddresses ?? [config.savingsVaultAddress],
+    };
+    this.iface = new ethers.Interface(TRANSFER_EVENT_ABI);
+  }
+
+  /**
+   * Recurring flows and a FORECAST_HORIZON_DAYS balance forecast for a user
+   */
+  async getForecast(userAddress: string, currentBalance: bigint, now: number = Date.now()): Promise<WalletForecast> {
+    const transfers = await this.getTransfers(userAddress);
+    const flows = detectRecurringFlows(transfers);
+
+    return {
+      flows,
+      forecast: forecastBalance(currentBalance, flows, Math.floor(now / 1000), FORECAST_HORIZON_DAYS),
+    };
+  }
+
+  /**
+   * USDC transfers in and out of the user's wallet within the lookback window
+   * Starts the backfill and throws while more than one chunk is left to scan.
+   *
+   * @throws WalletHistoryNotReadyError
+   */
+  async getTransfers(userAddress: string): Promise<WalletTransfer[]> {
+    const user = userAddress.toLowerCase();
+    const head = await this.provider.getBlockNumber();
+    const windowStart = Math.max(0, head - this.options.lookbackBlocks + 1);
+
+    const scannedTo = this.cache.get(user)?.scannedTo ?? windowStart - 1;
+    if (head - Math.max(scannedTo, windowStart - 1) > this.options.blockRange) {
+      this.sync(user).catch((error: any) => {
+        console.warn(`⚠️  Wallet history backfill for ${userAddress} stopped:`, error.message);
+      });
+      throw new WalletHistoryNotReadyError(userAddress);
+    }
+
+    await this.sync(user);
+    return (this.cache.get(user)?.transfers ?? [])
+      .filter((transfer) => transfer.blockNumber >= windowStart)
+      .map(({ blockNumber, ...transfer }) => transfer);
+  }
+
+  /**
+   * Scan the user's transfers up to the current head
+   * Joins a scan already running for the user.
+   */
+  sync(userAddress: string): Promise<void> {
+    const user = userAddress.toLowerCase();
+    const running = this.syncing.get(user);
+    if (running) return running;
+
+    const scan = this.scanToHead(user).finally(() => this.syncing.delete(user));
+    this.syncing.set(user, scan);
+    return scan;
+  }
+
+  // Progress is saved after each chunk, so a failed scan resumes where it stopped
+  private async scanToHead(user: string): Promise<void> {
+    const head = await this.provider.getBlockNumber();
+    const windowStart = Math.max(0, head - this.options.lookbackBlocks + 1);
+
+    const cached = this.cache.get(user);
+    let transfers = (cached?.transfers ?? []).filter((t) => t.blockNumber >= windowStart);
+    let fromBlock = Math.max(windowStart, cached ? cached.scannedTo + 1 : windowStart);
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + this.options.blockRange - 1, head);
+      transfers = [...transfers, ...(await this.scanRange(user, fromBlock, toBlock))];
+      this.cache.set(user, { scannedTo: toBlock, transfers });
+      fromBlock = toBlock + 1;
+    }
+
+    for (const blockNumber of this.blockTimestamps.keys()) {
+      if (blockNumber < windowStart) this.blockTimestamps.delete(blockNumber);
+    }
+  }
+
+  /**
+   * Transfers from and to the user in [fromBlock, toBlock]
+   */
+  private async scanRange(user: string, fromBlock: number, toBlock: number): Promise<CachedTransfer[]> {
+    const topic = this.iface.getEvent('Transfer')!.topicHash;
+    const padded = ethers.zeroPadValue(user, 32);
+    const ignored = this.options.ignoredAddresses.filter(Boolean).map((a) => a.toLowerCase());
+
+    const [sent, received] = await Promise.all([
+      this.provider.getLogs({ address: this.options.usdcAddress, fromBlock, toBlock, topics: [topic, padded] }),
+      this.provider.getLogs({ address: this.options.usdcAddress, fromBlock, toBlock, topics: [topic, null, padded] }),
+    ]);
+
+    const transfers: CachedTransfer[] = [];
+    for (const log of [...sent, ...received]) {
+      const parsed = this.iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+
+      const from = String(parsed.args.from).toLowerCase();
+      const to = String(parsed.args.to).toLowerCase();
+      if (from === to) continue;
+
+      const outgoing = from === user;
+      const counterparty = outgoing ? to : from;
+      if (ignored.includes(counterparty)) continue;
+
+      const value = BigInt(parsed.args.value);
+      transfers.push({
+        blockNumber: log.blockNumber,
+        timestamp: await this.getBlockTimestamp(log.blockNumber),
+        amount: outgoing ? -value : value,
+        counterparty: ethers.getAddress(counterparty),
+        txHash: log.transactionHash,
+      });
+    }
+
+    return transfers;
+  }
+
+  private async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    this.blockTimestamps.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+}
+
+// Shared by the scheduler and the analyze endpoint, so each wallet is scanned once
+export const walletHistoryService = new WalletHistoryService();
@@ -0,0 +1,130 @@
+import { config } from '../config/env';
+import { vaultEventStore, VaultEventStore, VaultEventName } from '../stores/vault-event.store';
+import { userPreferencesStore, UserPreferencesStore, WeekBoundary } from '../stores/user-preferences.store';
+
+// Vault events that count as saving toward the weekly goal
+const SAVE_EVENTS: VaultEventName[] = ['Deposited', 'AutoSaveExecuted'];
+
+/**
+ * What a user saved in their current week (amounts in smallest unit)
+ */
+export interface WeeklyProgress {
+  weekStart: number;                 // ms since epoch, inclusive
+  weekEnd: number;                   // ms since epoch, exclusive
+  boundary: WeekBoundary;
+  savedThisWeek: bigint;
+  remainingThisWeek: bigint;         // weeklyGoal - savedThisWeek (>= 0)
+}
+
+/**
+ * Whether an IANA timezone (e.g. "Europe/Paris") is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at an instant (ms, local minus UTC)
+ */
+function timezoneOffset(time: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((candidate) => candidate.type === type)!.value);
+
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return local - (time - (time % 1000));
+}
+
+/**
+ * Midnight of a local calendar day, as an instant
+ * Checked twice so a DST change on that day is applied.
+ */
+function localMidnight(year: number, month: number, day: number, timezone: string): number {
+  const wallClock = Date.UTC(year, month, day);
+  const guess = wallClock - timezoneOffset(wallClock, timezone);
+  return wallClock - timezoneOffset(guess, timezone);
+}
+
+/**
+ * The week containing `now` (ms), from midnight of its start day in the
+ * user's timezone to the same point 7 days later
+ */
+export function getWeekBounds(now: number, boundary: WeekBoundary): { start: number; end: number } {
+  const local = new Date(now + timezoneOffset(now, boundary.timezone));
+  const daysBack = (local.getUTCDay() - boundary.startDay + 7) % 7;
+
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate() - daysBack;
+
+  return {
+    start: localMidnight(year, month, day, boundary.timezone),
+    end: localMidnight(year, month, day + 7, boundary.timezone),
+  };
+}
+
+/**
+ * WeeklyProgressService
+ *
+ * Sums a user's deposits and auto-saves in their current week, from the
+ * indexed vault events, so the weekly goal is measured against this
+ * week's saves rather than the lifetime balance. The week starts at
+ * midnight on the user's start day in their timezone (stored with
+ * their preferences, or WEEK_START_DAY / WEEK_TIMEZONE).
+ */
+export class WeeklyProgressService {
+  private events: Pick<VaultEventStore, 'getEventsForUser'>;
+  private preferences: Pick<UserPreferencesStore, 'get'>;
+
+  constructor(
+    events: Pick<VaultEventStore, 'getEventsForUser'> = vaultEventStore,
+    preferences: Pick<UserPreferencesStore, 'get'> = userPreferencesStore
+  ) {
+    this.events = events;
+    this.preferences = preferences;
+  }
+
+  /**
+   * Where the user's week starts (their own, or the default)
+   */
+  getWeekBoundary(user: string): WeekBoundary {
+    return this.preferences.get(user)?.week ?? { timezone: config.weekTimezone, startDay: config.weekStartDay };
+  }
+
+  /**
+   * What the user saved toward `weeklyGoal` in the week containing `now`
+   */
+  getProgress(user: string, weeklyGoal: bigint, now: number = Date.now()): WeeklyProgress {
+    const boundary = this.getWeekBoundary(user);
+    const { start, end } = getWeekBounds(now, boundary);
+
+    const savedThisWeek = this.events
+      .getEventsForUser(user)
+      .filter((event) => {
+        const time = event.blockTimestamp * 1000;
+        return SAVE_EVENTS.includes(event.name) && time >= start && time < end;
+      })
+      .reduce((total, event) => total + BigInt(event.args.amount), 0n);
+
+    return {
+      weekStart: start,
+      weekEnd: end,
+      boundary,
+      savedThisWeek,
+      remainingThisWeek: savedThisWeek < weeklyGoal ? weeklyGoal - savedThisWeek : 0n,
+    };
+  }
+}
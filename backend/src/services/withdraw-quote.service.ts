@@ -0,0 +1,153 @@
+import { BlockchainService, YieldPosition, YieldUnwindEstimate } from './blockchain.service';
+
+/**
+ * Chain reads needed to quote a withdrawal
+ */
+export type WithdrawQuoteChain = Pick<
+  BlockchainService,
+  'getUserAccount' | 'getVaultUsdcBalance' | 'getYieldPosition' | 'estimateYieldUnwind'
+>;
+
+/**
+ * The part of a withdrawal paid by unwinding the VVS position
+ */
+export interface YieldUnwindQuote {
+  liquidityTokens: bigint;       // LP tokens the vault would burn
+  positionValue: bigint;         // The user's whole position (getUserValue)
+  usdcFromPool: bigint;
+  usdtFromPool: bigint;
+  usdcFromSwap: bigint;
+  estimatedReceived: bigint;     // usdcFromPool + usdcFromSwap
+  slippage: bigint;              // fromYield - estimatedReceived (0 if better)
+  slippageBps: number;
+  toleranceBps: number;          // Strategy's minimum-output setting
+  exceedsTolerance: boolean;     // Swap quote below the strategy's minimum output
+}
+
+/**
+ * How SavingsVault.withdraw(amount) would be funded right now
+ *
+ * The user always receives `amount`. The vault pays from its idle USDC
+ * first and unwinds LP for the rest; if the unwind returns less than
+ * `fromYield`, the final transfer is short and the withdrawal reverts.
+ */
+export interface WithdrawQuote {
+  amount: bigint;
+  vaultBalance: bigint;          // Idle USDC in the vault
+  fromVault: bigint;
+  fromYield: bigint;
+  unwind: YieldUnwindQuote | null;  // Null when nothing comes from yield
+  shortfall: bigint;             // USDC the vault would be missing
+  willRevert: boolean;
+}
+
+export type WithdrawQuoteErrorCode = 'invalid_amount' | 'account_not_active' | 'insufficient_balance';
+
+/**
+ * Error for a withdrawal the vault would reject outright
+ */
+export class WithdrawQuoteError extends Error {
+  constructor(public readonly code: WithdrawQuoteErrorCode, message: string) {
+    super(message);
+    this.name = 'WithdrawQuoteError';
+  }
+}
+
+/**
+ * LP tokens SavingsVault._withdrawFromYield burns for `usdcNeeded`
+ */
+export function liquidityToWithdraw(position: YieldPosition, usdcNeeded: bigint): bigint {
+  if (position.liquidityTokens === 0n) return 0n;
+  if (usdcNeeded >= position.value) return position.liquidityTokens;
+  return (position.liquidityTokens * usdcNeeded) / position.value;
+}
+
+/**
+ * Quote the yield part of a withdrawal from an unwind estimate
+ */
+export function quoteUnwind(
+  position: YieldPosition,
+  liquidityTokens: bigint,
+  fromYield: bigint,
+  estimate: YieldUnwindEstimate
+): YieldUnwindQuote {
+  const estimatedReceived = estimate.usdcFromPool + estimate.usdcFromSwap;
+  const slippage = fromYield > estimatedReceived ? fromYield - estimatedReceived : 0n;
+  const toleranceBps = Number(position.slippageToleranceBps);
+  const minSwapOutput = (estimate.usdtFromPool * BigInt(10_000 - toleranceBps)) / 10_000n;
+
+  return {
+    liquidityTokens,
+    positionValue: position.value,
+    ...estimate,
+    estimatedReceived,
+    slippage,
+    slippageBps: fromYield > 0n ? Number((slippage * 10_000n) / fromYield) : 0,
+    toleranceBps,
+    exceedsTolerance: estimate.usdcFromSwap < minSwapOutput,
+  };
+}
+
+/**
+ * WithdrawQuoteService
+ *
+ * Previews SavingsVault.withdraw for a user: how much comes from the
+ * vault's idle USDC, how much from unwinding their VVS position, and
+ * what the pool and router would return for it.
+ */
+export class WithdrawQuoteService {
+  private chain: WithdrawQuoteChain;
+
+  constructor(chain: WithdrawQuoteChain) {
+    this.chain = chain;
+  }
+
+  /**
+   * Quote withdrawing `amount` (6 decimals)
+   *
+   * @throws WithdrawQuoteError when the vault would reject the amount
+   */
+  async getQuote(userAddress: string, amount: bigint): Promise<WithdrawQuote> {
+    if (amount <= 0n) {
+      throw new WithdrawQuoteError('invalid_amount', 'Amount must be greater than zero');
+    }
+
+    const account = await this.chain.getUserAccount(userAddress);
+    if (!account.isActive) {
+      throw new WithdrawQuoteError('account_not_active', 'No active savings account for this address');
+    }
+    if (account.currentBalance < amount) {
+      throw new WithdrawQuoteError('insufficient_balance', 'Amount exceeds the savings balance');
+    }
+
+    const vaultBalance = await this.chain.getVaultUsdcBalance();
+    const fromVault = vaultBalance < amount ? vaultBalance : amount;
+    const fromYield = amount - fromVault;
+
+    let unwind: YieldUnwindQuote | null = null;
+    let received = 0n;
+
+    if (fromYield > 0n) {
+      const position = await this.chain.getYieldPosition(userAddress);
+      const liquidityTokens = position ? liquidityToWithdraw(position, fromYield) : 0n;
+
+      if (position && liquidityTokens > 0n) {
+        const estimate = await this.chain.estimateYieldUnwind(position.strategy, liquidityTokens);
+        unwind = quoteUnwind(position, liquidityTokens, fromYield, estimate);
+        received = unwind.estimatedReceived;
+      }
+    }
+
+    const shortfall = fromYield > received ? fromYield - received : 0n;
+
+    return {
+      amount,
+      vaultBalance,
+      fromVault,
+      fromYield,
+      unwind,
+      shortfall,
+      willRevert: shortfall > 0n,
+    };
+  }
+}
@@ -2,17 +2,46 @@ import {
   CronosNetwork, 
   PaymentRequirements,
   Scheme,
-  Contract
+  Contract,
+  VerifyRequest,
+  Eip3009PaymentHeader
 } from '@crypto.com/facilitator-client';
 import { config } from '../config/env';
-import axios from 'axios';
+import { FacilitatorClient, HttpFacilitatorClient } from './facilitator.client';
+
+/**
+ * Result of a facilitator verify / settle call
+ */
+export interface X402PaymentResult {
+  ok: boolean;
+  txHash?: string;
+  error?: string;
+  details?: any;
+}
+
+/**
+ * Why a payment header was rejected before reaching the facilitator
+ */
+export type PaymentHeaderErrorCode =
+  | 'invalid_payment_header'    // Not base64 JSON with an EIP-3009 payload
+  | 'payment_from_mismatch'     // Signed by someone other than the saving user
+  | 'payment_to_mismatch'       // Not paying the vault
+  | 'payment_value_mismatch'    // Value differs from maxAmountRequired
+  | 'payment_expired';          // validBefore has already passed
+
+export interface PaymentHeaderValidation {
+  ok: boolean;
+  error?: PaymentHeaderErrorCode;
+  message?: string;
+  header?: Eip3009PaymentHeader;
+}
 
 export class X402Service {
   private network: CronosNetwork;
   private assetContract: Contract;
-  private facilitatorApiUrl: string;
+  private facilitator: FacilitatorClient;
 
-  constructor() {
+  constructor(facilitator: FacilitatorClient = new HttpFacilitatorClient()) {
     this.network = (config.cronosChainId === 338 
       ? CronosNetwork.CronosTestnet 
       : CronosNetwork.CronosMainnet) as CronosNetwork;
@@ -21,116 +50,137 @@ export class X402Service {
       ? Contract.DevUSDCe
       : Contract.USDCe;
 
-    // ✅ CORRECT API URL
-    this.facilitatorApiUrl = 'https://facilitator.cronoslabs.org';
+    this.facilitator = facilitator;
 
     console.log('✅ x402 service initialized (Direct API)');
     console.log('Network:', this.network);
     console.log('Asset:', this.assetContract);
-    console.log('API URL:', this.facilitatorApiUrl);
+    console.log('API URL:', this.facilitator.baseUrl);
   }
 
   /**
-   * Verify and settle x402 payment using direct API calls
-   * ✅ Using correct endpoints: /v2/x402/verify and /v2/x402/settle
+   * Verify and settle x402 payment through the facilitator client
    */
   async verifyAndSettle(
-  paymentId: string,
-  paymentHeader: string,
-  paymentRequirements: PaymentRequirements
-): Promise<{ ok: boolean; txHash?: string; error?: string; details?: any }> {
-  try {
-    console.log('📝 Processing x402 payment (Direct API):');
-    console.log('  Payment ID:', paymentId);
-    console.log('  API:', this.facilitatorApiUrl);
-
-    // Parse header for logging
-    const parsed = this.parsePaymentHeader(paymentHeader);
-    if (parsed) {
-      console.log('  From:', parsed.from);
-      console.log('  To:', parsed.to);
-      console.log('  Value:', (parseInt(parsed.value) / 1_000_000).toFixed(2), 'USDC');
+    paymentId: string,
+    paymentHeader: string,
+    paymentRequirements: PaymentRequirements
+  ): Promise<X402PaymentResult> {
+    const verifyResult = await this.verifyPayment(paymentId, paymentHeader, paymentRequirements);
+    if (!verifyResult.ok) {
+      return verifyResult;
     }
 
-    const requestBody = {
-      x402Version: 1,
-      paymentHeader,
-      paymentRequirements,
-    };
+    return this.settlePayment(paymentId, paymentHeader, paymentRequirements);
+  }
 
-    // ✅ Add required headers
-    const headers = {
-      'Content-Type': 'application/json',
-      'X402-Version': '1',  // ✅ Required by API
-    };
+  /**
+   * Step 1: Verify the payment header with the facilitator
+   * Nothing moves on-chain yet.
+   */
+  async verifyPayment(
+    paymentId: string,
+    paymentHeader: string,
+    paymentRequirements: PaymentRequirements
+  ): Promise<X402PaymentResult> {
+    try {
+      console.log('📝 Processing x402 payment (Direct API):');
+      console.log('  Payment ID:', paymentId);
+      console.log('  API:', this.facilitator.baseUrl);
 
-    // Step 1: Verify
-    console.log('🔍 Verifying payment via /v2/x402/verify...');
-    const verifyResponse = await axios.post(
-      `${this.facilitatorApiUrl}/v2/x402/verify`,
-      requestBody,
-      {
-        headers,
-        validateStatus: () => true,
+      // Parse header for logging
+      const parsed = this.parsePaymentHeader(paymentHeader);
+      if (parsed?.payload) {
+        console.log('  From:', parsed.payload.from);
+        console.log('  To:', parsed.payload.to);
+        console.log('  Value:', (parseInt(parsed.payload.value) / 1_000_000).toFixed(2), 'USDC');
       }
-    );
 
-    console.log('Verify response status:', verifyResponse.status);
-    console.log('Verify response data:', JSON.stringify(verifyResponse.data, null, 2));
+      console.log('🔍 Verifying payment via /v2/x402/verify...');
+      const verifyResponse = await this.facilitator.verify(
+        this.buildRequestBody(paymentHeader, paymentRequirements)
+      );
 
-    if (verifyResponse.status !== 200 || !verifyResponse.data.isValid) {
-      return {
-        ok: false,
-        error: 'verify_failed',
-        details: verifyResponse.data,
-      };
+      console.log('Verify response status:', verifyResponse.status);
+      console.log('Verify response data:', JSON.stringify(verifyResponse.data, null, 2));
+
+      if (verifyResponse.status !== 200 || !verifyResponse.data.isValid) {
+        return {
+          ok: false,
+          error: 'verify_failed',
+          details: verifyResponse.data,
+        };
+      }
+
+      console.log('✅ Payment verified');
+      return { ok: true };
+    } catch (error: any) {
+      console.error('❌ Error verifying x402 payment:', error);
+      return this.toErrorResult(error);
     }
+  }
+
+  /**
+   * Step 2: Settle the verified payment
+   * The facilitator submits the EIP-3009 transfer into the vault.
+   */
+  async settlePayment(
+    paymentId: string,
+    paymentHeader: string,
+    paymentRequirements: PaymentRequirements
+  ): Promise<X402PaymentResult> {
+    try {
+      console.log('⛓️  Settling payment via /v2/x402/settle...');
+      console.log('  Payment ID:', paymentId);
+
+      const settleResponse = await this.facilitator.settle(
+        this.buildRequestBody(paymentHeader, paymentRequirements)
+      );
 
-    console.log('✅ Payment verified');
+      console.log('Settle response status:', settleResponse.status);
+      console.log('Settle response data:', JSON.stringify(settleResponse.data, null, 2));
 
-    // Step 2: Settle
-    console.log('⛓️  Settling payment via /v2/x402/settle...');
-    const settleResponse = await axios.post(
-      `${this.facilitatorApiUrl}/v2/x402/settle`,
-      requestBody,
-      {
-        headers,  // ✅ Same headers for settle
-        validateStatus: () => true,
+      if (settleResponse.status !== 200 || settleResponse.data.event !== 'payment.settled') {
+        return {
+          ok: false,
+          error: 'settle_failed',
+          details: settleResponse.data,
+        };
       }
-    );
 
-    console.log('Settle response status:', settleResponse.status);
-    console.log('Settle response data:', JSON.stringify(settleResponse.data, null, 2));
+      console.log('✅ Payment settled');
+      console.log('TX Hash:', settleResponse.data.txHash);
 
-    if (settleResponse.status !== 200 || settleResponse.data.event !== 'payment.settled') {
       return {
-        ok: false,
-        error: 'settle_failed',
-        details: settleResponse.data,
+        ok: true,
+        txHash: settleResponse.data.txHash,
       };
+    } catch (error: any) {
+      console.error('❌ Error settling x402 payment:', error);
+      return this.toErrorResult(error);
     }
+  }
 
-    console.log('✅ Payment settled');
-    console.log('TX Hash:', settleResponse.data.txHash);
-
+  private buildRequestBody(paymentHeader: string, paymentRequirements: PaymentRequirements): VerifyRequest {
     return {
-      ok: true,
-      txHash: settleResponse.data.txHash,
+      x402Version: 1,
+      paymentHeader,
+      paymentRequirements,
     };
-  } catch (error: any) {
-    console.error('❌ Error in x402 payment flow:', error);
+  }
+
+  private toErrorResult(error: any): X402PaymentResult {
     return {
       ok: false,
       error: error.message || 'Payment processing failed',
-      details: { 
+      details: {
         message: error.message,
         response: error.response?.data,
       },
     };
   }
-}
 
-  parsePaymentHeader(headerValue: string): any | null {
+  parsePaymentHeader(headerValue: string): Eip3009PaymentHeader | null {
     try {
       const decoded = Buffer.from(headerValue, 'base64').toString('utf-8');
       const payload = JSON.parse(decoded);
@@ -141,6 +191,68 @@ export class X402Service {
     }
   }
 
+  /**
+   * Check the decoded EIP-3009 authorization against what we asked for
+   * Runs locally, so bad headers are rejected before any facilitator call.
+   */
+  validatePaymentHeader(
+    paymentHeader: string,
+    user: string,
+    paymentRequirements: PaymentRequirements,
+    now: number = Date.now()
+  ): PaymentHeaderValidation {
+    const header = this.parsePaymentHeader(paymentHeader);
+    const payload = header?.payload;
+
+    if (
+      !payload ||
+      typeof payload.from !== 'string' ||
+      typeof payload.to !== 'string' ||
+      !/^\d+$/.test(String(payload.value)) ||
+      !Number.isFinite(Number(payload.validBefore))
+    ) {
+      return {
+        ok: false,
+        error: 'invalid_payment_header',
+        message: 'X-PAYMENT is not a valid x402 payment header',
+      };
+    }
+
+    if (payload.from.toLowerCase() !== user.toLowerCase()) {
+      return {
+        ok: false,
+        error: 'payment_from_mismatch',
+        message: `Payment is signed by ${payload.from}, expected ${user}`,
+      };
+    }
+
+    if (payload.to.toLowerCase() !== paymentRequirements.payTo.toLowerCase()) {
+      return {
+        ok: false,
+        error: 'payment_to_mismatch',
+        message: `Payment is made to ${payload.to}, expected the vault ${paymentRequirements.payTo}`,
+      };
+    }
+
+    if (BigInt(payload.value) !== BigInt(paymentRequirements.maxAmountRequired)) {
+      return {
+        ok: false,
+        error: 'payment_value_mismatch',
+        message: `Payment value ${payload.value} does not match required ${paymentRequirements.maxAmountRequired}`,
+      };
+    }
+
+    if (Number(payload.validBefore) <= Math.floor(now / 1000)) {
+      return {
+        ok: false,
+        error: 'payment_expired',
+        message: 'Payment authorization has expired',
+      };
+    }
+
+    return { ok: true, header };
+  }
+
   createPaymentRequirements(
     amount: string,
     paymentId: string
@@ -159,6 +271,10 @@ export class X402Service {
     };
   }
 
+  getFacilitatorUrl(): string {
+    return this.facilitator.baseUrl;
+  }
+
   getNetwork(): CronosNetwork {
     return this.network;
   }
@@ -0,0 +1,113 @@
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * Outcome of a scheduler autoSave attempt
+ */
+export type AutoSaveExecutionStatus = 'executed' | 'skipped' | 'failed';
+
+/**
+ * Why a SAVE decision was not executed
+ */
+export type AutoSaveSkipReason =
+  | 'insufficient_allowance'     // User hasn't approved the vault for the amount
+  | 'cannot_auto_save'           // canAutoSave() returned false
+  | 'save_interval_not_met'      // SavingsVault__SaveIntervalNotMet
+  | 'amount_exceeds_limit';      // SavingsVault__AmountExceedsLimit
+
+/**
+ * The decision that triggered an execution
+ * (bigints stored as decimal strings)
+ */
+export interface RecordedDecision {
+  shouldSave: boolean;
+  amount: string;
+  reason: string;
+  confidence: number;
+  urgency: 'low' | 'medium' | 'high';
+  strategy: string;
+}
+
+/**
+ * A scheduler autoSave attempt
+ */
+export interface AutoSaveExecution {
+  id: string;
+  user: string;
+  status: AutoSaveExecutionStatus;
+  amount: string;                    // Amount sent to autoSave (after clamping)
+  decision: RecordedDecision;
+  txHash?: string;                   // autoSave() transaction (executed only)
+  skipReason?: AutoSaveSkipReason;
+  error?: string;                    // Failure message (failed only)
+  createdAt: string;
+}
+
+interface AutoSaveExecutionDocument {
+  executions: AutoSaveExecution[];
+}
+
+/**
+ * AutoSaveExecutionStore
+ *
+ * Durable log of every SAVE decision the scheduler acted on,
+ * with the decision that caused it and the resulting transaction.
+ */
+export class AutoSaveExecutionStore {
+  private store: JsonFileStore<AutoSaveExecutionDocument>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<AutoSaveExecutionDocument>(filePath, () => ({ executions: [] }));
+  }
+
+  /**
+   * Append an execution
+   */
+  record(execution: Omit<AutoSaveExecution, 'id' | 'createdAt'>): AutoSaveExecution {
+    return this.store.update((doc) => {
+      const record: AutoSaveExecution = {
+        id: `exec_${crypto.randomUUID()}`,
+        ...execution,
+        createdAt: new Date().toISOString(),
+      };
+
+      doc.executions.push(record);
+      return { ...record };
+    });
+  }
+
+  /**
+   * Executions for a user, newest first
+   */
+  listByUser(user: string, limit?: number): AutoSaveExecution[] {
+    const normalized = user.toLowerCase();
+    const executions = this.store
+      .read()
+      .executions.filter((execution) => execution.user.toLowerCase() === normalized)
+      .reverse();
+
+    return (limit === undefined ? executions : executions.slice(0, limit)).map((execution) => ({ ...execution }));
+  }
+
+  /**
+   * Most recent executions across all users, newest first
+   */
+  listRecent(limit: number = 50): AutoSaveExecution[] {
+    return this.store
+      .read()
+      .executions.slice(-limit)
+      .reverse()
+      .map((execution) => ({ ...execution }));
+  }
+
+  getCount(): number {
+    return this.store.read().executions.length;
+  }
+}
+
+// Shared store used by the scheduler
+export const autoSaveExecutionStore = new AutoSaveExecutionStore(
+  path.join(config.dataDir, 'auto-save-executions.json')
+);
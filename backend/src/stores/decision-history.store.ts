@@ -0,0 +1,190 @@
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+import { SaveDecision, UserFinancialState } from '../agent/types';
+
+/**
+ * Where a decision was made
+ */
+export type DecisionSource = 'scheduler' | 'analyze';
+
+/**
+ * What happened after the decision
+ * 'none' is an on-demand analysis that never acts.
+ * 'proposed' is a save put to a MANUAL user for approval.
+ */
+export type DecisionAction = 'skipped' | 'executed' | 'failed' | 'proposed' | 'none';
+
+/**
+ * UserFinancialState with bigints as decimal strings
+ */
+export type FinancialStateSnapshot = {
+  [K in keyof UserFinancialState]: NonNullable<UserFinancialState[K]> extends bigint
+    ? string | Exclude<UserFinancialState[K], bigint>
+    : UserFinancialState[K];
+};
+
+/**
+ * A persisted DecisionEngine result
+ */
+export interface DecisionRecord {
+  id: string;
+  user: string;
+  source: DecisionSource;
+  strategy: string;
+  state: FinancialStateSnapshot;     // Input the engine saw
+  shouldSave: boolean;
+  amount: string;                    // Smallest unit
+  confidence: number;
+  urgency: 'low' | 'medium' | 'high';
+  reason: string;
+  advisor?: string;                  // Advisor that wrote the reason, if any
+  allocations?: Array<{              // How the save splits across the user's pots
+    potId: string;
+    name: string;
+    amount: string;                  // Smallest unit
+  }>;
+  action: DecisionAction;
+  actionReason?: string;             // Skip reason or error for the action
+  txHash?: string;                   // autoSave transaction (executed only)
+  executionId?: string;              // Matching auto-save execution
+  proposalId?: string;               // Save proposal created from it (proposed only)
+  createdAt: string;
+}
+
+export interface DecisionQuery {
+  from?: number;                     // Inclusive, ms since epoch
+  to?: number;                       // Exclusive, ms since epoch
+  limit?: number;
+  offset?: number;
+}
+
+interface DecisionHistoryDocument {
+  decisions: DecisionRecord[];
+}
+
+/**
+ * Serialize a financial state for storage
+ */
+export function snapshotFinancialState(state: UserFinancialState): FinancialStateSnapshot {
+  return {
+    ...state,
+    walletBalance: state.walletBalance.toString(),
+    currentSavings: state.currentSavings.toString(),
+    weeklyGoal: state.weeklyGoal.toString(),
+    safetyBuffer: state.safetyBuffer.toString(),
+    lastSaveTimestamp: state.lastSaveTimestamp.toString(),
+    projectedMinBalance: state.projectedMinBalance?.toString(),
+    savedThisWeek: state.savedThisWeek?.toString(),
+    remainingThisWeek: state.remainingThisWeek?.toString(),
+  };
+}
+
+/**
+ * DecisionHistoryStore
+ *
+ * Durable log of every decision the engine made, with the state it
+ * was made from and what was done about it. Each user's history is
+ * its own file in `dirPath`, so recording a decision only rewrites
+ * that user's decisions. Only the newest
+ * `maxPerUser` scheduler decisions are kept for each user; on-demand
+ * analyses are capped separately at `maxAnalyzePerUser`, so calling
+ * the analyze endpoint can't push scheduler decisions out.
+ */
+export class DecisionHistoryStore {
+  private stores = new Map<string, JsonFileStore<DecisionHistoryDocument>>();
+
+  constructor(
+    private readonly dirPath: string,
+    private readonly maxPerUser: number = config.decisionHistoryMaxPerUser,
+    private readonly maxAnalyzePerUser: number = config.decisionHistoryMaxAnalyzePerUser
+  ) {}
+
+  record(
+    user: string,
+    source: DecisionSource,
+    strategy: string,
+    state: UserFinancialState,
+    decision: SaveDecision,
+    outcome: Pick<DecisionRecord, 'action' | 'actionReason' | 'txHash' | 'executionId' | 'proposalId'>
+  ): DecisionRecord {
+    return this.storeFor(user).update((doc) => {
+      const record: DecisionRecord = {
+        id: `dec_${crypto.randomUUID()}`,
+        user,
+        source,
+        strategy,
+        state: snapshotFinancialState(state),
+        shouldSave: decision.shouldSave,
+        amount: decision.amount.toString(),
+        confidence: decision.confidence,
+        urgency: decision.urgency,
+        reason: decision.reason,
+        advisor: decision.advisor,
+        allocations: decision.allocations?.map((allocation) => ({ ...allocation, amount: allocation.amount.toString() })),
+        ...outcome,
+        createdAt: new Date().toISOString(),
+      };
+
+      doc.decisions.push(record);
+      this.prune(doc, source);
+      return { ...record };
+    });
+  }
+
+  /**
+   * A user's decisions, newest first
+   */
+  query(user: string, query: DecisionQuery = {}): { items: DecisionRecord[]; total: number } {
+    const { from, to, limit = 20, offset = 0 } = query;
+
+    const matching = this.storeFor(user)
+      .read()
+      .decisions.filter((record) => {
+        const createdAt = Date.parse(record.createdAt);
+        if (from !== undefined && createdAt < from) return false;
+        if (to !== undefined && createdAt >= to) return false;
+        return true;
+      })
+      .reverse();
+
+    return {
+      items: matching.slice(offset, offset + limit).map((record) => ({ ...record })),
+      total: matching.length,
+    };
+  }
+
+  // One file per user, named after the lowercased address
+  private storeFor(user: string): JsonFileStore<DecisionHistoryDocument> {
+    const normalized = user.toLowerCase();
+    let store = this.stores.get(normalized);
+    if (!store) {
+      store = new JsonFileStore<DecisionHistoryDocument>(path.join(this.dirPath, `${normalized}.json`), () => ({ decisions: [] }));
+      this.stores.set(normalized, store);
+    }
+    return store;
+  }
+
+  // Drop the user's oldest decisions from this source once over its cap
+  private prune(doc: DecisionHistoryDocument, source: DecisionSource) {
+    const matches = (record: DecisionRecord) => record.source === source;
+
+    const count = doc.decisions.filter(matches).length;
+    let excess = count - (source === 'analyze' ? this.maxAnalyzePerUser : this.maxPerUser);
+    if (excess <= 0) return;
+
+    doc.decisions = doc.decisions.filter((record) => {
+      if (excess > 0 && matches(record)) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+}
+
+// Shared store used by the scheduler and the AI routes
+export const decisionHistoryStore = new DecisionHistoryStore(
+  path.join(config.dataDir, 'decision-history')
+);
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * JsonFileStore
+ *
+ * Minimal durable key/value document backed by a single JSON file.
+ * The document is loaded lazily on first access and every write goes
+ * through a temp file + rename, so a crash mid-write never leaves a
+ * half-written file behind.
+ *
+ * Used by the domain stores (vault events, payments, ...) that need to
+ * survive a backend restart without pulling in a database.
+ */
+export class JsonFileStore<T> {
+  private data: T | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly createDefault: () => T
+  ) {}
+
+  /**
+   * Get the current document (loads from disk on first call)
+   */
+  read(): T {
+    if (this.data === null) {
+      this.data = this.load();
+    }
+    return this.data;
+  }
+
+  /**
+   * Replace the document and persist it
+   */
+  write(data: T) {
+    this.data = data;
+    this.persist();
+  }
+
+  /**
+   * Mutate the document in place and persist it
+   */
+  update<R>(mutator: (data: T) => R): R {
+    const data = this.read();
+    const result = mutator(data);
+    this.persist();
+    return result;
+  }
+
+  /**
+   * Path of the backing file (useful for logging)
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private load(): T {
+    if (!fs.existsSync(this.filePath)) {
+      return this.createDefault();
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    return { ...this.createDefault(), ...JSON.parse(raw) };
+  }
+
+  private persist() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,89 @@
+import path from 'path';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * Events users can be notified about
+ */
+export const NOTIFICATION_EVENT_TYPES = [
+  'save_executed',     // A save landed in the vault (autoSave or x402)
+  'save_skipped',      // The AI decided to save but it couldn't be sent
+  'save_failed',       // autoSave or an x402 payment failed
+  'proposal_created',  // A MANUAL account has a new save proposal
+  'low_balance',       // The wallet dropped below the safety buffer
+] as const;
+
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number];
+
+/**
+ * A notification as delivered to every channel
+ */
+export interface Notification {
+  id: string;
+  type: NotificationEventType;
+  user: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;     // The event's fields (amounts in USDC)
+  createdAt: string;
+}
+
+interface NotificationFeedDocument {
+  notifications: Notification[];
+}
+
+/**
+ * NotificationFeedStore
+ *
+ * The in-app notification feed for each address. Only the newest
+ * `maxPerUser` notifications are kept for each user.
+ */
+export class NotificationFeedStore {
+  private store: JsonFileStore<NotificationFeedDocument>;
+
+  constructor(filePath: string, private readonly maxPerUser: number = config.notificationFeedMaxPerUser) {
+    this.store = new JsonFileStore<NotificationFeedDocument>(filePath, () => ({ notifications: [] }));
+  }
+
+  append(notification: Notification): Notification {
+    return this.store.update((doc) => {
+      doc.notifications.push({ ...notification });
+      this.prune(doc, notification.user);
+      return { ...notification };
+    });
+  }
+
+  /**
+   * A user's notifications, newest first
+   */
+  listByUser(user: string, limit: number = 50): Notification[] {
+    const normalized = user.toLowerCase();
+    return this.store
+      .read()
+      .notifications.filter((notification) => notification.user.toLowerCase() === normalized)
+      .reverse()
+      .slice(0, limit)
+      .map((notification) => ({ ...notification }));
+  }
+
+  // Drop the oldest notifications once a user is over the cap
+  private prune(doc: NotificationFeedDocument, user: string) {
+    const normalized = user.toLowerCase();
+    const count = doc.notifications.filter((notification) => notification.user.toLowerCase() === normalized).length;
+    let excess = count - this.maxPerUser;
+    if (excess <= 0) return;
+
+    doc.notifications = doc.notifications.filter((notification) => {
+      if (excess > 0 && notification.user.toLowerCase() === normalized) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+}
+
+// Shared store used by the notifier and the notification routes
+export const notificationFeedStore = new NotificationFeedStore(
+  path.join(config.dataDir, 'notification-feed.json')
+);
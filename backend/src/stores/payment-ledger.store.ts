@@ -0,0 +1,200 @@
+import path from 'path';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * Lifecycle of an x402 payment
+ *
+ * challenged -> verified -> settled -> credited
+ *      \            \         ^
+ *       `-> failed <-'        |   (settled payments never fail: the USDC
+ *              `--------------'    is in the vault and must be credited,
+ *                                  even if the row was marked failed)
+ */
+export type PaymentStatus = 'challenged' | 'verified' | 'settled' | 'credited' | 'failed';
+
+/**
+ * How a settled-but-uncredited payment was picked up by the reconciler
+ */
+export interface PaymentReconciliation {
+  attempts: number;                  // depositFor retries so far
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;            // Backoff: not retried before this time
+  resolution?: 'found_onchain' | 'redeposited' | 'gave_up';
+  resolvedAt?: string;
+}
+
+/**
+ * A tracked x402 payment
+ */
+export interface PaymentRecord {
+  paymentId: string;
+  user: string;                  // User address to credit
+  amount: string;                // Amount in smallest unit (6 decimals)
+  status: PaymentStatus;
+  facilitatorTxHash?: string;    // EIP-3009 transfer settled by the facilitator
+  depositTxHash?: string;        // depositFor() crediting the user
+  error?: string;                // Last error (failed payments, credit retries)
+  reconciliation?: PaymentReconciliation;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Durable payment store
+ * Implementations must persist every transition before returning.
+ */
+export interface PaymentLedger {
+  get(paymentId: string): PaymentRecord | undefined;
+  create(paymentId: string, user: string, amount: string): PaymentRecord;
+  transition(
+    paymentId: string,
+    status: PaymentStatus,
+    patch?: Partial<Pick<PaymentRecord, 'facilitatorTxHash' | 'depositTxHash' | 'error'>>
+  ): PaymentRecord;
+  recordError(paymentId: string, error: string): PaymentRecord;
+  recordReconciliation(paymentId: string, reconciliation: PaymentReconciliation): PaymentRecord;
+  listReconciled(): PaymentRecord[];
+  listByStatus(status: PaymentStatus): PaymentRecord[];
+  listByUser(user: string): PaymentRecord[];
+}
+
+// Allowed status transitions
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  challenged: ['verified', 'failed'],
+  verified: ['verified', 'settled', 'failed'],   // Re-verify after a crash before settle
+  settled: ['credited'],
+  credited: [],
+  failed: ['verified', 'failed', 'settled'],   // A failed verify can be retried; a settlement always wins
+};
+
+/**
+ * Error thrown for unknown payments or invalid transitions
+ */
+export class PaymentLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentLedgerError';
+  }
+}
+
+interface PaymentLedgerDocument {
+  payments: Record<string, PaymentRecord>;
+}
+
+/**
+ * FilePaymentLedger
+ *
+ * PaymentLedger backed by a JSON file in the data directory.
+ */
+export class FilePaymentLedger implements PaymentLedger {
+  private store: JsonFileStore<PaymentLedgerDocument>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<PaymentLedgerDocument>(filePath, () => ({ payments: {} }));
+  }
+
+  get(paymentId: string): PaymentRecord | undefined {
+    const record = this.store.read().payments[paymentId];
+    return record ? { ...record } : undefined;
+  }
+
+  create(paymentId: string, user: string, amount: string): PaymentRecord {
+    return this.store.update((doc) => {
+      if (doc.payments[paymentId]) {
+        throw new PaymentLedgerError(`Payment ${paymentId} already exists`);
+      }
+
+      const now = new Date().toISOString();
+      const record: PaymentRecord = {
+        paymentId,
+        user,
+        amount,
+        status: 'challenged',
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      doc.payments[paymentId] = record;
+      return { ...record };
+    });
+  }
+
+  transition(
+    paymentId: string,
+    status: PaymentStatus,
+    patch: Partial<Pick<PaymentRecord, 'facilitatorTxHash' | 'depositTxHash' | 'error'>> = {}
+  ): PaymentRecord {
+    return this.store.update((doc) => {
+      const record = doc.payments[paymentId];
+      if (!record) {
+        throw new PaymentLedgerError(`Unknown payment ${paymentId}`);
+      }
+      if (!TRANSITIONS[record.status].includes(status)) {
+        throw new PaymentLedgerError(`Invalid payment transition ${record.status} -> ${status} for ${paymentId}`);
+      }
+
+      Object.assign(record, patch, {
+        status,
+        updatedAt: new Date().toISOString(),
+      });
+
+      // Clear stale errors once a payment moves forward
+      if (status !== 'failed' && patch.error === undefined) {
+        delete record.error;
+      }
+
+      return { ...record };
+    });
+  }
+
+  recordError(paymentId: string, error: string): PaymentRecord {
+    return this.store.update((doc) => {
+      const record = doc.payments[paymentId];
+      if (!record) {
+        throw new PaymentLedgerError(`Unknown payment ${paymentId}`);
+      }
+
+      record.error = error;
+      record.updatedAt = new Date().toISOString();
+      return { ...record };
+    });
+  }
+
+  recordReconciliation(paymentId: string, reconciliation: PaymentReconciliation): PaymentRecord {
+    return this.store.update((doc) => {
+      const record = doc.payments[paymentId];
+      if (!record) {
+        throw new PaymentLedgerError(`Unknown payment ${paymentId}`);
+      }
+
+      record.reconciliation = { ...reconciliation };
+      record.updatedAt = new Date().toISOString();
+      return { ...record };
+    });
+  }
+
+  listReconciled(): PaymentRecord[] {
+    return Object.values(this.store.read().payments)
+      .filter((record) => record.reconciliation !== undefined)
+      .map((record) => ({ ...record }));
+  }
+
+  listByStatus(status: PaymentStatus): PaymentRecord[] {
+    return Object.values(this.store.read().payments)
+      .filter((record) => record.status === status)
+      .map((record) => ({ ...record }));
+  }
+
+  listByUser(user: string): PaymentRecord[] {
+    const normalized = user.toLowerCase();
+    return Object.values(this.store.read().payments)
+      .filter((record) => record.user.toLowerCase() === normalized)
+      .map((record) => ({ ...record }));
+  }
+}
+
+// Shared ledger used by the API
+export const paymentLedger: PaymentLedger = new FilePaymentLedger(
+  path.join(config.dataDir, 'payments.json')
+);
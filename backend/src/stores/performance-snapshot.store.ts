@@ -0,0 +1,101 @@
+import path from 'path';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * Reserves of the yield strategy's USDC/USDT pair at one point in time
+ * (amounts in smallest units, as decimal strings)
+ */
+export interface PoolSnapshot {
+  takenAt: string;
+  usdcReserve: string;
+  usdtReserve: string;
+  totalSupply: string;               // LP tokens outstanding
+}
+
+/**
+ * A user's yield strategy position at one point in time
+ */
+export interface PositionSnapshot {
+  user: string;
+  takenAt: string;
+  liquidityTokens: string;
+  value: string;                     // getUserValue: USDC + USDT share at 1:1
+  costBasis: string;                 // USDC still invested, from vault events
+  contractYield: string;             // calculateYield(user, costBasis)
+}
+
+interface PerformanceSnapshotDocument {
+  pool: PoolSnapshot[];
+  positions: PositionSnapshot[];
+}
+
+/**
+ * PerformanceSnapshotStore
+ *
+ * Periodic snapshots behind the yield performance analytics. Only the
+ * newest `maxSnapshots` pool snapshots, and the newest `maxSnapshots`
+ * position snapshots of each user, are kept.
+ */
+export class PerformanceSnapshotStore {
+  private store: JsonFileStore<PerformanceSnapshotDocument>;
+
+  constructor(filePath: string, private readonly maxSnapshots: number = config.performanceSnapshotMax) {
+    this.store = new JsonFileStore<PerformanceSnapshotDocument>(filePath, () => ({ pool: [], positions: [] }));
+  }
+
+  appendPool(snapshot: PoolSnapshot) {
+    this.store.update((doc) => {
+      doc.pool.push({ ...snapshot });
+      if (doc.pool.length > this.maxSnapshots) {
+        doc.pool = doc.pool.slice(-this.maxSnapshots);
+      }
+    });
+  }
+
+  appendPosition(snapshot: PositionSnapshot) {
+    this.store.update((doc) => {
+      doc.positions.push({ ...snapshot });
+      this.prune(doc, snapshot.user);
+    });
+  }
+
+  /**
+   * Pool snapshots, oldest first
+   */
+  listPool(): PoolSnapshot[] {
+    return this.store.read().pool.map((snapshot) => ({ ...snapshot }));
+  }
+
+  /**
+   * A user's position snapshots, oldest first
+   */
+  listByUser(user: string): PositionSnapshot[] {
+    const normalized = user.toLowerCase();
+    return this.store
+      .read()
+      .positions.filter((snapshot) => snapshot.user.toLowerCase() === normalized)
+      .map((snapshot) => ({ ...snapshot }));
+  }
+
+  // Drop the oldest position snapshots once a user is over the cap
+  private prune(doc: PerformanceSnapshotDocument, user: string) {
+    const normalized = user.toLowerCase();
+    const count = doc.positions.filter((snapshot) => snapshot.user.toLowerCase() === normalized).length;
+    let excess = count - this.maxSnapshots;
+    if (excess <= 0) return;
+
+    doc.positions = doc.positions.filter((snapshot) => {
+      if (excess > 0 && snapshot.user.toLowerCase() === normalized) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+}
+
+// Shared store used by the performance snapshotter and API
+export const performanceSnapshotStore = new PerformanceSnapshotStore(
+  path.join(config.dataDir, 'performance-snapshots.json')
+);
@@ -0,0 +1,205 @@
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * Where a proposal stands
+ * Pending proposals read as 'expired' once past expiresAt.
+ */
+export type SaveProposalStatus = 'pending' | 'accepted' | 'dismissed' | 'expired';
+
+/**
+ * Why a proposal can't be accepted or dismissed
+ */
+export type SaveProposalErrorCode =
+  | 'proposal_not_found'
+  | 'proposal_not_pending'
+  | 'proposal_expired'
+  | 'proposal_amount_mismatch';
+
+/**
+ * Error thrown when a proposal is used in a way it doesn't allow
+ */
+export class SaveProposalError extends Error {
+  constructor(public readonly code: SaveProposalErrorCode, message: string) {
+    super(message);
+    this.name = 'SaveProposalError';
+  }
+}
+
+/**
+ * A save the scheduler proposed to a MANUAL account
+ * (amount in the smallest unit, as a decimal string)
+ */
+export interface SaveProposal {
+  id: string;
+  user: string;
+  amount: string;
+  reason: string;
+  confidence: number;
+  urgency: 'low' | 'medium' | 'high';
+  strategy: string;
+  status: SaveProposalStatus;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt?: string;               // When it was accepted or dismissed
+  paymentId?: string;                // x402 payment that accepted it
+  depositTxHash?: string;            // depositFor() that credited it
+}
+
+interface SaveProposalDocument {
+  proposals: SaveProposal[];
+}
+
+/**
+ * SaveProposalStore
+ *
+ * Saves the AI would make for MANUAL accounts, waiting for the user.
+ * A proposal is accepted by paying for it through POST /api/save,
+ * dismissed by the user, or expires after `ttlMs`.
+ */
+export class SaveProposalStore {
+  private store: JsonFileStore<SaveProposalDocument>;
+
+  constructor(filePath: string, private readonly ttlMs: number = config.saveProposalTtlMs) {
+    this.store = new JsonFileStore<SaveProposalDocument>(filePath, () => ({ proposals: [] }));
+  }
+
+  /**
+   * Add a pending proposal
+   */
+  create(
+    proposal: Pick<SaveProposal, 'user' | 'amount' | 'reason' | 'confidence' | 'urgency' | 'strategy'>,
+    now: number = Date.now()
+  ): SaveProposal {
+    return this.store.update((doc) => {
+      const record: SaveProposal = {
+        id: `prop_${crypto.randomUUID()}`,
+        ...proposal,
+        status: 'pending',
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + this.ttlMs).toISOString(),
+      };
+
+      doc.proposals.push(record);
+      return { ...record };
+    });
+  }
+
+  get(id: string, now: number = Date.now()): SaveProposal | undefined {
+    const proposal = this.store.read().proposals.find((record) => record.id === id);
+    return proposal ? this.withStatus(proposal, now) : undefined;
+  }
+
+  /**
+   * A user's proposals, newest first
+   */
+  listByUser(user: string, now: number = Date.now()): SaveProposal[] {
+    const normalized = user.toLowerCase();
+    return this.store
+      .read()
+      .proposals.filter((record) => record.user.toLowerCase() === normalized)
+      .reverse()
+      .map((record) => this.withStatus(record, now));
+  }
+
+  /**
+   * The user's open proposal, if any
+   */
+  getPending(user: string, now: number = Date.now()): SaveProposal | undefined {
+    return this.listByUser(user, now).find((record) => record.status === 'pending');
+  }
+
+  /**
+   * Check a proposal can be paid for by this user and amount
+   * Called before a new x402 payment starts.
+   *
+   * @throws SaveProposalError
+   */
+  assertAcceptable(id: string, user: string, amount: string, now: number = Date.now()): SaveProposal {
+    const proposal = this.get(id, now);
+
+    if (!proposal || proposal.user.toLowerCase() !== user.toLowerCase()) {
+      throw new SaveProposalError('proposal_not_found', `No proposal ${id} for ${user}`);
+    }
+
+    if (proposal.status === 'expired') {
+      throw new SaveProposalError('proposal_expired', 'This proposal has expired');
+    }
+
+    if (proposal.status !== 'pending') {
+      throw new SaveProposalError('proposal_not_pending', `This proposal was already ${proposal.status}`);
+    }
+
+    if (proposal.amount !== amount) {
+      throw new SaveProposalError('proposal_amount_mismatch', 'Amount does not match the proposal');
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Mark a proposal accepted once its payment is credited
+   * The money has already moved, so expiry is judged at `payment.startedAt`
+   * (when the payment was created). Accepting again with the same payment
+   * returns the accepted proposal.
+   *
+   * @throws SaveProposalError
+   */
+  accept(
+    id: string,
+    payment: { paymentId: string; user: string; amount: string; startedAt: number; depositTxHash?: string }
+  ): SaveProposal {
+    const current = this.get(id);
+    if (current?.status === 'accepted' && current.paymentId === payment.paymentId) {
+      return current;
+    }
+
+    this.assertAcceptable(id, payment.user, payment.amount, payment.startedAt);
+
+    return this.store.update((doc) => {
+      const proposal = doc.proposals.find((record) => record.id === id)!;
+      proposal.status = 'accepted';
+      proposal.resolvedAt = new Date().toISOString();
+      proposal.paymentId = payment.paymentId;
+      proposal.depositTxHash = payment.depositTxHash;
+      return { ...proposal };
+    });
+  }
+
+  /**
+   * Dismiss one of the user's pending proposals
+   *
+   * @throws SaveProposalError
+   */
+  dismiss(id: string, user: string, now: number = Date.now()): SaveProposal {
+    const current = this.get(id, now);
+
+    if (!current || current.user.toLowerCase() !== user.toLowerCase()) {
+      throw new SaveProposalError('proposal_not_found', `No proposal ${id} for ${user}`);
+    }
+
+    if (current.status !== 'pending') {
+      throw new SaveProposalError('proposal_not_pending', `This proposal is already ${current.status}`);
+    }
+
+    return this.store.update((doc) => {
+      const proposal = doc.proposals.find((record) => record.id === id)!;
+      proposal.status = 'dismissed';
+      proposal.resolvedAt = new Date(now).toISOString();
+      return { ...proposal };
+    });
+  }
+
+  // Pending proposals past their expiry read as expired
+  private withStatus(proposal: SaveProposal, now: number): SaveProposal {
+    const expired = proposal.status === 'pending' && Date.parse(proposal.expiresAt) <= now;
+    return { ...proposal, status: expired ? 'expired' : proposal.status };
+  }
+}
+
+// Shared store used by the scheduler and the save routes
+export const saveProposalStore = new SaveProposalStore(
+  path.join(config.dataDir, 'save-proposals.json')
+);
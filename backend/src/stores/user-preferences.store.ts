@@ -0,0 +1,251 @@
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+import { DecisionContext, DecisionStrategy, PotPriority, SavingsPotTarget } from '../agent/types';
+import { NotificationEventType } from './notification-feed.store';
+
+/**
+ * Where a user's week starts, for weekly goal progress
+ */
+export interface WeekBoundary {
+  timezone: string;                  // IANA timezone, e.g. "Europe/Paris"
+  startDay: number;                  // 0 = Sunday ... 6 = Saturday
+}
+
+/**
+ * A user's decision preferences
+ * (amounts in smallest unit, stored as decimal strings)
+ */
+export interface UserPreferences {
+  address: string;
+  strategy: DecisionStrategy;
+  minSaveAmount: string;             // Minimum worth saving
+  maxSavePercentage: number;         // Max share of available funds (0-1]
+  goal?: {                           // GOAL_DRIVEN target
+    targetAmount: string;
+    deadline: number;                // Unix timestamp (seconds)
+  };
+  week?: WeekBoundary;               // Default: WEEK_START_DAY in WEEK_TIMEZONE
+  signedAt: number;                  // Timestamp of the signed update (replay guard)
+  updatedAt: string;
+}
+
+/**
+ * Where and about what a user wants to be notified
+ * Users without stored subscriptions get every event in the in-app feed.
+ */
+export interface NotificationSubscriptions {
+  address: string;
+  events: NotificationEventType[];
+  inApp: boolean;
+  webhook?: {
+    url: string;
+    secret: string;                  // HMAC-SHA256 key for X-Pigment-Signature
+  };
+  email?: string;
+  signedAt: number;                  // Timestamp of the signed update (replay guard)
+  updatedAt: string;
+}
+
+/**
+ * A named savings goal (amounts in smallest unit, as decimal strings)
+ */
+export interface SavingsPot {
+  id: string;
+  name: string;
+  targetAmount: string;
+  savedAmount: string;               // Credited from deposits and auto-saves
+  deadline?: number;                 // Unix timestamp (seconds)
+  priority: PotPriority;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A user's pots
+ */
+export interface SavingsPots {
+  address: string;
+  pots: SavingsPot[];
+  signedAt: number;                  // Timestamp of the signed update (replay guard)
+  appliedEvents: string[];           // Vault event ids already credited or debited, newest last
+  updatedAt: string;
+}
+
+/**
+ * A pot as sent in a signed update (no id for a new pot)
+ */
+export type SavingsPotInput = Pick<SavingsPot, 'name' | 'targetAmount' | 'deadline' | 'priority'> & { id?: string };
+
+// Applied event ids kept per user (enough to cover any indexer replay)
+const MAX_APPLIED_EVENTS = 200;
+
+interface UserPreferencesDocument {
+  users: Record<string, UserPreferences>;
+  subscriptions: Record<string, NotificationSubscriptions>;
+  pots: Record<string, SavingsPots>;
+}
+
+/**
+ * UserPreferencesStore
+ *
+ * Per-user DecisionContext overrides, set through signed requests
+ * and applied by the scheduler and the analyze endpoint. Notification
+ * subscriptions and savings pots are kept next to them, also set through
+ * signed requests.
+ */
+export class UserPreferencesStore {
+  private store: JsonFileStore<UserPreferencesDocument>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<UserPreferencesDocument>(filePath, () => ({ users: {}, subscriptions: {}, pots: {} }));
+  }
+
+  get(address: string): UserPreferences | undefined {
+    const preferences = this.store.read().users[address.toLowerCase()];
+    return preferences ? { ...preferences } : undefined;
+  }
+
+  set(preferences: Omit<UserPreferences, 'updatedAt'>): UserPreferences {
+    return this.store.update((doc) => {
+      const record: UserPreferences = {
+        ...preferences,
+        updatedAt: new Date().toISOString(),
+      };
+
+      doc.users[preferences.address.toLowerCase()] = record;
+      return { ...record };
+    });
+  }
+
+  getSubscriptions(address: string): NotificationSubscriptions | undefined {
+    const subscriptions = this.store.read().subscriptions[address.toLowerCase()];
+    return subscriptions ? { ...subscriptions } : undefined;
+  }
+
+  setSubscriptions(subscriptions: Omit<NotificationSubscriptions, 'updatedAt'>): NotificationSubscriptions {
+    return this.store.update((doc) => {
+      const record: NotificationSubscriptions = {
+        ...subscriptions,
+        updatedAt: new Date().toISOString(),
+      };
+
+      doc.subscriptions[subscriptions.address.toLowerCase()] = record;
+      return { ...record };
+    });
+  }
+
+  getPots(address: string): SavingsPots | undefined {
+    const pots = this.store.read().pots[address.toLowerCase()];
+    return pots ? { ...pots, pots: pots.pots.map((pot) => ({ ...pot })) } : undefined;
+  }
+
+  /**
+   * Replace the user's pots
+   * Pots sent with an existing id keep what they've saved; pots left
+   * out are dropped, and their savings go back to general savings.
+   */
+  setPots(address: string, pots: SavingsPotInput[], signedAt: number): SavingsPots {
+    return this.store.update((doc) => {
+      const key = address.toLowerCase();
+      const existing = new Map((doc.pots[key]?.pots ?? []).map((pot) => [pot.id, pot]));
+      const now = new Date().toISOString();
+
+      const record: SavingsPots = {
+        address,
+        pots: pots.map((pot) => {
+          const previous = pot.id ? existing.get(pot.id) : undefined;
+          return {
+            id: previous?.id ?? `pot_${crypto.randomUUID()}`,
+            name: pot.name,
+            targetAmount: pot.targetAmount,
+            savedAmount: previous?.savedAmount ?? '0',
+            deadline: pot.deadline,
+            priority: pot.priority,
+            createdAt: previous?.createdAt ?? now,
+            updatedAt: now,
+          };
+        }),
+        signedAt,
+        appliedEvents: doc.pots[key]?.appliedEvents ?? [],
+        updatedAt: now,
+      };
+
+      doc.pots[key] = record;
+      return { ...record, pots: record.pots.map((pot) => ({ ...pot })) };
+    });
+  }
+
+  /**
+   * Add (or, negative, take out) amounts from pots for a vault event
+   * Each event is applied once; returns false if it already was or the
+   * user has no pots. A pot's savings never drop below zero.
+   */
+  adjustPots(address: string, eventId: string, changes: Array<{ potId: string; amount: bigint }>): boolean {
+    return this.store.update((doc) => {
+      const record = doc.pots[address.toLowerCase()];
+      if (!record || record.appliedEvents.includes(eventId)) {
+        return false;
+      }
+
+      const now = new Date().toISOString();
+      for (const change of changes) {
+        const pot = record.pots.find((candidate) => candidate.id === change.potId);
+        if (!pot || change.amount === 0n) continue;
+
+        const saved = BigInt(pot.savedAmount) + change.amount;
+        pot.savedAmount = (saved > 0n ? saved : 0n).toString();
+        pot.updatedAt = now;
+      }
+
+      record.appliedEvents = [...record.appliedEvents, eventId].slice(-MAX_APPLIED_EVENTS);
+      return true;
+    });
+  }
+
+  /**
+   * The user's pots as decision engine targets (empty if none stored)
+   */
+  getPotTargets(address: string): SavingsPotTarget[] {
+    return (this.store.read().pots[address.toLowerCase()]?.pots ?? []).map((pot) => ({
+      id: pot.id,
+      name: pot.name,
+      targetAmount: BigInt(pot.targetAmount),
+      savedAmount: BigInt(pot.savedAmount),
+      deadline: pot.deadline,
+      priority: pot.priority,
+    }));
+  }
+
+  /**
+   * The user's DecisionContext overrides (empty if none stored)
+   * Pots are included even without stored preferences.
+   */
+  getDecisionContext(address: string): Partial<DecisionContext> {
+    const preferences = this.get(address);
+    const pots = this.getPotTargets(address);
+    const context: Partial<DecisionContext> = preferences
+      ? {
+          strategy: preferences.strategy,
+          minSaveAmount: BigInt(preferences.minSaveAmount),
+          maxSavePercentage: preferences.maxSavePercentage,
+          goal: preferences.goal && {
+            targetAmount: BigInt(preferences.goal.targetAmount),
+            deadline: preferences.goal.deadline,
+          },
+        }
+      : {};
+
+    if (pots.length > 0) {
+      context.pots = pots;
+    }
+
+    return context;
+  }
+}
+
+// Shared store used by the API and the scheduler
+export const userPreferencesStore = new UserPreferencesStore(
+  path.join(config.dataDir, 'user-preferences.json')
+);
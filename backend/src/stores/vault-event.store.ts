@@ -0,0 +1,253 @@
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * SavingsVault events tracked by the indexer
+ */
+export type VaultEventName =
+  | 'AccountCreated'
+  | 'TrustModeUpdated'
+  | 'SafetyBufferUpdated'
+  | 'GoalUpdated'
+  | 'Deposited'
+  | 'DepositedToYield'
+  | 'AutoSaveExecuted'
+  | 'Withdrawn'
+  | 'WithdrawnFromYield';
+
+/**
+ * A decoded vault event as persisted by the indexer
+ * (all uint256 args are stored as decimal strings)
+ */
+export interface IndexedVaultEvent {
+  id: string;                        // `${transactionHash}-${logIndex}`
+  name: VaultEventName;
+  user: string;                      // Checksummed user address
+  args: Record<string, string>;      // Decoded event args
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;            // Unix seconds
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Account state rebuilt from vault events
+ */
+export interface IndexedAccount {
+  address: string;
+  isActive: boolean;
+  trustMode: 'MANUAL' | 'AUTO';
+  weeklyGoal: string;
+  safetyBuffer: string;
+  totalDeposited: string;
+  totalWithdrawn: string;
+  currentBalance: string;
+  lastEventBlock: number;
+}
+
+/**
+ * Block the indexer has processed (kept for reorg detection)
+ */
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+interface VaultEventDocument {
+  cursor: IndexedBlock | null;       // Last fully processed block
+  recentBlocks: IndexedBlock[];      // Processed blocks within the reorg window
+  events: IndexedVaultEvent[];
+  accounts: Record<string, IndexedAccount>;
+}
+
+/**
+ * Apply a single vault event to the account map
+ * Pure reducer so accounts can be rebuilt from the event log after a reorg.
+ */
+export function applyVaultEvent(
+  accounts: Record<string, IndexedAccount>,
+  event: IndexedVaultEvent
+) {
+  const existing = accounts[event.user];
+
+  if (event.name === 'AccountCreated') {
+    accounts[event.user] = {
+      address: event.user,
+      isActive: true,
+      trustMode: event.args.trustMode === '1' ? 'AUTO' : 'MANUAL',
+      weeklyGoal: event.args.weeklyGoal,
+      safetyBuffer: event.args.safetyBuffer,
+      totalDeposited: '0',
+      totalWithdrawn: '0',
+      currentBalance: '0',
+      lastEventBlock: event.blockNumber,
+    };
+    return;
+  }
+
+  // Events for accounts created before the indexer's start block are ignored
+  if (!existing) {
+    return;
+  }
+
+  switch (event.name) {
+    case 'TrustModeUpdated':
+      existing.trustMode = event.args.newMode === '1' ? 'AUTO' : 'MANUAL';
+      break;
+
+    case 'SafetyBufferUpdated':
+      existing.safetyBuffer = event.args.newSafetyBuffer;
+      break;
+
+    case 'GoalUpdated':
+      existing.weeklyGoal = event.args.newWeeklyGoal;
+      break;
+
+    case 'Deposited':
+      existing.totalDeposited = (BigInt(existing.totalDeposited) + BigInt(event.args.amount)).toString();
+      existing.currentBalance = event.args.newBalance;
+      break;
+
+    case 'AutoSaveExecuted':
+      existing.totalDeposited = (BigInt(existing.totalDeposited) + BigInt(event.args.amount)).toString();
+      existing.currentBalance = (BigInt(existing.currentBalance) + BigInt(event.args.amount)).toString();
+      break;
+
+    case 'Withdrawn':
+      existing.totalWithdrawn = (BigInt(existing.totalWithdrawn) + BigInt(event.args.amount)).toString();
+      existing.currentBalance = event.args.newBalance;
+      break;
+  }
+
+  existing.lastEventBlock = event.blockNumber;
+}
+
+/**
+ * VaultEventStore
+ *
+ * Durable log of indexed SavingsVault events, the block cursor the
+ * indexer resumes from, and the account state derived from the events.
+ */
+export class VaultEventStore {
+  private store: JsonFileStore<VaultEventDocument>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<VaultEventDocument>(filePath, () => ({
+      cursor: null,
+      recentBlocks: [],
+      events: [],
+      accounts: {},
+    }));
+  }
+
+  /**
+   * Last fully processed block (null before the first sync)
+   */
+  getCursor(): IndexedBlock | null {
+    return this.store.read().cursor;
+  }
+
+  /**
+   * Processed blocks within the reorg window, newest first
+   */
+  getRecentBlocks(): IndexedBlock[] {
+    return [...this.store.read().recentBlocks].sort((a, b) => b.number - a.number);
+  }
+
+  /**
+   * Persist a processed block range in one write
+   *
+   * @param events - Decoded events in the range (chain order)
+   * @param blocks - Block hashes seen while processing the range
+   * @param cursor - Last block of the range
+   * @param reorgDepth - How many recent blocks to keep for reorg detection
+   */
+  appendBatch(
+    events: IndexedVaultEvent[],
+    blocks: IndexedBlock[],
+    cursor: IndexedBlock,
+    reorgDepth: number
+  ) {
+    this.store.update((doc) => {
+      for (const event of events) {
+        doc.events.push(event);
+        applyVaultEvent(doc.accounts, event);
+      }
+
+      const known = new Map(doc.recentBlocks.map((block) => [block.number, block]));
+      for (const block of blocks) {
+        known.set(block.number, block);
+      }
+      doc.recentBlocks = [...known.values()]
+        .filter((block) => block.number > cursor.number - reorgDepth)
+        .sort((a, b) => a.number - b.number);
+
+      doc.cursor = cursor;
+    });
+  }
+
+  /**
+   * Drop everything above a common ancestor block and rebuild accounts
+   */
+  rollbackTo(ancestor: IndexedBlock) {
+    this.store.update((doc) => {
+      doc.events = doc.events.filter((event) => event.blockNumber <= ancestor.number);
+      doc.recentBlocks = doc.recentBlocks.filter((block) => block.number <= ancestor.number);
+      doc.cursor = ancestor;
+
+      doc.accounts = {};
+      for (const event of doc.events) {
+        applyVaultEvent(doc.accounts, event);
+      }
+    });
+  }
+
+  /**
+   * Forget all indexed data (forces a full backfill)
+   */
+  reset() {
+    this.store.write({
+      cursor: null,
+      recentBlocks: [],
+      events: [],
+      accounts: {},
+    });
+  }
+
+  /**
+   * Get indexed account state for a user
+   */
+  getAccount(address: string): IndexedAccount | undefined {
+    return this.store.read().accounts[ethers.getAddress(address)];
+  }
+
+  /**
+   * Get all indexed accounts
+   */
+  getAccounts(): IndexedAccount[] {
+    return Object.values(this.store.read().accounts);
+  }
+
+  /**
+   * Get indexed events for a user, oldest first
+   */
+  getEventsForUser(address: string): IndexedVaultEvent[] {
+    const user = ethers.getAddress(address);
+    return this.store.read().events.filter((event) => event.user === user);
+  }
+
+  /**
+   * Total number of indexed events
+   */
+  getEventCount(): number {
+    return this.store.read().events.length;
+  }
+}
+
+// Shared instance used by the indexer and the API
+export const vaultEventStore = new VaultEventStore(
+  path.join(config.dataDir, 'vault-events.json')
+);
@@ -0,0 +1,138 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { DecisionEngine } from '../agent/decision-engine';
+import { AdvisorError, HttpAdvisor, parseAdvisorOutput, StubAdvisor } from '../agent/advisor';
+import { UserFinancialState } from '../agent/types';
+
+/**
+ * Decision advisor tests
+ *
+ * The HTTP advisor talks to a local OpenAI-compatible stand-in.
+ */
+
+const usdc = (amount: number) => BigInt(amount * 1_000_000);
+
+const state: UserFinancialState = {
+  walletBalance: usdc(1000),
+  currentSavings: 0n,
+  weeklyGoal: usdc(50),
+  safetyBuffer: usdc(100),
+  lastSaveTimestamp: 0n,
+  trustMode: 'AUTO',
+  isActive: true,
+  canAutoSave: true,
+  timeSinceLastSave: 0,
+};
+
+const engineWith = (respond?: (input: unknown) => unknown) =>
+  new DecisionEngine({}, { verbose: false, advisor: new StubAdvisor(respond) });
+
+describe('parseAdvisorOutput', () => {
+  it('accepts reason and confidence, ignoring other fields', () => {
+    assert.deepEqual(parseAdvisorOutput({ reason: ' Looks good. ', confidence: 0.7, amount: '999' }), {
+      reason: 'Looks good.',
+      confidence: 0.7,
+    });
+  });
+
+  it('rejects output outside the schema', () => {
+    for (const raw of [null, [], 'save', { reason: '', confidence: 0.5 }, { reason: 'ok', confidence: 1.5 }, { reason: 'ok' }]) {
+      assert.throws(() => parseAdvisorOutput(raw), AdvisorError);
+    }
+  });
+});
+
+describe('DecisionEngine.decideWithAdvisor', () => {
+  it('uses the stub deterministically', async () => {
+    const first = await engineWith().decideWithAdvisor(state);
+    const second = await engineWith().decideWithAdvisor(state);
+
+    assert.deepEqual(first, second);
+    assert.equal(first.advisor, 'stub');
+    assert.match(first.reason, /^Save \(low urgency\): /);
+  });
+
+  it('lets the advisor change only reason and confidence', async () => {
+    const rules = new DecisionEngine({}, { verbose: false }).decide(state);
+    const advised = await engineWith(() => ({ reason: 'Save it all', confidence: 0.2, shouldSave: true, amount: usdc(900) }))
+      .decideWithAdvisor(state);
+
+    assert.equal(advised.amount, rules.amount);
+    assert.equal(advised.reason, 'Save it all');
+    assert.equal(advised.confidence, 0.2);
+  });
+
+  it('keeps pre-check skips', async () => {
+    const decision = await engineWith(() => ({ reason: 'Go ahead', confidence: 1 }))
+      .decideWithAdvisor({ ...state, canAutoSave: false });
+
+    assert.equal(decision.shouldSave, false);
+    assert.equal(decision.amount, 0n);
+  });
+
+  it('falls back to the rule-based decision on errors and invalid output', async () => {
+    const rules = new DecisionEngine({}, { verbose: false }).decide(state);
+
+    for (const respond of [
+      () => {
+        throw new Error('model unavailable');
+      },
+      () => ({ reason: 42, confidence: 'high' }),
+    ]) {
+      assert.deepEqual(await engineWith(respond).decideWithAdvisor(state), rules);
+    }
+  });
+});
+
+describe('HttpAdvisor', () => {
+  let server: Server;
+  let baseUrl: string;
+  let reply: unknown;
+  let lastRequest: any;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/v1/chat/completions', (req, res) => {
+      lastRequest = { body: req.body, authorization: req.headers.authorization };
+      res.json({ choices: [{ message: { role: 'assistant', content: reply } }] });
+    });
+
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('asks an OpenAI-compatible endpoint in JSON mode', async () => {
+    reply = JSON.stringify({ reason: 'Comfortably above your buffer.', confidence: 0.9 });
+    const advisor = new HttpAdvisor({ baseUrl, apiKey: 'sk-test', model: 'test-model', timeoutMs: 2000 });
+
+    const decision = await new DecisionEngine({}, { verbose: false, advisor }).decideWithAdvisor(state);
+
+    assert.equal(decision.reason, 'Comfortably above your buffer.');
+    assert.equal(decision.advisor, 'http:test-model');
+    assert.equal(lastRequest.authorization, 'Bearer sk-test');
+    assert.deepEqual(lastRequest.body.response_format, { type: 'json_object' });
+    assert.equal(JSON.parse(lastRequest.body.messages[1].content).state.walletBalance, usdc(1000).toString());
+  });
+
+  it('rejects non-JSON replies', async () => {
+    reply = 'Sure! Saving is a great idea.';
+    const advisor = new HttpAdvisor({ baseUrl, apiKey: '', model: 'test-model', timeoutMs: 2000 });
+
+    const rules = new DecisionEngine({}, { verbose: false });
+
+    await assert.rejects(
+      advisor.advise({ state, context: rules.getContext(), decision: rules.decide(state) }),
+      AdvisorError
+    );
+  });
+});
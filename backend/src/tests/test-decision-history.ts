@@ -0,0 +1,117 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionHistoryStore } from '../stores/decision-history.store';
+import { SaveDecision, UserFinancialState } from '../agent/types';
+
+/**
+ * Decision history tests
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const state: UserFinancialState = {
+  walletBalance: 500_000_000n,
+  currentSavings: 0n,
+  weeklyGoal: 50_000_000n,
+  safetyBuffer: 100_000_000n,
+  lastSaveTimestamp: 0n,
+  trustMode: 'AUTO',
+  isActive: true,
+  canAutoSave: true,
+  timeSinceLastSave: 0,
+};
+
+const decision = (reason: string): SaveDecision => ({
+  shouldSave: false,
+  amount: 0n,
+  reason,
+  confidence: 1,
+  urgency: 'low',
+});
+
+describe('DecisionHistoryStore', () => {
+  let dirPath: string;
+  let store: DecisionHistoryStore;
+
+  beforeEach(() => {
+    dirPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-decisions-')), 'decisions');
+    store = new DecisionHistoryStore(dirPath, 3, 2);
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  const recordOn = (day: string, reason: string, user = USER) => {
+    mock.timers.setTime(Date.parse(`${day}T12:00:00Z`));
+    return store.record(user, 'scheduler', 'balanced', state, decision(reason), { action: 'skipped' });
+  };
+
+  it('persists the state snapshot and survives a restart', () => {
+    recordOn('2026-01-01', 'Rate limit not met');
+
+    const [record] = new DecisionHistoryStore(dirPath).query(USER).items;
+    assert.equal(record.reason, 'Rate limit not met');
+    assert.equal(record.state.walletBalance, '500000000');
+    assert.equal(record.state.trustMode, 'AUTO');
+  });
+
+  it('paginates newest first, per user', () => {
+    recordOn('2026-01-01', 'first');
+    recordOn('2026-01-02', 'second');
+    recordOn('2026-01-03', 'third');
+    recordOn('2026-01-03', 'other user', OTHER);
+
+    const page = store.query(USER, { limit: 2, offset: 1 });
+    assert.equal(page.total, 3);
+    assert.deepEqual(page.items.map((r) => r.reason), ['second', 'first']);
+  });
+
+  it("keeps each user's history in its own file", () => {
+    recordOn('2026-01-01', 'first');
+    const userFile = path.join(dirPath, `${USER.toLowerCase()}.json`);
+    const before = fs.readFileSync(userFile, 'utf-8');
+
+    recordOn('2026-01-02', 'other user', OTHER);
+
+    assert.equal(fs.readFileSync(userFile, 'utf-8'), before);
+    assert.equal(fs.readdirSync(dirPath).length, 2);
+  });
+
+  it('filters by date range', () => {
+    recordOn('2026-01-01', 'first');
+    recordOn('2026-01-02', 'second');
+    recordOn('2026-01-03', 'third');
+
+    const { items } = store.query(USER, {
+      from: Date.parse('2026-01-02T00:00:00Z'),
+      to: Date.parse('2026-01-03T00:00:00Z'),
+    });
+    assert.deepEqual(items.map((r) => r.reason), ['second']);
+  });
+
+  it('keeps only the newest decisions per user', () => {
+    for (const day of ['01', '02', '03', '04']) {
+      recordOn(`2026-01-${day}`, day);
+    }
+    recordOn('2026-01-04', 'other user', OTHER);
+
+    assert.deepEqual(store.query(USER).items.map((r) => r.reason), ['04', '03', '02']);
+    assert.equal(store.query(OTHER).total, 1);
+  });
+
+  it('caps analyze calls separately so they never push out scheduler decisions', () => {
+    recordOn('2026-01-01', 'scheduled');
+    for (const day of ['02', '03', '04']) {
+      mock.timers.setTime(Date.parse(`2026-01-${day}T12:00:00Z`));
+      store.record(USER, 'analyze', 'balanced', state, decision(`analyze ${day}`), { action: 'none' });
+    }
+
+    assert.deepEqual(store.query(USER).items.map((r) => r.reason), ['analyze 04', 'analyze 03', 'scheduled']);
+  });
+});
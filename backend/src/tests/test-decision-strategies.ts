@@ -0,0 +1,162 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DecisionEngine } from '../agent/decision-engine';
+import { DecisionContext, DecisionStrategy, UserFinancialState } from '../agent/types';
+
+/**
+ * Decision strategy tests
+ *
+ * Unlike test-decision-engine.ts (a console walkthrough), these assert
+ * on the amounts and urgency each strategy produces.
+ */
+
+const usdc = (amount: number) => BigInt(Math.round(amount * 1_000_000));
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+const DAY = 24 * 60 * 60;
+const inDays = (days: number) => NOW / 1000 + days * DAY;
+
+const state: UserFinancialState = {
+  walletBalance: usdc(1000),
+  currentSavings: usdc(100),
+  weeklyGoal: usdc(70),           // 10 USDC/day pace
+  safetyBuffer: usdc(100),
+  lastSaveTimestamp: 0n,
+  trustMode: 'AUTO',
+  isActive: true,
+  canAutoSave: true,
+  timeSinceLastSave: 24,
+};
+
+const decide = (context: Partial<DecisionContext>, overrides: Partial<UserFinancialState> = {}) =>
+  new DecisionEngine(context, { verbose: false, now: () => NOW }).decide({ ...state, ...overrides });
+
+describe('DecisionEngine strategies', () => {
+  it('caps balanced and aggressive at the weekly goal', () => {
+    assert.equal(decide({ strategy: DecisionStrategy.BALANCED }).amount, usdc(70));
+    assert.equal(decide({ strategy: DecisionStrategy.AGGRESSIVE }, { weeklyGoal: usdc(2000) }).amount, usdc(720));
+  });
+
+  it('handles a maxSavePercentage that is not exact in floating point', () => {
+    // 0.57 * 100 is 56.99999999999999
+    const decision = decide({ strategy: DecisionStrategy.BALANCED, maxSavePercentage: 0.57 }, { weeklyGoal: usdc(2000) });
+
+    assert.equal(decision.amount, usdc(513));
+    assert.equal(decision.trace?.amount?.caps[0].detail, '57% of available funds');
+  });
+
+  it('keeps conservative out until the wallet holds 2x the buffer', () => {
+    assert.equal(decide({ strategy: DecisionStrategy.CONSERVATIVE }, { walletBalance: usdc(199) }).shouldSave, false);
+    assert.equal(decide({ strategy: DecisionStrategy.CONSERVATIVE }, { walletBalance: usdc(200) }).amount, usdc(25));
+  });
+
+  it('respects the pre-checks', () => {
+    assert.equal(decide({}, { trustMode: 'MANUAL' }).shouldSave, false);
+    assert.equal(decide({}, { canAutoSave: false }).shouldSave, false);
+    assert.equal(decide({}, { isActive: false }).shouldSave, false);
+  });
+});
+
+describe('DecisionEngine GOAL_DRIVEN', () => {
+  const goalDriven = (targetAmount: number, days: number): Partial<DecisionContext> => ({
+    strategy: DecisionStrategy.GOAL_DRIVEN,
+    goal: { targetAmount: usdc(targetAmount), deadline: inDays(days) },
+  });
+
+  it('saves the required pace when on track', () => {
+    // 100 to go over 20 daily saves, below the 10/day weekly pace
+    const decision = decide(goalDriven(200, 20));
+
+    assert.equal(decision.shouldSave, true);
+    assert.equal(decision.amount, usdc(5));
+    assert.equal(decision.urgency, 'low');
+    assert.match(decision.reason, /on track/);
+  });
+
+  it('raises amount and urgency when behind schedule', () => {
+    // 300 to go over 20 saves = 15/day, 1.5x the weekly pace
+    const behind = decide(goalDriven(400, 20));
+    assert.equal(behind.amount, usdc(15));
+    assert.equal(behind.urgency, 'medium');
+    assert.match(behind.reason, /behind schedule/);
+
+    // 900 to go over 10 saves = 90/day, far behind, but still within the 70 weekly goal
+    const farBehind = decide(goalDriven(1000, 10));
+    assert.equal(farBehind.amount, usdc(70));
+    assert.equal(farBehind.urgency, 'high');
+  });
+
+  it('goes past maxSavePercentage when behind, but never into the buffer', () => {
+    // Past the deadline: everything left is due now
+    // 50 above the buffer: 50% would be 25
+    const decision = decide({ ...goalDriven(5000, -1), maxSavePercentage: 0.5 }, { walletBalance: usdc(150) });
+
+    assert.equal(decision.amount, usdc(50));
+    assert.equal(decision.urgency, 'high');
+
+    const low = decide(goalDriven(5000, 30), { walletBalance: usdc(100) });
+    assert.equal(low.shouldSave, false);
+  });
+
+  it('caps on-track saves at maxSavePercentage', () => {
+    const decision = decide({ ...goalDriven(200, 20), maxSavePercentage: 0.1 }, { walletBalance: usdc(130), weeklyGoal: usdc(700) });
+
+    // 10% of the 30 available
+    assert.equal(decision.amount, usdc(3));
+  });
+
+  it('never saves more than the weekly goal left this week, even when behind', () => {
+    const decision = decide(goalDriven(5000, -1), { savedThisWeek: usdc(50), remainingThisWeek: usdc(20) });
+
+    assert.equal(decision.amount, usdc(20));
+    assert.equal(decision.trace?.amount?.boundBy, 'weekly_goal');
+  });
+
+  it('falls back to balanced without an open goal', () => {
+    assert.equal(decide({ strategy: DecisionStrategy.GOAL_DRIVEN }).amount, usdc(70));
+    assert.equal(decide(goalDriven(50, 20)).amount, usdc(70));
+  });
+});
+
+describe('DecisionEngine trace', () => {
+  it('lists every pre-check and the one that failed', () => {
+    const { trace } = decide({}, { trustMode: 'MANUAL', canAutoSave: false });
+
+    assert.deepEqual(trace?.preChecks.map((c) => [c.check, c.passed]), [
+      ['account_active', true],
+      ['auto_mode', false],
+      ['rate_limit', false],
+    ]);
+    assert.equal(trace?.decidedBy, 'pre_check:auto_mode');
+    assert.equal(trace?.amount, undefined);
+  });
+
+  it('names the cap that bound the amount', () => {
+    const balanced = decide({ strategy: DecisionStrategy.BALANCED }).trace!;
+    assert.equal(balanced.availableFunds?.available, usdc(900));
+    assert.deepEqual(balanced.amount?.caps.map((c) => [c.cap, c.value]), [
+      ['percentage', usdc(450)],
+      ['weekly_goal', usdc(70)],
+      ['available_funds', usdc(900)],
+    ]);
+    assert.equal(balanced.amount?.boundBy, 'weekly_goal');
+    assert.equal(balanced.decidedBy, 'strategy:weekly_goal');
+
+    const conservative = decide({ strategy: DecisionStrategy.CONSERVATIVE }, { walletBalance: usdc(150) }).trace!;
+    assert.equal(conservative.amount?.boundBy, 'buffer_threshold');
+    assert.equal(conservative.decidedBy, 'amount_below_minimum');
+  });
+
+  it('itemizes confidence adjustments', () => {
+    const decision = decide({ strategy: DecisionStrategy.BALANCED });
+    const confidence = decision.trace!.confidence!;
+
+    assert.deepEqual(confidence.adjustments.map((a) => a.factor), [
+      'wallet_above_2x_buffer',
+      'wallet_above_3x_buffer',
+      'within_weekly_goal',
+    ]);
+    assert.equal(confidence.final, decision.confidence);
+    assert.equal(confidence.adjustments.reduce((sum, a) => sum + a.delta, confidence.base), decision.confidence);
+  });
+});
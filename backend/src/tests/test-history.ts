@@ -0,0 +1,111 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistoryService } from '../services/history.service';
+import { FilePaymentLedger } from '../stores/payment-ledger.store';
+import { IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Transaction history tests
+ *
+ * Vault events come from a fixed list; payments from a real ledger file.
+ */
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const DAY = 24 * 60 * 60;
+const START = Date.parse('2026-01-01T00:00:00Z') / 1000;
+
+const vaultEvent = (
+  name: VaultEventName,
+  day: number,
+  args: Record<string, string>,
+  transactionHash = `0xtx-${name}-${day}`
+): IndexedVaultEvent => ({
+  id: `${transactionHash}-0`,
+  name,
+  user: ALICE,
+  args: { user: ALICE, ...args },
+  blockNumber: 100 + day,
+  blockHash: '0xblock',
+  blockTimestamp: START + day * DAY,
+  transactionHash,
+  logIndex: name.endsWith('Yield') ? 1 : 0,
+});
+
+describe('HistoryService', () => {
+  let ledger: FilePaymentLedger;
+  let events: IndexedVaultEvent[];
+  let history: HistoryService;
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-history-'));
+    ledger = new FilePaymentLedger(path.join(dir, 'payments.json'));
+    events = [
+      vaultEvent('Deposited', 0, { amount: '25000000', newBalance: '25000000' }, '0xDEPOSIT'),
+      vaultEvent('DepositedToYield', 0, { amount: '25000000', liquidityTokens: '24000000' }, '0xDEPOSIT'),
+      vaultEvent('TrustModeUpdated', 1, { newMode: '1' }),
+      vaultEvent('AutoSaveExecuted', 2, { amount: '10000000', triggeredBy: ALICE }),
+      vaultEvent('WithdrawnFromYield', 3, { liquidityTokens: '4800000', usdcAmount: '5000000' }),
+      vaultEvent('Withdrawn', 3, { amount: '5000000', newBalance: '30000000' }),
+    ];
+    history = new HistoryService({ getEventsForUser: () => events }, ledger);
+  });
+
+  it('lists vault transactions newest first with explorer links', () => {
+    const { items, total } = history.getHistory(ALICE);
+
+    assert.equal(total, 5);
+    assert.deepEqual(
+      items.map((entry) => entry.type),
+      ['yield_withdrawal', 'withdrawal', 'auto_save', 'yield_deposit', 'deposit']
+    );
+
+    const [yieldWithdrawal] = items;
+    assert.equal(yieldWithdrawal.amount, '5.0');
+    assert.equal(yieldWithdrawal.amountInSmallestUnit, '5000000');
+    assert.equal(yieldWithdrawal.timestamp, '2026-01-04T00:00:00.000Z');
+    assert.match(yieldWithdrawal.explorerUrl!, /\/tx\/0xtx-WithdrawnFromYield-3$/);
+  });
+
+  it('attaches the x402 payment to the deposit that credited it', () => {
+    ledger.create('pay-1', ALICE, '25000000');
+    ledger.transition('pay-1', 'verified');
+    ledger.transition('pay-1', 'settled', { facilitatorTxHash: '0xfacilitator' });
+    ledger.transition('pay-1', 'credited', { depositTxHash: '0xdeposit' });
+
+    const { items, total } = history.getHistory(ALICE, { types: ['deposit', 'payment'] });
+
+    assert.equal(total, 1);
+    assert.equal(items[0].payment?.paymentId, 'pay-1');
+    assert.equal(items[0].payment?.status, 'credited');
+    assert.match(items[0].payment?.facilitatorExplorerUrl ?? '', /\/tx\/0xfacilitator$/);
+  });
+
+  it('lists settled payments not yet credited on their own', () => {
+    ledger.create('pay-2', ALICE, '7000000');
+    ledger.transition('pay-2', 'verified');
+    ledger.transition('pay-2', 'settled', { facilitatorTxHash: '0xfacilitator2' });
+    ledger.create('pay-3', ALICE, '9000000');
+    ledger.transition('pay-3', 'failed', { error: 'invalid signature' });
+
+    const { items } = history.getHistory(ALICE, { types: ['payment'] });
+
+    assert.equal(items.length, 1);
+    assert.equal(items[0].id, 'pay-2');
+    assert.equal(items[0].amount, '7.0');
+    assert.equal(items[0].transactionHash, '0xfacilitator2');
+  });
+
+  it('filters by date and paginates', () => {
+    const day = (n: number) => (START + n * DAY) * 1000;
+
+    const range = history.getHistory(ALICE, { from: day(1), to: day(3) });
+    assert.deepEqual(range.items.map((entry) => entry.type), ['auto_save']);
+
+    const page = history.getHistory(ALICE, { limit: 2, offset: 2 });
+    assert.equal(page.total, 5);
+    assert.deepEqual(page.items.map((entry) => entry.type), ['auto_save', 'yield_deposit']);
+  });
+});
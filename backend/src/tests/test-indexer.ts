@@ -0,0 +1,225 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { VaultIndexerService, IndexerProvider } from '../services/indexer.service';
+import { IndexedVaultEvent, VaultEventStore } from '../stores/vault-event.store';
+
+/**
+ * Vault indexer tests
+ *
+ * Runs the indexer against a fake provider that replays a scripted
+ * chain, including a restart and a reorg. No RPC node needed.
+ */
+
+const VAULT = '0x349bC1BD3BB0A0A82468a56EA4Df85Ca24f3869c';
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const iface = new ethers.Interface([
+  'event AccountCreated(address indexed user, uint256 weeklyGoal, uint256 safetyBuffer, uint8 trustMode)',
+  'event TrustModeUpdated(address indexed user, uint8 newMode)',
+  'event SafetyBufferUpdated(address indexed user, uint256 newSafetyBuffer)',
+  'event GoalUpdated(address indexed user, uint256 newWeeklyGoal)',
+  'event Deposited(address indexed user, uint256 amount, uint256 newBalance)',
+  'event AutoSaveExecuted(address indexed user, uint256 amount, address triggeredBy)',
+  'event Withdrawn(address indexed user, uint256 amount, uint256 newBalance)',
+  'event DepositedToYield(address indexed user, uint256 amount, uint256 liquidityTokens)',
+  'event WithdrawnFromYield(address indexed user, uint256 liquidityTokens, uint256 usdcAmount)',
+]);
+
+interface ScriptedLog {
+  blockNumber: number;
+  name: string;
+  args: unknown[];
+}
+
+/**
+ * Fake provider replaying a scripted chain
+ * `fork` changes block hashes from a height on, like a reorg would.
+ */
+class FakeProvider implements IndexerProvider {
+  head = 0;
+  logs: ScriptedLog[] = [];
+  private forks = new Map<number, string>();
+
+  hashOf(blockNumber: number): string {
+    let fork = '';
+    for (const [height, label] of this.forks) {
+      if (blockNumber >= height) fork = label;
+    }
+    return ethers.id(`block-${blockNumber}${fork}`);
+  }
+
+  fork(fromBlock: number, label: string, logs: ScriptedLog[]) {
+    this.forks.set(fromBlock, label);
+    this.logs = [...this.logs.filter((log) => log.blockNumber < fromBlock), ...logs];
+  }
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getBlock(blockNumber: number) {
+    if (blockNumber > this.head) return null;
+    return { number: blockNumber, hash: this.hashOf(blockNumber), timestamp: 1_700_000_000 + blockNumber * 6 };
+  }
+
+  async getLogs(filter: ethers.Filter) {
+    const from = Number(filter.fromBlock);
+    const to = Number(filter.toBlock);
+
+    return this.logs
+      .filter((log) => log.blockNumber >= from && log.blockNumber <= to && log.blockNumber <= this.head)
+      .map((log, index) => {
+        const encoded = iface.encodeEventLog(log.name, log.args);
+        return {
+          blockNumber: log.blockNumber,
+          blockHash: this.hashOf(log.blockNumber),
+          transactionHash: ethers.id(`tx-${log.blockNumber}-${log.name}-${index}`),
+          index,
+          topics: encoded.topics,
+          data: encoded.data,
+        };
+      });
+  }
+}
+
+describe('VaultIndexerService', () => {
+  let dataFile: string;
+  let provider: FakeProvider;
+
+  const createIndexer = () =>
+    new VaultIndexerService(provider, new VaultEventStore(dataFile), {
+      vaultAddress: VAULT,
+      startBlock: 1,
+      blockRange: 10,
+      reorgDepth: 20,
+    });
+
+  beforeEach(() => {
+    dataFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-indexer-')), 'events.json');
+    provider = new FakeProvider();
+    provider.logs = [
+      { blockNumber: 3, name: 'AccountCreated', args: [ALICE, 25_000_000n, 100_000_000n, 1] },
+      { blockNumber: 5, name: 'AccountCreated', args: [BOB, 10_000_000n, 50_000_000n, 0] },
+      { blockNumber: 12, name: 'Deposited', args: [ALICE, 5_000_000n, 5_000_000n] },
+      { blockNumber: 18, name: 'AutoSaveExecuted', args: [ALICE, 2_000_000n, VAULT] },
+      { blockNumber: 25, name: 'Withdrawn', args: [ALICE, 1_000_000n, 6_000_000n] },
+    ];
+    provider.head = 30;
+  });
+
+  it('backfills events across block ranges and derives AUTO accounts', async () => {
+    const indexer = createIndexer();
+    const indexed = await indexer.sync();
+
+    assert.equal(indexed, 5);
+    assert.deepEqual(indexer.getActiveAutoAccounts(), [ALICE]);
+
+    const alice = new VaultEventStore(dataFile).getAccount(ALICE)!;
+    assert.equal(alice.totalDeposited, '7000000');
+    assert.equal(alice.totalWithdrawn, '1000000');
+    assert.equal(alice.currentBalance, '6000000');
+    assert.equal(indexer.getStatus().cursor?.number, 30);
+  });
+
+  it('tracks trust mode changes', async () => {
+    provider.logs.push(
+      { blockNumber: 27, name: 'TrustModeUpdated', args: [BOB, 1] },
+      { blockNumber: 28, name: 'TrustModeUpdated', args: [ALICE, 0] }
+    );
+
+    const indexer = createIndexer();
+    await indexer.sync();
+
+    assert.deepEqual(indexer.getActiveAutoAccounts(), [BOB]);
+  });
+
+  it('tracks safety buffer changes and hands new events to listeners', async () => {
+    provider.logs.push({ blockNumber: 27, name: 'SafetyBufferUpdated', args: [ALICE, 250_000_000n] });
+
+    const indexer = createIndexer();
+    const batches: IndexedVaultEvent[][] = [];
+    indexer.onEvents((events) => {
+      batches.push(events);
+    });
+    await indexer.sync();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(new VaultEventStore(dataFile).getAccount(ALICE)?.safetyBuffer, '250000000');
+
+    const names = batches.flat().map((event) => event.name);
+    assert.equal(names.length, 6);
+    assert.equal(names[names.length - 1], 'SafetyBufferUpdated');
+  });
+
+  it('tracks weekly goal changes', async () => {
+    provider.logs.push({ blockNumber: 27, name: 'GoalUpdated', args: [ALICE, 40_000_000n] });
+
+    await createIndexer().sync();
+
+    assert.equal(new VaultEventStore(dataFile).getAccount(ALICE)?.weeklyGoal, '40000000');
+  });
+
+  it('logs yield strategy moves without changing the account', async () => {
+    provider.logs.push(
+      { blockNumber: 27, name: 'DepositedToYield', args: [ALICE, 4_000_000n, 3_900_000n] },
+      { blockNumber: 28, name: 'WithdrawnFromYield', args: [ALICE, 900_000n, 1_000_000n] }
+    );
+
+    await createIndexer().sync();
+
+    const store = new VaultEventStore(dataFile);
+    const yieldEvents = store.getEventsForUser(ALICE).filter((event) => event.name.endsWith('Yield'));
+    assert.deepEqual(yieldEvents.map((event) => event.args.usdcAmount ?? event.args.amount), ['4000000', '1000000']);
+    assert.equal(store.getAccount(ALICE)?.currentBalance, '6000000');
+  });
+
+  it('resumes from the persisted cursor after a restart', async () => {
+    provider.head = 15;
+    await createIndexer().sync();
+
+    // New process: fresh indexer + store instance over the same file
+    provider.head = 30;
+    const restarted = createIndexer();
+    const indexed = await restarted.sync();
+
+    assert.equal(indexed, 2, 'only events after block 15 are fetched again');
+    assert.equal(new VaultEventStore(dataFile).getEventCount(), 5);
+    assert.equal(new VaultEventStore(dataFile).getAccount(ALICE)!.currentBalance, '6000000');
+  });
+
+  it('rolls back to the common ancestor on a reorg', async () => {
+    const indexer = createIndexer();
+    await indexer.sync();
+
+    // Blocks 20+ are replaced: the withdrawal never happened, Bob switches to AUTO instead
+    provider.fork(20, 'b', [{ blockNumber: 22, name: 'TrustModeUpdated', args: [BOB, 1] }]);
+    provider.head = 32;
+
+    await indexer.sync();
+
+    const store = new VaultEventStore(dataFile);
+    const alice = store.getAccount(ALICE)!;
+    assert.equal(alice.totalWithdrawn, '0');
+    assert.equal(alice.currentBalance, '7000000');
+    assert.deepEqual(indexer.getActiveAutoAccounts().sort(), [ALICE, BOB].sort());
+    assert.equal(store.getEventsForUser(ALICE).some((event) => event.name === 'Withdrawn'), false);
+    assert.equal(store.getCursor()?.hash, provider.hashOf(32));
+  });
+
+  it('re-indexes from the start block when the reorg is deeper than the window', async () => {
+    const indexer = createIndexer();
+    await indexer.sync();
+
+    provider.fork(2, 'deep', [{ blockNumber: 4, name: 'AccountCreated', args: [BOB, 1_000_000n, 0n, 1] }]);
+
+    await indexer.sync();
+
+    assert.deepEqual(indexer.getActiveAutoAccounts(), [BOB]);
+    assert.equal(new VaultEventStore(dataFile).getEventCount(), 1);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { LiveEvent, LiveEventHub, toServerSentEvent } from '../services/live-events.service';
+import { DecisionRecord } from '../stores/decision-history.store';
+import { IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Live event hub tests
+ *
+ * Fan-out to subscribers and Last-Event-ID replay, without an HTTP server.
+ */
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+let logIndex = 0;
+
+const vaultEvent = (user: string, name: VaultEventName, args: Record<string, string>): IndexedVaultEvent => ({
+  id: `0xtx-${logIndex}`,
+  name,
+  user,
+  args: { user, ...args },
+  blockNumber: 100,
+  blockHash: '0xblock',
+  blockTimestamp: 1_700_000_000,
+  transactionHash: '0xtx',
+  logIndex: logIndex++,
+});
+
+const deposited = (user: string, amount: number) =>
+  vaultEvent(user, 'Deposited', { amount: String(amount * 1_000_000), newBalance: String(amount * 1_000_000) });
+
+const decision = (user: string): DecisionRecord => ({
+  id: 'dec_1',
+  user,
+  source: 'scheduler',
+  strategy: 'balanced',
+  state: {} as DecisionRecord['state'],
+  shouldSave: true,
+  amount: '25000000',
+  confidence: 0.9,
+  urgency: 'medium',
+  reason: 'Plenty above the buffer',
+  action: 'executed',
+  txHash: '0xsave',
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('LiveEventHub', () => {
+  let hub: LiveEventHub;
+
+  beforeEach(() => {
+    hub = new LiveEventHub(3, 'epoch');
+  });
+
+  it("streams an account's vault events with formatted amounts", () => {
+    const received: LiveEvent[] = [];
+    hub.subscribe(ALICE.toLowerCase(), (event) => received.push(event));
+
+    hub.publishVaultEvents([
+      deposited(ALICE, 25),
+      vaultEvent(ALICE, 'GoalUpdated', { newWeeklyGoal: '40000000' }),
+      deposited(BOB, 5),
+    ]);
+
+    assert.equal(received.length, 2);
+    assert.equal(received[0].id, 'epoch-1');
+    assert.deepEqual(received[0].data, {
+      name: 'Deposited',
+      args: { user: ALICE, amount: '25.0', newBalance: '25.0' },
+      transactionHash: '0xtx',
+      blockNumber: 100,
+      blockTimestamp: 1_700_000_000,
+    });
+    assert.equal(received[1].type === 'vault_event' && received[1].data.args.newWeeklyGoal, '40.0');
+  });
+
+  it('skips vault events the dashboard does not need', () => {
+    const received: LiveEvent[] = [];
+    hub.subscribe(ALICE, (event) => received.push(event));
+
+    hub.publishVaultEvents([vaultEvent(ALICE, 'SafetyBufferUpdated', { newSafetyBuffer: '1' })]);
+
+    assert.equal(received.length, 0);
+  });
+
+  it('streams scheduler decisions', () => {
+    const received: LiveEvent[] = [];
+    hub.subscribe(ALICE, (event) => received.push(event));
+
+    hub.publishDecision(decision(ALICE));
+
+    assert.equal(received[0].type, 'decision');
+    assert.equal(received[0].type === 'decision' && received[0].data.amount, '25.0');
+    assert.equal(
+      toServerSentEvent(received[0]).split('\n').slice(0, 2).join('\n'),
+      'id: epoch-1\nevent: decision'
+    );
+  });
+
+  it('stops streaming after unsubscribe', () => {
+    const received: LiveEvent[] = [];
+    const unsubscribe = hub.subscribe(ALICE, (event) => received.push(event));
+
+    unsubscribe();
+    hub.publishDecision(decision(ALICE));
+
+    assert.equal(received.length, 0);
+  });
+
+  it('replays what a user missed after their Last-Event-ID', () => {
+    hub.publishVaultEvents([deposited(ALICE, 1), deposited(BOB, 2), deposited(ALICE, 3)]);
+
+    const missed = hub.since(ALICE, 'epoch-1');
+
+    assert.deepEqual(missed?.map((event) => event.id), ['epoch-3']);
+    assert.deepEqual(hub.since(ALICE, 'epoch-3'), []);
+  });
+
+  it('asks for a resync when the missed events are gone', () => {
+    hub.publishVaultEvents([1, 2, 3, 4, 5].map((amount) => deposited(ALICE, amount)));
+
+    // Buffer holds 3-5: resuming after 2 is fine, after 1 is not
+    assert.deepEqual(hub.since(ALICE, 'epoch-2')?.map((event) => event.id), ['epoch-3', 'epoch-4', 'epoch-5']);
+    assert.equal(hub.since(ALICE, 'epoch-1'), null);
+
+    // IDs from before a restart or never issued
+    assert.equal(hub.since(ALICE, 'other-4'), null);
+    assert.equal(hub.since(ALICE, 'epoch-9'), null);
+    assert.equal(hub.since(ALICE, 'garbage'), null);
+  });
+});
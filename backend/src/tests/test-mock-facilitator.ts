@@ -0,0 +1,151 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { CronosNetwork, PaymentRequirements, Scheme } from '@crypto.com/facilitator-client';
+import { MockFacilitator } from '../mocks/mock-facilitator';
+import { HttpFacilitatorClient, isSimulatedSettlement } from '../services/facilitator.client';
+import { X402Service } from '../services/x402.service';
+
+/**
+ * Mock facilitator tests
+ *
+ * Drives the real X402Service + HttpFacilitatorClient against the
+ * mock facilitator with headers signed like the facilitator SDK does.
+ */
+
+const CHAIN_ID = 338;
+const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const AMOUNT = '5000000';
+
+describe('MockFacilitator', () => {
+  const payer = ethers.Wallet.createRandom();
+  let facilitator: MockFacilitator;
+  let server: Server;
+  let x402: X402Service;
+
+  const requirements = (paymentId: string, amount = AMOUNT): PaymentRequirements => ({
+    ...x402.createPaymentRequirements(amount, paymentId),
+    payTo: VAULT,
+  });
+
+  const signHeader = async (
+    overrides: { value?: string; validBefore?: number; nonce?: string; signer?: ethers.HDNodeWallet } = {}
+  ) => {
+    const asset = x402.getAssetContract();
+    const payload = {
+      from: payer.address,
+      to: VAULT,
+      value: overrides.value ?? AMOUNT,
+      validAfter: 0,
+      validBefore: overrides.validBefore ?? Math.floor(Date.now() / 1000) + 3600,
+      nonce: overrides.nonce ?? ethers.hexlify(ethers.randomBytes(32)),
+    };
+
+    const signature = await (overrides.signer ?? payer).signTypedData(
+      { name: 'Bridged USDC (Stargate)', version: '1', chainId: CHAIN_ID, verifyingContract: asset },
+      {
+        TransferWithAuthorization: [
+          { name: 'from', type: 'address' },
+          { name: 'to', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'validAfter', type: 'uint256' },
+          { name: 'validBefore', type: 'uint256' },
+          { name: 'nonce', type: 'bytes32' },
+        ],
+      },
+      payload
+    );
+
+    const header = {
+      x402Version: 1,
+      scheme: Scheme.Exact,
+      network: CronosNetwork.CronosTestnet,
+      payload: { ...payload, signature, asset },
+    };
+    return Buffer.from(JSON.stringify(header)).toString('base64');
+  };
+
+  before(async () => {
+    facilitator = new MockFacilitator({ chainId: CHAIN_ID });
+    server = await new Promise<Server>((resolve) => {
+      const listening = facilitator.app.listen(0, () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    x402 = new X402Service(new HttpFacilitatorClient(`http://127.0.0.1:${port}`));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    facilitator.setFailures({});
+  });
+
+  it('verifies and settles a correctly signed payment', async () => {
+    const result = await x402.verifyAndSettle('pay_1', await signHeader(), requirements('pay_1'));
+
+    assert.equal(result.ok, true);
+    assert.match(result.txHash!, /^0x[0-9a-f]{64}$/);
+    assert.ok(isSimulatedSettlement(result.txHash!));
+
+    const [settlement] = facilitator.getSettlements().slice(-1);
+    assert.equal(settlement.txHash, result.txHash);
+    assert.equal(settlement.from, payer.address);
+    assert.equal(settlement.value, AMOUNT);
+  });
+
+  it('rejects a replayed authorization', async () => {
+    const header = await signHeader();
+    assert.equal((await x402.verifyAndSettle('pay_2', header, requirements('pay_2'))).ok, true);
+
+    const replay = await x402.verifyPayment('pay_2', header, requirements('pay_2'));
+    assert.equal(replay.ok, false);
+    assert.equal(replay.details.invalidReason, 'nonce_already_used');
+  });
+
+  it('rejects a signature from someone other than the payer', async () => {
+    const header = await signHeader({ signer: ethers.Wallet.createRandom() });
+    const result = await x402.verifyPayment('pay_3', header, requirements('pay_3'));
+
+    assert.equal(result.ok, false);
+    assert.equal(result.details.invalidReason, 'invalid_signature');
+  });
+
+  it('rejects an amount that does not match the requirements', async () => {
+    const result = await x402.verifyPayment('pay_4', await signHeader(), requirements('pay_4', '6000000'));
+
+    assert.equal(result.ok, false);
+    assert.equal(result.details.invalidReason, 'amount_mismatch');
+  });
+
+  it('rejects an expired authorization', async () => {
+    const header = await signHeader({ validBefore: Math.floor(Date.now() / 1000) - 1 });
+    const result = await x402.verifyPayment('pay_5', header, requirements('pay_5'));
+
+    assert.equal(result.ok, false);
+    assert.equal(result.details.invalidReason, 'authorization_expired');
+  });
+
+  it('simulates configured settle failures', async () => {
+    facilitator.setFailures({ settle: 'insufficient_funds' });
+
+    const result = await x402.verifyAndSettle('pay_6', await signHeader(), requirements('pay_6'));
+
+    assert.equal(result.ok, false);
+    assert.equal(result.error, 'settle_failed');
+    assert.equal(result.details.event, 'payment.failed');
+    assert.equal(result.details.error, 'insufficient_funds');
+  });
+
+  it('simulates an unavailable facilitator', async () => {
+    facilitator.setFailures({ unavailable: true });
+
+    const result = await x402.verifyPayment('pay_7', await signHeader(), requirements('pay_7'));
+
+    assert.equal(result.ok, false);
+    assert.equal(result.error, 'verify_failed');
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import nodemailer, { SendMailOptions } from 'nodemailer';
+import {
+  EmailChannel,
+  InAppChannel,
+  NotificationChannel,
+  NotificationEvent,
+  Notifier,
+  WebhookChannel,
+  isPublicWebhookUrl,
+  signWebhookPayload,
+} from '../services/notifier.service';
+import { NotificationFeedStore, Notification } from '../stores/notification-feed.store';
+import { NotificationSubscriptions, UserPreferencesStore } from '../stores/user-preferences.store';
+
+/**
+ * Notifier tests
+ *
+ * Webhooks go to a local HTTP server and email to nodemailer's JSON
+ * transport, so nothing leaves the machine.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const executed: NotificationEvent = {
+  type: 'save_executed',
+  user: USER,
+  amount: '25.0',
+  source: 'auto_save',
+  txHash: '0xsave',
+};
+
+const lowBalance: NotificationEvent = {
+  type: 'low_balance',
+  user: USER,
+  walletBalance: '40.0',
+  safetyBuffer: '100.0',
+};
+
+const subscribe = (store: UserPreferencesStore, patch: Partial<NotificationSubscriptions> = {}) =>
+  store.setSubscriptions({
+    address: USER,
+    events: ['save_executed', 'low_balance'],
+    inApp: true,
+    signedAt: 1,
+    ...patch,
+  });
+
+/**
+ * Channel that records what it was asked to send
+ */
+class RecordingChannel implements NotificationChannel {
+  sent: Notification[] = [];
+
+  constructor(readonly name: NotificationChannel['name'], private readonly error?: Error) {}
+
+  accepts(): boolean {
+    return true;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    if (this.error) throw this.error;
+    this.sent.push(notification);
+  }
+}
+
+describe('Notifier', () => {
+  let dir: string;
+  let preferences: UserPreferencesStore;
+  let feed: NotificationFeedStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-notifier-'));
+    preferences = new UserPreferencesStore(path.join(dir, 'preferences.json'));
+    feed = new NotificationFeedStore(path.join(dir, 'feed.json'), 3);
+  });
+
+  it('puts every event in the in-app feed for users without subscriptions', async () => {
+    const notifier = new Notifier(preferences, [new InAppChannel(feed)]);
+
+    const deliveries = await notifier.notify(executed);
+
+    assert.deepEqual(deliveries, [{ channel: 'in_app', ok: true }]);
+    const [notification] = feed.listByUser(USER);
+    assert.equal(notification.type, 'save_executed');
+    assert.equal(notification.title, 'Saved 25.0 USDC');
+    assert.match(notification.message, /by the AI agent/);
+    assert.deepEqual(notification.data, { amount: '25.0', source: 'auto_save', txHash: '0xsave' });
+  });
+
+  it('only sends the events the user subscribed to', async () => {
+    subscribe(preferences, { events: ['low_balance'] });
+    const channel = new RecordingChannel('in_app');
+    const notifier = new Notifier(preferences, [channel]);
+
+    assert.deepEqual(await notifier.notify(executed), []);
+    await notifier.notify(lowBalance);
+
+    assert.deepEqual(channel.sent.map((notification) => notification.type), ['low_balance']);
+  });
+
+  it('skips channels the user has not set up', async () => {
+    subscribe(preferences, { inApp: false });
+    const transport = nodemailer.createTransport({ jsonTransport: true });
+    const notifier = new Notifier(preferences, [new InAppChannel(feed), new WebhookChannel(), new EmailChannel(transport)]);
+
+    assert.deepEqual(await notifier.notify(executed), []);
+    assert.equal(feed.listByUser(USER).length, 0);
+  });
+
+  it('keeps delivering when one channel fails', async () => {
+    const failing = new RecordingChannel('webhook', new Error('connection refused'));
+    const working = new RecordingChannel('in_app');
+    const notifier = new Notifier(preferences, [failing, working]);
+
+    const deliveries = await notifier.notify(executed);
+
+    assert.deepEqual(deliveries, [
+      { channel: 'webhook', ok: false, error: 'connection refused' },
+      { channel: 'in_app', ok: true },
+    ]);
+    assert.equal(working.sent.length, 1);
+  });
+
+  it('keeps only the newest notifications per user in the feed', async () => {
+    const notifier = new Notifier(preferences, [new InAppChannel(feed)]);
+
+    for (const amount of ['1.0', '2.0', '3.0', '4.0']) {
+      await notifier.notify({ ...executed, amount });
+    }
+
+    assert.deepEqual(
+      feed.listByUser(USER).map((notification) => notification.data.amount),
+      ['4.0', '3.0', '2.0']
+    );
+  });
+
+  describe('webhook channel', () => {
+    const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+    let server: http.Server;
+    let url: string;
+
+    beforeEach(async () => {
+      received.length = 0;
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.statusCode = req.url === '/fail' ? 500 : 204;
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => server?.close());
+
+    it('POSTs the notification signed with the subscription secret', async () => {
+      subscribe(preferences, { inApp: false, webhook: { url: `${url}/hook`, secret: 'shh' } });
+      const notifier = new Notifier(preferences, [new WebhookChannel(2000, true)]);
+
+      assert.deepEqual(await notifier.notify(executed), [{ channel: 'webhook', ok: true }]);
+      server.close();
+
+      const [{ headers, body }] = received;
+      const timestamp = Number(headers['x-pigment-timestamp']);
+      assert.equal(headers['x-pigment-event'], 'save_executed');
+      assert.equal(headers['x-pigment-signature'], signWebhookPayload('shh', timestamp, body));
+      assert.notEqual(headers['x-pigment-signature'], signWebhookPayload('other', timestamp, body));
+      assert.equal(JSON.parse(body).data.txHash, '0xsave');
+    });
+
+    it('reports a non-2xx response as a failed delivery', async () => {
+      subscribe(preferences, { inApp: false, webhook: { url: `${url}/fail`, secret: 'shh' } });
+      const notifier = new Notifier(preferences, [new WebhookChannel(2000, true)]);
+
+      const [delivery] = await notifier.notify(executed);
+      server.close();
+
+      assert.equal(delivery.ok, false);
+      assert.match(delivery.error!, /500/);
+    });
+
+    it('refuses to POST to a private host', async () => {
+      subscribe(preferences, { inApp: false, webhook: { url: `${url}/hook`, secret: 'shh' } });
+      const notifier = new Notifier(preferences, [new WebhookChannel(2000)]);
+
+      const [delivery] = await notifier.notify(executed);
+      server.close();
+
+      assert.equal(delivery.ok, false);
+      assert.match(delivery.error!, /not a public http\(s\) URL/);
+      assert.equal(received.length, 0);
+    });
+  });
+
+  it('emails through the SMTP transport', async () => {
+    subscribe(preferences, { inApp: false, email: 'saver@example.com' });
+    const transport = nodemailer.createTransport({ jsonTransport: true });
+    const sent: string[] = [];
+    const sendMail = transport.sendMail.bind(transport);
+    transport.sendMail = (async (mail: SendMailOptions) => {
+      const info = await sendMail(mail);
+      sent.push(info.message.toString());
+      return info;
+    }) as typeof transport.sendMail;
+
+    const notifier = new Notifier(preferences, [new EmailChannel(transport, 'Pigment <no-reply@test>')]);
+
+    assert.deepEqual(await notifier.notify(lowBalance), [{ channel: 'email', ok: true }]);
+
+    const message = JSON.parse(sent[0]);
+    assert.equal(message.to[0].address, 'saver@example.com');
+    assert.equal(message.subject, 'Pigment: Wallet below safety buffer');
+    assert.match(message.text, /40\.0 USDC, below your 100\.0 USDC safety buffer/);
+  });
+
+  it('disables email without a transport', () => {
+    assert.equal(new EmailChannel(null).accepts({ inApp: false, email: 'saver@example.com' }), false);
+  });
+});
+
+describe('isPublicWebhookUrl', () => {
+  it('accepts public http(s) hosts', () => {
+    assert.equal(isPublicWebhookUrl('https://hooks.example.com/pigment'), true);
+    assert.equal(isPublicWebhookUrl('http://8.8.8.8/hook'), true);
+  });
+
+  it('rejects loopback, link-local and private hosts', () => {
+    for (const url of [
+      'http://localhost:3001/hook',
+      'http://127.0.0.1/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://10.0.0.5/hook',
+      'http://172.20.1.1/hook',
+      'http://192.168.1.1/hook',
+      'http://[::1]/hook',
+      'http://[fd00::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+      'ftp://example.com/hook',
+    ]) {
+      assert.equal(isPublicWebhookUrl(url), false, url);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaymentRequirements } from '@crypto.com/facilitator-client';
+import { X402Service } from '../services/x402.service';
+import { FacilitatorClient } from '../services/facilitator.client';
+
+/**
+ * Payment header validation tests
+ *
+ * The facilitator must never be called for these, so the client throws.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+const offline: FacilitatorClient = {
+  baseUrl: 'http://facilitator.invalid',
+  verify: async () => {
+    throw new Error('facilitator called');
+  },
+  settle: async () => {
+    throw new Error('facilitator called');
+  },
+};
+
+const x402 = new X402Service(offline);
+
+const requirements: PaymentRequirements = {
+  ...x402.createPaymentRequirements('5000000', 'pay_1'),
+  payTo: VAULT,
+};
+
+const encode = (payload: Record<string, unknown>) =>
+  Buffer.from(
+    JSON.stringify({
+      x402Version: 1,
+      scheme: 'exact',
+      network: x402.getNetwork(),
+      payload: {
+        from: USER,
+        to: VAULT,
+        value: '5000000',
+        validAfter: 0,
+        validBefore: NOW / 1000 + 300,
+        nonce: '0x' + '11'.repeat(32),
+        signature: '0x',
+        asset: x402.getAssetContract(),
+        ...payload,
+      },
+    })
+  ).toString('base64');
+
+describe('X402Service.validatePaymentHeader', () => {
+  it('accepts a header matching the user and requirements', () => {
+    const result = x402.validatePaymentHeader(encode({ from: USER.toLowerCase() }), USER, requirements, NOW);
+
+    assert.equal(result.ok, true);
+    assert.equal(result.header?.payload.value, '5000000');
+  });
+
+  it('rejects headers that are not x402 payment headers', () => {
+    assert.equal(x402.validatePaymentHeader('not-base64-json', USER, requirements, NOW).error, 'invalid_payment_header');
+    assert.equal(
+      x402.validatePaymentHeader(Buffer.from('{"from":"0x"}').toString('base64'), USER, requirements, NOW).error,
+      'invalid_payment_header'
+    );
+  });
+
+  it('rejects a payment signed by another wallet', () => {
+    const header = encode({ from: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' });
+    assert.equal(x402.validatePaymentHeader(header, USER, requirements, NOW).error, 'payment_from_mismatch');
+  });
+
+  it('rejects a payment that is not made to the vault', () => {
+    const header = encode({ to: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' });
+    assert.equal(x402.validatePaymentHeader(header, USER, requirements, NOW).error, 'payment_to_mismatch');
+  });
+
+  it('rejects a value different from maxAmountRequired', () => {
+    const header = encode({ value: '4999999' });
+    assert.equal(x402.validatePaymentHeader(header, USER, requirements, NOW).error, 'payment_value_mismatch');
+  });
+
+  it('rejects an authorization whose validBefore has passed', () => {
+    const header = encode({ validBefore: NOW / 1000 });
+    assert.equal(x402.validatePaymentHeader(header, USER, requirements, NOW).error, 'payment_expired');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FilePaymentLedger, PaymentLedgerError } from '../stores/payment-ledger.store';
+
+/**
+ * Payment ledger tests
+ *
+ * Checks the x402 payment state machine and that records survive a
+ * restart (a new ledger instance over the same file).
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('FilePaymentLedger', () => {
+  let filePath: string;
+  let ledger: FilePaymentLedger;
+
+  beforeEach(() => {
+    filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-ledger-')), 'payments.json');
+    ledger = new FilePaymentLedger(filePath);
+  });
+
+  it('walks a payment through challenged -> verified -> settled -> credited', () => {
+    ledger.create('pay_1', USER, '5000000');
+    ledger.transition('pay_1', 'verified');
+    ledger.transition('pay_1', 'settled', { facilitatorTxHash: '0xsettle' });
+    const credited = ledger.transition('pay_1', 'credited', { depositTxHash: '0xdeposit' });
+
+    assert.equal(credited.status, 'credited');
+    assert.equal(credited.facilitatorTxHash, '0xsettle');
+    assert.equal(credited.depositTxHash, '0xdeposit');
+  });
+
+  it('persists settled-but-uncredited payments across restarts', () => {
+    ledger.create('pay_2', USER, '5000000');
+    ledger.transition('pay_2', 'verified');
+    ledger.transition('pay_2', 'settled', { facilitatorTxHash: '0xsettle' });
+    ledger.recordError('pay_2', 'depositFor reverted');
+
+    const restarted = new FilePaymentLedger(filePath);
+    const record = restarted.get('pay_2')!;
+
+    assert.equal(record.status, 'settled');
+    assert.equal(record.error, 'depositFor reverted');
+    assert.deepEqual(restarted.listByStatus('settled').map((p) => p.paymentId), ['pay_2']);
+  });
+
+  it('rejects transitions that could double-credit or lose a settlement', () => {
+    ledger.create('pay_3', USER, '5000000');
+    ledger.transition('pay_3', 'verified');
+    ledger.transition('pay_3', 'settled', { facilitatorTxHash: '0xsettle' });
+
+    assert.throws(() => ledger.transition('pay_3', 'failed'), PaymentLedgerError);
+
+    ledger.transition('pay_3', 'credited', { depositTxHash: '0xdeposit' });
+    assert.throws(() => ledger.transition('pay_3', 'credited'), PaymentLedgerError);
+  });
+
+  it('allows retrying a failed verification', () => {
+    ledger.create('pay_4', USER, '5000000');
+    ledger.transition('pay_4', 'failed', { error: 'verify_failed' });
+    const retried = ledger.transition('pay_4', 'verified');
+
+    assert.equal(retried.status, 'verified');
+    assert.equal(retried.error, undefined);
+  });
+
+  it('records a settlement even after the payment was marked failed', () => {
+    ledger.create('pay_6', USER, '5000000');
+    ledger.transition('pay_6', 'verified');
+    ledger.transition('pay_6', 'failed', { error: 'nonce already used' });
+
+    const settled = ledger.transition('pay_6', 'settled', { facilitatorTxHash: '0xsettle' });
+    assert.equal(settled.status, 'settled');
+    assert.deepEqual(ledger.listByStatus('settled').map((record) => record.paymentId), ['pay_6']);
+  });
+
+  it('rejects duplicate payment ids', () => {
+    ledger.create('pay_5', USER, '5000000');
+    assert.throws(() => ledger.create('pay_5', USER, '5000000'), PaymentLedgerError);
+  });
+});
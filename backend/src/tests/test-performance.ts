@@ -0,0 +1,181 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { computePerformance, getYieldCostBasis, PerformanceService } from '../services/performance.service';
+import { PerformanceSnapshotStore, PoolSnapshot } from '../stores/performance-snapshot.store';
+import { IndexedAccount, IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Yield performance tests
+ *
+ * The pool starts at 1 USDC unit per LP token and grows 0.1% every ten
+ * days. Alice moves 100 USDC in on day 0 and half of it out on day 10.
+ */
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const STRATEGY = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const DAY = 24 * 60 * 60;
+const START = Date.parse('2026-01-01T00:00:00Z') / 1000;
+
+const vaultEvent = (name: VaultEventName, day: number, args: Record<string, string>, user = ALICE): IndexedVaultEvent => ({
+  id: `0xtx-${name}-${day}-1`,
+  name,
+  user,
+  args: { user, ...args },
+  blockNumber: 100 + day,
+  blockHash: '0xblock',
+  blockTimestamp: START + day * DAY,
+  transactionHash: `0xtx-${name}-${day}`,
+  logIndex: 1,
+});
+
+// Each reserve holds `usdc` whole USDC; 2,000 USDC of LP tokens outstanding
+const poolSnapshot = (day: number, usdc: number): PoolSnapshot => ({
+  takenAt: new Date((START + day * DAY) * 1000).toISOString(),
+  usdcReserve: String(usdc * 1_000_000),
+  usdtReserve: String(usdc * 1_000_000),
+  totalSupply: '2000000000',
+});
+
+const aliceEvents = (): IndexedVaultEvent[] => [
+  vaultEvent('Deposited', 0, { amount: '100000000', newBalance: '100000000' }),
+  vaultEvent('DepositedToYield', 0, { amount: '100000000', liquidityTokens: '99000000' }),
+  vaultEvent('WithdrawnFromYield', 10, { liquidityTokens: '49500000', usdcAmount: '49400000' }),
+  vaultEvent('Withdrawn', 10, { amount: '49400000', newBalance: '50600000' }),
+];
+
+describe('computePerformance', () => {
+  const pool = [poolSnapshot(0, 1000), poolSnapshot(10, 1001), poolSnapshot(20, 1002)];
+
+  it('tracks cost basis at the average cost per LP token', () => {
+    const { liquidityTokens, costBasis, realizedPnl } = getYieldCostBasis(aliceEvents());
+
+    assert.equal(liquidityTokens, 49_500_000n);
+    assert.equal(costBasis, 50_000_000n);
+    assert.equal(realizedPnl, -600_000n);
+  });
+
+  it('separates pool yield from swap and slippage cost', () => {
+    const performance = computePerformance(aliceEvents(), pool, [])!;
+
+    assert.equal(performance.costBasis, '50.0');
+    assert.equal(performance.currentValue, '49.599');
+    assert.equal(performance.entryCost, '1.0');
+    assert.equal(performance.exitCost, '0.1495');
+    assert.equal(performance.swapCost, '1.1495');
+    assert.equal(performance.cumulativeYield, '0.1485');
+    assert.equal(performance.realizedPnl, '-0.6');
+    assert.equal(performance.unrealizedPnl, '-0.401');
+    assert.equal(performance.totalPnl, '-1.001');
+  });
+
+  it('computes a time-weighted return and annualizes it', () => {
+    const performance = computePerformance(aliceEvents(), pool, [])!;
+
+    assert.ok(Math.abs(performance.timeWeightedReturn - 0.002) < 1e-9);
+    assert.ok(Math.abs(performance.apy! - (1.002 ** (365 / 20) - 1)) < 1e-9);
+    assert.equal(performance.trackedSince, '2026-01-01T00:00:00.000Z');
+    assert.equal(performance.lastSnapshotAt, '2026-01-21T00:00:00.000Z');
+  });
+
+  it('leaves APY out until a day of history exists', () => {
+    const performance = computePerformance(aliceEvents(), [poolSnapshot(0, 1000)], [])!;
+
+    assert.equal(performance.timeWeightedReturn, 0);
+    assert.equal(performance.apy, null);
+  });
+
+  it('returns null without yield moves or pool snapshots', () => {
+    assert.equal(computePerformance(aliceEvents().filter((event) => !event.name.endsWith('Yield')), pool, []), null);
+    assert.equal(computePerformance(aliceEvents(), [], []), null);
+  });
+});
+
+describe('PerformanceService', () => {
+  let snapshots: PerformanceSnapshotStore;
+  let events: IndexedVaultEvent[];
+  let positions: Record<string, { liquidityTokens: bigint; value: bigint }>;
+  let yieldCalls: Array<{ user: string; initialDeposit: bigint }>;
+  let service: PerformanceService;
+  let now: number;
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-performance-'));
+    snapshots = new PerformanceSnapshotStore(path.join(dir, 'performance.json'));
+    events = [...aliceEvents(), vaultEvent('Deposited', 1, { amount: '5000000', newBalance: '5000000' }, BOB)];
+    positions = { [ALICE]: { liquidityTokens: 49_500_000n, value: 49_599_000n } };
+    yieldCalls = [];
+    now = (START + 20 * DAY) * 1000;
+
+    const chain = {
+      getYieldPool: async () => ({
+        strategy: STRATEGY,
+        usdcReserve: 1_002_000_000n,
+        usdtReserve: 1_002_000_000n,
+        totalSupply: 2_000_000_000n,
+      }),
+      getYieldPosition: async (user: string) => ({
+        strategy: STRATEGY,
+        liquidityTokens: positions[user]?.liquidityTokens ?? 0n,
+        value: positions[user]?.value ?? 0n,
+        slippageToleranceBps: 50n,
+      }),
+      getStrategyYield: async (_strategy: string, user: string, initialDeposit: bigint) => {
+        yieldCalls.push({ user, initialDeposit });
+        return 0n;
+      },
+    };
+    const accounts = [{ address: ALICE }, { address: BOB }] as IndexedAccount[];
+
+    service = new PerformanceService(
+      chain,
+      { getAccounts: () => accounts, getEventsForUser: (user) => events.filter((event) => event.user === user) },
+      snapshots,
+      60_000,
+      () => now
+    );
+  });
+
+  it('snapshots the pool and every yield position', async () => {
+    const recorded = await service.snapshot();
+
+    assert.equal(recorded, 1);
+    assert.equal(snapshots.listPool().length, 1);
+    assert.deepEqual(yieldCalls, [{ user: ALICE, initialDeposit: 50_000_000n }]);
+
+    const [position] = snapshots.listByUser(ALICE);
+    assert.equal(position.value, '49599000');
+    assert.equal(position.costBasis, '50000000');
+    assert.equal(snapshots.listByUser(BOB).length, 0);
+  });
+
+  it('records a full exit once, then stops', async () => {
+    await service.snapshot();
+    positions[ALICE] = { liquidityTokens: 0n, value: 0n };
+
+    now += DAY * 1000;
+    await service.snapshot();
+    now += DAY * 1000;
+    await service.snapshot();
+
+    assert.deepEqual(snapshots.listByUser(ALICE).map((snapshot) => snapshot.liquidityTokens), ['49500000', '0']);
+  });
+
+  it('serves performance with the value vs cost basis series', async () => {
+    snapshots.appendPool(poolSnapshot(0, 1000));
+    snapshots.appendPool(poolSnapshot(10, 1001));
+    await service.snapshot();
+
+    const performance = service.getPerformance(ALICE)!;
+
+    assert.equal(performance.cumulativeYield, '0.1485');
+    assert.equal(performance.contractYield, '0.0');
+    assert.deepEqual(performance.series, [
+      { timestamp: '2026-01-21T00:00:00.000Z', value: '49.599', costBasis: '50.0' },
+    ]);
+    assert.equal(service.getPerformance(BOB), null);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FilePaymentLedger } from '../stores/payment-ledger.store';
+import { PaymentChain, PaymentInFlightError, PaymentService, SimulatedSettlementError } from '../services/payment.service';
+import { ReconcilerService } from '../services/reconciler.service';
+import { SIMULATED_SETTLEMENT_PREFIX } from '../services/facilitator.client';
+
+/**
+ * Payment reconciler tests
+ *
+ * Uses a fake chain so we can script depositFor failures and
+ * pre-existing on-chain credits without a node.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const MINUTE = 60_000;
+
+class FakeChain implements PaymentChain {
+  deposits: Array<{ transactionHash: string; blockNumber: number; amount: bigint }> = [];
+  depositCalls = 0;
+  failDeposits = 0;
+  onDeposit: (() => Promise<void>) | null = null;   // Runs once, during the next depositFor
+
+  async depositFor(userAddress: string, amount: bigint) {
+    this.depositCalls++;
+    const onDeposit = this.onDeposit;
+    this.onDeposit = null;
+    await onDeposit?.();
+
+    if (this.failDeposits > 0) {
+      this.failDeposits--;
+      throw new Error('execution reverted');
+    }
+
+    const transactionHash = `0xdeposit${this.depositCalls}`;
+    this.deposits.push({ transactionHash, blockNumber: 200 + this.depositCalls, amount });
+    return { hash: transactionHash };
+  }
+
+  async getTransactionBlockNumber(txHash: string) {
+    return txHash === '0xunmined' ? null : 100;
+  }
+
+  async getDepositForEvents(userAddress: string, fromBlock: number) {
+    return this.deposits.filter((deposit) => deposit.blockNumber >= fromBlock);
+  }
+}
+
+describe('ReconcilerService', () => {
+  let ledger: FilePaymentLedger;
+  let chain: FakeChain;
+  let clock: number;
+  let reconciler: ReconcilerService;
+  let payments: PaymentService;
+
+  const settle = (paymentId: string, amount = '5000000', facilitatorTxHash = '0xsettle') => {
+    ledger.create(paymentId, USER, amount);
+    ledger.transition(paymentId, 'verified');
+    ledger.transition(paymentId, 'settled', { facilitatorTxHash });
+  };
+
+  beforeEach(() => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-reconciler-')), 'payments.json');
+    ledger = new FilePaymentLedger(filePath);
+    chain = new FakeChain();
+    clock = Date.now();
+    payments = new PaymentService(chain, ledger);
+    reconciler = new ReconcilerService(
+      payments,
+      ledger,
+      { graceMs: 2 * MINUTE, baseDelayMs: MINUTE, maxDelayMs: 10 * MINUTE, maxAttempts: 3 },
+      () => clock
+    );
+  });
+
+  it('leaves fresh settlements to the in-flight request', async () => {
+    settle('pay_1');
+
+    assert.deepEqual(await reconciler.reconcile(), []);
+    assert.equal(chain.depositCalls, 0);
+  });
+
+  it('re-deposits a settled payment with no on-chain credit', async () => {
+    settle('pay_1');
+    clock += 3 * MINUTE;
+
+    const outcomes = await reconciler.reconcile();
+    const record = ledger.get('pay_1')!;
+
+    assert.deepEqual(outcomes.map((o) => o.outcome), ['redeposited']);
+    assert.equal(record.status, 'credited');
+    assert.equal(record.depositTxHash, '0xdeposit1');
+    assert.equal(record.reconciliation?.resolution, 'redeposited');
+  });
+
+  it('adopts an existing on-chain credit instead of depositing twice', async () => {
+    settle('pay_1');
+    chain.deposits.push({ transactionHash: '0xearlier', blockNumber: 150, amount: 5000000n });
+    clock += 3 * MINUTE;
+
+    const outcomes = await reconciler.reconcile();
+    const record = ledger.get('pay_1')!;
+
+    assert.deepEqual(outcomes.map((o) => o.outcome), ['found_onchain']);
+    assert.equal(chain.depositCalls, 0);
+    assert.equal(record.depositTxHash, '0xearlier');
+  });
+
+  it('does not reuse a deposit already claimed by another payment', async () => {
+    settle('pay_1');
+    ledger.transition('pay_1', 'credited', { depositTxHash: '0xearlier' });
+    settle('pay_2');
+    chain.deposits.push({ transactionHash: '0xearlier', blockNumber: 150, amount: 5000000n });
+    clock += 3 * MINUTE;
+
+    await reconciler.reconcile();
+
+    assert.equal(chain.depositCalls, 1);
+    assert.equal(ledger.get('pay_2')!.depositTxHash, '0xdeposit1');
+  });
+
+  it('skips a payment the API credited after the pass listed it', async () => {
+    settle('pay_1');
+    settle('pay_2');
+    clock += 3 * MINUTE;
+
+    // While the reconciler credits pay_1, /api/save resumes pay_2
+    chain.onDeposit = async () => {
+      await payments.resume(ledger.get('pay_2')!);
+    };
+
+    const outcomes = await reconciler.reconcile();
+
+    assert.deepEqual(outcomes.map((o) => [o.paymentId, o.outcome]), [['pay_1', 'redeposited']]);
+    assert.equal(chain.depositCalls, 2);
+    assert.equal(ledger.get('pay_2')!.depositTxHash, '0xdeposit2');
+  });
+
+  it('backs off exponentially and gives up after max attempts', async () => {
+    settle('pay_1');
+    chain.failDeposits = 10;
+    clock += 3 * MINUTE;
+
+    assert.deepEqual((await reconciler.reconcile()).map((o) => o.outcome), ['retry_scheduled']);
+
+    // Not due again until the first backoff (1 minute) has passed
+    assert.deepEqual(await reconciler.reconcile(), []);
+    clock += MINUTE;
+    assert.deepEqual((await reconciler.reconcile()).map((o) => o.outcome), ['retry_scheduled']);
+
+    // Second backoff is 2 minutes
+    clock += MINUTE;
+    assert.deepEqual(await reconciler.reconcile(), []);
+    clock += MINUTE;
+    assert.deepEqual((await reconciler.reconcile()).map((o) => o.outcome), ['gave_up']);
+
+    const record = ledger.get('pay_1')!;
+    assert.equal(record.status, 'settled');
+    assert.equal(record.error, 'execution reverted');
+    assert.equal(record.reconciliation?.attempts, 3);
+
+    clock += 60 * MINUTE;
+    assert.deepEqual(await reconciler.reconcile(), []);
+    assert.equal(chain.depositCalls, 3);
+  });
+
+  it('never credits a settlement that is not visible on-chain', async () => {
+    settle('pay_1', '5000000', '0xunmined');
+    clock += 3 * MINUTE;
+
+    const [outcome] = await reconciler.reconcile();
+
+    assert.equal(outcome.outcome, 'retry_scheduled');
+    assert.equal(chain.depositCalls, 0);
+    assert.equal(ledger.get('pay_1')!.status, 'settled');
+  });
+
+  it('gives up right away on a settlement simulated by the mock facilitator', async () => {
+    settle('pay_1', '5000000', `${SIMULATED_SETTLEMENT_PREFIX}${'ab'.repeat(24)}`);
+    clock += 3 * MINUTE;
+
+    const [outcome] = await reconciler.reconcile();
+
+    assert.equal(outcome.outcome, 'gave_up');
+    assert.match(outcome.error!, /simulated by the mock facilitator/);
+    assert.equal(chain.depositCalls, 0);
+    assert.equal(ledger.get('pay_1')!.reconciliation?.attempts, 1);
+  });
+});
+
+describe('PaymentService claims', () => {
+  it('lets one request at a time process a payment', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-reconciler-')), 'payments.json');
+    const first = new PaymentService(new FakeChain(), new FilePaymentLedger(filePath));
+    const second = new PaymentService(new FakeChain(), new FilePaymentLedger(filePath));
+
+    first.claim('pay_1');
+    assert.throws(() => second.claim('pay_1'), PaymentInFlightError);
+    second.claim('pay_2');
+
+    first.release('pay_1');
+    second.claim('pay_1');
+    second.release('pay_1');
+    second.release('pay_2');
+  });
+});
+
+describe('PaymentService with mock settlements', () => {
+  const simulated = `${SIMULATED_SETTLEMENT_PREFIX}${'ab'.repeat(24)}`;
+
+  const settledLedger = () => {
+    const ledger = new FilePaymentLedger(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-reconciler-')), 'payments.json'));
+    ledger.create('pay_1', USER, '5000000');
+    ledger.transition('pay_1', 'verified');
+    return { ledger, payment: ledger.transition('pay_1', 'settled', { facilitatorTxHash: simulated }) };
+  };
+
+  it('refuses to credit them unless allowed', async () => {
+    const { ledger, payment } = settledLedger();
+    const chain = new FakeChain();
+
+    await assert.rejects(new PaymentService(chain, ledger, { allowSimulated: false, chainId: 338 }).credit(payment), SimulatedSettlementError);
+    assert.equal(chain.depositCalls, 0);
+    assert.equal(ledger.get('pay_1')!.status, 'settled');
+
+    const credited = await new PaymentService(chain, ledger, { allowSimulated: true, chainId: 338 }).credit(payment);
+    assert.equal(credited.status, 'credited');
+  });
+
+  it('never credits them on mainnet', async () => {
+    const { ledger, payment } = settledLedger();
+    const chain = new FakeChain();
+
+    await assert.rejects(new PaymentService(chain, ledger, { allowSimulated: true, chainId: 25 }).credit(payment), SimulatedSettlementError);
+    assert.equal(chain.depositCalls, 0);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SaveProposalError, SaveProposalStore } from '../stores/save-proposal.store';
+
+/**
+ * Save proposal store tests
+ *
+ * Proposals are what the scheduler offers MANUAL accounts; these cover
+ * expiry and the checks /api/save relies on when one is accepted.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const proposalFor = (user: string, amount = '50000000') => ({
+  user,
+  amount,
+  reason: 'Comfortable margin above the safety buffer',
+  confidence: 0.8,
+  urgency: 'medium' as const,
+  strategy: 'balanced',
+});
+
+// Payment made at `startedAt` for USER's proposed amount
+const paymentFor = (paymentId: string, startedAt = NOW, overrides: { user?: string; amount?: string } = {}) => ({
+  paymentId,
+  user: USER,
+  amount: '50000000',
+  startedAt,
+  ...overrides,
+});
+
+const rejectsWith = (code: string) => (error: unknown) =>
+  error instanceof SaveProposalError && error.code === code;
+
+describe('SaveProposalStore', () => {
+  let filePath: string;
+  let store: SaveProposalStore;
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-proposals-'));
+    filePath = path.join(dir, 'proposals.json');
+    store = new SaveProposalStore(filePath, 24 * HOUR);
+  });
+
+  it('creates pending proposals that expire after the TTL', () => {
+    const proposal = store.create(proposalFor(USER), NOW);
+
+    assert.equal(proposal.status, 'pending');
+    assert.equal(proposal.expiresAt, new Date(NOW + 24 * HOUR).toISOString());
+    assert.equal(store.getPending(USER, NOW + HOUR)?.id, proposal.id);
+
+    assert.equal(store.get(proposal.id, NOW + 24 * HOUR)?.status, 'expired');
+    assert.equal(store.getPending(USER, NOW + 24 * HOUR), undefined);
+  });
+
+  it("lists a user's proposals newest first and survives a restart", () => {
+    const first = store.create(proposalFor(USER), NOW);
+    store.create(proposalFor(OTHER), NOW);
+    const second = store.create(proposalFor(USER), NOW + HOUR);
+
+    const reloaded = new SaveProposalStore(filePath, 24 * HOUR);
+    assert.deepEqual(
+      reloaded.listByUser(USER.toLowerCase(), NOW + HOUR).map((proposal) => proposal.id),
+      [second.id, first.id]
+    );
+  });
+
+  it('only accepts a pending proposal for the same user and amount', () => {
+    const proposal = store.create(proposalFor(USER), NOW);
+
+    assert.equal(store.assertAcceptable(proposal.id, USER, '50000000', NOW).id, proposal.id);
+    assert.throws(() => store.assertAcceptable(proposal.id, OTHER, '50000000', NOW), rejectsWith('proposal_not_found'));
+    assert.throws(() => store.assertAcceptable('prop_missing', USER, '50000000', NOW), rejectsWith('proposal_not_found'));
+    assert.throws(() => store.assertAcceptable(proposal.id, USER, '60000000', NOW), rejectsWith('proposal_amount_mismatch'));
+    assert.throws(
+      () => store.assertAcceptable(proposal.id, USER, '50000000', NOW + 25 * HOUR),
+      rejectsWith('proposal_expired')
+    );
+  });
+
+  it('records the payment that accepted it', () => {
+    const proposal = store.create(proposalFor(USER), NOW);
+
+    const accepted = store.accept(proposal.id, { ...paymentFor('pay_1'), depositTxHash: '0xdeposit' });
+
+    assert.equal(accepted?.status, 'accepted');
+    assert.equal(accepted?.paymentId, 'pay_1');
+    assert.equal(accepted?.depositTxHash, '0xdeposit');
+    assert.throws(() => store.assertAcceptable(proposal.id, USER, '50000000', NOW), rejectsWith('proposal_not_pending'));
+
+    // Resuming the same payment is a no-op, another payment can't take it over
+    assert.equal(store.accept(proposal.id, paymentFor('pay_1')).paymentId, 'pay_1');
+    assert.throws(() => store.accept(proposal.id, paymentFor('pay_2')), rejectsWith('proposal_not_pending'));
+  });
+
+  it('accepts a paid proposal even after it expired', () => {
+    const proposal = store.create(proposalFor(USER), NOW);
+
+    // The payment settled before expiry but was credited later
+    assert.equal(store.accept(proposal.id, paymentFor('pay_1', NOW + HOUR)).status, 'accepted');
+    assert.equal(store.get(proposal.id, NOW + 48 * HOUR)?.status, 'accepted');
+  });
+
+  it('does not let a resumed payment accept a proposal it was not made for', () => {
+    const proposal = store.create(proposalFor(USER), NOW);
+
+    assert.throws(() => store.accept(proposal.id, paymentFor('pay_1', NOW, { user: OTHER })), rejectsWith('proposal_not_found'));
+    assert.throws(() => store.accept(proposal.id, paymentFor('pay_1', NOW, { amount: '60000000' })), rejectsWith('proposal_amount_mismatch'));
+
+    // Started after the proposal expired
+    assert.throws(() => store.accept(proposal.id, paymentFor('pay_1', NOW + 25 * HOUR)), rejectsWith('proposal_expired'));
+
+    store.dismiss(proposal.id, USER, NOW + HOUR);
+    assert.throws(() => store.accept(proposal.id, paymentFor('pay_1')), rejectsWith('proposal_not_pending'));
+    assert.equal(store.get(proposal.id, NOW + HOUR)?.status, 'dismissed');
+  });
+
+  it("dismisses only the owner's pending proposals", () => {
+    const proposal = store.create(proposalFor(USER), NOW);
+
+    assert.throws(() => store.dismiss(proposal.id, OTHER, NOW), rejectsWith('proposal_not_found'));
+
+    const dismissed = store.dismiss(proposal.id, USER, NOW);
+    assert.equal(dismissed.status, 'dismissed');
+    assert.equal(store.getPending(USER, NOW), undefined);
+
+    assert.throws(() => store.dismiss(proposal.id, USER, NOW), rejectsWith('proposal_not_pending'));
+
+    const expired = store.create(proposalFor(USER), NOW);
+    assert.throws(() => store.dismiss(expired.id, USER, NOW + 25 * HOUR), rejectsWith('proposal_not_pending'));
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DecisionEngine, splitAcrossPots } from '../agent/decision-engine';
+import { SavingsPotTarget, UserFinancialState } from '../agent/types';
+import { SavingsPotService } from '../services/savings-pot.service';
+import { DecisionHistoryStore } from '../stores/decision-history.store';
+import { UserPreferencesStore } from '../stores/user-preferences.store';
+import { IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Savings pot tests
+ *
+ * Splitting a save across named goals by priority and deadline, and
+ * keeping each pot's savings in step with vault deposits and withdrawals.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const DAY = 24 * 60 * 60;
+const NOW = Date.parse('2026-03-01T00:00:00Z');
+const USDC = 1_000_000n;
+
+const pot = (id: string, overrides: Partial<SavingsPotTarget> = {}): SavingsPotTarget => ({
+  id,
+  name: id,
+  targetAmount: 1000n * USDC,
+  savedAmount: 0n,
+  priority: 'medium',
+  ...overrides,
+});
+
+const state: UserFinancialState = {
+  walletBalance: 500n * USDC,
+  currentSavings: 0n,
+  weeklyGoal: 50n * USDC,
+  safetyBuffer: 100n * USDC,
+  lastSaveTimestamp: 0n,
+  trustMode: 'AUTO',
+  isActive: true,
+  canAutoSave: true,
+  timeSinceLastSave: 48,
+};
+
+const vaultEvent = (name: VaultEventName, blockTimestamp: number, args: Record<string, string>): IndexedVaultEvent => ({
+  id: `0xtx-${name}-${blockTimestamp}-0`,
+  name,
+  user: USER,
+  args: { user: USER, ...args },
+  blockNumber: 1000,
+  blockHash: '0xblock',
+  blockTimestamp,
+  transactionHash: `0xtx-${name}-${blockTimestamp}`,
+  logIndex: 0,
+});
+
+describe('splitAcrossPots', () => {
+  it('splits by priority', () => {
+    const split = splitAcrossPots(40n * USDC, [pot('vacation', { priority: 'low' }), pot('emergency', { priority: 'high' })], NOW);
+
+    assert.deepEqual(split.map((allocation) => [allocation.potId, allocation.amount]), [
+      ['vacation', 10n * USDC],
+      ['emergency', 30n * USDC],
+    ]);
+  });
+
+  it('weights pots with a close deadline higher', () => {
+    const split = splitAcrossPots(
+      11n * USDC,
+      [pot('emergency', { priority: 'high' }), pot('rent', { deadline: NOW / 1000 + 10 * DAY })],
+      NOW
+    );
+
+    // medium (2) x 4 deadline pressure vs high (3)
+    assert.deepEqual(split.map((allocation) => allocation.amount), [3n * USDC, 8n * USDC]);
+  });
+
+  it('caps pots at what they still need and leaves the rest unallocated', () => {
+    const pots = [
+      pot('emergency', { priority: 'high', targetAmount: 10n * USDC, savedAmount: 5n * USDC }),
+      pot('vacation', { priority: 'low', targetAmount: 100n * USDC }),
+      pot('done', { targetAmount: 10n * USDC, savedAmount: 10n * USDC }),
+    ];
+
+    assert.deepEqual(splitAcrossPots(20n * USDC, pots, NOW).map((allocation) => allocation.amount), [5n * USDC, 15n * USDC]);
+    assert.deepEqual(splitAcrossPots(200n * USDC, pots, NOW).map((allocation) => allocation.amount), [5n * USDC, 100n * USDC]);
+  });
+
+  it('never allocates more than the save, rounding dust included', () => {
+    const pots = [pot('a'), pot('b', { priority: 'high' }), pot('c', { priority: 'low', deadline: NOW / 1000 + 45 * DAY })];
+    const split = splitAcrossPots(7n, pots, NOW);
+
+    assert.equal(split.reduce((total, allocation) => total + allocation.amount, 0n), 7n);
+  });
+});
+
+describe('DecisionEngine with pots', () => {
+  it('splits the save and records the split in decision history', () => {
+    const engine = new DecisionEngine(
+      { pots: [pot('emergency', { name: 'Emergency fund', priority: 'high' }), pot('vacation', { name: 'Vacation', priority: 'low' })] },
+      { verbose: false, now: () => NOW }
+    );
+
+    const decision = engine.decide(state);
+
+    assert.equal(decision.amount, 50n * USDC);
+    assert.deepEqual(decision.allocations?.map((allocation) => allocation.amount), [37_500_000n, 12_500_000n]);
+    assert.match(decision.reason, /Split: 37\.50 USDC to Emergency fund, 12\.50 USDC to Vacation/);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-pots-'));
+    const record = new DecisionHistoryStore(path.join(dir, 'decisions')).record(
+      USER, 'scheduler', 'balanced', state, decision, { action: 'executed' }
+    );
+
+    assert.deepEqual(record.allocations, [
+      { potId: 'emergency', name: 'Emergency fund', amount: '37500000' },
+      { potId: 'vacation', name: 'Vacation', amount: '12500000' },
+    ]);
+  });
+
+  it('leaves decisions without pots unchanged', () => {
+    const decision = new DecisionEngine({}, { verbose: false, now: () => NOW }).decide(state);
+
+    assert.equal(decision.allocations, undefined);
+    assert.doesNotMatch(decision.reason, /Split/);
+  });
+});
+
+describe('SavingsPotService', () => {
+  let store: UserPreferencesStore;
+  let service: SavingsPotService;
+  let createdAt: number;
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-pots-'));
+    store = new UserPreferencesStore(path.join(dir, 'preferences.json'));
+    service = new SavingsPotService(store);
+
+    store.setPots(USER, [
+      { name: 'Emergency fund', targetAmount: (100n * USDC).toString(), priority: 'high' },
+      { name: 'Vacation', targetAmount: (500n * USDC).toString(), priority: 'low' },
+    ], 1);
+    createdAt = Math.floor(Date.now() / 1000);
+  });
+
+  const saved = () => store.getPots(USER)!.pots.map((candidate) => BigInt(candidate.savedAmount));
+
+  it('feeds the pots into the decision context without other preferences', () => {
+    const context = store.getDecisionContext(USER);
+
+    assert.equal(context.strategy, undefined);
+    assert.deepEqual(context.pots?.map((target) => target.name), ['Emergency fund', 'Vacation']);
+  });
+
+  it('credits deposits and auto-saves once each', () => {
+    const deposit = vaultEvent('Deposited', createdAt + 60, { amount: (40n * USDC).toString(), newBalance: (40n * USDC).toString() });
+
+    service.handleVaultEvents([deposit]);
+    service.handleVaultEvents([deposit]);
+    service.handleVaultEvents([vaultEvent('AutoSaveExecuted', createdAt + DAY, { amount: (4n * USDC).toString(), triggeredBy: USER })]);
+
+    assert.deepEqual(saved(), [33n * USDC, 11n * USDC]);
+  });
+
+  it('ignores saves made before a pot existed', () => {
+    service.handleVaultEvents([vaultEvent('Deposited', createdAt - DAY, { amount: (40n * USDC).toString(), newBalance: (40n * USDC).toString() })]);
+
+    assert.deepEqual(saved(), [0n, 0n]);
+  });
+
+  it('keeps savings when a pot is edited and drops removed pots', () => {
+    service.handleVaultEvents([vaultEvent('Deposited', createdAt + 60, { amount: (40n * USDC).toString(), newBalance: (40n * USDC).toString() })]);
+    const [emergency] = store.getPots(USER)!.pots;
+
+    const updated = store.setPots(USER, [
+      { id: emergency.id, name: 'Rainy day', targetAmount: (200n * USDC).toString(), priority: 'high' },
+    ], 2);
+
+    assert.equal(updated.pots.length, 1);
+    assert.equal(updated.pots[0].name, 'Rainy day');
+    assert.equal(updated.pots[0].savedAmount, (30n * USDC).toString());
+  });
+
+  it('takes withdrawals beyond general savings out of the lowest priority pots first', () => {
+    service.handleVaultEvents([vaultEvent('Deposited', createdAt + 60, { amount: (40n * USDC).toString(), newBalance: (50n * USDC).toString() })]);
+
+    // 50 in the vault, 40 in pots: the first 10 come out of general savings
+    service.handleVaultEvents([vaultEvent('Withdrawn', createdAt + DAY, { amount: (25n * USDC).toString(), newBalance: (25n * USDC).toString() })]);
+
+    assert.deepEqual(saved(), [25n * USDC, 0n]);
+  });
+});
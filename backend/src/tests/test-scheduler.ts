@@ -0,0 +1,386 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { SchedulerService, SchedulerChain } from '../services/scheduler.service';
+import { AutoSaveExecutionStore } from '../stores/auto-save-execution.store';
+import { UserPreferencesStore } from '../stores/user-preferences.store';
+import { DecisionHistoryStore } from '../stores/decision-history.store';
+import { IndexedVaultEvent } from '../stores/vault-event.store';
+import { SaveProposalStore } from '../stores/save-proposal.store';
+import { DecisionStrategy } from '../agent/types';
+import { NotificationEvent } from '../services/notifier.service';
+
+/**
+ * Scheduler autoSave tests
+ *
+ * A fake chain stands in for the vault so allowance, canAutoSave and
+ * vault reverts can be scripted.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const usdc = (amount: number) => BigInt(amount * 1_000_000);
+
+// Encoded custom error, as returned by the RPC in a revert
+const vaultRevert = (name: string) =>
+  Object.assign(new Error('execution reverted'), { data: ethers.id(`${name}()`).slice(0, 10) });
+
+class FakeVault implements SchedulerChain {
+  walletBalance = usdc(1000);
+  weeklyGoal = usdc(50);
+  safetyBuffer = usdc(100);
+  allowance = usdc(1000);
+  canSave = true;
+  trustMode = 1n;
+  autoSaveError: Error | null = null;
+  autoSaves: Array<{ user: string; amount: bigint }> = [];
+
+  async getUserAccount(userAddress: string) {
+    return {
+      totalDeposited: 0n,
+      totalWithdrawn: 0n,
+      currentBalance: 0n,
+      weeklyGoal: this.weeklyGoal,
+      safetyBuffer: this.safetyBuffer,
+      lastSaveTimestamp: 0n,
+      isActive: true,
+      trustMode: this.trustMode,
+    };
+  }
+
+  async canAutoSave(userAddress: string) {
+    return this.canSave;
+  }
+
+  async getWalletUsdcBalance(userAddress: string) {
+    return this.walletBalance;
+  }
+
+  async getVaultAllowance(userAddress: string) {
+    return this.allowance;
+  }
+
+  async autoSave(userAddress: string, amount: bigint) {
+    if (this.autoSaveError) throw this.autoSaveError;
+    this.autoSaves.push({ user: userAddress, amount });
+    return { hash: `0xautosave${this.autoSaves.length}` };
+  }
+}
+
+describe('SchedulerService autoSave', () => {
+  let vault: FakeVault;
+  let notifications: NotificationEvent[];
+  let executions: AutoSaveExecutionStore;
+  let preferences: UserPreferencesStore;
+  let decisions: DecisionHistoryStore;
+  let proposals: SaveProposalStore;
+  let scheduler: SchedulerService;
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-scheduler-'));
+    vault = new FakeVault();
+    executions = new AutoSaveExecutionStore(path.join(dir, 'executions.json'));
+    preferences = new UserPreferencesStore(path.join(dir, 'preferences.json'));
+    decisions = new DecisionHistoryStore(path.join(dir, 'decisions'));
+    proposals = new SaveProposalStore(path.join(dir, 'proposals.json'));
+    notifications = [];
+    scheduler = new SchedulerService(
+      { getActiveAutoAccounts: () => [USER], getActiveManualAccounts: () => [] },
+      vault,
+      executions,
+      preferences,
+      decisions,
+      null,
+      proposals,
+      { notify: async (event) => (notifications.push(event), []) }
+    );
+  });
+
+  it('executes a SAVE decision through autoSave and records it', async () => {
+    const execution = await scheduler.checkAndSaveForUser(USER);
+
+    assert.equal(execution?.status, 'executed');
+    assert.equal(execution?.txHash, '0xautosave1');
+    assert.deepEqual(vault.autoSaves, [{ user: USER, amount: usdc(50) }]);
+    assert.equal(execution?.decision.amount, usdc(50).toString());
+    assert.equal(execution?.decision.strategy, 'balanced');
+    assert.equal(executions.listByUser(USER).length, 1);
+
+    const [recorded] = decisions.query(USER).items;
+    assert.equal(recorded.action, 'executed');
+    assert.equal(recorded.txHash, '0xautosave1');
+    assert.equal(recorded.executionId, execution?.id);
+    assert.equal(recorded.state.walletBalance, usdc(1000).toString());
+  });
+
+  it('skips when the vault is not approved for the amount', async () => {
+    vault.allowance = usdc(10);
+
+    const execution = await scheduler.checkAndSaveForUser(USER);
+
+    assert.equal(execution?.status, 'skipped');
+    assert.equal(execution?.skipReason, 'insufficient_allowance');
+    assert.equal(vault.autoSaves.length, 0);
+    assert.equal(decisions.query(USER).items[0].actionReason, 'insufficient_allowance');
+  });
+
+  it('treats SaveIntervalNotMet as a skip, not a failure', async () => {
+    vault.autoSaveError = vaultRevert('SavingsVault__SaveIntervalNotMet');
+
+    const execution = await scheduler.checkAndSaveForUser(USER);
+
+    assert.equal(execution?.status, 'skipped');
+    assert.equal(execution?.skipReason, 'save_interval_not_met');
+  });
+
+  it('clamps to the vault max and handles AmountExceedsLimit', async () => {
+    vault.walletBalance = usdc(50_000);
+    vault.weeklyGoal = usdc(20_000);
+    vault.allowance = usdc(50_000);
+
+    const clamped = await scheduler.checkAndSaveForUser(USER);
+    assert.equal(clamped?.amount, usdc(10_000).toString());
+    assert.equal(clamped?.decision.amount, usdc(20_000).toString());
+
+    vault.autoSaveError = vaultRevert('SavingsVault__AmountExceedsLimit');
+    const rejected = await scheduler.checkAndSaveForUser(USER);
+    assert.equal(rejected?.skipReason, 'amount_exceeds_limit');
+  });
+
+  it('records unexpected reverts as failures', async () => {
+    vault.autoSaveError = vaultRevert('SavingsVault__UnauthorizedCaller');
+
+    const execution = await scheduler.checkAndSaveForUser(USER);
+
+    assert.equal(execution?.status, 'failed');
+    assert.equal(execution?.error, 'SavingsVault__UnauthorizedCaller');
+  });
+
+  it('does nothing for SKIP decisions', async () => {
+    vault.canSave = false;
+
+    assert.equal(await scheduler.checkAndSaveForUser(USER), null);
+    assert.equal(executions.getCount(), 0);
+
+    const [recorded] = decisions.query(USER).items;
+    assert.equal(recorded.shouldSave, false);
+    assert.equal(recorded.action, 'skipped');
+  });
+
+  it('hands each recorded decision to decision listeners', async () => {
+    const recorded: string[] = [];
+    scheduler.onDecision((record) => recorded.push(record.action));
+    scheduler.onDecision(() => {
+      throw new Error('listener broke');
+    });
+
+    await scheduler.checkAndSaveForUser(USER);
+    vault.canSave = false;
+    await scheduler.checkAndSaveForUser(USER);
+
+    assert.deepEqual(recorded, ['executed', 'skipped']);
+  });
+
+  it("applies the user's stored strategy and thresholds", async () => {
+    preferences.set({
+      address: USER,
+      strategy: DecisionStrategy.CONSERVATIVE,
+      minSaveAmount: usdc(5).toString(),
+      maxSavePercentage: 0.5,
+      signedAt: 1,
+    });
+    vault.weeklyGoal = usdc(500);
+
+    const execution = await scheduler.checkAndSaveForUser(USER);
+
+    // Conservative: 25% of (1000 - 100) available
+    assert.equal(execution?.decision.strategy, 'conservative');
+    assert.equal(execution?.amount, usdc(225).toString());
+  });
+
+  describe('MANUAL proposals', () => {
+    beforeEach(() => {
+      vault.trustMode = 0n;
+    });
+
+    it('proposes the strategy amount instead of calling autoSave', async () => {
+      const proposal = await scheduler.proposeForUser(USER);
+
+      assert.equal(proposal?.status, 'pending');
+      assert.equal(proposal?.amount, usdc(50).toString());
+      assert.equal(proposal?.strategy, 'balanced');
+      assert.equal(vault.autoSaves.length, 0);
+      assert.equal(executions.getCount(), 0);
+
+      const [recorded] = decisions.query(USER).items;
+      assert.equal(recorded.action, 'proposed');
+      assert.equal(recorded.proposalId, proposal?.id);
+    });
+
+    it('does not stack proposals while one is open', async () => {
+      const first = await scheduler.proposeForUser(USER);
+
+      assert.equal(await scheduler.proposeForUser(USER), null);
+      assert.equal(proposals.listByUser(USER).length, 1);
+
+      proposals.dismiss(first!.id, USER);
+      assert.notEqual(await scheduler.proposeForUser(USER), null);
+    });
+
+    it('proposes nothing when the strategy skips', async () => {
+      vault.canSave = false;
+
+      assert.equal(await scheduler.proposeForUser(USER), null);
+      assert.equal(proposals.listByUser(USER).length, 0);
+      assert.equal(decisions.query(USER).items[0].action, 'skipped');
+    });
+
+    it('still never autoSaves a MANUAL account', async () => {
+      assert.equal(await scheduler.checkAndSaveForUser(USER), null);
+      assert.equal(vault.autoSaves.length, 0);
+      assert.match(decisions.query(USER).items[0].reason, /MANUAL mode - requires user approval/);
+    });
+  });
+
+  describe('notifications', () => {
+    it('notifies executed and skipped autoSaves', async () => {
+      await scheduler.checkAndSaveForUser(USER);
+      vault.allowance = usdc(10);
+      await scheduler.checkAndSaveForUser(USER);
+
+      assert.deepEqual(notifications, [
+        { type: 'save_executed', user: USER, amount: '50.0', source: 'auto_save', txHash: '0xautosave1' },
+        { type: 'save_skipped', user: USER, amount: '50.0', skipReason: 'insufficient_allowance' },
+      ]);
+    });
+
+    it('reports the same skip or failure once until the reason changes or a save succeeds', async () => {
+      vault.allowance = usdc(10);
+      await scheduler.checkAndSaveForUser(USER);
+      await scheduler.checkAndSaveForUser(USER);
+
+      assert.deepEqual(notifications, [
+        { type: 'save_skipped', user: USER, amount: '50.0', skipReason: 'insufficient_allowance' },
+      ]);
+
+      vault.allowance = usdc(1000);
+      vault.autoSaveError = vaultRevert('SavingsVault__UnauthorizedCaller');
+      await scheduler.checkAndSaveForUser(USER);
+      await scheduler.checkAndSaveForUser(USER);
+
+      vault.autoSaveError = null;
+      await scheduler.checkAndSaveForUser(USER);
+      vault.allowance = usdc(10);
+      await scheduler.checkAndSaveForUser(USER);
+
+      assert.deepEqual(notifications.map((event) => event.type), ['save_skipped', 'save_failed', 'save_executed', 'save_skipped']);
+    });
+
+    it('warns about a low balance once until it recovers', async () => {
+      vault.walletBalance = usdc(40);
+      await scheduler.checkAndSaveForUser(USER);
+      await scheduler.checkAndSaveForUser(USER);
+
+      assert.deepEqual(notifications, [
+        { type: 'low_balance', user: USER, walletBalance: '40.0', safetyBuffer: '100.0' },
+      ]);
+
+      vault.walletBalance = usdc(1000);
+      vault.canSave = false;
+      await scheduler.checkAndSaveForUser(USER);
+      vault.walletBalance = usdc(40);
+      await scheduler.checkAndSaveForUser(USER);
+
+      assert.equal(notifications.filter((event) => event.type === 'low_balance').length, 2);
+    });
+
+    it('notifies new proposals', async () => {
+      vault.trustMode = 0n;
+
+      const proposal = await scheduler.proposeForUser(USER);
+
+      assert.deepEqual(notifications, [
+        {
+          type: 'proposal_created',
+          user: USER,
+          proposalId: proposal!.id,
+          amount: '50.0',
+          reason: proposal!.reason,
+          expiresAt: proposal!.expiresAt,
+        },
+      ]);
+    });
+  });
+
+  describe('safety buffer changes', () => {
+    const NOW = Date.parse('2026-01-01T00:00:00Z');
+    const OTHER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+    const bufferUpdated = (user: string, newSafetyBuffer: bigint, secondsAgo: number): IndexedVaultEvent => ({
+      id: `0xtx-${user}-${secondsAgo}`,
+      name: 'SafetyBufferUpdated',
+      user,
+      args: { user, newSafetyBuffer: newSafetyBuffer.toString() },
+      blockNumber: 100,
+      blockHash: '0xblock',
+      blockTimestamp: NOW / 1000 - secondsAgo,
+      transactionHash: '0xtx',
+      logIndex: 0,
+    });
+
+    it('re-checks an AUTO account right away with the new buffer', async () => {
+      vault.safetyBuffer = usdc(980);
+
+      await scheduler.handleVaultEvents([bufferUpdated(USER, usdc(980), 30)], NOW);
+
+      // Only 20 USDC above the new buffer: 50% of it
+      assert.deepEqual(vault.autoSaves, [{ user: USER, amount: usdc(10) }]);
+      assert.equal(decisions.query(USER).items[0].state.safetyBuffer, usdc(980).toString());
+    });
+
+    it('checks each user once per batch', async () => {
+      await scheduler.handleVaultEvents([bufferUpdated(USER, usdc(200), 60), bufferUpdated(USER, usdc(100), 30)], NOW);
+
+      assert.equal(decisions.query(USER).total, 1);
+    });
+
+    it('ignores non-AUTO accounts, stale changes and other events', async () => {
+      await scheduler.handleVaultEvents(
+        [
+          bufferUpdated(OTHER, usdc(100), 30),
+          bufferUpdated(USER, usdc(100), 60 * 60),
+          { ...bufferUpdated(USER, usdc(100), 30), name: 'Deposited' },
+        ],
+        NOW
+      );
+
+      assert.equal(decisions.query(USER).total, 0);
+      assert.equal(vault.autoSaves.length, 0);
+    });
+
+    it('re-checks once a check that was already running finishes', async () => {
+      vault.safetyBuffer = usdc(980);
+
+      const [scheduled] = await Promise.all([
+        scheduler.checkAndSaveForUser(USER),
+        scheduler.handleVaultEvents([bufferUpdated(USER, usdc(980), 30)], NOW),
+      ]);
+
+      assert.equal(scheduled?.status, 'executed');
+      assert.equal(decisions.query(USER).total, 2);
+    });
+
+    it('skips a user whose check is already running', async () => {
+      const [first, second] = await Promise.all([
+        scheduler.checkAndSaveForUser(USER),
+        scheduler.checkAndSaveForUser(USER),
+      ]);
+
+      assert.equal(first?.status, 'executed');
+      assert.equal(second, null);
+      assert.equal(vault.autoSaves.length, 1);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  buildSignedMessage,
+  canonicalJson,
+  SignedRequestError,
+  verifySignedRequest,
+} from '../services/signed-request.service';
+
+/**
+ * Signed request tests
+ *
+ * Wallets sign with personal_sign (EIP-191), as MetaMask does.
+ */
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+const TIMESTAMP = NOW / 1000;
+const payload = { strategy: 'aggressive', minSaveAmount: '2', maxSavePercentage: 0.8 };
+
+const sign = (wallet: ethers.HDNodeWallet, address: string, timestamp = TIMESTAMP, body: unknown = payload) =>
+  wallet.signMessage(buildSignedMessage('update-preferences', address, body, timestamp));
+
+const codeOf = (fn: () => void) => {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof SignedRequestError);
+    return error.code;
+  }
+  return null;
+};
+
+describe('verifySignedRequest', () => {
+  const owner = ethers.Wallet.createRandom();
+
+  it('serializes payloads independent of key order', () => {
+    assert.equal(canonicalJson({ b: 1, a: { d: [1, 'x'], c: null } }), '{"a":{"c":null,"d":[1,"x"]},"b":1}');
+  });
+
+  it("accepts the owner's signature", async () => {
+    const signature = await sign(owner, owner.address);
+    const request = { action: 'update-preferences', address: owner.address, payload, timestamp: TIMESTAMP, signature };
+
+    assert.equal(codeOf(() => verifySignedRequest(request, 0, NOW)), null);
+  });
+
+  it('rejects a signature from another wallet or over other data', async () => {
+    const other = ethers.Wallet.createRandom();
+    const forged = await sign(other, owner.address);
+    const tampered = await sign(owner, owner.address, TIMESTAMP, { ...payload, maxSavePercentage: 1 });
+
+    for (const signature of [forged, tampered]) {
+      const request = { action: 'update-preferences', address: owner.address, payload, timestamp: TIMESTAMP, signature };
+      assert.equal(codeOf(() => verifySignedRequest(request, 0, NOW)), 'invalid_signature');
+    }
+  });
+
+  it('rejects stale and replayed signatures', async () => {
+    const stale = TIMESTAMP - 3600;
+    const staleRequest = {
+      action: 'update-preferences',
+      address: owner.address,
+      payload,
+      timestamp: stale,
+      signature: await sign(owner, owner.address, stale),
+    };
+    assert.equal(codeOf(() => verifySignedRequest(staleRequest, 0, NOW)), 'signature_expired');
+
+    const request = {
+      action: 'update-preferences',
+      address: owner.address,
+      payload,
+      timestamp: TIMESTAMP,
+      signature: await sign(owner, owner.address),
+    };
+    assert.equal(codeOf(() => verifySignedRequest(request, TIMESTAMP, NOW)), 'signature_replayed');
+  });
+
+  it('requires a signature', () => {
+    const request = { action: 'update-preferences', address: owner.address, payload, timestamp: TIMESTAMP, signature: '' };
+    assert.equal(codeOf(() => verifySignedRequest(request, 0, NOW)), 'missing_signature');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createSampleScenario,
+  parseScenario,
+  parseStrategies,
+  simulateStrategies,
+  simulateStrategy,
+  SimulationInputError,
+  SimulationScenario,
+} from '../agent/simulator';
+import { DecisionStrategy } from '../agent/types';
+
+/**
+ * Strategy simulator tests
+ */
+
+const usdc = (amount: number) => BigInt(amount * 1_000_000);
+
+const scenario = (overrides: Partial<SimulationScenario> = {}): SimulationScenario => ({
+  durationHours: 24 * 14,
+  startingBalance: usdc(1000),
+  weeklyGoal: usdc(50),
+  safetyBuffer: usdc(100),
+  cashFlows: [],
+  recurring: [],
+  ...overrides,
+});
+
+describe('simulateStrategy', () => {
+  it('saves at most once per 24h', () => {
+    const result = simulateStrategy(
+      scenario({ durationHours: 72, weeklyGoal: usdc(1000) }),
+      { strategy: DecisionStrategy.BALANCED }
+    );
+
+    // Hours 0, 24 and 48, each 50% of what's above the buffer
+    assert.equal(result.saveCount, 3);
+    assert.equal(result.totalSaved, usdc(787.5));
+    assert.equal(result.finalWalletBalance, usdc(212.5));
+    assert.equal(result.finalSavings, usdc(787.5));
+  });
+
+  it('never saves more than the weekly goal in one week', () => {
+    const result = simulateStrategy(scenario({ durationHours: 24 * 14 }), { strategy: DecisionStrategy.AGGRESSIVE });
+
+    // One 50 USDC save fills each week's goal
+    assert.equal(result.saveCount, 2);
+    assert.equal(result.totalSaved, usdc(100));
+    assert.equal(result.weeksGoalHit, 2);
+  });
+
+  it('counts buffer breaches and drawdown from outflows', () => {
+    const result = simulateStrategy(
+      scenario({
+        durationHours: 48,
+        startingBalance: usdc(150),
+        cashFlows: [
+          { hour: 5, amount: usdc(-150) },
+          { hour: 10, amount: usdc(150) },
+          { hour: 20, amount: usdc(-300) },
+        ],
+      }),
+      { strategy: DecisionStrategy.CONSERVATIVE }
+    );
+
+    // 150 -> 0 (breach) -> 150 -> -150 (breach); never 2x buffer, so no saves
+    assert.equal(result.saveCount, 0);
+    assert.equal(result.bufferBreaches, 2);
+    assert.equal(result.hoursBelowBuffer, 5 + 28);
+    assert.equal(result.maxDrawdown, usdc(300));
+    assert.equal(result.maxDrawdownPercentage, 2);
+    assert.equal(result.minWalletBalance, usdc(-150));
+  });
+
+  it('measures the weekly goal hit rate over complete weeks only', () => {
+    // Money runs low in the second week; the partial third week is ignored
+    const result = simulateStrategy(
+      scenario({ durationHours: 24 * 17, startingBalance: usdc(250), weeklyGoal: usdc(100) }),
+      { strategy: DecisionStrategy.AGGRESSIVE }
+    );
+
+    assert.equal(result.weeksEvaluated, 2);
+    assert.equal(result.weeksGoalHit, 1);
+    assert.equal(result.weeklyGoalHitRate, 0.5);
+  });
+
+  it('compares every strategy on the sample scenario', () => {
+    const results = simulateStrategies(createSampleScenario());
+    const saved = Object.fromEntries(results.map((r) => [r.strategy, r.totalSaved]));
+
+    assert.deepEqual(results.map((r) => r.strategy), Object.values(DecisionStrategy));
+    assert.ok(saved.aggressive >= saved.balanced);
+    assert.ok(saved.balanced >= saved.conservative);
+  });
+});
+
+describe('parseScenario', () => {
+  it('parses USDC amounts and recurring flows', () => {
+    const parsed = parseScenario({
+      durationHours: 336,
+      startingBalance: '500',
+      weeklyGoal: 50,
+      safetyBuffer: '100.5',
+      cashFlows: [{ hour: 30, amount: '-120', label: 'car repair' }],
+      recurring: [{ amount: '1500', everyHours: 336, label: 'salary' }],
+    });
+
+    assert.equal(parsed.safetyBuffer, 100_500_000n);
+    assert.equal(parsed.cashFlows[0].amount, usdc(-120));
+    assert.equal(parsed.recurring[0].everyHours, 336);
+  });
+
+  it('rejects invalid scenarios', () => {
+    const valid = { durationHours: 24, startingBalance: '1', weeklyGoal: '1', safetyBuffer: '0' };
+
+    for (const input of [
+      null,
+      { ...valid, durationHours: 0 },
+      { ...valid, durationHours: 100_000 },
+      { ...valid, weeklyGoal: 'lots' },
+      { ...valid, cashFlows: [{ hour: -1, amount: '1' }] },
+      { ...valid, recurring: [{ amount: '1', everyHours: 0 }] },
+    ]) {
+      assert.throws(() => parseScenario(input), SimulationInputError);
+    }
+
+    assert.throws(() => parseStrategies(['yolo']), SimulationInputError);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StatementService, toStatementCsv } from '../services/statement.service';
+import { FilePaymentLedger } from '../stores/payment-ledger.store';
+import { IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Statement tests
+ *
+ * Alice opens 2026 with 100 USDC saved (deposited in December and moved
+ * to yield), then auto-saves, pays in through x402, unwinds half of her
+ * yield position at a loss and withdraws. A 2027 withdrawal is outside
+ * the period.
+ */
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const DAY = 24 * 60 * 60;
+const START = Date.parse('2026-01-01T00:00:00Z') / 1000;
+const YEAR_2026 = [Date.parse('2026-01-01T00:00:00Z'), Date.parse('2027-01-01T00:00:00Z')] as const;
+
+const vaultEvent = (
+  name: VaultEventName,
+  day: number,
+  args: Record<string, string>,
+  transactionHash = `0xtx-${name}-${day}`
+): IndexedVaultEvent => ({
+  id: `${transactionHash}-0`,
+  name,
+  user: ALICE,
+  args: { user: ALICE, ...args },
+  blockNumber: 1000 + day,
+  blockHash: '0xblock',
+  blockTimestamp: START + day * DAY,
+  transactionHash,
+  logIndex: 0,
+});
+
+describe('StatementService', () => {
+  let ledger: FilePaymentLedger;
+  let statements: StatementService;
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigment-statement-'));
+    ledger = new FilePaymentLedger(path.join(dir, 'payments.json'));
+    const events = [
+      vaultEvent('Deposited', -10, { amount: '100000000', newBalance: '100000000' }),
+      vaultEvent('DepositedToYield', -10, { amount: '100000000', liquidityTokens: '99000000' }),
+      vaultEvent('TrustModeUpdated', 1, { newMode: '1' }),
+      vaultEvent('AutoSaveExecuted', 5, { amount: '10000000', triggeredBy: ALICE }),
+      vaultEvent('Deposited', 10, { amount: '25000000', newBalance: '135000000' }, '0xDEPOSIT'),
+      vaultEvent('WithdrawnFromYield', 20, { liquidityTokens: '49500000', usdcAmount: '49400000' }),
+      vaultEvent('Withdrawn', 20, { amount: '40000000', newBalance: '95000000' }),
+      vaultEvent('Withdrawn', 400, { amount: '5000000', newBalance: '90000000' }),
+    ];
+    statements = new StatementService(
+      { getEventsForUser: () => events },
+      ledger,
+      () => Date.parse('2027-01-15T00:00:00Z')
+    );
+  });
+
+  it('lists the period with running balances and totals', () => {
+    const statement = statements.getStatement(ALICE, ...YEAR_2026);
+
+    assert.equal(statement.openingBalance, '100.000000');
+    assert.equal(statement.closingBalance, '95.000000');
+    assert.deepEqual(
+      statement.entries.map((entry) => [entry.type, entry.amount, entry.balance]),
+      [
+        ['auto_save', '10.000000', '110.000000'],
+        ['deposit', '25.000000', '135.000000'],
+        ['yield_withdrawal', '49.400000', '135.000000'],
+        ['withdrawal', '40.000000', '95.000000'],
+      ]
+    );
+    assert.deepEqual(statement.totals, {
+      deposited: '25.000000',
+      autoSaved: '10.000000',
+      withdrawn: '40.000000',
+      realizedYield: '-0.600000',
+    });
+  });
+
+  it('realizes yield against the average cost of the LP tokens unwound', () => {
+    const statement = statements.getStatement(ALICE, ...YEAR_2026);
+    const unwind = statement.entries.find((entry) => entry.type === 'yield_withdrawal')!;
+
+    assert.equal(unwind.realizedYield, '-0.600000');
+    assert.equal(unwind.date, '2026-01-21T00:00:00.000Z');
+  });
+
+  it('attaches the credited x402 payment to its deposit', () => {
+    ledger.create('pay-1', ALICE, '25000000');
+    ledger.transition('pay-1', 'verified');
+    ledger.transition('pay-1', 'settled', { facilitatorTxHash: '0xfacilitator' });
+    ledger.transition('pay-1', 'credited', { depositTxHash: '0xdeposit' });
+
+    const deposit = statements.getStatement(ALICE, ...YEAR_2026).entries.find((entry) => entry.type === 'deposit')!;
+
+    assert.equal(deposit.description, 'Deposit via x402 payment');
+    assert.equal(deposit.paymentId, 'pay-1');
+    assert.equal(deposit.facilitatorTxHash, '0xfacilitator');
+  });
+
+  it('renders CSV with a header, one row per entry and a summary', () => {
+    const lines = toStatementCsv(statements.getStatement(ALICE, ...YEAR_2026)).trimEnd().split('\n');
+
+    assert.equal(
+      lines[0],
+      'Date,Type,Description,Amount (USDC),Vault balance (USDC),Realized yield (USDC),Transaction,x402 payment,x402 settlement'
+    );
+    assert.equal(lines[1], '2026-01-06T00:00:00.000Z,auto_save,AI auto-save,10.000000,110.000000,0.000000,0xtx-AutoSaveExecuted-5,,');
+    assert.equal(lines.length, 1 + 4 + 6);
+    assert.equal(lines[lines.length - 1], '2027-01-01T00:00:00.000Z,summary,Closing balance,95.000000');
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatTrustMode } from '../services/blockchain.service';
+
+/**
+ * User account formatting tests
+ *
+ * The vault's uint8 trust mode comes back from ethers as a bigint.
+ */
+
+describe('formatTrustMode', () => {
+  it('reads the bigint the vault returns', () => {
+    assert.equal(formatTrustMode(0n), 'MANUAL');
+    assert.equal(formatTrustMode(1n), 'AUTO');
+  });
+});
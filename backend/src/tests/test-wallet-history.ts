@@ -0,0 +1,210 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { detectRecurringFlows, forecastBalance, WalletTransfer } from '../agent/spending-patterns';
+import { WalletHistoryNotReadyError, WalletHistoryService } from '../services/wallet-history.service';
+import { IndexerProvider } from '../services/indexer.service';
+import { DecisionEngine } from '../agent/decision-engine';
+import { UserFinancialState } from '../agent/types';
+
+/**
+ * Wallet history and spending pattern tests
+ *
+ * A fake provider serves USDC Transfer logs, one block per hour.
+ */
+
+const USDC = '0xc01efAaF7C5C61bEbFAeb358E1161b537b8bC0e0';
+const VAULT = '0x349bC1BD3BB0A0A82468a56EA4Df85Ca24f3869c';
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const LANDLORD = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const EMPLOYER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const SHOP = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+
+const DAY = 24 * 60 * 60;
+const START = 1_700_000_000;
+const usdc = (amount: number) => BigInt(amount * 1_000_000);
+
+const iface = new ethers.Interface(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+class FakeProvider implements IndexerProvider {
+  head = 0;
+  transfers: Array<{ blockNumber: number; from: string; to: string; value: bigint }> = [];
+  getLogsCalls: Array<{ fromBlock: number; toBlock: number }> = [];
+  failFromBlock: number | null = null;   // getLogs throws for ranges starting here
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getBlock(blockNumber: number) {
+    return { number: blockNumber, hash: ethers.id(`block-${blockNumber}`), timestamp: START + blockNumber * 3600 };
+  }
+
+  async getLogs(filter: ethers.Filter) {
+    const fromBlock = Number(filter.fromBlock);
+    const toBlock = Number(filter.toBlock);
+    const [, from, to] = (filter.topics ?? []) as Array<string | null | undefined>;
+    this.getLogsCalls.push({ fromBlock, toBlock });
+    if (fromBlock === this.failFromBlock) throw new Error('RPC timeout');
+
+    return this.transfers
+      .filter((t) => t.blockNumber >= fromBlock && t.blockNumber <= toBlock)
+      .map((t, index) => ({ ...t, ...iface.encodeEventLog('Transfer', [t.from, t.to, t.value]), index }))
+      .filter((log) => (!from || log.topics[1] === from) && (!to || log.topics[2] === to))
+      .map((log) => ({
+        blockNumber: log.blockNumber,
+        blockHash: ethers.id(`block-${log.blockNumber}`),
+        transactionHash: ethers.id(`tx-${log.blockNumber}-${log.index}`),
+        index: log.index,
+        topics: log.topics,
+        data: log.data,
+      }));
+  }
+}
+
+const transfer = (day: number, amount: number, counterparty: string): WalletTransfer => ({
+  timestamp: START + day * DAY,
+  amount: usdc(amount),
+  counterparty,
+});
+
+describe('detectRecurringFlows', () => {
+  it('finds monthly rent and biweekly pay, ignoring irregular spending', () => {
+    const flows = detectRecurringFlows([
+      transfer(1, -800, LANDLORD),
+      transfer(31, -800, LANDLORD),
+      transfer(61, -810, LANDLORD),
+      transfer(5, 1200, EMPLOYER),
+      transfer(19, 1200, EMPLOYER),
+      transfer(33, 1250, EMPLOYER),
+      transfer(2, -30, SHOP),
+      transfer(3, -12, SHOP),
+      transfer(20, -45, SHOP),
+    ]);
+
+    assert.deepEqual(
+      flows.map((f) => [f.direction, f.counterparty, f.amount, f.intervalDays]),
+      [
+        ['inflow', EMPLOYER, usdc(1200), 14],
+        ['outflow', LANDLORD, usdc(800), 30],
+      ]
+    );
+    assert.equal(flows[1].nextExpected, START + 91 * DAY);
+  });
+
+  it('rejects flows with unstable amounts', () => {
+    const flows = detectRecurringFlows([transfer(1, -100, SHOP), transfer(8, -400, SHOP), transfer(15, -90, SHOP)]);
+    assert.equal(flows.length, 0);
+  });
+});
+
+describe('forecastBalance', () => {
+  const rent = detectRecurringFlows([transfer(0, -800, LANDLORD), transfer(30, -800, LANDLORD)]);
+
+  it('projects the low point before the next inflow', () => {
+    const forecast = forecastBalance(usdc(1000), rent, START + 57 * DAY);
+
+    assert.equal(forecast.projectedMinBalance, usdc(200));
+    assert.equal(forecast.projectedMinAt, START + 60 * DAY);
+    assert.equal(forecast.events.length, 1);
+  });
+
+  it('assumes a slightly overdue bill lands now and drops stopped ones', () => {
+    assert.equal(forecastBalance(usdc(1000), rent, START + 62 * DAY).events[0].timestamp, START + 62 * DAY);
+    assert.equal(forecastBalance(usdc(1000), rent, START + 95 * DAY).events.length, 0);
+  });
+});
+
+describe('WalletHistoryService', () => {
+  it('reads transfers in and out, skips the vault, and only scans new blocks', async () => {
+    const provider = new FakeProvider();
+    provider.transfers = [
+      { blockNumber: 10, from: USER, to: LANDLORD, value: usdc(800) },
+      { blockNumber: 20, from: EMPLOYER, to: USER, value: usdc(1200) },
+      { blockNumber: 30, from: USER, to: VAULT, value: usdc(50) },
+      { blockNumber: 40, from: SHOP, to: LANDLORD, value: usdc(5) },
+    ];
+    provider.head = 50;
+
+    const history = new WalletHistoryService(provider, {
+      usdcAddress: USDC,
+      lookbackBlocks: 1000,
+      blockRange: 25,
+      ignoredAddresses: [VAULT],
+    });
+
+    await history.sync(USER);
+    const transfers = await history.getTransfers(USER);
+    assert.deepEqual(
+      transfers.map((t) => [t.counterparty, t.amount, t.timestamp]),
+      [
+        [LANDLORD, -usdc(800), START + 10 * 3600],
+        [EMPLOYER, usdc(1200), START + 20 * 3600],
+      ]
+    );
+
+    provider.head = 60;
+    provider.getLogsCalls = [];
+    provider.transfers.push({ blockNumber: 55, from: USER, to: SHOP, value: usdc(20) });
+
+    assert.equal((await history.getTransfers(USER)).length, 3);
+    assert.deepEqual(provider.getLogsCalls[0], { fromBlock: 51, toBlock: 60 });
+  });
+
+  it('backfills in the background and has no transfers until it catches up', async () => {
+    const provider = new FakeProvider();
+    provider.transfers = [{ blockNumber: 10, from: USER, to: LANDLORD, value: usdc(800) }];
+    provider.head = 50;
+
+    const history = new WalletHistoryService(provider, { usdcAddress: USDC, lookbackBlocks: 1000, blockRange: 25 });
+
+    await assert.rejects(history.getTransfers(USER), WalletHistoryNotReadyError);
+    await history.sync(USER);   // Joins the backfill the call started
+
+    assert.equal((await history.getTransfers(USER)).length, 1);
+  });
+
+  it('keeps the chunks it scanned when the RPC fails partway', async () => {
+    const provider = new FakeProvider();
+    provider.transfers = [
+      { blockNumber: 10, from: USER, to: LANDLORD, value: usdc(800) },
+      { blockNumber: 40, from: EMPLOYER, to: USER, value: usdc(1200) },
+    ];
+    provider.head = 74;
+    provider.failFromBlock = 50;
+
+    const history = new WalletHistoryService(provider, { usdcAddress: USDC, lookbackBlocks: 1000, blockRange: 25 });
+
+    await assert.rejects(history.sync(USER), /RPC timeout/);
+
+    provider.failFromBlock = null;
+    provider.getLogsCalls = [];
+    assert.equal((await history.getTransfers(USER)).length, 2);
+    assert.deepEqual(provider.getLogsCalls[0], { fromBlock: 50, toBlock: 74 });
+  });
+});
+
+describe('DecisionEngine with a forecast', () => {
+  const state: UserFinancialState = {
+    walletBalance: usdc(1000),
+    currentSavings: 0n,
+    weeklyGoal: usdc(100),
+    safetyBuffer: usdc(100),
+    lastSaveTimestamp: 0n,
+    trustMode: 'AUTO',
+    isActive: true,
+    canAutoSave: true,
+    timeSinceLastSave: 0,
+  };
+
+  it('saves only what an upcoming bill leaves, or skips', () => {
+    const decision = new DecisionEngine({}, { verbose: false }).decide({ ...state, projectedMinBalance: usdc(150) });
+
+    // Only 50 above the buffer once rent is paid: 50% of that
+    assert.equal(decision.amount, usdc(25));
+
+    const skip = new DecisionEngine({}, { verbose: false }).decide({ ...state, projectedMinBalance: usdc(80) });
+    assert.equal(skip.shouldSave, false);
+    assert.match(skip.reason, /upcoming bills/);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DecisionEngine } from '../agent/decision-engine';
+import { DecisionStrategy, UserFinancialState } from '../agent/types';
+import { getWeekBounds, WeeklyProgressService } from '../services/weekly-progress.service';
+import { UserPreferences } from '../stores/user-preferences.store';
+import { IndexedVaultEvent, VaultEventName } from '../stores/vault-event.store';
+
+/**
+ * Weekly progress tests
+ *
+ * Weeks start at midnight on the user's start day in their timezone,
+ * only deposits and auto-saves count, and the engine's weekly goal cap
+ * is what's left of the goal this week.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const USDC = 1_000_000n;
+const iso = (time: number) => new Date(time).toISOString();
+
+const vaultEvent = (name: VaultEventName, at: string, amount: bigint): IndexedVaultEvent => ({
+  id: `0xtx-${name}-${at}-0`,
+  name,
+  user: USER,
+  args: { user: USER, amount: amount.toString(), newBalance: '0', triggeredBy: USER },
+  blockNumber: 1000,
+  blockHash: '0xblock',
+  blockTimestamp: Date.parse(at) / 1000,
+  transactionHash: `0xtx-${name}-${at}`,
+  logIndex: 0,
+});
+
+const state: UserFinancialState = {
+  walletBalance: 1000n * USDC,
+  currentSavings: 0n,
+  weeklyGoal: 100n * USDC,
+  safetyBuffer: 100n * USDC,
+  lastSaveTimestamp: 0n,
+  trustMode: 'AUTO',
+  isActive: true,
+  canAutoSave: true,
+  timeSinceLastSave: 48,
+};
+
+describe('getWeekBounds', () => {
+  it('starts the week at midnight UTC on the start day', () => {
+    const { start, end } = getWeekBounds(Date.parse('2026-03-04T12:00:00Z'), { timezone: 'UTC', startDay: 1 });
+
+    assert.equal(iso(start), '2026-03-02T00:00:00.000Z');
+    assert.equal(iso(end), '2026-03-09T00:00:00.000Z');
+  });
+
+  it("uses the user's timezone, across a DST change", () => {
+    const newYork = { timezone: 'America/New_York', startDay: 0 };
+
+    // Saturday evening in New York is already Sunday in UTC
+    const saturday = getWeekBounds(Date.parse('2026-03-08T03:00:00Z'), newYork);
+    assert.equal(iso(saturday.start), '2026-03-01T05:00:00.000Z');
+    assert.equal(iso(saturday.end), '2026-03-08T05:00:00.000Z');
+
+    // Clocks go forward on March 8, so the week ends at 04:00 UTC
+    const tuesday = getWeekBounds(Date.parse('2026-03-10T12:00:00Z'), newYork);
+    assert.equal(iso(tuesday.start), '2026-03-08T05:00:00.000Z');
+    assert.equal(iso(tuesday.end), '2026-03-15T04:00:00.000Z');
+  });
+});
+
+describe('WeeklyProgressService', () => {
+  const events = [
+    vaultEvent('Deposited', '2026-03-01T23:00:00Z', 30n * USDC),         // Sunday, last week
+    vaultEvent('Deposited', '2026-03-02T08:00:00Z', 20n * USDC),
+    vaultEvent('AutoSaveExecuted', '2026-03-03T08:00:00Z', 50n * USDC),
+    vaultEvent('Withdrawn', '2026-03-03T09:00:00Z', 40n * USDC),
+  ];
+  const now = Date.parse('2026-03-04T12:00:00Z');
+
+  const service = (week?: UserPreferences['week']) => new WeeklyProgressService(
+    { getEventsForUser: () => events },
+    { get: () => (week ? ({ week } as UserPreferences) : undefined) }
+  );
+
+  it('sums deposits and auto-saves since the week started', () => {
+    const progress = service({ timezone: 'UTC', startDay: 1 }).getProgress(USER, 100n * USDC, now);
+
+    assert.equal(progress.savedThisWeek, 70n * USDC);
+    assert.equal(progress.remainingThisWeek, 30n * USDC);
+    assert.equal(iso(progress.weekStart), '2026-03-02T00:00:00.000Z');
+  });
+
+  it("follows the user's own week start and never goes below zero", () => {
+    const progress = service({ timezone: 'UTC', startDay: 0 }).getProgress(USER, 60n * USDC, now);
+
+    assert.equal(progress.savedThisWeek, 100n * USDC);
+    assert.equal(progress.remainingThisWeek, 0n);
+  });
+});
+
+describe('DecisionEngine weekly cap', () => {
+  const engine = () => new DecisionEngine({ strategy: DecisionStrategy.AGGRESSIVE }, { verbose: false });
+
+  it("caps the save at what's left of the weekly goal", () => {
+    const decision = engine().decide({ ...state, savedThisWeek: 70n * USDC, remainingThisWeek: 30n * USDC });
+
+    assert.equal(decision.amount, 30n * USDC);
+    assert.equal(decision.trace?.decidedBy, 'strategy:weekly_goal');
+    assert.match(decision.reason, /70\.00 USDC already saved this week/);
+  });
+
+  it('skips once the weekly goal is reached', () => {
+    const decision = engine().decide({ ...state, savedThisWeek: 100n * USDC, remainingThisWeek: 0n });
+
+    assert.equal(decision.shouldSave, false);
+    assert.equal(decision.trace?.decidedBy, 'weekly_goal_reached');
+    assert.equal(decision.reason, 'Weekly goal already reached this week (100.00 USDC saved)');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { YieldPosition, YieldUnwindEstimate } from '../services/blockchain.service';
+import {
+  liquidityToWithdraw,
+  WithdrawQuoteChain,
+  WithdrawQuoteError,
+  WithdrawQuoteService,
+} from '../services/withdraw-quote.service';
+
+/**
+ * Withdraw quote tests
+ *
+ * A fake chain holds the vault's idle USDC and the user's LP position;
+ * the unwind returns half USDC, half USDT at a fixed swap rate.
+ */
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const STRATEGY = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const usdc = (amount: number) => BigInt(Math.round(amount * 1_000_000));
+
+class FakeChain implements WithdrawQuoteChain {
+  currentBalance = usdc(100);
+  isActive = true;
+  vaultBalance = usdc(20);
+  position: YieldPosition | null = {
+    strategy: STRATEGY,
+    liquidityTokens: 1_000_000n,
+    value: usdc(80),
+    slippageToleranceBps: 50n,
+  };
+  swapRateBps = 9_980n;             // USDT -> USDC after the pool fee
+  unwinds: bigint[] = [];
+
+  async getUserAccount(_userAddress: string) {
+    return {
+      totalDeposited: this.currentBalance,
+      totalWithdrawn: 0n,
+      currentBalance: this.currentBalance,
+      weeklyGoal: usdc(50),
+      safetyBuffer: usdc(100),
+      lastSaveTimestamp: 0n,
+      isActive: this.isActive,
+      trustMode: 1n,
+    };
+  }
+
+  async getVaultUsdcBalance() {
+    return this.vaultBalance;
+  }
+
+  async getYieldPosition(_userAddress: string) {
+    return this.position;
+  }
+
+  async estimateYieldUnwind(_strategy: string, liquidityTokens: bigint): Promise<YieldUnwindEstimate> {
+    this.unwinds.push(liquidityTokens);
+    const value = (this.position!.value * liquidityTokens) / this.position!.liquidityTokens;
+    const usdtFromPool = value / 2n;
+    return {
+      usdcFromPool: value - usdtFromPool,
+      usdtFromPool,
+      usdcFromSwap: (usdtFromPool * this.swapRateBps) / 10_000n,
+    };
+  }
+}
+
+describe('liquidityToWithdraw', () => {
+  const position: YieldPosition = { strategy: STRATEGY, liquidityTokens: 1000n, value: usdc(80), slippageToleranceBps: 50n };
+
+  it('burns LP in proportion to the USDC needed', () => {
+    assert.equal(liquidityToWithdraw(position, usdc(20)), 250n);
+  });
+
+  it('burns the whole position when the need covers it', () => {
+    assert.equal(liquidityToWithdraw(position, usdc(80)), 1000n);
+    assert.equal(liquidityToWithdraw(position, usdc(500)), 1000n);
+  });
+
+  it('burns nothing without LP tokens', () => {
+    assert.equal(liquidityToWithdraw({ ...position, liquidityTokens: 0n }, usdc(20)), 0n);
+  });
+});
+
+describe('WithdrawQuoteService', () => {
+  it('pays from the vault alone when it holds enough idle USDC', async () => {
+    const chain = new FakeChain();
+    const quote = await new WithdrawQuoteService(chain).getQuote(USER, usdc(15));
+
+    assert.equal(quote.fromVault, usdc(15));
+    assert.equal(quote.fromYield, 0n);
+    assert.equal(quote.unwind, null);
+    assert.equal(quote.willRevert, false);
+    assert.deepEqual(chain.unwinds, []);
+  });
+
+  it('unwinds LP for the rest and estimates the slippage', async () => {
+    const chain = new FakeChain();
+    const quote = await new WithdrawQuoteService(chain).getQuote(USER, usdc(60));
+
+    assert.equal(quote.fromVault, usdc(20));
+    assert.equal(quote.fromYield, usdc(40));
+    assert.deepEqual(chain.unwinds, [500_000n]);
+
+    // 20 USDC + 20 USDT swapped at 99.8%
+    assert.equal(quote.unwind?.usdcFromPool, usdc(20));
+    assert.equal(quote.unwind?.usdcFromSwap, usdc(19.96));
+    assert.equal(quote.unwind?.estimatedReceived, usdc(39.96));
+    assert.equal(quote.unwind?.slippage, usdc(0.04));
+    assert.equal(quote.unwind?.slippageBps, 10);
+    assert.equal(quote.unwind?.exceedsTolerance, false);
+
+    // The vault's idle USDC is already spent, so any slippage leaves it short
+    assert.equal(quote.shortfall, usdc(0.04));
+    assert.equal(quote.willRevert, true);
+  });
+
+  it('flags a swap quote below the strategy tolerance', async () => {
+    const chain = new FakeChain();
+    chain.swapRateBps = 9_900n;
+    const quote = await new WithdrawQuoteService(chain).getQuote(USER, usdc(60));
+
+    assert.equal(quote.unwind?.exceedsTolerance, true);
+  });
+
+  it('reports the full gap as a shortfall when there is no yield position', async () => {
+    const chain = new FakeChain();
+    chain.position = null;
+    const quote = await new WithdrawQuoteService(chain).getQuote(USER, usdc(60));
+
+    assert.equal(quote.unwind, null);
+    assert.equal(quote.shortfall, usdc(40));
+    assert.equal(quote.willRevert, true);
+  });
+
+  it('rejects amounts the vault would reject', async () => {
+    const chain = new FakeChain();
+    const service = new WithdrawQuoteService(chain);
+
+    await assert.rejects(service.getQuote(USER, 0n), (error: WithdrawQuoteError) => error.code === 'invalid_amount');
+    await assert.rejects(service.getQuote(USER, usdc(101)), (error: WithdrawQuoteError) => error.code === 'insufficient_balance');
+
+    chain.isActive = false;
+    await assert.rejects(service.getQuote(USER, usdc(10)), (error: WithdrawQuoteError) => error.code === 'account_not_active');
+  });
+});
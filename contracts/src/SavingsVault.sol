@@ -89,6 +89,7 @@ contract SavingsVault is ReentrancyGuard, Pausable, Ownable {
     event AutoSaveExecuted(address indexed user, uint256 amount, address triggeredBy);
     event GoalUpdated(address indexed user, uint256 newWeeklyGoal);
     event TrustModeUpdated(address indexed user, TrustMode newMode);
+    event SafetyBufferUpdated(address indexed user, uint256 newSafetyBuffer);
     event YieldStrategyUpdated(address indexed oldStrategy, address indexed newStrategy);
     event BackendServerUpdated(address indexed oldServer, address indexed newServer);
 
@@ -294,6 +295,17 @@ contract SavingsVault is ReentrancyGuard, Pausable, Ownable {
         emit TrustModeUpdated(msg.sender, newMode);
     }
 
+    /**
+     * @notice Update safety buffer (wallet balance the agent never saves below)
+     * @param newSafetyBuffer New buffer amount (6 decimals, 0 for none)
+     */
+    function updateSafetyBuffer(uint256 newSafetyBuffer) external {
+        if (!s_accounts[msg.sender].isActive) revert SavingsVault__AccountNotActive();
+
+        s_accounts[msg.sender].safetyBuffer = newSafetyBuffer;
+        emit SafetyBufferUpdated(msg.sender, newSafetyBuffer);
+    }
+
     // =============================================================
     //                   INTERNAL FUNCTIONS
     // =============================================================
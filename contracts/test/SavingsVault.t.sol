@@ -35,6 +35,9 @@ contract SavingsVaultTest is Test {
     // Line 19 - rename variable
     address public backendServer = address(0x3);
 
+    // Mirrors SavingsVault's event for vm.expectEmit
+    event SafetyBufferUpdated(address indexed user, uint256 newSafetyBuffer);
+
     // =============================================================
     //                   ACCOUNT CREATION TESTS
     // =============================================================
@@ -307,6 +310,31 @@ contract SavingsVaultTest is Test {
         vm.stopPrank();
     }
 
+    function testUpdateSafetyBuffer() public {
+        vm.startPrank(alice);
+
+        vault.createAccount(100e6, 500e6, SavingsVault.TrustMode.MANUAL);
+
+        vm.expectEmit(true, false, false, true);
+        emit SafetyBufferUpdated(alice, 250e6);
+        vault.updateSafetyBuffer(250e6);
+
+        SavingsVault.UserAccount memory account = vault.getAccount(alice);
+        assertEq(account.safetyBuffer, 250e6);
+
+        // No buffer is allowed, as in createAccount
+        vault.updateSafetyBuffer(0);
+        assertEq(vault.getAccount(alice).safetyBuffer, 0);
+
+        vm.stopPrank();
+    }
+
+    function testCannotUpdateSafetyBufferWithoutAccount() public {
+        vm.prank(alice);
+        vm.expectRevert(SavingsVault.SavingsVault__AccountNotActive.selector);
+        vault.updateSafetyBuffer(250e6);
+    }
+
     // =============================================================
     //                   ADMIN TESTS
     // =============================================================
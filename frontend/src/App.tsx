@@ -3,8 +3,19 @@ import { WalletConnect } from './components/WalletConnect';
 import { Dashboard } from './components/Dashboard';
 import { ApprovalButton } from './components/ApprovalButton';
 import { AutoSaveButton } from './components/AutoSaveButton';
+import { WithdrawPanel } from './components/WithdrawPanel';
+import { ProposalInbox } from './components/ProposalInbox';
+import { NotificationFeed } from './components/NotificationFeed';
+import { ActivityTimeline } from './components/ActivityTimeline';
+import { YieldPerformancePanel } from './components/YieldPerformancePanel';
+import { Onboarding } from './components/Onboarding';
+import { Settings } from './components/Settings';
+import { SavingsPotsEditor } from './components/SavingsPotsEditor';
+import { useLiveEvents, applyLiveVaultEvent } from './hooks/useLiveEvents';
+import { usePerformance } from './hooks/usePerformance';
+import { useSavingsPots } from './hooks/useSavingsPots';
 import { api } from './services/api';
-import type { UserAccount } from './types';
+import type { UserAccount, AiAnalysis, LiveDecision } from './types';
 import './App.css';
 
 /**
@@ -20,9 +31,16 @@ import './App.css';
  * Component hierarchy:
  * App
  * ├── WalletConnect (connects wallet)
+ * ├── Onboarding (creates the account, then approval - new wallets only)
+ * ├── Settings (weekly goal and trust mode - from the header)
  * ├── Dashboard (displays account data in modern layout)
  * ├── ApprovalButton (approves USDC spending - NEW!)
- * └── AutoSaveButton (triggers save)
+ * ├── AutoSaveButton (triggers save)
+ * ├── ProposalInbox (AI save proposals - MANUAL accounts)
+ * ├── WithdrawPanel (withdraws from the vault)
+ * ├── YieldPerformancePanel (VVS yield, swap costs, PnL and APY)
+ * ├── ActivityTimeline (vault transaction history)
+ * └── NotificationFeed (in-app notifications)
  */
 function App() {
   // ============================================
@@ -49,6 +67,23 @@ function App() {
    */
   const [isLoadingAccount, setIsLoadingAccount] = useState(false);
 
+  /**
+   * What the AI engine would decide now, with its trace
+   * - null until loaded, or if the analysis failed
+   */
+  const [analysis, setAnalysis] = useState<AiAnalysis | null>(null);
+
+  /**
+   * Latest decision the scheduler streamed for this user
+   * - null until one arrives while the app is open
+   */
+  const [latestDecision, setLatestDecision] = useState<LiveDecision | null>(null);
+
+  /**
+   * Bumped on every live vault event so the activity list reloads
+   */
+  const [activityVersion, setActivityVersion] = useState(0);
+
   /**
    * Has user approved vault to spend USDC?
    * - false initially / when not approved
@@ -56,6 +91,18 @@ function App() {
    */
   const [isApproved, setIsApproved] = useState(false);
 
+  /**
+   * Is the user going through account setup?
+   * - true when the connected wallet has no active account,
+   *   until they finish the approval step
+   */
+  const [isOnboarding, setIsOnboarding] = useState(false);
+
+  /**
+   * Which screen the header has selected
+   */
+  const [view, setView] = useState<'dashboard' | 'settings'>('dashboard');
+
   // ============================================
   // DATA LOADING
   // ============================================
@@ -82,6 +129,17 @@ function App() {
       
       // Save to state
       setAccount(accountData);
+
+      // No account yet: walk the user through createAccount first
+      setIsOnboarding(!accountData.account.isActive);
+
+      // AI analysis is optional: the dashboard works without it
+      api.getAiAnalysis(address)
+        .then(setAnalysis)
+        .catch((error) => {
+          console.warn('⚠️ AI analysis unavailable:', error);
+          setAnalysis(null);
+        });
     } catch (error) {
       console.error('❌ Failed to load account:', error);
       // Could show error message to user here
@@ -92,6 +150,20 @@ function App() {
     }
   }, []); // Empty dependency array - function never changes
 
+  /**
+   * Reload account data without the loading screen
+   * 
+   * Called when a live event changes the account, so the
+   * dashboard updates in place
+   */
+  const refreshAccount = useCallback(async (address: string) => {
+    try {
+      setAccount(await api.getUserAccount(address));
+    } catch (error) {
+      console.warn('⚠️ Failed to refresh account:', error);
+    }
+  }, []);
+
   // ============================================
   // EFFECTS
   // ============================================
@@ -110,6 +182,37 @@ function App() {
   }, [userAddress, loadAccount]); 
   // ^ Re-run when userAddress or loadAccount changes
 
+  /**
+   * VVS yield performance, shared by the Dashboard and the chart
+   * Reloads with the activity list (a new save may have moved to yield)
+   */
+  const yieldPerformance = usePerformance(account?.account.isActive ? userAddress : null, activityVersion);
+
+  /**
+   * Savings pots, shown on the Dashboard and edited in Settings
+   * Reloads with the activity list (a new save is credited to them)
+   */
+  const savingsPots = useSavingsPots(account?.account.isActive ? userAddress : null, activityVersion);
+
+  /**
+   * Live updates: vault events and scheduler decisions
+   * 
+   * Streams once the account is active, so AUTO-mode saves made by
+   * the scheduler show up without a reload.
+   */
+  const liveStatus = useLiveEvents(account?.account.isActive ? userAddress : null, {
+    onVaultEvent: (event) => {
+      console.log('📡 Vault event:', event.name, event.transactionHash);
+      setAccount((current) => current && applyLiveVaultEvent(current, event));
+      setActivityVersion((version) => version + 1);
+      if (userAddress) refreshAccount(userAddress);
+    },
+    onDecision: setLatestDecision,
+    onResync: () => {
+      if (userAddress) refreshAccount(userAddress);
+    },
+  });
+
   // ============================================
   // EVENT HANDLERS
   // ============================================
@@ -142,6 +245,48 @@ function App() {
     }
   };
 
+  /**
+   * Handle successful withdrawal
+   * 
+   * Called by WithdrawPanel when withdraw() confirms
+   * Reloads account data to show updated balance
+   */
+  const handleWithdrawSuccess = () => {
+    console.log('🏦 Withdrawal successful, refreshing account...');
+    
+    if (userAddress) {
+      loadAccount(userAddress);
+    }
+  };
+
+  /**
+   * Handle finished onboarding
+   * 
+   * Called by Onboarding once the account exists and the vault is approved
+   */
+  const handleOnboardingComplete = () => {
+    console.log('🎉 Onboarding complete, loading dashboard...');
+    setIsOnboarding(false);
+
+    if (userAddress) {
+      loadAccount(userAddress);
+    }
+  };
+
+  /**
+   * Handle confirmed settings change
+   * 
+   * Called by Settings once GoalUpdated / TrustModeUpdated is emitted
+   * Reloads account data so the new values show everywhere
+   */
+  const handleSettingsUpdated = () => {
+    console.log('⚙️ Settings updated, refreshing account...');
+
+    if (userAddress) {
+      loadAccount(userAddress);
+    }
+  };
+
   /**
    * Handle approval status change
    * 
@@ -180,6 +325,25 @@ function App() {
               <p>Drop by drop</p>
             </div>
           </a>
+
+          {/* Settings toggle - only for wallets with an account */}
+          {userAddress && !isOnboarding && account?.account.isActive && (
+            <button
+              onClick={() => setView(view === 'settings' ? 'dashboard' : 'settings')}
+              style={{
+                marginLeft: 'auto',
+                padding: '0.6rem 1.1rem',
+                fontWeight: '600',
+                background: 'white',
+                color: '#667eea',
+                border: '1px solid #e0e0e0',
+                borderRadius: '10px',
+                cursor: 'pointer',
+              }}
+            >
+              {view === 'settings' ? '← Dashboard' : '⚙️ Settings'}
+            </button>
+          )}
         </div>
       </header>
 
@@ -198,6 +362,34 @@ function App() {
            When user connects, calls handleWalletConnect
            ========================================== */
         <WalletConnect onConnect={handleWalletConnect} />
+      ) : isOnboarding ? (
+        /* ==========================================
+           ONBOARDING (Connected, no account yet)
+           1. createAccount(weeklyGoal, safetyBuffer, trustMode)
+           2. Approve the vault to spend USDC
+           ========================================== */
+        <div className="content">
+          <Onboarding
+            userAddress={userAddress}
+            onApprovalChange={handleApprovalChange}
+            onComplete={handleOnboardingComplete}
+          />
+        </div>
+      ) : view === 'settings' && account ? (
+        /* ==========================================
+           SETTINGS (Connected, picked from the header)
+           updateGoal / updateTrustMode from the user's wallet,
+           savings pots through a signed request
+           ========================================== */
+        <div className="content" style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+          <Settings account={account} onUpdated={handleSettingsUpdated} />
+          <SavingsPotsEditor
+            pots={savingsPots.pots}
+            isSaving={savingsPots.isSaving}
+            error={savingsPots.error}
+            onSave={savingsPots.save}
+          />
+        </div>
       ) : (
         /* ==========================================
            DASHBOARD VIEW (Connected State)
@@ -222,6 +414,11 @@ function App() {
           <Dashboard 
             account={account} 
             isLoading={isLoadingAccount} 
+            analysis={analysis}
+            latestDecision={latestDecision}
+            liveStatus={liveStatus}
+            performance={yieldPerformance.performance}
+            pots={savingsPots.pots}
           />
 
           {/* 
@@ -285,6 +482,67 @@ function App() {
               <strong>⬆️ Please approve the vault above to enable saving</strong>
             </div>
           )}
+
+          {/* 
+            PROPOSAL INBOX
+            MANUAL accounts: the save the AI proposed, accepted through
+            the same x402 flow as AutoSaveButton, or dismissed.
+            Calls handleSaveSuccess to refresh balances when accepted.
+          */}
+          {userAddress && account?.account.isActive && account.account.trustMode === 'MANUAL' && (
+            <ProposalInbox
+              userAddress={userAddress}
+              canAutoSave={account.canAutoSave}
+              onAccepted={handleSaveSuccess}
+            />
+          )}
+
+          {/* 
+            WITHDRAW PANEL
+            Previews where the money comes from (vault vs. VVS),
+            then calls withdraw() from the user's wallet.
+            Calls handleWithdrawSuccess to refresh balances when done.
+
+            Only show once the account is loaded and active
+          */}
+          {userAddress && account?.account.isActive && (
+            <WithdrawPanel
+              userAddress={userAddress}
+              currentBalance={account.account.currentBalance}
+              onSuccess={handleWithdrawSuccess}
+            />
+          )}
+
+          {/* 
+            YIELD PERFORMANCE
+            Pool yield vs swap costs, PnL and APY of the VVS position,
+            with value vs cost basis charted from backend snapshots.
+          */}
+          {userAddress && account?.account.isActive && (
+            <YieldPerformancePanel
+              performance={yieldPerformance.performance}
+              isLoading={yieldPerformance.isLoading}
+              error={yieldPerformance.error}
+            />
+          )}
+
+          {/* 
+            ACTIVITY TIMELINE
+            Deposits, auto-saves, withdrawals and yield moves with
+            explorer links, filterable by type and date.
+          */}
+          {userAddress && account?.account.isActive && (
+            <ActivityTimeline userAddress={userAddress} refreshKey={activityVersion} />
+          )}
+
+          {/* 
+            NOTIFICATION FEED
+            What the notifier sent in-app: saves, skips, failures,
+            proposals and low-balance warnings.
+          */}
+          {userAddress && account?.account.isActive && (
+            <NotificationFeed userAddress={userAddress} />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { useHistory } from '../hooks/useHistory';
+import { StatementDownload } from './StatementDownload';
+import type { HistoryEntry, HistoryEntryType, HistoryFilters } from '../types';
+
+interface ActivityTimelineProps {
+  userAddress: string;
+  refreshKey?: number;            // Bump to reload (e.g. on a live vault event)
+}
+
+// Type filter options (value -> entry types shown)
+const TYPE_FILTERS: Record<string, { label: string; types?: HistoryEntryType[] }> = {
+  all: { label: 'All activity' },
+  deposits: { label: 'Deposits', types: ['deposit', 'payment'] },
+  auto_saves: { label: 'AI auto-saves', types: ['auto_save'] },
+  withdrawals: { label: 'Withdrawals', types: ['withdrawal'] },
+  yield: { label: 'Yield strategy', types: ['yield_deposit', 'yield_withdrawal'] },
+};
+
+const ENTRY_LABELS: Record<HistoryEntryType, { icon: string; label: string; sign: '+' | '-' | '' }> = {
+  deposit: { icon: '💰', label: 'Deposit', sign: '+' },
+  auto_save: { icon: '🤖', label: 'AI auto-save', sign: '+' },
+  withdrawal: { icon: '🏦', label: 'Withdrawal', sign: '-' },
+  yield_deposit: { icon: '🌱', label: 'Moved to VVS yield', sign: '' },
+  yield_withdrawal: { icon: '🔄', label: 'Unwound from VVS yield', sign: '' },
+  payment: { icon: '⏳', label: 'x402 payment (awaiting deposit)', sign: '+' },
+};
+
+const inputStyle = {
+  padding: '0.5rem 0.75rem',
+  border: '1px solid #e0e0e0',
+  borderRadius: '8px',
+  fontSize: '0.9rem',
+  color: '#333',
+  background: 'white',
+};
+
+const linkStyle = { color: '#667eea', textDecoration: 'none' };
+
+function EntryRow({ entry }: { entry: HistoryEntry }) {
+  const { icon, label, sign } = ENTRY_LABELS[entry.type];
+  const color = sign === '+' ? '#4CAF50' : sign === '-' ? '#d32f2f' : '#666';
+
+  return (
+    <div style={{
+      display: 'flex',
+      gap: '0.75rem',
+      padding: '0.75rem 0',
+      borderBottom: '1px solid #f0f0f0',
+      alignItems: 'flex-start',
+    }}>
+      <span style={{ fontSize: '1.2rem' }}>{icon}</span>
+      <div style={{ flex: 1 }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+          <strong style={{ color: '#1a1a1a', fontSize: '0.95rem' }}>{label}</strong>
+          <strong style={{ color, fontSize: '0.95rem', whiteSpace: 'nowrap' }}>
+            {sign}${entry.amount}
+          </strong>
+        </div>
+        <div style={{ color: '#888', fontSize: '0.85rem', marginTop: '0.2rem' }}>
+          {new Date(entry.timestamp).toLocaleString()}
+          {entry.explorerUrl && (
+            <>
+              {' · '}
+              <a href={entry.explorerUrl} target="_blank" rel="noopener noreferrer" style={linkStyle}>
+                View transaction →
+              </a>
+            </>
+          )}
+        </div>
+        {entry.payment && (
+          <div style={{ color: '#888', fontSize: '0.85rem', marginTop: '0.2rem' }}>
+            Paid via x402 ({entry.payment.status})
+            {entry.payment.facilitatorExplorerUrl && (
+              <>
+                {' · '}
+                <a href={entry.payment.facilitatorExplorerUrl} target="_blank" rel="noopener noreferrer" style={linkStyle}>
+                  Settlement →
+                </a>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * ActivityTimeline Component
+ *
+ * The user's vault transactions, newest first: deposits (with the x402
+ * payment behind them), AI auto-saves, withdrawals and yield strategy
+ * moves. Filter by type and date range; more entries load on demand.
+ * A yearly statement can be downloaded for tax reporting.
+ */
+export function ActivityTimeline({ userAddress, refreshKey = 0 }: ActivityTimelineProps) {
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filters: HistoryFilters = {
+    types: TYPE_FILTERS[typeFilter].types,
+    from: from || undefined,
+    to: to || undefined,
+  };
+  const { entries, total, hasMore, isLoading, isLoadingMore, error, loadMore } = useHistory(
+    userAddress,
+    filters,
+    refreshKey
+  );
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '16px',
+      border: '1px solid #e8e8e8',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1rem',
+    }}>
+      {/* Header */}
+      <div>
+        <h3 style={{
+          margin: 0,
+          marginBottom: '0.5rem',
+          fontSize: '1.5rem',
+          fontWeight: '700',
+          color: '#1a1a1a',
+        }}>
+          📜 Activity
+        </h3>
+        <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+          Every deposit, AI auto-save and withdrawal on your vault account.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} style={inputStyle}>
+          {Object.entries(TYPE_FILTERS).map(([value, { label }]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <label style={{ color: '#666', fontSize: '0.9rem' }}>
+          From{' '}
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={{ color: '#666', fontSize: '0.9rem' }}>
+          To{' '}
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+        </label>
+        {(typeFilter !== 'all' || from || to) && (
+          <button
+            onClick={() => {
+              setTypeFilter('all');
+              setFrom('');
+              setTo('');
+            }}
+            style={{ ...inputStyle, color: '#667eea', cursor: 'pointer', fontWeight: '600' }}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p style={{ margin: 0, color: '#d32f2f', fontSize: '0.9rem' }}>
+          <strong>Error:</strong> {error}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p style={{ margin: 0, color: '#888' }}>Loading activity...</p>
+      ) : entries.length === 0 ? (
+        <p style={{ margin: 0, color: '#888' }}>No transactions match these filters.</p>
+      ) : (
+        <div>
+          {entries.map((entry) => (
+            <EntryRow key={entry.id} entry={entry} />
+          ))}
+          <p style={{ margin: '0.75rem 0 0', color: '#888', fontSize: '0.85rem' }}>
+            Showing {entries.length} of {total}
+          </p>
+        </div>
+      )}
+
+      {hasMore && !isLoading && (
+        <button
+          onClick={loadMore}
+          disabled={isLoadingMore}
+          style={{
+            padding: '0.75rem',
+            fontWeight: '600',
+            background: 'white',
+            color: '#667eea',
+            border: '1px solid #e0e0e0',
+            borderRadius: '10px',
+            cursor: isLoadingMore ? 'not-allowed' : 'pointer',
+          }}
+        >
+          {isLoadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+
+      <div style={{ borderTop: '1px solid #f0f0f0', paddingTop: '1rem' }}>
+        <StatementDownload userAddress={userAddress} />
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,25 @@
-import type { UserAccount } from '../types';
+import type { UserAccount, AiAnalysis, LiveDecision, YieldPerformance, SavingsPot } from '../types';
+import type { LiveEventsStatus } from '../hooks/useLiveEvents';
+import { DecisionTraceView } from './DecisionTraceView';
 
 interface DashboardProps {
   account: UserAccount | null;
   isLoading: boolean;
+  analysis?: AiAnalysis | null;   // Engine decision and trace (optional)
+  latestDecision?: LiveDecision | null;  // Last scheduler decision streamed live
+  liveStatus?: LiveEventsStatus;  // Live event stream connection
+  performance?: YieldPerformance | null;  // VVS yield analytics (optional)
+  pots?: SavingsPot[];            // Named savings goals (optional)
 }
 
+const DECISION_OUTCOMES: Record<LiveDecision['action'], string> = {
+  executed: '💰 Saved',
+  proposed: '📬 Proposed',
+  skipped: '⏸️ Skipped',
+  failed: '❌ Save failed',
+  none: '🔍 Analyzed',
+};
+
 /**
  * Enhanced Dashboard Component
  * 
@@ -16,7 +31,7 @@ interface DashboardProps {
  * - Mobile responsive design
  * - Modern glassmorphism effects
  */
-export function Dashboard({ account, isLoading }: DashboardProps) {
+export function Dashboard({ account, isLoading, analysis, latestDecision, liveStatus, performance, pots = [] }: DashboardProps) {
   
   // ============================================
   // LOADING STATE
@@ -160,12 +175,17 @@ export function Dashboard({ account, isLoading }: DashboardProps) {
   const totalBalance = parseFloat(account.totalBalance);
   const weeklyGoal = parseFloat(account.account.weeklyGoal);
   const safetyBuffer = parseFloat(account.account.safetyBuffer);
-  const yieldEarned = totalBalance - vaultBalance;
-  const goalProgress = Math.min((vaultBalance / weeklyGoal) * 100, 100);
+  // Pool fees earned on the VVS position (totalBalance - vaultBalance also moves with swap costs)
+  const yieldEarned = performance ? parseFloat(performance.cumulativeYield) : 0;
+  // Weekly goal progress counts this week's saves, not the lifetime balance
+  const savedThisWeek = parseFloat(account.savedThisWeek);
+  const remainingThisWeek = parseFloat(account.remainingThisWeek);
+  const goalProgress = weeklyGoal > 0 ? Math.min((savedThisWeek / weeklyGoal) * 100, 100) : 0;
+  const weekEnds = new Date(account.week.end);
   
   // AI Insight generation
   const availableToSave = Math.max(0, walletBalance - safetyBuffer);
-  const daysUntilGoal = weeklyGoal > 0 ? Math.ceil((weeklyGoal - vaultBalance) / (weeklyGoal / 7)) : 0;
+  const daysUntilGoal = weeklyGoal > 0 ? Math.ceil(remainingThisWeek / (weeklyGoal / 7)) : 0;
   const savingsRate = totalBalance > 0 ? (vaultBalance / totalBalance * 100) : 0;
 
   // ============================================
@@ -291,6 +311,11 @@ export function Dashboard({ account, isLoading }: DashboardProps) {
           <h3 style={{ margin: 0, fontSize: '1.3rem', fontWeight: '700' }}>
             Pigment Decision Engine
           </h3>
+          {liveStatus && liveStatus !== 'closed' && (
+            <span style={{ marginLeft: 'auto', fontSize: '0.85rem', opacity: 0.9 }}>
+              {liveStatus === 'open' ? '🟢 Live' : '🟠 Reconnecting...'}
+            </span>
+          )}
         </div>
         <div style={{ 
           background: 'rgba(255, 255, 255, 0.2)',
@@ -318,6 +343,38 @@ export function Dashboard({ account, isLoading }: DashboardProps) {
             </>
           )}
         </div>
+
+        {/* Engine decision and the rules behind it */}
+        {analysis && (
+          <div style={{ marginTop: '1rem' }}>
+            <div style={{ fontSize: '1.05rem', lineHeight: '1.6' }}>
+              <strong>{analysis.aiDecision.shouldSave ? `💰 Would save $${analysis.aiDecision.amount}` : '⏸️ Would skip'}</strong>
+              {' '}· {analysis.aiDecision.confidence} confidence · {analysis.aiDecision.urgency} urgency
+            </div>
+            <div style={{ fontSize: '0.95rem', opacity: 0.95, marginTop: '0.25rem' }}>
+              {analysis.aiDecision.reason}
+            </div>
+            {analysis.trace && <DecisionTraceView trace={analysis.trace} />}
+          </div>
+        )}
+
+        {/* Latest scheduler decision, streamed while the app is open */}
+        {latestDecision && (
+          <div style={{
+            marginTop: '1rem',
+            paddingTop: '1rem',
+            borderTop: '1px solid rgba(255, 255, 255, 0.3)',
+            fontSize: '0.95rem',
+            lineHeight: '1.6',
+          }}>
+            <strong>
+              {DECISION_OUTCOMES[latestDecision.action]}
+              {latestDecision.shouldSave && ` $${latestDecision.amount}`}
+            </strong>
+            {' '}· scheduler check at {new Date(latestDecision.createdAt).toLocaleTimeString()}
+            <div style={{ opacity: 0.95 }}>{latestDecision.reason}</div>
+          </div>
+        )}
       </div>
 
       {/* ===========================================
@@ -511,12 +568,17 @@ export function Dashboard({ account, isLoading }: DashboardProps) {
           color: '#666',
         }}>
           <span>
-            <strong style={{ color: '#1a1a1a' }}>${vaultBalance.toFixed(2)}</strong> saved
+            <strong style={{ color: '#1a1a1a' }}>${savedThisWeek.toFixed(2)}</strong> saved this week
           </span>
           <span>
             Target: <strong style={{ color: '#1a1a1a' }}>${weeklyGoal.toFixed(2)}</strong>
           </span>
         </div>
+
+        <div style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: '#999' }}>
+          {remainingThisWeek > 0 ? `$${remainingThisWeek.toFixed(2)} to go` : 'Goal met'}
+          {' · week resets '}{weekEnds.toLocaleString(undefined, { weekday: 'long', hour: 'numeric', minute: '2-digit' })}
+        </div>
         
         {goalProgress >= 100 && (
           <div style={{
@@ -535,6 +597,71 @@ export function Dashboard({ account, isLoading }: DashboardProps) {
         )}
       </div>
 
+      {/* ===========================================
+          SAVINGS POTS CARD
+          One progress bar per named goal
+          =========================================== */}
+      {pots.length > 0 && (
+        <div style={{
+          background: 'white',
+          padding: '2rem',
+          borderRadius: '16px',
+          border: '1px solid #e8e8e8',
+          boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+        }}>
+          <h3 style={{ margin: '0 0 1.5rem', fontSize: '1.3rem', fontWeight: '700', color: '#1a1a1a' }}>
+            🫙 Savings Pots
+          </h3>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+            {pots.map((pot) => {
+              const percent = pot.progress * 100;
+              const isFull = pot.progress >= 1;
+
+              return (
+                <div key={pot.id}>
+                  <div style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    marginBottom: '0.5rem',
+                    fontSize: '0.95rem',
+                    color: '#666',
+                    gap: '1rem',
+                  }}>
+                    <span>
+                      <strong style={{ color: '#1a1a1a' }}>{pot.name}</strong>
+                      {' · '}{pot.priority} priority
+                      {pot.deadline && ` · by ${new Date(pot.deadline * 1000).toLocaleDateString()}`}
+                    </span>
+                    <span>
+                      <strong style={{ color: '#1a1a1a' }}>${parseFloat(pot.savedAmount).toFixed(2)}</strong>
+                      {' / '}${parseFloat(pot.targetAmount).toFixed(2)} ({percent.toFixed(0)}%)
+                    </span>
+                  </div>
+                  <div style={{
+                    background: '#f0f0f0',
+                    height: '12px',
+                    borderRadius: '6px',
+                    overflow: 'hidden',
+                    boxShadow: 'inset 0 2px 4px rgba(0,0,0,0.1)',
+                  }}>
+                    <div style={{
+                      background: isFull
+                        ? 'linear-gradient(90deg, #4CAF50 0%, #45a049 100%)'
+                        : 'linear-gradient(90deg, #667eea 0%, #764ba2 100%)',
+                      height: '100%',
+                      width: `${percent}%`,
+                      transition: 'width 0.5s ease-out',
+                      borderRadius: '6px',
+                    }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* ===========================================
           ACCOUNT SETTINGS CARD
           =========================================== */}
@@ -0,0 +1,164 @@
+import type { DecisionTrace } from '../types';
+
+interface DecisionTraceViewProps {
+  trace: DecisionTrace;
+}
+
+// Human-readable names for the engine's rule identifiers
+const CHECK_LABELS: Record<DecisionTrace['preChecks'][number]['check'], string> = {
+  account_active: 'Account active',
+  auto_mode: 'AUTO mode',
+  rate_limit: '24h rate limit',
+};
+
+const CAP_LABELS: Record<string, string> = {
+  percentage: 'Share of available',
+  weekly_goal: 'Weekly goal',
+  available_funds: 'Available funds',
+  buffer_threshold: '2x safety buffer',
+  goal_pace: 'Goal pace',
+};
+
+const FACTOR_LABELS: Record<string, string> = {
+  wallet_above_2x_buffer: 'Wallet above 2x buffer',
+  wallet_above_3x_buffer: 'Wallet above 3x buffer',
+  reasonable_share_of_available: 'Reasonable share of available funds',
+  within_weekly_goal: 'Within weekly goal',
+};
+
+/**
+ * Describe the rule that settled the outcome
+ */
+function describeDecidedBy(trace: DecisionTrace): string {
+  const [kind, detail] = trace.decidedBy.split(':');
+
+  switch (kind) {
+    case 'pre_check':
+      return `Pre-check failed: ${CHECK_LABELS[detail as keyof typeof CHECK_LABELS] ?? detail}`;
+    case 'strategy':
+      return `Amount set by: ${CAP_LABELS[detail] ?? detail}`;
+    case 'available_funds_below_minimum':
+      return 'Not enough above the safety buffer';
+    case 'amount_below_minimum':
+      return 'Strategy amount below the minimum save';
+    default:
+      return trace.decidedBy;
+  }
+}
+
+const sectionStyle = {
+  background: 'rgba(255, 255, 255, 0.15)',
+  padding: '1rem',
+  borderRadius: '10px',
+};
+
+const headingStyle = {
+  margin: '0 0 0.5rem',
+  fontSize: '0.8rem',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '1px',
+  opacity: 0.9,
+};
+
+const rowStyle = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: '1rem',
+  fontSize: '0.95rem',
+  padding: '0.2rem 0',
+};
+
+/**
+ * DecisionTraceView Component
+ *
+ * Shows which rules produced the AI decision:
+ * - Each pre-check with pass/fail
+ * - Available funds after the safety buffer
+ * - The strategy caps, highlighting the one that set the amount
+ * - Each confidence adjustment
+ */
+export function DecisionTraceView({ trace }: DecisionTraceViewProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', marginTop: '1rem' }}>
+      <div style={{ fontWeight: '700', fontSize: '1rem' }}>
+        🧭 {describeDecidedBy(trace)}
+      </div>
+
+      {/* Pre-checks */}
+      <div style={sectionStyle}>
+        <p style={headingStyle}>Pre-checks</p>
+        {trace.preChecks.map((check) => (
+          <div key={check.check} style={rowStyle}>
+            <span>{check.passed ? '✅' : '❌'} {CHECK_LABELS[check.check]}</span>
+            {!check.passed && <span style={{ opacity: 0.9 }}>{check.detail}</span>}
+          </div>
+        ))}
+      </div>
+
+      {/* Available funds */}
+      {trace.availableFunds && (
+        <div style={sectionStyle}>
+          <p style={headingStyle}>Available funds</p>
+          <div style={rowStyle}>
+            <span>Wallet</span>
+            <strong>${trace.availableFunds.walletBalance}</strong>
+          </div>
+          {trace.availableFunds.spendableBalance !== trace.availableFunds.walletBalance && (
+            <div style={rowStyle}>
+              <span>Projected low (upcoming bills)</span>
+              <strong>${trace.availableFunds.spendableBalance}</strong>
+            </div>
+          )}
+          <div style={rowStyle}>
+            <span>Safety buffer</span>
+            <strong>−${trace.availableFunds.safetyBuffer}</strong>
+          </div>
+          <div style={rowStyle}>
+            <span>Available to save</span>
+            <strong>${trace.availableFunds.available}</strong>
+          </div>
+        </div>
+      )}
+
+      {/* Strategy caps */}
+      {trace.amount && (
+        <div style={sectionStyle}>
+          <p style={headingStyle}>{trace.amount.strategy} strategy caps</p>
+          {trace.amount.caps.map((cap) => (
+            <div
+              key={cap.cap}
+              style={{ ...rowStyle, fontWeight: cap.cap === trace.amount?.boundBy ? '700' : '400' }}
+            >
+              <span>
+                {cap.cap === trace.amount?.boundBy ? '👉 ' : ''}
+                {CAP_LABELS[cap.cap] ?? cap.cap} <span style={{ opacity: 0.8 }}>({cap.detail})</span>
+              </span>
+              <span>${cap.value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Confidence */}
+      {trace.confidence && (
+        <div style={sectionStyle}>
+          <p style={headingStyle}>Confidence</p>
+          <div style={rowStyle}>
+            <span>Base</span>
+            <span>{(trace.confidence.base * 100).toFixed(0)}%</span>
+          </div>
+          {trace.confidence.adjustments.map((adjustment) => (
+            <div key={adjustment.factor} style={rowStyle}>
+              <span>{FACTOR_LABELS[adjustment.factor] ?? adjustment.factor}</span>
+              <span>{adjustment.delta >= 0 ? '+' : ''}{(adjustment.delta * 100).toFixed(0)}%</span>
+            </div>
+          ))}
+          <div style={{ ...rowStyle, fontWeight: '700' }}>
+            <span>Final</span>
+            <span>{(trace.confidence.final * 100).toFixed(0)}%</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useNotificationFeed } from '../hooks/useNotificationFeed';
+import type { AppNotification } from '../types';
+
+interface NotificationFeedProps {
+  userAddress: string;
+}
+
+const ICONS: Record<AppNotification['type'], string> = {
+  save_executed: '✅',
+  save_skipped: '⏭️',
+  save_failed: '❌',
+  proposal_created: '📬',
+  low_balance: '⚠️',
+};
+
+/**
+ * NotificationFeed Component
+ *
+ * The user's in-app notifications, newest first.
+ * Webhook and email delivery are set up through the API.
+ */
+export function NotificationFeed({ userAddress }: NotificationFeedProps) {
+  const { notifications, isLoading, error, refresh } = useNotificationFeed(userAddress);
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '16px',
+      border: '1px solid #e8e8e8',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1rem',
+    }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{
+          margin: 0,
+          fontSize: '1.5rem',
+          fontWeight: '700',
+          color: '#1a1a1a',
+        }}>
+          🔔 Notifications
+        </h3>
+        <button
+          onClick={refresh}
+          disabled={isLoading}
+          style={{
+            padding: '0.4rem 0.9rem',
+            background: 'white',
+            color: '#667eea',
+            border: '1px solid #e0e0e0',
+            borderRadius: '8px',
+            cursor: isLoading ? 'not-allowed' : 'pointer',
+            fontWeight: '600',
+          }}
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <p style={{ margin: 0, color: '#d32f2f', fontSize: '0.9rem' }}>
+          <strong>Error:</strong> {error}
+        </p>
+      )}
+
+      {!isLoading && notifications.length === 0 && !error && (
+        <p style={{ margin: 0, color: '#888' }}>
+          Nothing yet. Saves, proposals and low-balance warnings will show up here.
+        </p>
+      )}
+
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          style={{
+            display: 'flex',
+            gap: '0.75rem',
+            padding: '0.75rem 0',
+            borderBottom: '1px solid #f0f0f0',
+          }}
+        >
+          <span style={{ fontSize: '1.2rem' }}>{ICONS[notification.type]}</span>
+          <div style={{ flex: 1 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+              <strong style={{ color: '#1a1a1a', fontSize: '0.95rem' }}>{notification.title}</strong>
+              <span style={{ color: '#888', fontSize: '0.8rem', whiteSpace: 'nowrap' }}>
+                {new Date(notification.createdAt).toLocaleString()}
+              </span>
+            </div>
+            <p style={{ margin: '0.25rem 0 0', color: '#555', fontSize: '0.9rem', lineHeight: '1.4' }}>
+              {notification.message}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { ApprovalButton } from './ApprovalButton';
+import { useCreateAccount, validateAccountSettings } from '../hooks/useCreateAccount';
+import type { AccountSettings } from '../hooks/useCreateAccount';
+import { explorerTxUrl } from '../services/contracts';
+
+interface OnboardingProps {
+  userAddress: string;
+  onApprovalChange: (isApproved: boolean) => void;
+  onComplete: () => void;         // Account created and vault approved
+}
+
+const TRUST_MODES: Array<{ value: AccountSettings['trustMode']; title: string; description: string }> = [
+  {
+    value: 'MANUAL',
+    title: '🙋 Manual',
+    description: 'The AI suggests saves; you confirm each one.',
+  },
+  {
+    value: 'AUTO',
+    title: '🤖 Auto',
+    description: 'The AI saves for you, at most once a day, never dipping into your safety buffer.',
+  },
+];
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '0.4rem',
+  fontWeight: '600',
+  color: '#333',
+  fontSize: '0.95rem',
+};
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  padding: '0.9rem 1rem',
+  fontSize: '1.05rem',
+  border: '1px solid #e0e0e0',
+  borderRadius: '10px',
+  outline: 'none',
+};
+
+const hintStyle = {
+  margin: '0.4rem 0 0',
+  color: '#888',
+  fontSize: '0.85rem',
+};
+
+/**
+ * Onboarding Component
+ *
+ * Shown when the connected wallet has no savings account yet:
+ * 1. Pick a weekly goal, safety buffer and trust mode -> createAccount()
+ * 2. Approve the vault to spend USDC (ApprovalButton)
+ */
+export function Onboarding({ userAddress, onApprovalChange, onComplete }: OnboardingProps) {
+  const [settings, setSettings] = useState<AccountSettings>({
+    weeklyGoal: '50',
+    safetyBuffer: '100',
+    trustMode: 'MANUAL',
+  });
+  const [isCreated, setIsCreated] = useState(false);
+  const [isApproved, setIsApproved] = useState(false);
+  const { isCreating, status, error, txHash, createAccount } = useCreateAccount();
+
+  const validationError = validateAccountSettings(settings);
+  const isDisabled = validationError !== null || isCreating;
+
+  const handleCreate = async () => {
+    if (await createAccount(settings)) {
+      setIsCreated(true);
+    }
+  };
+
+  const handleApprovalChange = (approved: boolean) => {
+    setIsApproved(approved);
+    onApprovalChange(approved);
+  };
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '16px',
+      border: '1px solid #e8e8e8',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1.5rem',
+    }}>
+      {/* Header */}
+      <div>
+        <h3 style={{
+          margin: 0,
+          marginBottom: '0.5rem',
+          fontSize: '1.5rem',
+          fontWeight: '700',
+          color: '#1a1a1a',
+        }}>
+          🎨 Set up your savings account
+        </h3>
+        <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+          Step {isCreated ? 2 : 1} of 2: {isCreated ? 'approve the vault' : 'choose your goal and how much the AI may do'}
+        </p>
+      </div>
+
+      {!isCreated ? (
+        <>
+          {/* Weekly goal */}
+          <div>
+            <label style={labelStyle} htmlFor="weekly-goal">Weekly goal (USDC)</label>
+            <input
+              id="weekly-goal"
+              type="text"
+              inputMode="decimal"
+              value={settings.weeklyGoal}
+              onChange={(e) => setSettings({ ...settings, weeklyGoal: e.target.value.trim() })}
+              disabled={isCreating}
+              style={inputStyle}
+            />
+            <p style={hintStyle}>How much you want to put aside each week.</p>
+          </div>
+
+          {/* Safety buffer */}
+          <div>
+            <label style={labelStyle} htmlFor="safety-buffer">Safety buffer (USDC)</label>
+            <input
+              id="safety-buffer"
+              type="text"
+              inputMode="decimal"
+              value={settings.safetyBuffer}
+              onChange={(e) => setSettings({ ...settings, safetyBuffer: e.target.value.trim() })}
+              disabled={isCreating}
+              style={inputStyle}
+            />
+            <p style={hintStyle}>The AI never saves if it would leave your wallet below this.</p>
+          </div>
+
+          {/* Trust mode */}
+          <div>
+            <span style={labelStyle}>Trust mode</span>
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+              {TRUST_MODES.map((mode) => {
+                const isSelected = settings.trustMode === mode.value;
+                return (
+                  <button
+                    key={mode.value}
+                    onClick={() => setSettings({ ...settings, trustMode: mode.value })}
+                    disabled={isCreating}
+                    style={{
+                      flex: 1,
+                      padding: '1rem',
+                      textAlign: 'left',
+                      background: isSelected ? 'rgba(102, 126, 234, 0.08)' : 'white',
+                      border: isSelected ? '2px solid #667eea' : '1px solid #e0e0e0',
+                      borderRadius: '10px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <strong style={{ display: 'block', marginBottom: '0.25rem', color: '#1a1a1a' }}>
+                      {mode.title}
+                    </strong>
+                    <span style={{ color: '#666', fontSize: '0.85rem' }}>{mode.description}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {validationError && (
+            <p style={{ margin: 0, color: '#F57C00', fontSize: '0.9rem' }}>⚠️ {validationError}</p>
+          )}
+
+          <button
+            onClick={handleCreate}
+            disabled={isDisabled}
+            style={{
+              padding: '1.25rem 2rem',
+              fontSize: '1.2rem',
+              fontWeight: '700',
+              background: isDisabled
+                ? '#cccccc'
+                : 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+              color: 'white',
+              border: 'none',
+              borderRadius: '12px',
+              cursor: isDisabled ? 'not-allowed' : 'pointer',
+              transition: 'all 0.3s ease',
+            }}
+          >
+            {isCreating ? status : '✨ Create account'}
+          </button>
+
+          {error && (
+            <div style={{
+              padding: '1rem',
+              background: 'linear-gradient(135deg, rgba(244, 67, 54, 0.1) 0%, rgba(211, 47, 47, 0.1) 100%)',
+              border: '1px solid rgba(244, 67, 54, 0.3)',
+              borderRadius: '8px',
+              color: '#d32f2f',
+              fontSize: '0.9rem',
+            }}>
+              <strong>Error:</strong> {error}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {txHash && (
+            <p style={{ margin: 0, color: '#4CAF50', fontWeight: '600' }}>
+              ✅ Account created.{' '}
+              <a
+                href={explorerTxUrl(txHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ color: '#667eea', textDecoration: 'none' }}
+              >
+                View on Cronos Explorer →
+              </a>
+            </p>
+          )}
+
+          <ApprovalButton userAddress={userAddress} onApprovalChange={handleApprovalChange} />
+
+          <button
+            onClick={onComplete}
+            disabled={!isApproved}
+            style={{
+              padding: '1.25rem 2rem',
+              fontSize: '1.2rem',
+              fontWeight: '700',
+              background: !isApproved
+                ? '#cccccc'
+                : 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+              color: 'white',
+              border: 'none',
+              borderRadius: '12px',
+              cursor: !isApproved ? 'not-allowed' : 'pointer',
+            }}
+          >
+            Go to dashboard →
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useAutoSave } from '../hooks/useAutoSave';
+import { useProposals } from '../hooks/useProposals';
+import { explorerTxUrl } from '../services/contracts';
+import type { SaveProposal } from '../types';
+
+interface ProposalInboxProps {
+  userAddress: string;
+  canAutoSave: boolean;           // Vault rate limit (one save per 24h)
+  onAccepted: () => void;         // Reload the account after an accepted save
+}
+
+// How many resolved proposals to list under the open one
+const HISTORY_LIMIT = 5;
+
+const STATUS_LABELS: Record<SaveProposal['status'], { label: string; color: string }> = {
+  pending: { label: 'Waiting for you', color: '#667eea' },
+  accepted: { label: 'Saved', color: '#4CAF50' },
+  dismissed: { label: 'Dismissed', color: '#888' },
+  expired: { label: 'Expired', color: '#F57C00' },
+};
+
+const buttonStyle = (disabled: boolean, primary: boolean) => ({
+  flex: 1,
+  padding: '0.9rem 1.25rem',
+  fontSize: '1rem',
+  fontWeight: '700',
+  background: disabled
+    ? '#cccccc'
+    : primary ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' : 'white',
+  color: primary || disabled ? 'white' : '#667eea',
+  border: primary || disabled ? 'none' : '1px solid #e0e0e0',
+  borderRadius: '10px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+});
+
+/**
+ * ProposalInbox Component
+ *
+ * For MANUAL accounts: the save the AI proposed at its last check.
+ * - Accept: pays for it through the x402 flow (useAutoSave) with its proposalId
+ * - Dismiss: signed by the wallet, so only the owner can dismiss
+ * Recently accepted, dismissed and expired proposals are listed below.
+ */
+export function ProposalInbox({ userAddress, canAutoSave, onAccepted }: ProposalInboxProps) {
+  const { pending, proposals, isLoading, isDismissing, error, refresh, dismiss } = useProposals(userAddress);
+  const { status, isLoading: isSaving, error: saveError, lastTxHash, executeSave } = useAutoSave();
+
+  const history = proposals.filter((proposal) => proposal.status !== 'pending').slice(0, HISTORY_LIMIT);
+  const isBusy = isSaving || isDismissing;
+
+  const handleAccept = async (proposal: SaveProposal) => {
+    if (await executeSave(userAddress, proposal.amount, proposal.id)) {
+      await refresh();
+      onAccepted();
+    }
+  };
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '16px',
+      border: '1px solid #e8e8e8',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1.5rem',
+    }}>
+      {/* Header */}
+      <div>
+        <h3 style={{
+          margin: 0,
+          marginBottom: '0.5rem',
+          fontSize: '1.5rem',
+          fontWeight: '700',
+          color: '#1a1a1a',
+        }}>
+          📬 AI proposals
+        </h3>
+        <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+          You're in MANUAL mode: the AI suggests a save and nothing moves until you accept it.
+        </p>
+      </div>
+
+      {/* Open proposal */}
+      {isLoading && !pending ? (
+        <p style={{ margin: 0, color: '#888' }}>Loading proposals...</p>
+      ) : pending ? (
+        <div style={{
+          padding: '1.25rem',
+          background: 'rgba(102, 126, 234, 0.06)',
+          border: '1px solid rgba(102, 126, 234, 0.3)',
+          borderRadius: '12px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '0.75rem',
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+            <strong style={{ fontSize: '1.6rem', color: '#1a1a1a' }}>${pending.amount}</strong>
+            <span style={{ color: '#666', fontSize: '0.85rem' }}>
+              {(pending.confidence * 100).toFixed(0)}% confidence · {pending.urgency} urgency
+            </span>
+          </div>
+          <p style={{ margin: 0, color: '#333', lineHeight: '1.5' }}>{pending.reason}</p>
+          <p style={{ margin: 0, color: '#888', fontSize: '0.85rem' }}>
+            Strategy: {pending.strategy} · Expires {new Date(pending.expiresAt).toLocaleString()}
+          </p>
+
+          {!canAutoSave && (
+            <p style={{ margin: 0, color: '#F57C00', fontSize: '0.9rem' }}>
+              ⏳ You saved in the last 24 hours. The vault allows one save per day.
+            </p>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.75rem' }}>
+            <button
+              onClick={() => handleAccept(pending)}
+              disabled={isBusy || !canAutoSave}
+              style={buttonStyle(isBusy || !canAutoSave, true)}
+            >
+              {isSaving ? status : `✅ Save $${pending.amount}`}
+            </button>
+            <button
+              onClick={() => dismiss(pending.id)}
+              disabled={isBusy}
+              style={buttonStyle(isBusy, false)}
+            >
+              {isDismissing ? 'Sign in MetaMask...' : 'Dismiss'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p style={{ margin: 0, color: '#888' }}>
+          No proposal right now. The AI checks your wallet regularly and will suggest a save when it makes sense.
+        </p>
+      )}
+
+      {lastTxHash && (
+        <p style={{ margin: 0, color: '#4CAF50', fontWeight: '600' }}>
+          ✅ Saved.{' '}
+          <a
+            href={explorerTxUrl(lastTxHash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ color: '#667eea', textDecoration: 'none' }}
+          >
+            View on Cronos Explorer →
+          </a>
+        </p>
+      )}
+
+      {(error || saveError) && (
+        <div style={{
+          padding: '1rem',
+          background: 'linear-gradient(135deg, rgba(244, 67, 54, 0.1) 0%, rgba(211, 47, 47, 0.1) 100%)',
+          border: '1px solid rgba(244, 67, 54, 0.3)',
+          borderRadius: '8px',
+          color: '#d32f2f',
+          fontSize: '0.9rem',
+        }}>
+          <strong>Error:</strong> {saveError ?? error}
+        </div>
+      )}
+
+      {/* Recent proposals */}
+      {history.length > 0 && (
+        <div>
+          <span style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', color: '#333', fontSize: '0.95rem' }}>
+            Recent
+          </span>
+          {history.map((proposal) => (
+            <div
+              key={proposal.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                padding: '0.5rem 0',
+                borderBottom: '1px solid #f0f0f0',
+                fontSize: '0.9rem',
+              }}
+            >
+              <span style={{ color: '#333' }}>
+                ${proposal.amount} · {new Date(proposal.createdAt).toLocaleDateString()}
+              </span>
+              <span style={{ color: STATUS_LABELS[proposal.status].color, fontWeight: '600' }}>
+                {STATUS_LABELS[proposal.status].label}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import type { PotPriority, SavingsPot, SavingsPotInput } from '../types';
+
+interface SavingsPotsEditorProps {
+  pots: SavingsPot[];
+  isSaving: boolean;
+  error: string | null;
+  onSave: (pots: SavingsPotInput[]) => Promise<boolean>;
+}
+
+/**
+ * A pot row being edited (deadline as YYYY-MM-DD, '' for none)
+ */
+interface PotDraft {
+  id?: string;
+  name: string;
+  targetAmount: string;
+  deadline: string;
+  priority: PotPriority;
+}
+
+const MAX_POTS = 10;
+
+const inputStyle = {
+  padding: '0.6rem 0.75rem',
+  fontSize: '0.95rem',
+  border: '1px solid #e0e0e0',
+  borderRadius: '8px',
+  outline: 'none',
+  minWidth: 0,
+};
+
+const toDraft = (pot: SavingsPot): PotDraft => ({
+  id: pot.id,
+  name: pot.name,
+  targetAmount: pot.targetAmount,
+  deadline: pot.deadline ? new Date(pot.deadline * 1000).toISOString().slice(0, 10) : '',
+  priority: pot.priority,
+});
+
+// Deadlines are the end of the chosen day (UTC)
+const toInput = (draft: PotDraft): SavingsPotInput => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  targetAmount: draft.targetAmount,
+  deadline: draft.deadline ? Math.floor(Date.parse(`${draft.deadline}T23:59:59Z`) / 1000) : undefined,
+  priority: draft.priority,
+});
+
+/**
+ * SavingsPotsEditor Component
+ *
+ * Adds, edits and removes the user's savings pots (named goals with a
+ * target, optional deadline and priority). The AI splits every save
+ * across them; a removed pot's savings go back to general savings.
+ * Saving needs a wallet signature.
+ */
+export function SavingsPotsEditor({ pots, isSaving, error, onSave }: SavingsPotsEditorProps) {
+  const [drafts, setDrafts] = useState<PotDraft[] | null>(null);  // null until edited
+  const rows = drafts ?? pots.map(toDraft);
+
+  const updateRow = (index: number, change: Partial<PotDraft>) => {
+    setDrafts(rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  const handleSave = async () => {
+    if (await onSave(rows.map(toInput))) {
+      setDrafts(null);
+    }
+  };
+
+  const canSave = drafts !== null && !isSaving && rows.every((row) => row.name.trim() && Number(row.targetAmount) > 0);
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '16px',
+      border: '1px solid #e8e8e8',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1rem',
+    }}>
+      <h3 style={{ margin: 0, fontSize: '1.3rem', fontWeight: '700', color: '#1a1a1a' }}>🫙 Savings pots</h3>
+      <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+        Name what you're saving for. The AI splits each save across your pots: higher priority
+        and closer deadlines get a bigger share, and a full pot gets nothing more.
+      </p>
+
+      {rows.length === 0 && (
+        <p style={{ margin: 0, color: '#999', fontSize: '0.9rem' }}>No pots yet - everything goes to general savings.</p>
+      )}
+
+      {rows.map((row, index) => (
+        <div key={row.id ?? `new-${index}`} style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+          <input
+            type="text"
+            placeholder="Name, e.g. Vacation"
+            value={row.name}
+            maxLength={40}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+            disabled={isSaving}
+            style={{ ...inputStyle, flex: 2 }}
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Target (USDC)"
+            value={row.targetAmount}
+            onChange={(e) => updateRow(index, { targetAmount: e.target.value.trim() })}
+            disabled={isSaving}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <input
+            type="date"
+            value={row.deadline}
+            onChange={(e) => updateRow(index, { deadline: e.target.value })}
+            disabled={isSaving}
+            style={inputStyle}
+          />
+          <select
+            value={row.priority}
+            onChange={(e) => updateRow(index, { priority: e.target.value as PotPriority })}
+            disabled={isSaving}
+            style={inputStyle}
+          >
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <button
+            onClick={() => setDrafts(rows.filter((_, i) => i !== index))}
+            disabled={isSaving}
+            title="Remove pot"
+            style={{ ...inputStyle, background: 'white', color: '#d32f2f', cursor: 'pointer' }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+        <button
+          onClick={() => setDrafts([...rows, { name: '', targetAmount: '', deadline: '', priority: 'medium' }])}
+          disabled={isSaving || rows.length >= MAX_POTS}
+          style={{ ...inputStyle, background: 'white', color: '#667eea', fontWeight: '600', cursor: 'pointer' }}
+        >
+          + Add pot
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          style={{
+            padding: '0.9rem 1.5rem',
+            fontSize: '1rem',
+            fontWeight: '700',
+            background: canSave ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' : '#cccccc',
+            color: 'white',
+            border: 'none',
+            borderRadius: '10px',
+            cursor: canSave ? 'pointer' : 'not-allowed',
+          }}
+        >
+          {isSaving ? 'Waiting for signature...' : 'Save pots'}
+        </button>
+      </div>
+
+      {error && (
+        <p style={{ margin: 0, color: '#d32f2f', fontSize: '0.9rem' }}>
+          <strong>Error:</strong> {error}
+        </p>
+      )}
+    </div>
+  );
+}
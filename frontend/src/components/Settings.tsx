@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { useSettings } from '../hooks/useSettings';
+import { api } from '../services/api';
+import type { UserAccount } from '../types';
+
+interface SettingsProps {
+  account: UserAccount;
+  onUpdated: () => void;          // Reload the account after a confirmed change
+}
+
+const cardStyle = {
+  background: 'white',
+  padding: '2rem',
+  borderRadius: '16px',
+  border: '1px solid #e8e8e8',
+  boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '1rem',
+};
+
+const headingStyle = {
+  margin: 0,
+  fontSize: '1.3rem',
+  fontWeight: '700',
+  color: '#1a1a1a',
+};
+
+const buttonStyle = (disabled: boolean) => ({
+  padding: '0.9rem 1.5rem',
+  fontSize: '1rem',
+  fontWeight: '700',
+  background: disabled ? '#cccccc' : 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '10px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+});
+
+/**
+ * Settings Component
+ *
+ * Changes the on-chain account settings from the user's wallet:
+ * - Weekly goal (updateGoal)
+ * - Safety buffer (updateSafetyBuffer)
+ * - Trust mode (updateTrustMode), with what AUTO lets the backend do
+ *
+ * Changes only show as saved once the vault emits GoalUpdated /
+ * SafetyBufferUpdated / TrustModeUpdated for them.
+ */
+export function Settings({ account, onUpdated }: SettingsProps) {
+  const current = account.account;
+  const [goalDraft, setGoalDraft] = useState<string | null>(null);  // null until edited
+  const [bufferDraft, setBufferDraft] = useState<string | null>(null);
+  const [acknowledgedAuto, setAcknowledgedAuto] = useState(false);
+  const [backendWallet, setBackendWallet] = useState<string | null>(null);
+  const { isSubmitting, status, error, confirmation, updateGoal, updateTrustMode, updateSafetyBuffer } = useSettings();
+
+  // Show which wallet AUTO mode hands control to
+  useEffect(() => {
+    api.healthCheck()
+      .then((health) => setBackendWallet(health?.data?.backendWallet ?? null))
+      .catch(() => setBackendWallet(null));
+  }, []);
+
+  const isAuto = current.trustMode === 'AUTO';
+  const weeklyGoal = goalDraft ?? current.weeklyGoal;
+  const goalChanged = weeklyGoal !== current.weeklyGoal;
+  const safetyBuffer = bufferDraft ?? current.safetyBuffer;
+  const bufferChanged = safetyBuffer !== current.safetyBuffer;
+
+  const handleGoalSave = async () => {
+    if (await updateGoal(weeklyGoal)) {
+      setGoalDraft(null);
+      onUpdated();
+    }
+  };
+
+  const handleBufferSave = async () => {
+    if (await updateSafetyBuffer(safetyBuffer)) {
+      setBufferDraft(null);
+      onUpdated();
+    }
+  };
+
+  const handleTrustModeSwitch = async () => {
+    if (await updateTrustMode(isAuto ? 'MANUAL' : 'AUTO')) {
+      setAcknowledgedAuto(false);
+      onUpdated();
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+
+      {/* Weekly goal */}
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>🎯 Weekly goal</h3>
+        <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+          Currently ${current.weeklyGoal} per week. The AI paces its saves toward this.
+        </p>
+        <div style={{ display: 'flex', gap: '0.75rem' }}>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={weeklyGoal}
+            onChange={(e) => setGoalDraft(e.target.value.trim())}
+            disabled={isSubmitting}
+            style={{
+              flex: 1,
+              padding: '0.9rem 1rem',
+              fontSize: '1.05rem',
+              border: '1px solid #e0e0e0',
+              borderRadius: '10px',
+              outline: 'none',
+            }}
+          />
+          <button
+            onClick={handleGoalSave}
+            disabled={!goalChanged || isSubmitting}
+            style={buttonStyle(!goalChanged || isSubmitting)}
+          >
+            Save goal
+          </button>
+        </div>
+      </div>
+
+      {/* Safety buffer */}
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>🛟 Safety buffer</h3>
+        <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+          Currently ${current.safetyBuffer}. The AI never saves if it would leave your wallet below this.
+          {isAuto && ' In AUTO mode it re-checks your wallet as soon as the change is confirmed.'}
+        </p>
+        <div style={{ display: 'flex', gap: '0.75rem' }}>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={safetyBuffer}
+            onChange={(e) => setBufferDraft(e.target.value.trim())}
+            disabled={isSubmitting}
+            style={{
+              flex: 1,
+              padding: '0.9rem 1rem',
+              fontSize: '1.05rem',
+              border: '1px solid #e0e0e0',
+              borderRadius: '10px',
+              outline: 'none',
+            }}
+          />
+          <button
+            onClick={handleBufferSave}
+            disabled={!bufferChanged || isSubmitting}
+            style={buttonStyle(!bufferChanged || isSubmitting)}
+          >
+            Save buffer
+          </button>
+        </div>
+      </div>
+
+      {/* Trust mode */}
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>🤝 Trust mode</h3>
+        <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+          Currently <strong>{current.trustMode}</strong>.{' '}
+          {isAuto
+            ? 'The backend saves for you automatically.'
+            : 'Only you can move money into the vault.'}
+        </p>
+
+        {/* What AUTO allows - shown before switching on, and while it's on */}
+        <div style={{
+          padding: '1rem',
+          background: 'linear-gradient(135deg, rgba(255, 152, 0, 0.1) 0%, rgba(245, 124, 0, 0.1) 100%)',
+          border: '1px solid rgba(255, 152, 0, 0.3)',
+          borderRadius: '10px',
+          color: '#8a4b00',
+          fontSize: '0.9rem',
+          lineHeight: '1.6',
+        }}>
+          <strong>⚠️ In AUTO mode the backend wallet{backendWallet ? ` (${backendWallet})` : ''} can:</strong>
+          <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem' }}>
+            <li>Move USDC from your wallet into your vault with <code>autoSave</code>, without asking you first</li>
+            <li>Up to 10,000 USDC per save, once every 24 hours, limited by your USDC approval for the vault</li>
+          </ul>
+          <p style={{ margin: '0.5rem 0 0' }}>
+            Keeping your safety buffer in your wallet is a rule of the AI agent, not of the contract.
+            The backend cannot withdraw from your vault or send funds anywhere else. Switch back to
+            MANUAL at any time.
+          </p>
+        </div>
+
+        {!isAuto && (
+          <label style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-start', color: '#333', fontSize: '0.9rem' }}>
+            <input
+              type="checkbox"
+              checked={acknowledgedAuto}
+              onChange={(e) => setAcknowledgedAuto(e.target.checked)}
+              disabled={isSubmitting}
+            />
+            I understand that the backend wallet can move USDC from my wallet into the vault.
+          </label>
+        )}
+
+        <button
+          onClick={handleTrustModeSwitch}
+          disabled={isSubmitting || (!isAuto && !acknowledgedAuto)}
+          style={buttonStyle(isSubmitting || (!isAuto && !acknowledgedAuto))}
+        >
+          {isAuto ? 'Switch to MANUAL' : 'Switch to AUTO'}
+        </button>
+      </div>
+
+      {/* Status */}
+      {isSubmitting && (
+        <p style={{ margin: 0, color: '#667eea', fontWeight: '600' }}>{status}</p>
+      )}
+
+      {confirmation && (
+        <div style={{
+          padding: '1rem',
+          background: 'linear-gradient(135deg, rgba(76, 175, 80, 0.1) 0%, rgba(69, 160, 73, 0.1) 100%)',
+          border: '1px solid rgba(76, 175, 80, 0.3)',
+          borderRadius: '8px',
+          color: '#4CAF50',
+          fontWeight: '600',
+        }}>
+          ✅ {confirmation}
+        </div>
+      )}
+
+      {error && (
+        <div style={{
+          padding: '1rem',
+          background: 'linear-gradient(135deg, rgba(244, 67, 54, 0.1) 0%, rgba(211, 47, 47, 0.1) 100%)',
+          border: '1px solid rgba(244, 67, 54, 0.3)',
+          borderRadius: '8px',
+          color: '#d32f2f',
+          fontSize: '0.9rem',
+        }}>
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useStatementDownload } from '../hooks/useStatementDownload';
+import type { StatementFormat } from '../types';
+
+interface StatementDownloadProps {
+  userAddress: string;
+}
+
+// This year and the two before it
+const YEARS = [0, 1, 2].map((back) => new Date().getFullYear() - back);
+
+const inputStyle = {
+  padding: '0.5rem 0.75rem',
+  border: '1px solid #e0e0e0',
+  borderRadius: '8px',
+  fontSize: '0.9rem',
+  color: '#333',
+  background: 'white',
+};
+
+/**
+ * StatementDownload Component
+ *
+ * Downloads a calendar year's statement (deposits, withdrawals and
+ * realized yield with running balances) as CSV or JSON, for taxes.
+ */
+export function StatementDownload({ userAddress }: StatementDownloadProps) {
+  const [year, setYear] = useState(YEARS[0]);
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const { isDownloading, error, download } = useStatementDownload(userAddress);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center' }}>
+        <span style={{ color: '#666', fontSize: '0.9rem' }}>🧾 Tax statement</span>
+        <select value={year} onChange={(e) => setYear(Number(e.target.value))} style={inputStyle}>
+          {YEARS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <select value={format} onChange={(e) => setFormat(e.target.value as StatementFormat)} style={inputStyle}>
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+        </select>
+        <button
+          onClick={() => download(year, format)}
+          disabled={isDownloading}
+          style={{
+            ...inputStyle,
+            color: '#667eea',
+            fontWeight: '600',
+            cursor: isDownloading ? 'not-allowed' : 'pointer',
+          }}
+        >
+          {isDownloading ? 'Preparing...' : '⬇️ Download statement'}
+        </button>
+      </div>
+
+      {error && (
+        <p style={{ margin: 0, color: '#d32f2f', fontSize: '0.9rem' }}>
+          <strong>Error:</strong> {error}
+        </p>
+      )}
+    </div>
+  );
+}
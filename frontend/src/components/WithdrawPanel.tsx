@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { useWithdraw } from '../hooks/useWithdraw';
+import { explorerTxUrl } from '../services/contracts';
+
+/**
+ * Props for WithdrawPanel component
+ */
+interface WithdrawPanelProps {
+  userAddress: string;
+  currentBalance: string;         // Savings balance, e.g. "25.0"
+  onSuccess: () => void;          // Callback when a withdrawal confirms
+}
+
+const rowStyle = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: '1rem',
+  fontSize: '0.95rem',
+  padding: '0.25rem 0',
+  color: '#333',
+};
+
+const warningStyle = {
+  marginTop: '0.75rem',
+  padding: '1rem',
+  background: 'linear-gradient(135deg, rgba(244, 67, 54, 0.1) 0%, rgba(211, 47, 47, 0.1) 100%)',
+  border: '1px solid rgba(244, 67, 54, 0.3)',
+  borderRadius: '8px',
+  color: '#d32f2f',
+  fontSize: '0.9rem',
+  lineHeight: '1.5',
+};
+
+/**
+ * WithdrawPanel Component
+ *
+ * Gets money back out of the vault:
+ * - Preview how much comes from the vault's idle USDC vs. unwinding VVS
+ * - Estimated slippage on the unwind, and a warning if it would revert
+ * - withdraw(amount) signed by the user in MetaMask
+ * - The Withdrawn / WithdrawnFromYield events once confirmed
+ */
+export function WithdrawPanel({ userAddress, currentBalance, onSuccess }: WithdrawPanelProps) {
+  const [amount, setAmount] = useState('');
+  const [quotedAmount, setQuotedAmount] = useState<string | null>(null);
+  const {
+    quote,
+    isQuoting,
+    isWithdrawing,
+    status,
+    error,
+    result,
+    previewWithdraw,
+    executeWithdraw,
+  } = useWithdraw();
+
+  const isValidAmount = /^\d+(\.\d{1,6})?$/.test(amount) && parseFloat(amount) > 0;
+  const hasQuote = quote !== null && quotedAmount === amount;
+  const canWithdraw = hasQuote && !quote.willRevert && !isWithdrawing;
+
+  const handlePreview = async () => {
+    setQuotedAmount(amount);
+    await previewWithdraw(userAddress, amount);
+  };
+
+  const handleWithdraw = async () => {
+    const withdrawResult = await executeWithdraw(amount);
+    if (withdrawResult) {
+      setAmount('');
+      setQuotedAmount(null);
+      onSuccess();
+    }
+  };
+
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '16px',
+      border: '1px solid #e8e8e8',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+    }}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+
+        {/* Header */}
+        <div>
+          <h3 style={{
+            margin: 0,
+            marginBottom: '0.5rem',
+            fontSize: '1.5rem',
+            fontWeight: '700',
+            color: '#1a1a1a',
+          }}>
+            🏦 Withdraw
+          </h3>
+          <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+            Move USDC from your vault back to your wallet. Available: ${currentBalance}
+          </p>
+        </div>
+
+        {/* Amount input */}
+        <div style={{ display: 'flex', gap: '0.75rem' }}>
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Amount in USDC"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.trim())}
+            disabled={isWithdrawing}
+            style={{
+              flex: 1,
+              padding: '0.9rem 1rem',
+              fontSize: '1.05rem',
+              border: '1px solid #e0e0e0',
+              borderRadius: '10px',
+              outline: 'none',
+            }}
+          />
+          <button
+            onClick={() => setAmount(currentBalance)}
+            disabled={isWithdrawing}
+            style={{
+              padding: '0.9rem 1rem',
+              fontWeight: '600',
+              background: '#f5f5f5',
+              color: '#667eea',
+              border: '1px solid #e0e0e0',
+              borderRadius: '10px',
+              cursor: 'pointer',
+            }}
+          >
+            Max
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={!isValidAmount || isQuoting || isWithdrawing}
+            style={{
+              padding: '0.9rem 1.25rem',
+              fontWeight: '600',
+              background: !isValidAmount || isQuoting ? '#cccccc' : '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '10px',
+              cursor: !isValidAmount || isQuoting ? 'not-allowed' : 'pointer',
+            }}
+          >
+            {isQuoting ? 'Checking...' : 'Preview'}
+          </button>
+        </div>
+
+        {/* Quote */}
+        {hasQuote && (
+          <div style={{
+            padding: '1.25rem',
+            background: '#f9f9f9',
+            borderRadius: '10px',
+            border: '1px solid #e8e8e8',
+          }}>
+            <div style={rowStyle}>
+              <span>From vault balance</span>
+              <strong>${quote.fromVault}</strong>
+            </div>
+            <div style={rowStyle}>
+              <span>From unwinding VVS position</span>
+              <strong>${quote.fromYield}</strong>
+            </div>
+
+            {quote.unwind && (
+              <>
+                <div style={rowStyle}>
+                  <span>Estimated from VVS</span>
+                  <span>${quote.unwind.estimatedReceived}</span>
+                </div>
+                <div style={rowStyle}>
+                  <span>Estimated slippage</span>
+                  <span>
+                    ${quote.unwind.slippage} ({(quote.unwind.slippageBps / 100).toFixed(2)}%)
+                  </span>
+                </div>
+                {quote.unwind.exceedsTolerance && (
+                  <div style={{ ...rowStyle, color: '#F57C00' }}>
+                    ⚠️ The swap back to USDC is outside the strategy's {(quote.unwind.toleranceBps / 100).toFixed(2)}% slippage tolerance
+                  </div>
+                )}
+              </>
+            )}
+
+            {quote.willRevert && (
+              <div style={warningStyle}>
+                <strong>This withdrawal would fail.</strong><br />
+                The vault would be ${quote.shortfall} short after unwinding your VVS position.
+                Try a smaller amount.
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Withdraw button */}
+        <button
+          onClick={handleWithdraw}
+          disabled={!canWithdraw}
+          style={{
+            padding: '1.25rem 2rem',
+            fontSize: '1.2rem',
+            fontWeight: '700',
+            background: !canWithdraw
+              ? '#cccccc'
+              : 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+            color: 'white',
+            border: 'none',
+            borderRadius: '12px',
+            cursor: !canWithdraw ? 'not-allowed' : 'pointer',
+            transition: 'all 0.3s ease',
+          }}
+        >
+          {isWithdrawing ? status : hasQuote ? `Withdraw $${amount} USDC` : 'Preview to withdraw'}
+        </button>
+
+        {/* Error Message */}
+        {error && (
+          <div style={{ ...warningStyle, marginTop: 0 }}>
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        {/* Confirmed withdrawal */}
+        {result && (
+          <div style={{
+            padding: '1rem',
+            background: 'linear-gradient(135deg, rgba(76, 175, 80, 0.1) 0%, rgba(69, 160, 73, 0.1) 100%)',
+            border: '1px solid rgba(76, 175, 80, 0.3)',
+            borderRadius: '8px',
+          }}>
+            <p style={{ margin: 0, marginBottom: '0.5rem', fontWeight: '600', color: '#4CAF50' }}>
+              ✅ Withdrawal Confirmed!
+            </p>
+            {result.withdrawn && (
+              <div style={rowStyle}>
+                <span>Withdrawn</span>
+                <span>${result.withdrawn.amount} (new balance ${result.withdrawn.newBalance})</span>
+              </div>
+            )}
+            {result.withdrawnFromYield && (
+              <div style={rowStyle}>
+                <span>Unwound from VVS</span>
+                <span>${result.withdrawnFromYield.usdcAmount} ({result.withdrawnFromYield.liquidityTokens} LP)</span>
+              </div>
+            )}
+            <a
+              href={explorerTxUrl(result.txHash)}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{ color: '#667eea', fontWeight: '600', textDecoration: 'none', fontSize: '0.85rem' }}
+            >
+              View on Cronos Explorer →
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
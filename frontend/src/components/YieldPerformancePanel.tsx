@@ -0,0 +1,174 @@
+import type { PerformancePoint, YieldPerformance } from '../types';
+
+interface YieldPerformancePanelProps {
+  performance: YieldPerformance | null;
+  isLoading: boolean;
+  error?: string | null;
+}
+
+// Chart drawing area (SVG user units, scaled to the card width)
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 8;
+
+const formatUsd = (value: string | number, digits: number = 2) => `$${Number(value).toFixed(digits)}`;
+
+const formatSigned = (value: string | number) => {
+  const amount = Number(value);
+  return `${amount < 0 ? '-' : '+'}$${Math.abs(amount).toFixed(4)}`;
+};
+
+const formatPercent = (value: number) => `${value < 0 ? '' : '+'}${(value * 100).toFixed(2)}%`;
+
+const signColor = (value: string | number) => (Number(value) < 0 ? '#d32f2f' : '#4CAF50');
+
+function Stat({ label, value, color = '#1a1a1a', hint }: { label: string; value: string; color?: string; hint?: string }) {
+  return (
+    <div style={{ padding: '0.75rem 1rem', background: '#f8f9ff', borderRadius: '10px' }} title={hint}>
+      <div style={{ color: '#888', fontSize: '0.8rem', marginBottom: '0.25rem' }}>{label}</div>
+      <div style={{ color, fontSize: '1.1rem', fontWeight: '700' }}>{value}</div>
+    </div>
+  );
+}
+
+/**
+ * Value vs cost basis over time, as two SVG lines
+ */
+function ValueChart({ series }: { series: PerformancePoint[] }) {
+  const points = series.map((point) => ({
+    time: Date.parse(point.timestamp),
+    value: Number(point.value),
+    costBasis: Number(point.costBasis),
+  }));
+
+  const times = points.map((point) => point.time);
+  const amounts = points.flatMap((point) => [point.value, point.costBasis]);
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime || 1;
+  const minAmount = Math.min(...amounts);
+  const amountSpan = Math.max(...amounts) - minAmount || 1;
+
+  const toPath = (key: 'value' | 'costBasis') =>
+    points
+      .map((point) => {
+        const x = CHART_PADDING + ((point.time - minTime) / timeSpan) * (CHART_WIDTH - 2 * CHART_PADDING);
+        const y = CHART_HEIGHT - CHART_PADDING - ((point[key] - minAmount) / amountSpan) * (CHART_HEIGHT - 2 * CHART_PADDING);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        style={{ width: '100%', height: 'auto', background: '#fafbff', borderRadius: '10px' }}
+        role="img"
+        aria-label="Position value and cost basis over time"
+      >
+        <polyline points={toPath('costBasis')} fill="none" stroke="#bbb" strokeWidth={2} strokeDasharray="6 4" />
+        <polyline points={toPath('value')} fill="none" stroke="#667eea" strokeWidth={2.5} />
+      </svg>
+      <div style={{ display: 'flex', justifyContent: 'space-between', color: '#888', fontSize: '0.8rem', marginTop: '0.25rem' }}>
+        <span>{new Date(minTime).toLocaleDateString()}</span>
+        <span>
+          <span style={{ color: '#667eea' }}>━</span> Value{'  '}
+          <span style={{ color: '#bbb' }}>┅</span> Cost basis
+        </span>
+        <span>{new Date(minTime + timeSpan).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * YieldPerformancePanel Component
+ *
+ * How the user's VVS yield position is really doing: pool yield earned,
+ * what the swaps in and out of the pair cost, PnL against the cost
+ * basis and the time-weighted APY, with value vs cost basis charted.
+ */
+export function YieldPerformancePanel({ performance, isLoading, error }: YieldPerformancePanelProps) {
+  return (
+    <div style={{
+      background: 'white',
+      padding: '2rem',
+      borderRadius: '16px',
+      border: '1px solid #e8e8e8',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.06)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1rem',
+    }}>
+      {/* Header */}
+      <div>
+        <h3 style={{
+          margin: 0,
+          marginBottom: '0.5rem',
+          fontSize: '1.5rem',
+          fontWeight: '700',
+          color: '#1a1a1a',
+        }}>
+          📈 Yield Performance
+        </h3>
+        <p style={{ margin: 0, color: '#666', fontSize: '0.95rem' }}>
+          What your savings earn in the VVS USDC/USDT pool, after swap costs.
+        </p>
+      </div>
+
+      {error && (
+        <p style={{ margin: 0, color: '#d32f2f', fontSize: '0.9rem' }}>
+          <strong>Error:</strong> {error}
+        </p>
+      )}
+
+      {!performance ? (
+        <p style={{ margin: 0, color: '#888' }}>
+          {isLoading ? 'Loading yield performance...' : 'Nothing in the yield strategy yet. Performance shows up after your first save is deployed.'}
+        </p>
+      ) : (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '0.75rem' }}>
+            <Stat label="Position value" value={formatUsd(performance.currentValue)} />
+            <Stat label="Cost basis" value={formatUsd(performance.costBasis)} />
+            <Stat
+              label="Yield earned"
+              value={formatSigned(performance.cumulativeYield)}
+              color={signColor(performance.cumulativeYield)}
+              hint="Pool fees earned on your LP tokens"
+            />
+            <Stat
+              label="Swap & slippage cost"
+              value={formatUsd(performance.swapCost, 4)}
+              hint={`In: ${formatUsd(performance.entryCost, 4)} · Out: ${formatUsd(performance.exitCost, 4)}`}
+            />
+            <Stat
+              label="Total PnL"
+              value={formatSigned(performance.totalPnl)}
+              color={signColor(performance.totalPnl)}
+              hint={`Realized ${formatSigned(performance.realizedPnl)} · Unrealized ${formatSigned(performance.unrealizedPnl)}`}
+            />
+            <Stat
+              label="APY (time-weighted)"
+              value={performance.apy === null ? '—' : formatPercent(performance.apy)}
+              color={performance.apy === null ? '#888' : signColor(performance.apy)}
+              hint={`Return so far: ${formatPercent(performance.timeWeightedReturn)}`}
+            />
+          </div>
+
+          {performance.series.length >= 2 ? (
+            <ValueChart series={performance.series} />
+          ) : (
+            <p style={{ margin: 0, color: '#888', fontSize: '0.9rem' }}>
+              The chart fills in as snapshots are taken.
+            </p>
+          )}
+
+          <p style={{ margin: 0, color: '#888', fontSize: '0.85rem' }}>
+            {performance.apy === null && 'APY shows after a day of history. '}
+            Updated {new Date(performance.lastSnapshotAt).toLocaleString()}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
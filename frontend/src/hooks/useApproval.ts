@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { BrowserProvider, Contract } from 'ethers';
+import { USDC_ABI, USDC_ADDRESS, VAULT_ADDRESS } from '../services/contracts';
 
 /**
  * Hook for managing USDC approval for the vault
@@ -8,14 +9,6 @@ import { BrowserProvider, Contract } from 'ethers';
  * before they can use the save functionality
  */
 
-const USDC_ABI = [
-  'function approve(address spender, uint256 amount) external returns (bool)',
-  'function allowance(address owner, address spender) external view returns (uint256)',
-];
-
-const VAULT_ADDRESS = import.meta.env.VITE_VAULT_ADDRESS || '0x349bC1BD3BB0A0A82468a56EA4Df85Ca24f3869c';
-const USDC_ADDRESS = import.meta.env.VITE_USDC_ADDRESS || '0x77C03DB7c301cA660a813ea828005f2F5B5aedAD';
-
 export interface UseApprovalResult {
   isApproved: boolean;
   isChecking: boolean;
@@ -2,7 +2,7 @@ import { useState, useCallback } from 'react';
 import { Facilitator } from '@crypto.com/facilitator-client';
 import { BrowserProvider } from 'ethers';
 import { api } from '../services/api';
-import type { PaymentChallenge } from '../types';
+import type { PaymentChallenge, PaymentHeaderErrorCode, SaveProposalErrorCode } from '../types';
 
 /**
  * Return value from useAutoSave hook
@@ -12,7 +12,37 @@ export interface UseAutoSaveResult {
   isLoading: boolean;          // Is operation in progress?
   error: string | null;        // Error message if failed
   lastTxHash: string | null;   // Last successful transaction hash
-  executeSave: (userAddress: string, amount: string) => Promise<void>;
+  executeSave: (userAddress: string, amount: string, proposalId?: string) => Promise<boolean>;
+}
+
+/**
+ * User-facing messages for payment header rejections
+ */
+const PAYMENT_HEADER_ERRORS: Record<PaymentHeaderErrorCode, string> = {
+  invalid_payment_header: 'The payment signature could not be read. Please try again.',
+  payment_from_mismatch: 'The payment was signed by a different wallet than the one saving. Switch accounts in MetaMask and try again.',
+  payment_to_mismatch: 'The payment is not addressed to the savings vault.',
+  payment_value_mismatch: 'The signed amount does not match the amount being saved.',
+  payment_expired: 'The payment authorization expired before it was submitted. Please sign again.',
+};
+
+/**
+ * User-facing messages for proposals that can't be accepted
+ */
+const PROPOSAL_ERRORS: Record<SaveProposalErrorCode, string> = {
+  proposal_not_found: 'This proposal could not be found.',
+  proposal_not_pending: 'This proposal was already accepted or dismissed.',
+  proposal_expired: 'This proposal has expired. A new one will be suggested at the next check.',
+  proposal_amount_mismatch: 'The amount does not match the proposal.',
+};
+
+/**
+ * Turn a backend error code into a message for the UI
+ */
+function toErrorMessage(error: string): string {
+  return PAYMENT_HEADER_ERRORS[error as PaymentHeaderErrorCode]
+    ?? PROPOSAL_ERRORS[error as SaveProposalErrorCode]
+    ?? error;
 }
 
 /**
@@ -24,6 +54,9 @@ export interface UseAutoSaveResult {
  * 3. Generate payment header with SDK
  * 4. Submit payment
  * 5. Success!
+ * 
+ * Pass a proposalId to accept one of the AI's MANUAL-mode proposals.
+ * Resolves to whether the save went through.
  */
 export function useAutoSave(): UseAutoSaveResult {
   // UI state
@@ -37,7 +70,7 @@ export function useAutoSave(): UseAutoSaveResult {
    * 
    * This is the "magic" function that ties everything together!
    */
-  const executeSave = useCallback(async (userAddress: string, amount: string) => {
+  const executeSave = useCallback(async (userAddress: string, amount: string, proposalId?: string) => {
     try {
       setIsLoading(true);
       setError(null);
@@ -47,7 +80,7 @@ export function useAutoSave(): UseAutoSaveResult {
       // STEP 1: Request save (expect 402 challenge)
       // ============================================
       console.log('📝 Step 1: Requesting save from backend');
-      const response = await api.triggerSave(userAddress, amount);
+      const response = await api.triggerSave(userAddress, amount, undefined, undefined, proposalId);
 
       // Check if backend returned a payment challenge
       if ('error' in response && response.error === 'payment_required') {
@@ -110,7 +143,8 @@ export function useAutoSave(): UseAutoSaveResult {
           userAddress,
           amount,
           paymentHeader,              // The signed payment!
-          challenge.paymentId         // Payment ID from 402 challenge
+          challenge.paymentId,        // Payment ID from 402 challenge
+          proposalId
         );
 
         // Check if payment succeeded
@@ -122,11 +156,12 @@ export function useAutoSave(): UseAutoSaveResult {
           setStatus('Save successful!');
           setLastTxHash(paymentResponse.data.depositTxHash);
           setError(null);
+          return true;
         } else {
           // Payment failed
           throw new Error(
             'error' in paymentResponse
-              ? paymentResponse.error
+              ? toErrorMessage(paymentResponse.error)
               : 'Unknown error'
           );
         }
@@ -136,10 +171,11 @@ export function useAutoSave(): UseAutoSaveResult {
         console.log('✅ Save successful without payment');
         setStatus('Save successful (no payment required)!');
         setLastTxHash(response.data.depositTxHash);
+        return true;
       } else {
         // Some other error
         throw new Error(
-          'error' in response ? response.error : 'Unknown error'
+          'error' in response ? toErrorMessage(response.error) : 'Unknown error'
         );
       }
     } catch (err: any) {
@@ -147,6 +183,7 @@ export function useAutoSave(): UseAutoSaveResult {
       console.error('❌ Save error:', err);
       setError(err.message || 'Failed to execute save');
       setStatus('Error');
+      return false;
     } finally {
       // Always stop loading spinner
       setIsLoading(false);
@@ -0,0 +1,133 @@
+import { useState, useCallback } from 'react';
+import { BrowserProvider, Contract, parseUnits } from 'ethers';
+import { SAVINGS_VAULT_ABI, TRUST_MODE, VAULT_ADDRESS, decodeVaultError } from '../services/contracts';
+
+/**
+ * Settings entered during onboarding (USDC amounts as typed, e.g. "50")
+ */
+export interface AccountSettings {
+  weeklyGoal: string;
+  safetyBuffer: string;
+  trustMode: keyof typeof TRUST_MODE;
+}
+
+/**
+ * Return value from useCreateAccount hook
+ */
+export interface UseCreateAccountResult {
+  isCreating: boolean;
+  status: string;                // Human-readable status for UI
+  error: string | null;
+  txHash: string | null;         // createAccount transaction once confirmed
+  createAccount: (settings: AccountSettings) => Promise<boolean>;
+}
+
+const USDC_AMOUNT = /^\d+(\.\d{1,6})?$/;
+
+/**
+ * Check a weekly goal against the vault's GoalNotPositive rule
+ * Returns an error message, or null if the vault would accept it.
+ */
+export function validateWeeklyGoal(weeklyGoal: string): string | null {
+  if (!USDC_AMOUNT.test(weeklyGoal)) {
+    return 'Weekly goal must be a USDC amount, e.g. 50 or 12.50';
+  }
+
+  if (parseUnits(weeklyGoal, 6) === 0n) {
+    return 'Weekly goal must be greater than zero';
+  }
+
+  return null;
+}
+
+/**
+ * Check a safety buffer is a USDC amount (zero is allowed)
+ * Returns an error message, or null if the vault would accept it.
+ */
+export function validateSafetyBuffer(safetyBuffer: string): string | null {
+  if (!USDC_AMOUNT.test(safetyBuffer)) {
+    return 'Safety buffer must be a USDC amount, e.g. 100 (0 for none)';
+  }
+
+  return null;
+}
+
+/**
+ * Check settings against the vault's rules before asking for a signature
+ * Returns an error message, or null if createAccount would accept them.
+ */
+export function validateAccountSettings(settings: AccountSettings): string | null {
+  const goalError = validateWeeklyGoal(settings.weeklyGoal);
+  if (goalError) {
+    return goalError;
+  }
+
+  return validateSafetyBuffer(settings.safetyBuffer);
+}
+
+/**
+ * Hook for creating the user's savings account
+ *
+ * Calls createAccount(weeklyGoal, safetyBuffer, trustMode) from the
+ * user's wallet. Settings are validated first, and vault reverts are
+ * decoded into readable messages.
+ */
+export function useCreateAccount(): UseCreateAccountResult {
+  const [isCreating, setIsCreating] = useState(false);
+  const [status, setStatus] = useState<string>('Ready');
+  const [error, setError] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+
+  const createAccount = useCallback(async (settings: AccountSettings) => {
+    const validationError = validateAccountSettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return false;
+    }
+
+    try {
+      setIsCreating(true);
+      setError(null);
+
+      if (!window.ethereum) {
+        throw new Error('MetaMask not installed');
+      }
+
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const vault = new Contract(VAULT_ADDRESS, SAVINGS_VAULT_ABI, signer);
+
+      setStatus('Confirm account creation in MetaMask...');
+      console.log('📝 Creating savings account...');
+      const tx = await vault.createAccount(
+        parseUnits(settings.weeklyGoal, 6),
+        parseUnits(settings.safetyBuffer, 6),
+        TRUST_MODE[settings.trustMode]
+      );
+
+      setStatus('Waiting for confirmation...');
+      console.log('⏳ Waiting for confirmation...');
+      const receipt = await tx.wait();
+
+      console.log('✅ Account created:', receipt.hash);
+      setTxHash(receipt.hash);
+      setStatus('Account created!');
+      return true;
+    } catch (err: unknown) {
+      console.error('❌ Create account error:', err);
+      setError(decodeVaultError(err, 'Failed to create account'));
+      setStatus('Error');
+      return false;
+    } finally {
+      setIsCreating(false);
+    }
+  }, []);
+
+  return {
+    isCreating,
+    status,
+    error,
+    txHash,
+    createAccount,
+  };
+}
@@ -0,0 +1,83 @@
+import { useState, useCallback, useEffect } from 'react';
+import { api } from '../services/api';
+import type { HistoryEntry, HistoryFilters } from '../types';
+
+// Entries fetched per page
+const PAGE_SIZE = 20;
+
+/**
+ * Return value from useHistory hook
+ */
+export interface UseHistoryResult {
+  entries: HistoryEntry[];        // Newest first, all pages loaded so far
+  total: number;
+  hasMore: boolean;
+  isLoading: boolean;             // First page for the current filters
+  isLoadingMore: boolean;
+  error: string | null;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Hook for the activity timeline
+ *
+ * Loads the user's vault transactions for the given filters, one page
+ * at a time. Changing the filters or `refreshKey` starts over.
+ */
+export function useHistory(userAddress: string, filters: HistoryFilters, refreshKey: number = 0): UseHistoryResult {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const types = filters.types?.join(',') ?? '';
+  const { from, to } = filters;
+  const key = `${userAddress}|${types}|${from ?? ''}|${to ?? ''}|${refreshKey}`;
+
+  useEffect(() => {
+    const query: HistoryFilters = { types: types ? (types.split(',') as HistoryFilters['types']) : undefined, from, to };
+
+    api.getHistory(userAddress, query, PAGE_SIZE, 0)
+      .then((page) => {
+        setEntries(page.entries);
+        setTotal(page.pagination.total);
+        setHasMore(page.pagination.hasMore);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load activity');
+      })
+      .finally(() => setLoadedKey(key));
+  }, [userAddress, types, from, to, key]);
+
+  /**
+   * Append the next page
+   */
+  const loadMore = useCallback(async () => {
+    try {
+      setIsLoadingMore(true);
+      const page = await api.getHistory(userAddress, filters, PAGE_SIZE, entries.length);
+      setEntries((current) => [...current, ...page.entries]);
+      setTotal(page.pagination.total);
+      setHasMore(page.pagination.hasMore);
+    } catch (err: unknown) {
+      console.error('Error fetching history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load activity');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [userAddress, filters, entries.length]);
+
+  return {
+    entries,
+    total,
+    hasMore,
+    isLoading: loadedKey !== key,
+    isLoadingMore,
+    error,
+    loadMore,
+  };
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useRef } from 'react';
+import { api } from '../services/api';
+import type { LiveDecision, LiveVaultEvent, UserAccount } from '../types';
+
+// Reconnect backoff when the stream can't be reopened by the browser
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+/**
+ * Connection state of the live event stream
+ */
+export type LiveEventsStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * Callbacks for the events on the stream
+ */
+export interface LiveEventHandlers {
+  onVaultEvent?: (event: LiveVaultEvent) => void;
+  onDecision?: (decision: LiveDecision) => void;
+  onResync?: () => void;          // Missed events are gone: reload everything
+}
+
+/**
+ * Apply the fields a vault event carries to the loaded account
+ *
+ * Only sets values the event states outright (new balance, new goal,
+ * save time), so applying one twice or after a reload changes nothing.
+ * Wallet balance and totals need a reload from the backend.
+ */
+export function applyLiveVaultEvent(account: UserAccount, event: LiveVaultEvent): UserAccount {
+  switch (event.name) {
+    case 'Deposited':
+    case 'Withdrawn':
+      return { ...account, account: { ...account.account, currentBalance: event.args.newBalance } };
+    case 'AutoSaveExecuted':
+      return {
+        ...account,
+        account: { ...account.account, lastSaveTimestamp: String(event.blockTimestamp) },
+        canAutoSave: false,
+      };
+    case 'GoalUpdated':
+      return { ...account, account: { ...account.account, weeklyGoal: event.args.newWeeklyGoal } };
+  }
+}
+
+/**
+ * Hook for the user's live event stream
+ *
+ * Opens an EventSource on GET /api/user/:address/events and calls the
+ * handlers as vault events and scheduler decisions arrive.
+ * - The browser reconnects dropped streams itself, sending Last-Event-ID
+ * - If the stream closes for good (e.g. backend down), it is reopened
+ *   with backoff, resuming after the last event seen
+ */
+export function useLiveEvents(userAddress: string | null, handlers: LiveEventHandlers): LiveEventsStatus {
+  const [status, setStatus] = useState<LiveEventsStatus>('connecting');
+  const handlersRef = useRef(handlers);
+
+  // Latest handlers without reopening the stream when they change
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!userAddress) return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let lastEventId: string | undefined;
+
+    const connect = () => {
+      const current = new EventSource(api.getEventsUrl(userAddress, lastEventId));
+      source = current;
+
+      current.onopen = () => {
+        attempt = 0;
+        setStatus('open');
+      };
+
+      current.addEventListener('vault_event', (e: MessageEvent<string>) => {
+        lastEventId = e.lastEventId;
+        handlersRef.current.onVaultEvent?.(JSON.parse(e.data) as LiveVaultEvent);
+      });
+
+      current.addEventListener('decision', (e: MessageEvent<string>) => {
+        lastEventId = e.lastEventId;
+        handlersRef.current.onDecision?.(JSON.parse(e.data) as LiveDecision);
+      });
+
+      current.addEventListener('resync', () => {
+        console.log('🔄 Live events: missed events unavailable, reloading');
+        lastEventId = undefined;
+        handlersRef.current.onResync?.();
+      });
+
+      current.onerror = () => {
+        setStatus('reconnecting');
+
+        // Still CONNECTING: the browser is retrying on its own
+        if (current.readyState !== EventSource.CLOSED) return;
+
+        const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+        attempt++;
+        console.warn(`⚠️ Live events closed, reconnecting in ${delay / 1000}s`);
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [userAddress]);
+
+  return userAddress ? status : 'closed';
+}
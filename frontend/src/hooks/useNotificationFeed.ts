@@ -0,0 +1,58 @@
+import { useState, useCallback, useEffect } from 'react';
+import { api } from '../services/api';
+import type { AppNotification } from '../types';
+
+/**
+ * Return value from useNotificationFeed hook
+ */
+export interface UseNotificationFeedResult {
+  notifications: AppNotification[];  // Newest first
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for the user's in-app notification feed
+ *
+ * Saves, skips, failures, proposals and low-balance warnings,
+ * as written by the backend notifier.
+ */
+export function useNotificationFeed(userAddress: string, limit: number = 10): UseNotificationFeedResult {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Reload the feed
+   */
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setNotifications(await api.getNotificationFeed(userAddress, limit));
+      setError(null);
+    } catch (err: unknown) {
+      console.error('Error fetching notifications:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userAddress, limit]);
+
+  useEffect(() => {
+    api.getNotificationFeed(userAddress, limit)
+      .then(setNotifications)
+      .catch((err: unknown) => {
+        console.error('Error fetching notifications:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load notifications');
+      })
+      .finally(() => setIsLoading(false));
+  }, [userAddress, limit]);
+
+  return {
+    notifications,
+    isLoading,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import type { YieldPerformance } from '../types';
+
+/**
+ * Return value from usePerformance hook
+ */
+export interface UsePerformanceResult {
+  performance: YieldPerformance | null;  // null until the user has funds in yield
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Hook for the user's yield strategy performance
+ *
+ * Loads cost basis, yield, swap cost, PnL and APY for the address
+ * (nothing while it is null). Bump `refreshKey` to reload.
+ */
+export function usePerformance(userAddress: string | null, refreshKey: number = 0): UsePerformanceResult {
+  const [performance, setPerformance] = useState<YieldPerformance | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const key = `${userAddress}|${refreshKey}`;
+
+  useEffect(() => {
+    if (!userAddress) return;
+
+    api.getPerformance(userAddress)
+      .then((result) => {
+        setPerformance(result);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching performance:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load yield performance');
+      })
+      .finally(() => setLoadedKey(key));
+  }, [userAddress, key]);
+
+  return {
+    performance: userAddress ? performance : null,
+    isLoading: userAddress !== null && loadedKey !== key,
+    error,
+  };
+}
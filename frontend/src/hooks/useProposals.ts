@@ -0,0 +1,98 @@
+import { useState, useCallback, useEffect } from 'react';
+import { api } from '../services/api';
+import { signRequest } from '../services/signing';
+import type { SaveProposal } from '../types';
+
+// Action string the wallet signs to dismiss a proposal (matches the backend)
+const DISMISS_PROPOSAL_ACTION = 'dismiss-proposal';
+
+/**
+ * Return value from useProposals hook
+ */
+export interface UseProposalsResult {
+  pending: SaveProposal | null;  // The proposal waiting for the user, if any
+  proposals: SaveProposal[];     // All proposals, newest first
+  isLoading: boolean;
+  isDismissing: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  dismiss: (proposalId: string) => Promise<boolean>;
+}
+
+/**
+ * Hook for the MANUAL-mode proposal inbox
+ *
+ * Loads the saves the AI proposed to the user, and dismisses one with a
+ * signed request. Accepting goes through useAutoSave with the proposalId.
+ */
+export function useProposals(userAddress: string): UseProposalsResult {
+  const [pending, setPending] = useState<SaveProposal | null>(null);
+  const [proposals, setProposals] = useState<SaveProposal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDismissing, setIsDismissing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Reload the user's proposals
+   */
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await api.getProposals(userAddress);
+      setPending(data.pending);
+      setProposals(data.proposals);
+      setError(null);
+    } catch (err: unknown) {
+      console.error('Error fetching proposals:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load proposals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userAddress]);
+
+  useEffect(() => {
+    api.getProposals(userAddress)
+      .then((data) => {
+        setPending(data.pending);
+        setProposals(data.proposals);
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching proposals:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load proposals');
+      })
+      .finally(() => setIsLoading(false));
+  }, [userAddress]);
+
+  /**
+   * Sign and send a dismissal, then reload
+   */
+  const dismiss = useCallback(async (proposalId: string) => {
+    try {
+      setIsDismissing(true);
+      setError(null);
+
+      const { timestamp, signature } = await signRequest(DISMISS_PROPOSAL_ACTION, userAddress, { proposalId });
+      await api.dismissProposal(userAddress, proposalId, timestamp, signature);
+
+      console.log('🙅 Proposal dismissed:', proposalId);
+      await refresh();
+      return true;
+    } catch (err: unknown) {
+      console.error('❌ Dismiss proposal error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to dismiss proposal');
+      return false;
+    } finally {
+      setIsDismissing(false);
+    }
+  }, [userAddress, refresh]);
+
+  return {
+    pending,
+    proposals,
+    isLoading,
+    isDismissing,
+    error,
+    refresh,
+    dismiss,
+  };
+}
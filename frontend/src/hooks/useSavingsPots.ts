@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../services/api';
+import { signRequest } from '../services/signing';
+import type { SavingsPot, SavingsPotInput } from '../types';
+
+// Action string the wallet signs to update pots (matches the backend)
+const UPDATE_POTS_ACTION = 'update-pots';
+
+/**
+ * Return value from useSavingsPots hook
+ */
+export interface UseSavingsPotsResult {
+  pots: SavingsPot[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  save: (pots: SavingsPotInput[]) => Promise<boolean>;
+}
+
+/**
+ * Hook for the user's savings pots (named goals)
+ *
+ * Loads the pots and their progress for the address (nothing while it
+ * is null), and replaces them with a signed request. Bump `refreshKey`
+ * to reload, e.g. after a save was credited to them.
+ */
+export function useSavingsPots(userAddress: string | null, refreshKey: number = 0): UseSavingsPotsResult {
+  const [pots, setPots] = useState<SavingsPot[]>([]);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const key = `${userAddress}|${refreshKey}`;
+
+  useEffect(() => {
+    if (!userAddress) return;
+
+    api.getPots(userAddress)
+      .then((result) => {
+        setPots(result);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching pots:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load savings pots');
+      })
+      .finally(() => setLoadedKey(key));
+  }, [userAddress, key]);
+
+  /**
+   * Sign and send the new list of pots
+   */
+  const save = useCallback(async (next: SavingsPotInput[]) => {
+    if (!userAddress) return false;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const { timestamp, signature } = await signRequest(UPDATE_POTS_ACTION, userAddress, { pots: next });
+      setPots(await api.updatePots(userAddress, next, timestamp, signature));
+
+      console.log('🫙 Savings pots updated:', next.length);
+      return true;
+    } catch (err: unknown) {
+      console.error('❌ Update pots error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update savings pots');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [userAddress]);
+
+  return {
+    pots: userAddress ? pots : [],
+    isLoading: userAddress !== null && loadedKey !== key,
+    isSaving,
+    error,
+    save,
+  };
+}
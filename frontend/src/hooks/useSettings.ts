@@ -0,0 +1,154 @@
+import { useState, useCallback } from 'react';
+import { BrowserProvider, Contract, formatUnits, parseUnits } from 'ethers';
+import type { TransactionReceipt } from 'ethers';
+import { SAVINGS_VAULT_ABI, TRUST_MODE, VAULT_ADDRESS, decodeVaultError, vaultInterface } from '../services/contracts';
+import { validateSafetyBuffer, validateWeeklyGoal } from './useCreateAccount';
+import type { AccountSettings } from './useCreateAccount';
+
+type TrustMode = AccountSettings['trustMode'];
+
+/**
+ * Return value from useSettings hook
+ */
+export interface UseSettingsResult {
+  isSubmitting: boolean;
+  status: string;                // Human-readable status for UI
+  error: string | null;
+  confirmation: string | null;   // What the vault's event confirmed
+  updateGoal: (weeklyGoal: string) => Promise<boolean>;
+  updateTrustMode: (trustMode: TrustMode) => Promise<boolean>;
+  updateSafetyBuffer: (safetyBuffer: string) => Promise<boolean>;
+}
+
+/**
+ * Find a vault event for this user in a receipt
+ */
+function findVaultEvent(receipt: TransactionReceipt, name: string, userAddress: string) {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== VAULT_ADDRESS.toLowerCase()) continue;
+
+    const parsed = vaultInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name === name && String(parsed.args.user).toLowerCase() === userAddress.toLowerCase()) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Hook for changing account settings from the user's wallet
+ *
+ * Sends updateGoal / updateTrustMode / updateSafetyBuffer and only reports
+ * success once the receipt carries the matching GoalUpdated /
+ * TrustModeUpdated / SafetyBufferUpdated event.
+ */
+export function useSettings(): UseSettingsResult {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<string>('Ready');
+  const [error, setError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+
+  /**
+   * Send a vault call and wait for its event
+   * Returns the confirmation message, or null if it failed.
+   */
+  const submit = useCallback(async (
+    send: (vault: Contract) => Promise<{ wait: () => Promise<TransactionReceipt> }>,
+    eventName: string,
+    describe: (args: { [key: string]: bigint }) => string
+  ) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setConfirmation(null);
+
+      if (!window.ethereum) {
+        throw new Error('MetaMask not installed');
+      }
+
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const vault = new Contract(VAULT_ADDRESS, SAVINGS_VAULT_ABI, signer);
+
+      setStatus('Confirm the change in MetaMask...');
+      const tx = await send(vault);
+
+      setStatus('Waiting for confirmation...');
+      const receipt = await tx.wait();
+
+      const event = findVaultEvent(receipt, eventName, await signer.getAddress());
+      if (!event) {
+        throw new Error(`Transaction confirmed but no ${eventName} event was emitted`);
+      }
+
+      const message = describe(event.args.toObject());
+      console.log(`✅ ${eventName}:`, message);
+      setConfirmation(message);
+      setStatus('Saved');
+      return true;
+    } catch (err: unknown) {
+      console.error(`❌ ${eventName} error:`, err);
+      setError(decodeVaultError(err, 'Failed to update settings'));
+      setStatus('Error');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  /**
+   * Change the weekly goal (must be greater than zero)
+   */
+  const updateGoal = useCallback(async (weeklyGoal: string) => {
+    const validationError = validateWeeklyGoal(weeklyGoal);
+    if (validationError) {
+      setError(validationError);
+      return false;
+    }
+
+    return submit(
+      (vault) => vault.updateGoal(parseUnits(weeklyGoal, 6)),
+      'GoalUpdated',
+      (args) => `Weekly goal set to $${formatUnits(args.newWeeklyGoal, 6)}`
+    );
+  }, [submit]);
+
+  /**
+   * Switch between MANUAL and AUTO
+   */
+  const updateTrustMode = useCallback(async (trustMode: TrustMode) => {
+    return submit(
+      (vault) => vault.updateTrustMode(TRUST_MODE[trustMode]),
+      'TrustModeUpdated',
+      (args) => `Trust mode set to ${Number(args.newMode) === TRUST_MODE.AUTO ? 'AUTO' : 'MANUAL'}`
+    );
+  }, [submit]);
+
+  /**
+   * Change the safety buffer (zero turns it off)
+   */
+  const updateSafetyBuffer = useCallback(async (safetyBuffer: string) => {
+    const validationError = validateSafetyBuffer(safetyBuffer);
+    if (validationError) {
+      setError(validationError);
+      return false;
+    }
+
+    return submit(
+      (vault) => vault.updateSafetyBuffer(parseUnits(safetyBuffer, 6)),
+      'SafetyBufferUpdated',
+      (args) => `Safety buffer set to $${formatUnits(args.newSafetyBuffer, 6)}`
+    );
+  }, [submit]);
+
+  return {
+    isSubmitting,
+    status,
+    error,
+    confirmation,
+    updateGoal,
+    updateTrustMode,
+    updateSafetyBuffer,
+  };
+}
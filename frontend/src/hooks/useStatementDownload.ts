@@ -0,0 +1,50 @@
+import { useState, useCallback } from 'react';
+import { api } from '../services/api';
+import type { StatementFormat } from '../types';
+
+/**
+ * Return value from useStatementDownload hook
+ */
+export interface UseStatementDownloadResult {
+  isDownloading: boolean;
+  error: string | null;
+  download: (year: number, format: StatementFormat) => Promise<void>;
+}
+
+/**
+ * Hook for downloading a yearly statement
+ *
+ * Fetches the statement for the calendar year and saves it through a
+ * temporary link, e.g. pigment-statement-2026.csv.
+ */
+export function useStatementDownload(userAddress: string): UseStatementDownloadResult {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = useCallback(async (year: number, format: StatementFormat) => {
+    try {
+      setIsDownloading(true);
+      setError(null);
+
+      const file = await api.downloadStatement(userAddress, `${year}-01-01`, `${year}-12-31`, format);
+
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `pigment-statement-${year}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      console.error('Error downloading statement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download statement');
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [userAddress]);
+
+  return {
+    isDownloading,
+    error,
+    download,
+  };
+}
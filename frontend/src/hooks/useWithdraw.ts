@@ -0,0 +1,135 @@
+import { useState, useCallback } from 'react';
+import { BrowserProvider, Contract, formatUnits, parseUnits } from 'ethers';
+import { api } from '../services/api';
+import { SAVINGS_VAULT_ABI, VAULT_ADDRESS, decodeVaultError, vaultInterface } from '../services/contracts';
+import type { WithdrawQuote, WithdrawResult } from '../types';
+
+/**
+ * Return value from useWithdraw hook
+ */
+export interface UseWithdrawResult {
+  quote: WithdrawQuote | null;   // Preview for the last quoted amount
+  isQuoting: boolean;
+  isWithdrawing: boolean;
+  status: string;                // Human-readable status for UI
+  error: string | null;
+  result: WithdrawResult | null; // Events from the last confirmed withdrawal
+  previewWithdraw: (userAddress: string, amount: string) => Promise<void>;
+  executeWithdraw: (amount: string) => Promise<WithdrawResult | null>;
+}
+
+/**
+ * Read the vault's Withdrawn / WithdrawnFromYield events from a receipt
+ */
+function parseWithdrawEvents(
+  txHash: string,
+  logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string }>
+): WithdrawResult {
+  const result: WithdrawResult = { txHash, withdrawn: null, withdrawnFromYield: null };
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== VAULT_ADDRESS.toLowerCase()) continue;
+
+    const parsed = vaultInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name === 'Withdrawn') {
+      result.withdrawn = {
+        amount: formatUnits(parsed.args.amount, 6),
+        newBalance: formatUnits(parsed.args.newBalance, 6),
+      };
+    } else if (parsed?.name === 'WithdrawnFromYield') {
+      result.withdrawnFromYield = {
+        liquidityTokens: parsed.args.liquidityTokens.toString(),
+        usdcAmount: formatUnits(parsed.args.usdcAmount, 6),
+      };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Hook for withdrawing USDC from the vault
+ *
+ * 1. Preview: ask the backend how the amount splits between the vault's
+ *    idle USDC and unwinding the VVS position (and the slippage on it)
+ * 2. Withdraw: call withdraw(amount) from the user's own wallet
+ * 3. Read the Withdrawn / WithdrawnFromYield events from the receipt
+ */
+export function useWithdraw(): UseWithdrawResult {
+  const [quote, setQuote] = useState<WithdrawQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [status, setStatus] = useState<string>('Ready');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<WithdrawResult | null>(null);
+
+  /**
+   * Fetch the split and slippage estimate for an amount
+   */
+  const previewWithdraw = useCallback(async (userAddress: string, amount: string) => {
+    try {
+      setIsQuoting(true);
+      setError(null);
+      setQuote(await api.getWithdrawQuote(userAddress, amount));
+    } catch (err: unknown) {
+      console.error('Error fetching withdraw quote:', err);
+      setQuote(null);
+      setError(err instanceof Error ? err.message : 'Failed to preview withdrawal');
+    } finally {
+      setIsQuoting(false);
+    }
+  }, []);
+
+  /**
+   * Send withdraw(amount) from the connected wallet
+   */
+  const executeWithdraw = useCallback(async (amount: string) => {
+    try {
+      setIsWithdrawing(true);
+      setError(null);
+      setResult(null);
+
+      if (!window.ethereum) {
+        throw new Error('MetaMask not installed');
+      }
+
+      const provider = new BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const vault = new Contract(VAULT_ADDRESS, SAVINGS_VAULT_ABI, signer);
+
+      setStatus('Confirm the withdrawal in MetaMask...');
+      console.log('📝 Requesting withdrawal...');
+      const tx = await vault.withdraw(parseUnits(amount, 6));
+
+      setStatus('Waiting for confirmation...');
+      console.log('⏳ Waiting for confirmation...');
+      const receipt = await tx.wait();
+
+      const withdrawResult = parseWithdrawEvents(receipt.hash, receipt.logs);
+      console.log('✅ Withdrawal confirmed:', withdrawResult);
+
+      setResult(withdrawResult);
+      setQuote(null);
+      setStatus('Withdrawal successful!');
+      return withdrawResult;
+    } catch (err: unknown) {
+      console.error('❌ Withdraw error:', err);
+      setError(decodeVaultError(err, 'Failed to withdraw'));
+      setStatus('Error');
+      return null;
+    } finally {
+      setIsWithdrawing(false);
+    }
+  }, []);
+
+  return {
+    quote,
+    isQuoting,
+    isWithdrawing,
+    status,
+    error,
+    result,
+    previewWithdraw,
+    executeWithdraw,
+  };
+}
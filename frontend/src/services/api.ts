@@ -1,5 +1,16 @@
 import type {
   UserAccount,
+  AiAnalysis,
+  WithdrawQuote,
+  SaveProposal,
+  SaveProposals,
+  AppNotification,
+  HistoryFilters,
+  HistoryPage,
+  YieldPerformance,
+  StatementFormat,
+  SavingsPot,
+  SavingsPotInput,
   PaymentChallenge,
   SaveSuccessResponse,
   ApiErrorResponse,
@@ -37,6 +48,234 @@ export const api = {
     return data.data;
   },
 
+  /**
+   * Get the AI decision for a user, with its trace
+   * 
+   * Calls: GET /api/ai/analyze/:address
+   * Returns: What the engine would decide now and which rules decided it
+   * (nothing is saved)
+   */
+  async getAiAnalysis(address: string): Promise<AiAnalysis> {
+    const res = await fetch(`${API_BASE}/api/ai/analyze/${address}`);
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch AI analysis: ${res.statusText}`);
+    }
+
+    const data = await res.json();
+    return data.data;
+  },
+
+  /**
+   * Preview a withdrawal
+   * 
+   * Calls: GET /api/user/:address/withdraw-quote?amount=
+   * Returns: How much comes from the vault vs. unwinding the VVS position,
+   * and the estimated slippage
+   * 
+   * @param amount - Amount to withdraw (e.g. "25.00")
+   */
+  async getWithdrawQuote(address: string, amount: string): Promise<WithdrawQuote> {
+    const res = await fetch(
+      `${API_BASE}/api/user/${address}/withdraw-quote?amount=${encodeURIComponent(amount)}`
+    );
+    const data = await res.json();
+
+    // Rejected amounts come back as 400 with a code and message
+    if (!res.ok || !data.success) {
+      throw new Error(data.message || data.error || `Failed to fetch withdraw quote: ${res.statusText}`);
+    }
+
+    return data.data;
+  },
+
+  /**
+   * Get the user's vault transactions, newest first
+   * 
+   * Calls: GET /api/user/:address/history?type=&from=&to=&limit=&offset=
+   * Returns: Deposits, auto-saves, withdrawals and yield moves, with
+   * explorer links and the x402 payment behind each deposit
+   */
+  async getHistory(
+    address: string,
+    filters: HistoryFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<HistoryPage> {
+    const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+    if (filters.types?.length) params.set('type', filters.types.join(','));
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+
+    const res = await fetch(`${API_BASE}/api/user/${address}/history?${params}`);
+    const data = await res.json();
+
+    if (!res.ok || !data.success) {
+      throw new Error(data.error || `Failed to fetch history: ${res.statusText}`);
+    }
+
+    return data.data;
+  },
+
+  /**
+   * Get the user's yield strategy performance
+   * 
+   * Calls: GET /api/user/:address/performance
+   * Returns: Cost basis, yield, swap cost, PnL and APY, or null until
+   * the user has funds in the VVS strategy and a snapshot was taken
+   */
+  async getPerformance(address: string): Promise<YieldPerformance | null> {
+    const res = await fetch(`${API_BASE}/api/user/${address}/performance`);
+    const data = await res.json();
+
+    if (!res.ok || !data.success) {
+      throw new Error(data.error || `Failed to fetch performance: ${res.statusText}`);
+    }
+
+    return data.data.performance;
+  },
+
+  /**
+   * Download the user's statement for [from, to] (dates, YYYY-MM-DD)
+   * 
+   * Calls: GET /api/user/:address/statement?from=&to=&format=
+   * Returns: The statement as a file (CSV, or the JSON statement)
+   */
+  async downloadStatement(address: string, from: string, to: string, format: StatementFormat): Promise<Blob> {
+    const params = new URLSearchParams({ from, to, format });
+    const res = await fetch(`${API_BASE}/api/user/${address}/statement?${params}`);
+
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || `Failed to download statement: ${res.statusText}`);
+    }
+
+    if (format === 'csv') {
+      return res.blob();
+    }
+
+    const data = await res.json();
+    return new Blob([JSON.stringify(data.data, null, 2)], { type: 'application/json' });
+  },
+
+  /**
+   * Get the saves the AI proposed to a MANUAL account
+   * 
+   * Calls: GET /api/user/:address/proposals
+   * Returns: Proposals newest first, with the open one as `pending`
+   */
+  async getProposals(address: string): Promise<SaveProposals> {
+    const res = await fetch(`${API_BASE}/api/user/${address}/proposals`);
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch proposals: ${res.statusText}`);
+    }
+
+    const data = await res.json();
+    return data.data;
+  },
+
+  /**
+   * Dismiss a pending proposal
+   * 
+   * Calls: POST /api/user/:address/proposals/:id/dismiss
+   * 
+   * @param timestamp - Unix seconds the request was signed at
+   * @param signature - personal_sign of buildSignedMessage('dismiss-proposal', ...)
+   */
+  async dismissProposal(
+    address: string,
+    proposalId: string,
+    timestamp: number,
+    signature: string
+  ): Promise<SaveProposal> {
+    const res = await fetch(`${API_BASE}/api/user/${address}/proposals/${proposalId}/dismiss`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timestamp, signature }),
+    });
+    const data = await res.json();
+
+    if (!res.ok || !data.success) {
+      throw new Error(data.message || data.error || `Failed to dismiss proposal: ${res.statusText}`);
+    }
+
+    return data.data;
+  },
+
+  /**
+   * Get the user's savings pots with their progress
+   * 
+   * Calls: GET /api/user/:address/pots
+   */
+  async getPots(address: string): Promise<SavingsPot[]> {
+    const res = await fetch(`${API_BASE}/api/user/${address}/pots`);
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch pots: ${res.statusText}`);
+    }
+
+    const data = await res.json();
+    return data.data.pots;
+  },
+
+  /**
+   * Replace the user's savings pots
+   * 
+   * Calls: PUT /api/user/:address/pots
+   * 
+   * @param timestamp - Unix seconds the request was signed at
+   * @param signature - personal_sign of buildSignedMessage('update-pots', ...)
+   */
+  async updatePots(
+    address: string,
+    pots: SavingsPotInput[],
+    timestamp: number,
+    signature: string
+  ): Promise<SavingsPot[]> {
+    const res = await fetch(`${API_BASE}/api/user/${address}/pots`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pots, timestamp, signature }),
+    });
+    const data = await res.json();
+
+    if (!res.ok || !data.success) {
+      throw new Error(data.message || data.error || `Failed to update pots: ${res.statusText}`);
+    }
+
+    return data.data.pots;
+  },
+
+  /**
+   * Get the user's in-app notifications, newest first
+   * 
+   * Calls: GET /api/user/:address/notifications/feed?limit=
+   */
+  async getNotificationFeed(address: string, limit: number = 20): Promise<AppNotification[]> {
+    const res = await fetch(`${API_BASE}/api/user/${address}/notifications/feed?limit=${limit}`);
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch notifications: ${res.statusText}`);
+    }
+
+    const data = await res.json();
+    return data.data.notifications;
+  },
+
+  /**
+   * URL of the user's live event stream (Server-Sent Events)
+   * 
+   * Calls: GET /api/user/:address/events?lastEventId=
+   * 
+   * @param lastEventId - Resume after this event (for a new EventSource;
+   *                      a reconnecting one sends Last-Event-ID itself)
+   */
+  getEventsUrl(address: string, lastEventId?: string): string {
+    const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+    return `${API_BASE}/api/user/${address}/events${query}`;
+  },
+
   /**
    * Trigger save (with optional payment)
    * 
@@ -51,12 +290,14 @@ export const api = {
    * @param amount - Amount to save (e.g. "25.00")
    * @param paymentHeader - Optional: Base64 payment header from SDK
    * @param paymentId - Optional: Payment ID from 402 challenge
+   * @param proposalId - Optional: AI proposal this save accepts
    */
   async triggerSave(
     user: string,
     amount: string,
     paymentHeader?: string,
-    paymentId?: string
+    paymentId?: string,
+    proposalId?: string
   ): Promise<PaymentChallenge | SaveSuccessResponse | ApiErrorResponse> {
     // Build headers object
     const headers: Record<string, string> = {
@@ -78,7 +319,7 @@ export const api = {
     const res = await fetch(`${API_BASE}/api/save`, {
       method: 'POST',
       headers,
-      body: JSON.stringify({ user, amount }),
+      body: JSON.stringify({ user, amount, proposalId }),
     });
 
     // Parse response (could be 402 challenge, success, or error)
@@ -0,0 +1,116 @@
+import { Interface, isError } from 'ethers';
+
+/**
+ * On-chain contracts the frontend talks to directly
+ * 
+ * Most calls go through the backend API; these are the ones the user
+ * signs themselves (account setup and settings, approvals, withdrawals).
+ */
+
+export const VAULT_ADDRESS = import.meta.env.VITE_VAULT_ADDRESS || '0x349bC1BD3BB0A0A82468a56EA4Df85Ca24f3869c';
+export const USDC_ADDRESS = import.meta.env.VITE_USDC_ADDRESS || '0x77C03DB7c301cA660a813ea828005f2F5B5aedAD';
+
+export const USDC_ABI = [
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function allowance(address owner, address spender) external view returns (uint256)',
+];
+
+export const SAVINGS_VAULT_ABI = [
+  'function createAccount(uint256 weeklyGoal, uint256 safetyBuffer, uint8 trustMode)',
+  'function withdraw(uint256 amount)',
+  'function updateGoal(uint256 newWeeklyGoal)',
+  'function updateTrustMode(uint8 newMode)',
+  'function updateSafetyBuffer(uint256 newSafetyBuffer)',
+  'event AccountCreated(address indexed user, uint256 weeklyGoal, uint256 safetyBuffer, uint8 trustMode)',
+  'event GoalUpdated(address indexed user, uint256 newWeeklyGoal)',
+  'event TrustModeUpdated(address indexed user, uint8 newMode)',
+  'event SafetyBufferUpdated(address indexed user, uint256 newSafetyBuffer)',
+  'event Withdrawn(address indexed user, uint256 amount, uint256 newBalance)',
+  'event WithdrawnFromYield(address indexed user, uint256 liquidityTokens, uint256 usdcAmount)',
+  'error SavingsVault__InvalidAmount()',
+  'error SavingsVault__InsufficientBalance()',
+  'error SavingsVault__AccountNotActive()',
+  'error SavingsVault__UnauthorizedCaller()',
+  'error SavingsVault__SaveIntervalNotMet()',
+  'error SavingsVault__AmountExceedsLimit()',
+  'error SavingsVault__ZeroAddress()',
+  'error SavingsVault__GoalNotPositive()',
+  'error SavingsVault__AccountAlreadyExists()',
+];
+
+/**
+ * SavingsVault.TrustMode enum values
+ */
+export const TRUST_MODE = {
+  MANUAL: 0,
+  AUTO: 1,
+} as const;
+
+export const vaultInterface = new Interface(SAVINGS_VAULT_ABI);
+
+/**
+ * User-facing messages for SavingsVault custom errors
+ */
+const VAULT_ERROR_MESSAGES: Record<string, string> = {
+  SavingsVault__InvalidAmount: 'Enter an amount greater than zero.',
+  SavingsVault__InsufficientBalance: 'That is more than your savings balance.',
+  SavingsVault__AccountNotActive: 'You don\'t have an active savings account.',
+  SavingsVault__UnauthorizedCaller: 'This wallet is not allowed to do that.',
+  SavingsVault__SaveIntervalNotMet: 'Saves are limited to one every 24 hours.',
+  SavingsVault__AmountExceedsLimit: 'That is more than the 10,000 USDC limit per save.',
+  SavingsVault__ZeroAddress: 'An address was missing.',
+  SavingsVault__GoalNotPositive: 'The weekly goal must be greater than zero.',
+  SavingsVault__AccountAlreadyExists: 'This wallet already has a savings account.',
+};
+
+/**
+ * Revert data from an ethers or wallet error, wherever the provider put it
+ */
+function getRevertData(err: unknown): string | null {
+  const candidates = [err, (err as { error?: unknown })?.error, (err as { info?: { error?: unknown } })?.info?.error];
+
+  for (const candidate of candidates) {
+    const data = (candidate as { data?: unknown })?.data;
+    if (typeof data === 'string' && data.startsWith('0x') && data.length >= 10) return data;
+
+    // Some wallets nest it one level deeper: { data: { data: '0x...' } }
+    const nested = (data as { data?: unknown })?.data;
+    if (typeof nested === 'string' && nested.startsWith('0x') && nested.length >= 10) return nested;
+  }
+
+  return null;
+}
+
+/**
+ * Turn a failed vault transaction into a message for the UI
+ * Decodes SavingsVault custom errors; `fallback` covers everything else.
+ */
+export function decodeVaultError(err: unknown, fallback: string): string {
+  if (isError(err, 'ACTION_REJECTED')) {
+    return 'Transaction rejected in MetaMask.';
+  }
+
+  let name: string | null = isError(err, 'CALL_EXCEPTION') && err.revert ? err.revert.name : null;
+
+  if (!name) {
+    const data = getRevertData(err);
+    try {
+      name = data ? vaultInterface.parseError(data)?.name ?? null : null;
+    } catch {
+      name = null;
+    }
+  }
+
+  if (name) {
+    return VAULT_ERROR_MESSAGES[name] ?? `The vault rejected the transaction (${name})`;
+  }
+
+  return err instanceof Error ? err.message : fallback;
+}
+
+/**
+ * Block explorer link for a transaction
+ */
+export function explorerTxUrl(txHash: string): string {
+  return `https://explorer.cronos.org/testnet/tx/${txHash}`;
+}
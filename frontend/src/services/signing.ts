@@ -0,0 +1,56 @@
+import { BrowserProvider } from 'ethers';
+
+/**
+ * JSON with object keys sorted, so the backend rebuilds the same message
+ * (mirrors canonicalJson in the backend's signed-request service)
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Build the message the backend expects for a signed request
+ * (mirrors buildSignedMessage in the backend)
+ */
+export function buildSignedMessage(action: string, address: string, payload: unknown, timestamp: number): string {
+  return [
+    `Pigment: ${action}`,
+    `Address: ${address.toLowerCase()}`,
+    `Payload: ${canonicalJson(payload)}`,
+    `Timestamp: ${timestamp}`,
+  ].join('\n');
+}
+
+/**
+ * Sign a backend request with the connected wallet (personal_sign)
+ * Returns the timestamp and signature to send in the request body.
+ */
+export async function signRequest(
+  action: string,
+  address: string,
+  payload: unknown
+): Promise<{ timestamp: number; signature: string }> {
+  if (!window.ethereum) {
+    throw new Error('MetaMask not installed');
+  }
+
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signer.signMessage(buildSignedMessage(action, address, payload, timestamp));
+
+  return { timestamp, signature };
+}
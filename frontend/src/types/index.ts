@@ -20,6 +20,14 @@ export interface UserAccount {
   totalBalance: string;           // Vault balance (from yield strategy)
   walletBalance: string;           // NEW: Wallet USDC balance
   canAutoSave: boolean;
+  savedThisWeek: string;           // Deposits and auto-saves since the week started
+  remainingThisWeek: string;       // Left of the weekly goal this week
+  week: {
+    start: string;                 // ISO, inclusive
+    end: string;                   // ISO, exclusive
+    timezone: string;
+    startDay: number;              // 0 = Sunday
+  };
 }
 
 /**
@@ -68,14 +76,329 @@ export interface SaveSuccessResponse {
     user: string;                 // User address
     amount: string;               // Amount saved "25.00"
     amountInSmallestUnit: string; // Amount in base units "25000000"
+    proposalId: string | null;    // Proposal this save accepted, if any
   };
 }
 
+/**
+ * Codes returned by POST /api/save when the payment header is rejected
+ * before it reaches the facilitator
+ */
+export type PaymentHeaderErrorCode =
+  | 'invalid_payment_header'
+  | 'payment_from_mismatch'
+  | 'payment_to_mismatch'
+  | 'payment_value_mismatch'
+  | 'payment_expired';
+
+/**
+ * Codes returned by POST /api/save when a proposalId can't be accepted
+ */
+export type SaveProposalErrorCode =
+  | 'proposal_not_found'
+  | 'proposal_not_pending'
+  | 'proposal_expired'
+  | 'proposal_amount_mismatch';
+
 /**
  * API Error response from backend
  */
 export interface ApiErrorResponse {
   success: false;
-  error: string;                  // Error message
+  error: string;                  // Error message or code
+  message?: string;               // Technical detail for error codes
   details?: unknown;              // Optional error details
-}
\ No newline at end of file
+}
+/**
+ * One step of the decision engine's reasoning
+ * from GET /api/ai/analyze/:address (amounts in USDC, e.g. "25.0")
+ */
+export interface DecisionTrace {
+  preChecks: Array<{
+    check: 'account_active' | 'auto_mode' | 'rate_limit';
+    passed: boolean;
+    detail: string;
+  }>;
+  availableFunds: {
+    walletBalance: string;
+    spendableBalance: string;     // Lower than wallet when bills are forecast
+    safetyBuffer: string;
+    available: string;
+    minSaveAmount: string;
+  } | null;
+  amount: {
+    strategy: string;
+    caps: Array<{
+      cap: 'percentage' | 'weekly_goal' | 'available_funds' | 'buffer_threshold' | 'goal_pace';
+      value: string;
+      detail: string;
+    }>;
+    boundBy: string;              // Cap that set the amount
+    amount: string;
+  } | null;
+  confidence: {
+    base: number;
+    adjustments: Array<{ factor: string; delta: number }>;
+    final: number;
+  } | null;
+  decidedBy: string;
+}
+
+/**
+ * AI analysis from GET /api/ai/analyze/:address
+ */
+export interface AiAnalysis {
+  address: string;
+  aiDecision: {
+    shouldSave: boolean;
+    amount: string;
+    reason: string;
+    confidence: string;           // e.g. "90%"
+    urgency: 'low' | 'medium' | 'high';
+    advisor: string | null;
+  };
+  strategy: string;
+  trace: DecisionTrace | null;
+}
+
+/**
+ * Withdrawal preview from GET /api/user/:address/withdraw-quote
+ * (amounts in USDC, e.g. "25.0")
+ */
+export interface WithdrawQuote {
+  address: string;
+  amount: string;
+  vaultBalance: string;           // Idle USDC in the vault
+  fromVault: string;
+  fromYield: string;              // Paid by unwinding the VVS position
+  unwind: {
+    liquidityTokens: string;      // LP tokens burned (raw units)
+    positionValue: string;        // Whole VVS position (getUserValue)
+    usdcFromPool: string;
+    usdtFromPool: string;
+    usdcFromSwap: string;
+    estimatedReceived: string;
+    slippage: string;
+    slippageBps: number;
+    toleranceBps: number;
+    exceedsTolerance: boolean;
+  } | null;
+  shortfall: string;
+  willRevert: boolean;            // The vault would come up short
+}
+
+/**
+ * Vault events emitted by a confirmed withdraw()
+ */
+export interface WithdrawResult {
+  txHash: string;
+  withdrawn: {
+    amount: string;
+    newBalance: string;
+  } | null;
+  withdrawnFromYield: {
+    liquidityTokens: string;
+    usdcAmount: string;
+  } | null;
+}
+
+/**
+ * A save the AI proposed to a MANUAL account
+ * from GET /api/user/:address/proposals (amount in USDC, e.g. "25.0")
+ */
+export interface SaveProposal {
+  id: string;
+  user: string;
+  amount: string;
+  amountInSmallestUnit: string;
+  reason: string;
+  confidence: number;             // 0-1
+  urgency: 'low' | 'medium' | 'high';
+  strategy: string;
+  status: 'pending' | 'accepted' | 'dismissed' | 'expired';
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt?: string;
+  paymentId?: string;
+  depositTxHash?: string;         // Vault deposit that accepted it
+}
+
+/**
+ * A user's proposals, newest first, with the open one as `pending`
+ */
+export interface SaveProposals {
+  address: string;
+  pending: SaveProposal | null;
+  proposals: SaveProposal[];
+}
+
+/**
+ * An in-app notification
+ * from GET /api/user/:address/notifications/feed
+ */
+export interface AppNotification {
+  id: string;
+  type: 'save_executed' | 'save_skipped' | 'save_failed' | 'proposal_created' | 'low_balance';
+  user: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;  // The event's fields (amounts in USDC)
+  createdAt: string;
+}
+
+/**
+ * A vault event from the live stream (USDC args formatted, e.g. "25.0")
+ * GET /api/user/:address/events, event "vault_event"
+ */
+export interface LiveVaultEvent {
+  name: 'Deposited' | 'AutoSaveExecuted' | 'Withdrawn' | 'GoalUpdated';
+  args: Record<string, string>;   // amount, newBalance, newWeeklyGoal, ...
+  transactionHash: string;
+  blockNumber: number;
+  blockTimestamp: number;         // Unix seconds
+}
+
+/**
+ * A scheduler decision from the live stream (amount in USDC)
+ * GET /api/user/:address/events, event "decision"
+ */
+export interface LiveDecision {
+  id: string;
+  action: 'skipped' | 'executed' | 'failed' | 'proposed' | 'none';
+  shouldSave: boolean;
+  amount: string;
+  confidence: number;             // 0-1
+  urgency: 'low' | 'medium' | 'high';
+  strategy: string;
+  reason: string;
+  actionReason?: string;          // Skip reason or error
+  txHash?: string;
+  proposalId?: string;
+  createdAt: string;
+}
+
+/**
+ * Kind of entry in the activity timeline
+ * - payment: a settled x402 payment not yet credited by a deposit
+ */
+export type HistoryEntryType =
+  | 'deposit'
+  | 'yield_deposit'
+  | 'auto_save'
+  | 'withdrawal'
+  | 'yield_withdrawal'
+  | 'payment';
+
+/**
+ * One vault transaction
+ * from GET /api/user/:address/history (amount in USDC, e.g. "25.0")
+ */
+export interface HistoryEntry {
+  id: string;
+  type: HistoryEntryType;
+  event?: string;                 // Vault event behind the entry
+  amount: string;
+  amountInSmallestUnit: string;
+  timestamp: string;              // Block time (payments: last update)
+  blockNumber?: number;
+  transactionHash?: string;
+  explorerUrl?: string;
+  payment?: {                     // x402 payment behind a deposit
+    paymentId: string;
+    status: 'challenged' | 'verified' | 'settled' | 'credited' | 'failed';
+    facilitatorTxHash?: string;
+    facilitatorExplorerUrl?: string;
+    depositTxHash?: string;
+  };
+}
+
+/**
+ * A page of the user's history, newest first
+ */
+export interface HistoryPage {
+  address: string;
+  entries: HistoryEntry[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Filters for GET /api/user/:address/history
+ * from/to are dates (YYYY-MM-DD), both inclusive
+ */
+export interface HistoryFilters {
+  types?: HistoryEntryType[];
+  from?: string;
+  to?: string;
+}
+
+/**
+ * One point of the yield value vs cost basis chart (USDC)
+ */
+export interface PerformancePoint {
+  timestamp: string;
+  value: string;
+  costBasis: string;
+}
+
+/**
+ * The user's VVS yield strategy performance
+ * from GET /api/user/:address/performance (amounts in USDC, e.g. "25.0")
+ */
+export interface YieldPerformance {
+  liquidityTokens: string;        // Smallest unit
+  costBasis: string;              // USDC still invested
+  currentValue: string;
+  cumulativeYield: string;        // Pool fees earned on the user's LP
+  swapCost: string;               // entryCost + exitCost
+  entryCost: string;
+  exitCost: string;
+  realizedPnl: string;
+  unrealizedPnl: string;
+  totalPnl: string;               // cumulativeYield - swapCost
+  timeWeightedReturn: number;     // Fraction, e.g. 0.012 for 1.2%
+  apy: number | null;             // null under a day of history
+  trackedSince: string | null;
+  contractYield: string | null;   // VVSYieldStrategy.calculateYield
+  lastSnapshotAt: string;
+  series: PerformancePoint[];     // Oldest first
+}
+
+/**
+ * Download format of GET /api/user/:address/statement
+ */
+export type StatementFormat = 'csv' | 'json';
+
+export type PotPriority = 'low' | 'medium' | 'high';
+
+/**
+ * A named savings goal
+ * from GET /api/user/:address/pots (amounts in USDC, e.g. "25.0")
+ */
+export interface SavingsPot {
+  id: string;
+  name: string;
+  targetAmount: string;
+  savedAmount: string;
+  remaining: string;
+  progress: number;               // 0-1
+  deadline: number | null;        // Unix seconds
+  priority: PotPriority;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A pot as sent to PUT /api/user/:address/pots (no id for a new pot)
+ */
+export interface SavingsPotInput {
+  id?: string;
+  name: string;
+  targetAmount: string;           // USDC
+  deadline?: number;
+  priority: PotPriority;
+}
@@ -5,6 +5,8 @@
  */
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
+  readonly VITE_VAULT_ADDRESS?: string;
+  readonly VITE_USDC_ADDRESS?: string;
 }
 
 interface ImportMeta {